@@ -2,3 +2,9 @@ import './config';
 export * from './lib/functions';
 export * from './lib/draft-functions';
 export * from './lib/fa-functions';
+export * from './lib/cap-functions';
+export * from './lib/tag-functions';
+export * from './lib/rfa-functions';
+export * from './lib/season-functions';
+export * from './lib/trade-functions';
+export * from './lib/extension-functions';
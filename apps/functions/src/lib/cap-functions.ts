@@ -0,0 +1,881 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import type { WriteBatch } from 'firebase-admin/firestore';
+import { admin, commitInBatches } from './utils/admin';
+import {
+  assertCommissioner,
+  assertPhaseAllows,
+  getLeagueTeams,
+  getPlayerPositions,
+  getTeamOrThrow,
+} from './utils/teams';
+import {
+  assertCapCompliance,
+  buildOptionDecision,
+  calculateLedgerCapSpace,
+  getDeadMoneyRules,
+  getLeagueContracts,
+  getMissingContractEntries,
+  getSalaryCap,
+  getTeamContracts,
+  getTeamLedger,
+  getTeamMinimumSpendStatus,
+  toContract,
+} from './utils/cap';
+import {
+  CapLedgerService,
+  CapMath,
+  ContractOptionCalculator,
+  IncentiveCalculator,
+  LeaguePhaseMachine,
+  RookieScaleCalculator,
+} from './domain';
+import type { CapLedger, League, PlayerRelease } from './types';
+
+const { db } = admin();
+
+// ===== CAP MANAGEMENT FUNCTIONS =====
+
+/**
+ * Restructure a contract by converting base salary into prorated signing bonus
+ */
+export const restructureContract = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { contractId, year, amount } = request.data;
+
+    if (!contractId || !year || !amount) {
+      throw new HttpsError('invalid-argument', 'Missing required fields');
+    }
+    if (
+      ![year, amount].every((value) => Number.isInteger(value) && value > 0)
+    ) {
+      throw new HttpsError(
+        'invalid-argument',
+        'Year and amount must be positive whole numbers'
+      );
+    }
+
+    const contractRef = db.collection('contracts').doc(contractId);
+
+    const result = await db.runTransaction(async (transaction) => {
+      const contractDoc = await transaction.get(contractRef);
+      if (!contractDoc.exists) {
+        throw new HttpsError('not-found', 'Contract not found');
+      }
+
+      const contract = toContract(contractDoc.id, contractDoc.data());
+      const { ref: teamRef, team } = await getTeamOrThrow(
+        contract.teamId,
+        transaction
+      );
+      if (team.ownerUserId !== request.auth?.uid) {
+        throw new HttpsError(
+          'permission-denied',
+          'Only the team owner can restructure contracts'
+        );
+      }
+
+      const leagueDoc = await transaction.get(
+        db.collection('leagues').doc(team.leagueId)
+      );
+      const league = leagueDoc.data() as League;
+      assertPhaseAllows(league, 'restructure');
+      if (year < league.currentYear) {
+        throw new HttpsError(
+          'failed-precondition',
+          'Cannot restructure a past league year'
+        );
+      }
+
+      const ledger = await getTeamLedger(team.id, transaction);
+
+      const restructure = CapMath.restructureContract(contract, year, amount);
+      if (!restructure.isValid) {
+        throw new HttpsError(
+          'failed-precondition',
+          restructure.errors.join(', ')
+        );
+      }
+
+      transaction.update(contractRef, {
+        startYear: restructure.contract.startYear,
+        endYear: restructure.contract.endYear,
+        baseSalary: restructure.contract.baseSalary,
+        signingBonus: restructure.contract.signingBonus,
+        guarantees: restructure.contract.guarantees,
+        restructures: restructure.contract.restructures,
+      });
+
+      const newEntries = [
+        ...getMissingContractEntries(contract, ledger),
+        ...restructure.ledgerEntries,
+      ];
+      newEntries.forEach((entry) => {
+        transaction.set(db.collection('capLedger').doc(entry.id), entry);
+      });
+
+      // Cap space is a cached view of the ledger
+      transaction.update(teamRef, {
+        capSpace: calculateLedgerCapSpace(league, [...ledger, ...newEntries]),
+        updatedAt: new Date(),
+      });
+
+      return restructure;
+    });
+
+    return {
+      success: true,
+      restructure: result.restructure,
+      capImpact: result.capImpact,
+    };
+  } catch (error) {
+    console.error('Error restructuring contract:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to restructure contract');
+  }
+});
+
+/**
+ * Release a player: remove the roster slot, close the contract and charge
+ * dead money to the cap ledger
+ */
+export const releasePlayer = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { contractId, postJune1Designation = false } = request.data;
+
+    if (!contractId) {
+      throw new HttpsError('invalid-argument', 'Contract ID is required');
+    }
+
+    const contractRef = db.collection('contracts').doc(contractId);
+
+    const release = await db.runTransaction(async (transaction) => {
+      const contractDoc = await transaction.get(contractRef);
+      if (!contractDoc.exists) {
+        throw new HttpsError('not-found', 'Contract not found');
+      }
+
+      const contract = toContract(contractDoc.id, contractDoc.data());
+      const { ref: teamRef, team } = await getTeamOrThrow(
+        contract.teamId,
+        transaction
+      );
+      if (team.ownerUserId !== request.auth?.uid) {
+        throw new HttpsError(
+          'permission-denied',
+          'Only the team owner can release players'
+        );
+      }
+
+      const leagueDoc = await transaction.get(
+        db.collection('leagues').doc(team.leagueId)
+      );
+      const league = leagueDoc.data() as League;
+      assertPhaseAllows(league, 'release');
+
+      const designationsSnapshot = await transaction.get(
+        db
+          .collection('releases')
+          .where('teamId', '==', team.id)
+          .where('leagueYear', '==', league.currentYear)
+          .where('postJune1Designation', '==', true)
+      );
+      const ledger = await getTeamLedger(team.id, transaction);
+
+      // Injury-only guarantees become dead money when released off IR
+      const onInjuredReserve = (team.roster || []).some(
+        (slot) => slot.playerId === contract.playerId && slot.status === 'ir'
+      );
+
+      const result = CapMath.releaseContract(
+        contract,
+        league.currentYear,
+        getDeadMoneyRules(league),
+        postJune1Designation,
+        designationsSnapshot.size,
+        onInjuredReserve
+      );
+      if (!result.isValid) {
+        throw new HttpsError('failed-precondition', result.errors.join(', '));
+      }
+
+      transaction.update(contractRef, {
+        status: 'released',
+        releasedYear: league.currentYear,
+        updatedAt: new Date(),
+      });
+
+      const newEntries = [
+        ...getMissingContractEntries(contract, ledger),
+        ...result.ledgerEntries,
+      ];
+      newEntries.forEach((entry) => {
+        transaction.set(db.collection('capLedger').doc(entry.id), entry);
+      });
+
+      const releaseRef = db.collection('releases').doc();
+      const playerRelease: PlayerRelease = {
+        id: releaseRef.id,
+        leagueId: team.leagueId,
+        teamId: team.id,
+        playerId: contract.playerId,
+        contractId: contract.id,
+        leagueYear: league.currentYear,
+        postJune1Designation,
+        deadMoneyByYear: result.deadMoneyByYear,
+        capSavings: result.capSavings,
+        releasedAt: new Date(),
+      };
+      transaction.set(releaseRef, playerRelease);
+
+      transaction.update(teamRef, {
+        roster: (team.roster || []).filter(
+          (slot) => slot.playerId !== contract.playerId
+        ),
+        capSpace: calculateLedgerCapSpace(league, [...ledger, ...newEntries]),
+        updatedAt: new Date(),
+      });
+
+      return playerRelease;
+    });
+
+    return { success: true, release };
+  } catch (error) {
+    console.error('Error releasing player:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to release player');
+  }
+});
+
+/**
+ * Rebuild a team's cap ledger from its contracts and recompute cap space
+ */
+export const rebuildTeamCap = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { teamId } = request.data;
+
+    if (!teamId) {
+      throw new HttpsError('invalid-argument', 'Team ID is required');
+    }
+
+    const { ref: teamRef, team } = await getTeamOrThrow(teamId);
+    await assertCommissioner(team.leagueId, request.auth.uid);
+
+    const leagueDoc = await db.collection('leagues').doc(team.leagueId).get();
+    const league = leagueDoc.data() as League;
+
+    const [contracts, existingEntries] = await Promise.all([
+      getTeamContracts(teamId),
+      getTeamLedger(teamId),
+    ]);
+    const rebuiltEntries = CapLedgerService.rebuildTeamLedger(
+      teamId,
+      contracts,
+      existingEntries
+    );
+    const capSpace = calculateLedgerCapSpace(league, rebuiltEntries);
+
+    // Deletes come first so a rebuilt entry with the same id is not removed
+    const writes: ((batch: WriteBatch) => void)[] = [];
+    existingEntries
+      .filter((entry) => entry.refType === 'contract')
+      .forEach((entry) => {
+        writes.push((batch) =>
+          batch.delete(db.collection('capLedger').doc(entry.id))
+        );
+      });
+    rebuiltEntries
+      .filter((entry) => entry.refType === 'contract')
+      .forEach((entry) => {
+        writes.push((batch) =>
+          batch.set(db.collection('capLedger').doc(entry.id), entry)
+        );
+      });
+    writes.push((batch) =>
+      batch.update(teamRef, {
+        capSpace,
+        updatedAt: new Date(),
+      })
+    );
+    await commitInBatches(writes);
+
+    return {
+      success: true,
+      previousCapSpace: team.capSpace,
+      capSpace,
+      ledger: CapLedgerService.summarizeByYear(rebuiltEntries),
+    };
+  } catch (error) {
+    console.error('Error rebuilding team cap:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to rebuild team cap');
+  }
+});
+
+/**
+ * Flag teams in a league whose stored cap space disagrees with the ledger
+ */
+export const checkCapConsistency = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { leagueId } = request.data;
+
+    if (!leagueId) {
+      throw new HttpsError('invalid-argument', 'League ID is required');
+    }
+
+    await assertCommissioner(leagueId, request.auth.uid);
+
+    const leagueDoc = await db.collection('leagues').doc(leagueId).get();
+    if (!leagueDoc.exists) {
+      throw new HttpsError('not-found', 'League not found');
+    }
+    const league = leagueDoc.data() as League;
+
+    const teams = await getLeagueTeams(leagueId);
+    const results = await Promise.all(
+      teams.map(async ({ team }) =>
+        CapLedgerService.checkConsistency(
+          team,
+          await getTeamLedger(team.id),
+          league.currentYear,
+          getSalaryCap(league)
+        )
+      )
+    );
+
+    return {
+      leagueYear: league.currentYear,
+      results,
+      inconsistentTeamIds: results
+        .filter((result) => !result.isConsistent)
+        .map((result) => result.teamId),
+    };
+  } catch (error) {
+    console.error('Error checking cap consistency:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to check cap consistency');
+  }
+});
+
+/**
+ * Current-year cash spend for every team in a league against the minimum
+ * spend floor
+ */
+export const getMinimumSpendStatus = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { leagueId } = request.data;
+
+    if (!leagueId) {
+      throw new HttpsError('invalid-argument', 'League ID is required');
+    }
+
+    const leagueDoc = await db.collection('leagues').doc(leagueId).get();
+    if (!leagueDoc.exists) {
+      throw new HttpsError('not-found', 'League not found');
+    }
+    const league = leagueDoc.data() as League;
+
+    const teams = await getLeagueTeams(leagueId);
+    const results = await Promise.all(
+      teams.map(({ team }) => getTeamMinimumSpendStatus(league, team.id))
+    );
+
+    return {
+      leagueYear: league.currentYear,
+      minimumSpend: league.rules?.cap?.minimumSpend || 0,
+      results,
+      belowFloorTeamIds: results
+        .filter((result) => !result.isCompliant)
+        .map((result) => result.teamId),
+    };
+  } catch (error) {
+    console.error('Error getting minimum spend status:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to get minimum spend status');
+  }
+});
+
+/**
+ * Settle contract incentives once the season's scoring is final. Earned
+ * unlikely incentives and unearned likely incentives become next-year ledger
+ * adjustments, and next season's incentives are reclassified from this
+ * season's stats.
+ */
+export const settleIncentives = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { leagueId } = request.data;
+
+    if (!leagueId) {
+      throw new HttpsError('invalid-argument', 'League ID is required');
+    }
+
+    await assertCommissioner(leagueId, request.auth.uid);
+
+    const leagueDoc = await db.collection('leagues').doc(leagueId).get();
+    if (!leagueDoc.exists) {
+      throw new HttpsError('not-found', 'League not found');
+    }
+    const league = leagueDoc.data() as League;
+    // Incentives are settled from final stats once the season is over
+    assertPhaseAllows(league, 'settleIncentives');
+    const year = league.currentYear;
+
+    const teams = await getLeagueTeams(leagueId);
+    const snapshots = await Promise.all(
+      teams.map(({ team }) =>
+        db.collection('contracts').where('teamId', '==', team.id).get()
+      )
+    );
+    const contractDocs = snapshots
+      .flatMap((snapshot) => snapshot.docs)
+      .map((contractDoc) => ({
+        ref: contractDoc.ref,
+        isOffer: contractDoc.data()['startYear'] === undefined,
+        contract: toContract(contractDoc.id, contractDoc.data()),
+      }))
+      .filter(
+        ({ contract }) =>
+          contract.status !== 'released' &&
+          (contract.incentives || []).some(
+            (incentive) =>
+              incentive.year === year || incentive.year === year + 1
+          )
+      );
+
+    const playerIds = [
+      ...new Set(contractDocs.map(({ contract }) => contract.playerId)),
+    ];
+    const playerDocs = await Promise.all(
+      playerIds.map((playerId) => db.collection('players').doc(playerId).get())
+    );
+    const statsByPlayerId = Object.fromEntries(
+      playerDocs.map((playerDoc) => [
+        playerDoc.id,
+        playerDoc.data()?.['stats'] || [],
+      ])
+    );
+
+    const writes: ((batch: WriteBatch) => void)[] = [];
+    const results = contractDocs.map(({ ref, isOffer, contract }) => {
+      const stats = statsByPlayerId[contract.playerId] || [];
+      const settlements = IncentiveCalculator.settleIncentives(
+        contract,
+        stats,
+        year
+      );
+      const incentives = IncentiveCalculator.classifyIncentives(
+        (contract.incentives || []).map((incentive) => {
+          const settlement = settlements.find(
+            (entry) => entry.incentiveId === incentive.id
+          );
+          return settlement
+            ? { ...incentive, earned: settlement.earned }
+            : incentive;
+        }),
+        stats,
+        year + 1
+      );
+
+      // Next season's contract charge follows the new classification
+      const entries = [
+        ...IncentiveCalculator.createSettlementEntries(contract, settlements),
+        ...CapLedgerService.createContractEntries({
+          ...contract,
+          incentives,
+        }).filter((entry) => entry.leagueYear === year + 1),
+      ];
+
+      entries.forEach((entry) => {
+        writes.push((batch) =>
+          batch.set(db.collection('capLedger').doc(entry.id), entry)
+        );
+      });
+      writes.push((batch) =>
+        batch.set(
+          ref,
+          isOffer ? { contract: { incentives } } : { incentives },
+          { merge: true }
+        )
+      );
+
+      return {
+        contractId: contract.id,
+        teamId: contract.teamId,
+        settlements,
+      };
+    });
+    await commitInBatches(writes);
+
+    return { leagueYear: year, results };
+  } catch (error) {
+    console.error('Error settling incentives:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to settle incentives');
+  }
+});
+
+/**
+ * Exercise or decline the fifth-year option on a first-round rookie contract.
+ * An exercised option signs the player for a fully guaranteed extra season
+ * priced at the average of the top cap hits at the player's position.
+ */
+export const decideFifthYearOption = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { contractId, exercise } = request.data;
+
+    if (!contractId || typeof exercise !== 'boolean') {
+      throw new HttpsError('invalid-argument', 'Missing required fields');
+    }
+
+    const contractRef = db.collection('contracts').doc(contractId);
+    const contractDoc = await contractRef.get();
+    if (!contractDoc.exists) {
+      throw new HttpsError('not-found', 'Contract not found');
+    }
+    const { team } = await getTeamOrThrow(contractDoc.data()?.['teamId']);
+    if (team.ownerUserId !== request.auth.uid) {
+      throw new HttpsError(
+        'permission-denied',
+        'Only the team owner can decide fifth-year options'
+      );
+    }
+
+    const leagueDoc = await db.collection('leagues').doc(team.leagueId).get();
+    const league = leagueDoc.data() as League;
+    assertPhaseAllows(league, 'contractOption');
+    const rules = RookieScaleCalculator.getRules(
+      league.rules?.contracts?.rookieWageScale
+    );
+
+    // Option salaries come from league-wide salaries, read before the transaction
+    const teams = await getLeagueTeams(team.leagueId);
+    const [contracts, positions] = await Promise.all([
+      getLeagueContracts(teams),
+      getPlayerPositions(teams),
+    ]);
+
+    const contract = await db.runTransaction(async (transaction) => {
+      const currentDoc = await transaction.get(contractRef);
+      const current = toContract(currentDoc.id, currentDoc.data());
+      const { ref: teamRef } = await getTeamOrThrow(
+        current.teamId,
+        transaction
+      );
+      const ledger = await getTeamLedger(current.teamId, transaction);
+
+      const errors = RookieScaleCalculator.validateFifthYearOption(
+        current,
+        league.currentYear,
+        new Date(),
+        rules
+      );
+      if (errors.length > 0) {
+        throw new HttpsError('failed-precondition', errors.join(', '));
+      }
+
+      if (!exercise) {
+        const declined = {
+          ...current,
+          rookieContract: current.rookieContract && {
+            ...current.rookieContract,
+            fifthYearOption: 'declined' as const,
+          },
+        };
+        transaction.update(contractRef, {
+          rookieContract: declined.rookieContract,
+        });
+        return declined;
+      }
+
+      // The option is priced off the position's top cap hits in the option year
+      const optionSalary = RookieScaleCalculator.calculateOptionSalary(
+        contracts,
+        positions,
+        positions[current.playerId],
+        current.endYear + 1,
+        rules
+      );
+      if (optionSalary <= 0) {
+        throw new HttpsError(
+          'failed-precondition',
+          'No option salary available for this position'
+        );
+      }
+
+      const optionContract = RookieScaleCalculator.createOptionContract(
+        current,
+        optionSalary
+      );
+      const newEntries = CapLedgerService.createContractEntries(optionContract);
+      assertCapCompliance(league, current.teamId, ledger, newEntries);
+
+      transaction.update(contractRef, {
+        rookieContract: optionContract.rookieContract,
+      });
+      transaction.set(db.collection('contracts').doc(optionContract.id), {
+        ...optionContract,
+        leagueId: team.leagueId,
+      });
+      newEntries.forEach((entry) => {
+        transaction.set(db.collection('capLedger').doc(entry.id), entry);
+      });
+      transaction.update(teamRef, {
+        capSpace: calculateLedgerCapSpace(league, [...ledger, ...newEntries]),
+        updatedAt: new Date(),
+      });
+
+      return optionContract;
+    });
+
+    return { success: true, contract };
+  } catch (error) {
+    console.error('Error deciding fifth-year option:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to decide fifth-year option');
+  }
+});
+
+/**
+ * Exercise or decline a team option. An exercised option signs the player
+ * for the option year at the salary and option bonus written into the
+ * original contract.
+ */
+export const decideContractOption = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { contractId, exercise } = request.data;
+
+    if (!contractId || typeof exercise !== 'boolean') {
+      throw new HttpsError('invalid-argument', 'Missing required fields');
+    }
+
+    const contractRef = db.collection('contracts').doc(contractId);
+    const contractDoc = await contractRef.get();
+    if (!contractDoc.exists) {
+      throw new HttpsError('not-found', 'Contract not found');
+    }
+    const { team } = await getTeamOrThrow(contractDoc.data()?.['teamId']);
+    if (team.ownerUserId !== request.auth.uid) {
+      throw new HttpsError(
+        'permission-denied',
+        'Only the team owner can decide team options'
+      );
+    }
+
+    const leagueDoc = await db.collection('leagues').doc(team.leagueId).get();
+    const league = leagueDoc.data() as League;
+    assertPhaseAllows(league, 'contractOption');
+
+    const contract = await db.runTransaction(async (transaction) => {
+      const currentDoc = await transaction.get(contractRef);
+      const current = toContract(currentDoc.id, currentDoc.data());
+      const { ref: teamRef } = await getTeamOrThrow(
+        current.teamId,
+        transaction
+      );
+      const ledger = await getTeamLedger(current.teamId, transaction);
+
+      const errors = ContractOptionCalculator.validateOptionDecision(
+        current,
+        league.currentYear,
+        new Date()
+      );
+      if (errors.length > 0) {
+        throw new HttpsError('failed-precondition', errors.join(', '));
+      }
+
+      const decision = buildOptionDecision(
+        current,
+        currentDoc.data()?.['startYear'] === undefined,
+        exercise
+      );
+      if (decision.optionContract) {
+        assertCapCompliance(league, current.teamId, ledger, decision.entries);
+      }
+      transaction.set(contractRef, decision.update, { merge: true });
+      if (!decision.optionContract) {
+        return decision.contract;
+      }
+
+      transaction.set(
+        db.collection('contracts').doc(decision.optionContract.id),
+        { ...decision.optionContract, leagueId: team.leagueId }
+      );
+      decision.entries.forEach((entry) => {
+        transaction.set(db.collection('capLedger').doc(entry.id), entry);
+      });
+      transaction.update(teamRef, {
+        capSpace: calculateLedgerCapSpace(league, [
+          ...ledger,
+          ...decision.entries,
+        ]),
+        updatedAt: new Date(),
+      });
+
+      return decision.optionContract;
+    });
+
+    return { success: true, contract };
+  } catch (error) {
+    console.error('Error deciding contract option:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to decide contract option');
+  }
+});
+
+/**
+ * Resolve options whose deadline has passed. Undecided team options are
+ * declined; players exercise their options when the option year pays at
+ * least their current average salary.
+ */
+export const resolveContractOptions = onSchedule(
+  'every day 03:00',
+  async () => {
+    try {
+      // Options are only decided while the league's phase allows it
+      const leaguesSnapshot = await db
+        .collection('leagues')
+        .where(
+          'phase',
+          'in',
+          LeaguePhaseMachine.getAllowedPhases('contractOption')
+        )
+        .get();
+      const now = new Date();
+
+      for (const leagueDoc of leaguesSnapshot.docs) {
+        const league = leagueDoc.data() as League;
+        const teams = await getLeagueTeams(leagueDoc.id);
+        const snapshots = await Promise.all(
+          teams.map(({ team }) =>
+            db.collection('contracts').where('teamId', '==', team.id).get()
+          )
+        );
+
+        const writes: ((batch: WriteBatch) => void)[] = [];
+        const newEntries: CapLedger[] = [];
+        let resolved = 0;
+        snapshots
+          .flatMap((snapshot) => snapshot.docs)
+          .forEach((contractDoc) => {
+            const contract = toContract(contractDoc.id, contractDoc.data());
+            const option = ContractOptionCalculator.getPendingOption(contract);
+            if (
+              !option ||
+              contract.status === 'released' ||
+              contract.endYear !== league.currentYear ||
+              !ContractOptionCalculator.isPastDeadline(option, now)
+            ) {
+              return;
+            }
+
+            const exercise =
+              option.holder === 'player' &&
+              ContractOptionCalculator.shouldPlayerExercise(contract, option);
+            const decision = buildOptionDecision(
+              contract,
+              contractDoc.data()['startYear'] === undefined,
+              exercise
+            );
+            writes.push((batch) =>
+              batch.set(contractDoc.ref, decision.update, { merge: true })
+            );
+            if (decision.optionContract) {
+              const optionContract = decision.optionContract;
+              writes.push((batch) =>
+                batch.set(db.collection('contracts').doc(optionContract.id), {
+                  ...optionContract,
+                  leagueId: leagueDoc.id,
+                })
+              );
+            }
+            decision.entries.forEach((entry) => {
+              writes.push((batch) =>
+                batch.set(db.collection('capLedger').doc(entry.id), entry)
+              );
+            });
+            newEntries.push(...decision.entries);
+            resolved++;
+          });
+
+        if (resolved === 0) {
+          continue;
+        }
+
+        // Exercised options add cap charges, so refresh those teams' cap space
+        const chargedTeams = teams.filter(({ team }) =>
+          newEntries.some((entry) => entry.teamId === team.id)
+        );
+        const ledgers = await Promise.all(
+          chargedTeams.map(({ team }) => getTeamLedger(team.id))
+        );
+        chargedTeams.forEach(({ ref, team }, index) => {
+          const ledger = [
+            ...ledgers[index],
+            ...newEntries.filter((entry) => entry.teamId === team.id),
+          ];
+          writes.push((batch) =>
+            batch.update(ref, {
+              capSpace: calculateLedgerCapSpace(league, ledger),
+              updatedAt: new Date(),
+            })
+          );
+        });
+
+        await commitInBatches(writes);
+        console.log(
+          `Resolved ${resolved} contract options in league ${leagueDoc.id}`
+        );
+      }
+    } catch (error) {
+      console.error('Error resolving contract options:', error);
+    }
+  }
+);
@@ -2,7 +2,26 @@ import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
 import { onSchedule } from 'firebase-functions/v2/scheduler';
 import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentSnapshot } from 'firebase-admin/firestore';
 import { admin } from './utils/admin';
+import {
+  assertCommissioner,
+  assertPhaseAllows,
+  getLeagueTeams,
+} from './utils/teams';
+import {
+  assertCapCompliance,
+  getTeamCapHolds,
+  getTeamContracts,
+  getTeamLedger,
+} from './utils/cap';
+import {
+  CapLedgerService,
+  ContractValidator,
+  DraftPickInventory,
+  LeaguePhaseMachine,
+  RookieScaleCalculator,
+} from './domain';
 import type {
   DraftState,
   DraftPick,
@@ -12,7 +31,9 @@ import type {
   Player,
   DraftSettings,
   AutodraftQueue,
+  PickForfeiture,
 } from '../local-types';
+import type { CapLedger, Pick as LeaguePick } from './types';
 
 const { db } = admin();
 
@@ -44,6 +65,7 @@ export const initializeDraft = onCall(async (request) => {
     }
 
     const league = leagueDoc.data() as League;
+    assertPhaseAllows(league, 'initializeDraft');
 
     // Get all teams in league
     const teamsSnapshot = await db
@@ -94,20 +116,70 @@ export const initializeDraft = onCall(async (request) => {
       draftOrder = generateDraftOrder(teams);
     }
 
-    // Create draft picks for all rounds
-    const picks = generateDraftPicks(leagueId, draftOrder, settings.rounds);
+    // Create draft picks for all rounds, leaving out picks forfeited as
+    // league penalties
+    const forfeituresSnapshot = await db
+      .collection('pickForfeitures')
+      .where('leagueId', '==', leagueId)
+      .where('year', '==', league.currentYear)
+      .get();
+    const forfeitures = forfeituresSnapshot.docs.map(
+      (doc) => doc.data() as PickForfeiture
+    );
+    // Traded picks in this year's inventory go to the team holding them.
+    // The inventory entries become draft board picks with the same IDs.
+    const inventorySnapshot = await db
+      .collection('futurePicks')
+      .where('leagueId', '==', leagueId)
+      .where('year', '>=', league.currentYear)
+      .get();
+    const inventory = inventorySnapshot.docs.map(
+      (doc) => doc.data() as LeaguePick
+    );
+    const allPicks = generateDraftPicks(
+      leagueId,
+      league.currentYear,
+      draftOrder,
+      settings.rounds,
+      inventory
+    );
+    const forfeitedPicks = allPicks
+      .filter((pick) =>
+        forfeitures.some(
+          (forfeiture) =>
+            forfeiture.teamId === pick.originalTeamId &&
+            forfeiture.round === pick.round
+        )
+      )
+      .map((pick) => pick.pickNumber);
+    const picks = allPicks.filter(
+      (pick) => !forfeitedPicks.includes(pick.pickNumber)
+    );
+    const firstPick = getNextPickNumber(0, forfeitedPicks);
+
+    // Keep inventories for the three drafts after this one
+    const futurePicks = DraftPickInventory.buildInventory(
+      inventory,
+      leagueId,
+      draftOrder,
+      DraftPickInventory.getDraftYears(league.currentYear, false),
+      league.rules?.draft?.rounds || settings.rounds
+    ).filter((pick) => !inventory.includes(pick));
 
     // Create draft state
     const draftStateRef = db.collection('draft-states').doc(leagueId);
     const draftState: DraftState = {
       id: leagueId,
       leagueId,
-      currentPick: 1,
-      currentTeamId: draftOrder[0],
+      currentPick: firstPick,
+      currentTeamId:
+        allPicks.find((pick) => pick.pickNumber === firstPick)?.currentTeamId ||
+        getNextTeamId(draftOrder, firstPick),
       timeRemaining: settings.timeLimit,
       isPaused: false,
       isComplete: false,
       draftOrder,
+      forfeitedPicks,
       completedPicks: [],
       settings,
       createdAt: new Date(),
@@ -125,9 +197,18 @@ export const initializeDraft = onCall(async (request) => {
         transaction.set(pickRef, pick);
       });
 
+      // This year's picks now live on the draft board
+      inventorySnapshot.docs
+        .filter((doc) => doc.data()['year'] === league.currentYear)
+        .forEach((doc) => transaction.delete(doc.ref));
+      futurePicks.forEach((pick) => {
+        transaction.set(db.collection('futurePicks').doc(pick.id), pick);
+      });
+
       // Update league phase to 'draft'
       transaction.update(leagueDoc.ref, {
         phase: 'draft',
+        status: 'drafting',
         updatedAt: new Date(),
       });
     });
@@ -140,6 +221,9 @@ export const initializeDraft = onCall(async (request) => {
     };
   } catch (error) {
     console.error('Error initializing draft:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
     throw new HttpsError('internal', 'Failed to initialize draft');
   }
 });
@@ -298,33 +382,32 @@ export const makeDraftPick = onCall(async (request) => {
 
     const draftState = draftStateDoc.data() as DraftState;
 
-    // Validate it's the correct team's turn
-    if (draftState.currentTeamId !== teamId) {
-      throw new HttpsError('failed-precondition', 'Not your turn to pick');
-    }
-
     if (draftState.isComplete) {
       throw new HttpsError('failed-precondition', 'Draft is already complete');
     }
 
-    // Get the current pick
-    const currentPickDoc = await db
-      .collection('picks')
-      .where('leagueId', '==', leagueId)
-      .where(
-        'round',
-        '==',
-        Math.ceil(draftState.currentPick / draftState.draftOrder.length)
-      )
-      .where('currentTeamId', '==', teamId)
-      .limit(1)
-      .get();
+    // Rookie contracts are slotted by the league's rookie scale
+    const leagueDoc = await db.collection('leagues').doc(leagueId).get();
+    const league = leagueDoc.data() as League;
+    assertPhaseAllows(league, 'draftPick');
+
+    // Get the current pick. Traded picks are made by the team holding them.
+    const currentPickDoc = await getDraftPickDoc(
+      leagueId,
+      league.currentYear,
+      draftState.currentPick
+    );
 
-    if (currentPickDoc.empty) {
+    if (!currentPickDoc) {
       throw new HttpsError('not-found', 'Current pick not found');
     }
 
-    const pick = currentPickDoc.docs[0].data() as DraftPick;
+    const pick = currentPickDoc.data() as DraftPick;
+
+    // Validate it's the correct team's turn
+    if (pick.currentTeamId !== teamId) {
+      throw new HttpsError('failed-precondition', 'Not your turn to pick');
+    }
 
     // Validate player is available
     const playerDoc = await db.collection('players').doc(playerId).get();
@@ -346,6 +429,27 @@ export const makeDraftPick = onCall(async (request) => {
     const player = playerDoc.data() as Player;
     const timeUsed = draftState.settings.timeLimit - draftState.timeRemaining;
 
+    // Draft rights and rookie contracts must fit under the cap
+    const [ledger, contracts] = await Promise.all([
+      getTeamLedger(teamId),
+      getTeamContracts(teamId),
+    ]);
+    const teamCap: TeamCapState = {
+      ledger,
+      capHolds: await getTeamCapHolds(teamId, contracts),
+    };
+
+    // The next pick may have been traded away from its draft order slot
+    const nextPickNumber = getNextPickNumber(
+      draftState.currentPick,
+      draftState.forfeitedPicks || []
+    );
+    const nextPickDoc = await getDraftPickDoc(
+      leagueId,
+      league.currentYear,
+      nextPickNumber
+    );
+
     // Process the pick
     await db.runTransaction(async (transaction) => {
       // Update the pick
@@ -357,7 +461,12 @@ export const makeDraftPick = onCall(async (request) => {
         timeUsed,
       };
 
-      transaction.update(currentPickDoc.docs[0].ref, updatedPick as any);
+      transaction.update(currentPickDoc.ref, {
+        playerId,
+        draftedAt: updatedPick.draftedAt,
+        isAutodrafted: false,
+        timeUsed,
+      });
 
       // Handle rights assignment based on player type
       await assignPlayerRights(
@@ -366,34 +475,29 @@ export const makeDraftPick = onCall(async (request) => {
         playerId,
         teamId,
         player,
-        'draft'
+        'draft',
+        pick,
+        league,
+        draftState.draftOrder.length,
+        teamCap
       );
 
       // Update draft state for next pick
-      const nextPickNumber = draftState.currentPick + 1;
       const totalPicks =
         draftState.draftOrder.length * draftState.settings.rounds;
 
       if (nextPickNumber > totalPicks) {
-        // Draft is complete
+        // Draft is complete; the league stays in the draft phase until the
+        // commissioner opens free agency
         transaction.update(draftStateDoc.ref, {
           isComplete: true,
           updatedAt: new Date(),
         });
-
-        // Update league phase
-        const leagueRef = db.collection('leagues').doc(leagueId);
-        transaction.update(leagueRef, {
-          phase: 'post-draft',
-          updatedAt: new Date(),
-        });
       } else {
         // Move to next pick
-        const nextTeamId = getNextTeamId(
-          draftState.draftOrder,
-          nextPickNumber,
-          draftState.settings.rounds
-        );
+        const nextTeamId =
+          (nextPickDoc?.data() as DraftPick | undefined)?.currentTeamId ||
+          getNextTeamId(draftState.draftOrder, nextPickNumber);
 
         transaction.update(draftStateDoc.ref, {
           currentPick: nextPickNumber,
@@ -416,6 +520,9 @@ export const makeDraftPick = onCall(async (request) => {
     };
   } catch (error) {
     console.error('Error making draft pick:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
     throw new HttpsError('internal', 'Failed to make draft pick');
   }
 });
@@ -522,6 +629,78 @@ export const pauseDraft = onCall(async (request) => {
   }
 });
 
+/**
+ * Create any missing tradable picks for the league's next three drafts, and
+ * this year's draft while it has not started. Existing picks keep their
+ * current owner.
+ */
+export const generatePickInventory = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { leagueId } = request.data;
+
+    if (!leagueId) {
+      throw new HttpsError('invalid-argument', 'League ID is required');
+    }
+
+    await assertCommissioner(leagueId, request.auth.uid);
+
+    const leagueDoc = await db.collection('leagues').doc(leagueId).get();
+    if (!leagueDoc.exists) {
+      throw new HttpsError('not-found', 'League not found');
+    }
+    const league = leagueDoc.data() as League;
+
+    const rounds = league.rules?.draft?.rounds;
+    if (!rounds) {
+      throw new HttpsError(
+        'failed-precondition',
+        'Set the number of draft rounds before generating picks'
+      );
+    }
+
+    const draftYears = DraftPickInventory.getDraftYears(
+      league.currentYear,
+      LeaguePhaseMachine.normalizePhase(league.phase) === 'offseason'
+    );
+    const [teams, inventorySnapshot] = await Promise.all([
+      getLeagueTeams(leagueId),
+      db
+        .collection('futurePicks')
+        .where('leagueId', '==', leagueId)
+        .where('year', '>=', draftYears[0])
+        .get(),
+    ]);
+    const inventory = inventorySnapshot.docs.map(
+      (doc) => doc.data() as LeaguePick
+    );
+    const picks = DraftPickInventory.buildInventory(
+      inventory,
+      leagueId,
+      teams.map(({ team }) => team.id),
+      draftYears,
+      rounds
+    ).filter((pick) => !inventory.includes(pick));
+
+    const batch = db.batch();
+    picks.forEach((pick) => {
+      batch.set(db.collection('futurePicks').doc(pick.id), pick);
+    });
+    await batch.commit();
+
+    return { success: true, draftYears, created: picks.length };
+  } catch (error) {
+    console.error('Error generating pick inventory:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to generate pick inventory');
+  }
+});
+
 // ===== HELPER FUNCTIONS =====
 
 /**
@@ -540,12 +719,15 @@ function generateDraftOrder(teams: Team[]): string[] {
 }
 
 /**
- * Generate all draft picks for the draft
+ * Generate all draft picks for the draft. Picks traded ahead of the draft
+ * belong to the team holding them in the pick inventory.
  */
 function generateDraftPicks(
   leagueId: string,
+  draftYear: number,
   draftOrder: string[],
-  rounds: number
+  rounds: number,
+  inventory: LeaguePick[]
 ): DraftPick[] {
   const picks: DraftPick[] = [];
   let pickNumber = 1;
@@ -555,12 +737,17 @@ function generateDraftPicks(
 
     for (const teamId of roundOrder) {
       const pick: DraftPick = {
-        id: `${leagueId}_${round}_${teamId}`,
+        id: DraftPickInventory.getPickId(leagueId, draftYear, round, teamId),
         leagueId,
-        year: new Date().getFullYear(),
+        year: draftYear,
         round,
         originalTeamId: teamId,
-        currentTeamId: teamId,
+        currentTeamId: DraftPickInventory.getOwner(
+          inventory,
+          draftYear,
+          round,
+          teamId
+        ),
         pickNumber,
         playerId: null,
         isCompleted: false,
@@ -577,13 +764,9 @@ function generateDraftPicks(
 }
 
 /**
- * Get the next team ID in the draft order
+ * Get the team whose slot in the draft order a pick number falls on
  */
-function getNextTeamId(
-  draftOrder: string[],
-  pickNumber: number,
-  totalRounds: number
-): string {
+function getNextTeamId(draftOrder: string[], pickNumber: number): string {
   const teamsCount = draftOrder.length;
   const round = Math.ceil(pickNumber / teamsCount);
   const positionInRound = (pickNumber - 1) % teamsCount;
@@ -596,6 +779,47 @@ function getNextTeamId(
   }
 }
 
+/**
+ * Load a pick on a draft board by its overall pick number
+ */
+async function getDraftPickDoc(
+  leagueId: string,
+  draftYear: number,
+  pickNumber: number
+): Promise<DocumentSnapshot | undefined> {
+  const snapshot = await db
+    .collection('picks')
+    .where('leagueId', '==', leagueId)
+    .where('year', '==', draftYear)
+    .where('pickNumber', '==', pickNumber)
+    .limit(1)
+    .get();
+  return snapshot.docs[0];
+}
+
+/**
+ * The next overall pick number after `pickNumber` that has not been forfeited
+ */
+function getNextPickNumber(
+  pickNumber: number,
+  forfeitedPicks: number[]
+): number {
+  let nextPickNumber = pickNumber + 1;
+  while (forfeitedPicks.includes(nextPickNumber)) {
+    nextPickNumber++;
+  }
+  return nextPickNumber;
+}
+
+/**
+ * A drafting team's cap ledger and outstanding cap holds, read before the
+ * pick transaction
+ */
+interface TeamCapState {
+  ledger: CapLedger[];
+  capHolds: number;
+}
+
 /**
  * Assign player rights based on player type (rookie vs veteran)
  */
@@ -605,7 +829,11 @@ async function assignPlayerRights(
   playerId: string,
   teamId: string,
   player: Player,
-  acquisitionMethod: 'draft' | 'auction' | 'free_agency'
+  acquisitionMethod: 'draft' | 'auction' | 'free_agency',
+  pick: DraftPick,
+  league: League,
+  teamCount: number,
+  teamCap: TeamCapState
 ) {
   const rightsRef = db
     .collection('player-rights')
@@ -625,7 +853,7 @@ async function assignPlayerRights(
       ? new Date() // Rookies get immediate contracts
       : new Date(Date.now() + 72 * 60 * 60 * 1000), // Veterans get 72 hours
     capHold: isRookie
-      ? calculateRookieCapHold(player)
+      ? calculateRookieCapHold(pick, league)
       : calculateVeteranCapHold(player),
     rightsExpireAt: isRookie
       ? new Date() // Rookies get immediate contracts
@@ -634,30 +862,44 @@ async function assignPlayerRights(
     createdAt: new Date(),
   };
 
+  // Rookies sign immediately; veterans carry a cap hold until they sign
+  if (!isRookie) {
+    assertCapCompliance(
+      league,
+      teamId,
+      teamCap.ledger,
+      [],
+      teamCap.capHolds,
+      rights.capHold
+    );
+  }
+
   transaction.set(rightsRef, rights);
 
   // If rookie, create immediate contract
   if (isRookie) {
-    await createRookieContract(transaction, leagueId, playerId, teamId, player);
+    await createRookieContract(
+      transaction,
+      leagueId,
+      playerId,
+      teamId,
+      pick,
+      league,
+      teamCount,
+      teamCap
+    );
   }
 }
 
 /**
- * Calculate rookie cap hold (based on draft position/round)
+ * Calculate rookie cap hold: the first-year slot value for the overall pick
  */
-function calculateRookieCapHold(player: Player): number {
-  // Simplified rookie scale - in reality this would be based on draft position
-  const baseAmount = 500000; // $500k base
-  const positionMultipliers: { [key: string]: number } = {
-    QB: 1.5,
-    RB: 1.2,
-    WR: 1.1,
-    TE: 1.0,
-    K: 0.8,
-    DEF: 0.9,
-  };
-
-  return baseAmount * (positionMultipliers[player.position] || 1.0);
+function calculateRookieCapHold(pick: DraftPick, league: League): number {
+  return RookieScaleCalculator.getSlotValue(
+    pick.pickNumber,
+    RookieScaleCalculator.getRules(league.rules?.contracts?.rookieWageScale),
+    league.rules?.cap?.salaryCap || 200000000
+  );
 }
 
 /**
@@ -684,44 +926,58 @@ function calculateVeteranCapHold(player: Player): number {
 }
 
 /**
- * Create automatic rookie contract
+ * Create automatic rookie contract slotted by overall pick, with its cap
+ * ledger entries
  */
 async function createRookieContract(
   transaction: FirebaseFirestore.Transaction,
   leagueId: string,
   playerId: string,
   teamId: string,
-  player: Player
+  pick: DraftPick,
+  league: League,
+  teamCount: number,
+  teamCap: TeamCapState
 ) {
   const contractRef = db.collection('contracts').doc();
-  const currentYear = new Date().getFullYear();
-
-  // Simple 3-year rookie deal
-  const baseAmount = calculateRookieCapHold(player);
-  const contract = {
-    id: contractRef.id,
+  const contract = RookieScaleCalculator.createRookieContract(
+    contractRef.id,
     playerId,
     teamId,
-    startYear: currentYear,
-    endYear: currentYear + 2, // 3 years
-    baseSalary: {
-      [currentYear]: baseAmount * 0.8,
-      [currentYear + 1]: baseAmount * 0.9,
-      [currentYear + 2]: baseAmount * 1.1,
-    },
-    signingBonus: baseAmount * 0.2,
-    guarantees: [
-      {
-        type: 'full' as const,
-        amount: baseAmount * 0.8,
-        year: currentYear,
-      },
-    ],
-    noTradeClause: false,
-    createdAt: new Date(),
-  };
+    pick.pickNumber,
+    teamCount,
+    league.currentYear || new Date().getFullYear(),
+    RookieScaleCalculator.getRules(league.rules?.contracts?.rookieWageScale),
+    league.rules?.cap?.salaryCap || 200000000
+  );
+
+  // Slotted salaries are not position-based, so no position multiplier applies
+  const errors = ContractValidator.validateContract(
+    contract,
+    ContractValidator.getRails(league.rules?.contracts?.rails)
+  );
+  if (errors.length > 0) {
+    throw new HttpsError(
+      'failed-precondition',
+      `Rookie contract breaks the league contract rails: ${errors
+        .map((error) => error.message)
+        .join(', ')}`
+    );
+  }
+
+  const entries = CapLedgerService.createContractEntries(contract);
+  assertCapCompliance(
+    league,
+    teamId,
+    teamCap.ledger,
+    entries,
+    teamCap.capHolds
+  );
 
-  transaction.set(contractRef, contract);
+  transaction.set(contractRef, { ...contract, leagueId });
+  entries.forEach((entry) => {
+    transaction.set(db.collection('capLedger').doc(entry.id), entry);
+  });
 }
 
 /**
@@ -0,0 +1,356 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentData, Transaction } from 'firebase-admin/firestore';
+import { admin } from './utils/admin';
+import { assertPhaseAllows, getTeamOrThrow } from './utils/teams';
+import {
+  assertCapCompliance,
+  calculateLedgerCapSpace,
+  getTeamLedger,
+  toContract,
+} from './utils/cap';
+import { getLeaguePlayers, toTeamLocation } from './utils/players';
+import { ContractExtensionEngine } from './contract-extension';
+import type {
+  EnhancedPlayer,
+  TradePreferences,
+} from './personalities/enhanced-player';
+import type { Contract, ContractExtension, League } from './types';
+
+const { db } = admin();
+
+// ===== CONTRACT EXTENSION FUNCTIONS =====
+
+/**
+ * Open the extension negotiation for a contract in its final year. The
+ * player's extension terms are set when the negotiation opens and stay fixed
+ * for the whole negotiation.
+ */
+export const openContractExtension = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { contractId } = request.data;
+
+    if (!contractId) {
+      throw new HttpsError('invalid-argument', 'Contract ID is required');
+    }
+
+    const { leagueId, league } = await getExtensionLeague(
+      contractId,
+      request.auth.uid
+    );
+
+    const negotiation = await db.runTransaction(async (transaction) => {
+      const negotiationRef = getNegotiationRef(contractId);
+      const [contractDoc, negotiationDoc] = await Promise.all([
+        transaction.get(db.collection('contracts').doc(contractId)),
+        transaction.get(negotiationRef),
+      ]);
+      const contract = toContract(contractDoc.id, contractDoc.data());
+      if (!ContractExtensionEngine.isEligible(contract, league.currentYear)) {
+        throw new HttpsError(
+          'failed-precondition',
+          'Only contracts in their final year can be extended'
+        );
+      }
+      if (negotiationDoc.exists) {
+        return negotiationDoc.data() as DocumentData;
+      }
+
+      const player = await getExtensionPlayer(
+        leagueId,
+        contract,
+        league.currentYear,
+        transaction
+      );
+      const created = {
+        id: negotiationRef.id,
+        playerId: contract.playerId,
+        teamId: contract.teamId,
+        leagueId,
+        contractId,
+        scenario: 'contract_extension',
+        extensionTerms: getExtensionTerms(contract, player),
+        negotiationHistory: [],
+        createdAt: new Date(),
+      };
+      transaction.set(negotiationRef, created);
+      return created;
+    });
+
+    return {
+      extensionTerms: negotiation['extensionTerms'],
+      negotiationHistory: negotiation['negotiationHistory'] || [],
+    };
+  } catch (error) {
+    console.error('Error opening contract extension:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to open contract extension');
+  }
+});
+
+/**
+ * Offer an extension to a player in the final year of his contract. His
+ * response is recorded in the extension negotiation; an accepted extension
+ * is saved as a new contract starting next season and charged to the cap
+ * ledger for those years, as long as the team stays under the cap.
+ */
+export const submitExtensionOffer = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const {
+      contractId,
+      years,
+      apy,
+      signingBonus = 0,
+      guaranteedAmount = 0,
+    } = request.data;
+
+    if (!contractId || !years || !apy) {
+      throw new HttpsError('invalid-argument', 'Missing required fields');
+    }
+    if (
+      ![years, apy].every((value) => Number.isInteger(value) && value > 0) ||
+      ![signingBonus, guaranteedAmount].every(
+        (value) => Number.isInteger(value) && value >= 0
+      )
+    ) {
+      throw new HttpsError(
+        'invalid-argument',
+        'Years and amounts must be whole numbers'
+      );
+    }
+
+    const { leagueId, league } = await getExtensionLeague(
+      contractId,
+      request.auth.uid
+    );
+
+    const result = await db.runTransaction(async (transaction) => {
+      const contractRef = db.collection('contracts').doc(contractId);
+      const negotiationRef = getNegotiationRef(contractId);
+      const [contractDoc, negotiationDoc, extendedSnapshot] = await Promise.all(
+        [
+          transaction.get(contractRef),
+          transaction.get(negotiationRef),
+          transaction.get(
+            db
+              .collection('contracts')
+              .where('extendsContractId', '==', contractId)
+              .limit(1)
+          ),
+        ]
+      );
+      if (!extendedSnapshot.empty) {
+        throw new HttpsError(
+          'failed-precondition',
+          'This contract has already been extended'
+        );
+      }
+      const current = toContract(contractDoc.id, contractDoc.data());
+      const { ref: teamRef, team } = await getTeamOrThrow(
+        current.teamId,
+        transaction
+      );
+      const ledger = await getTeamLedger(current.teamId, transaction);
+      const player = await getExtensionPlayer(
+        leagueId,
+        current,
+        league.currentYear,
+        transaction
+      );
+
+      // Terms fixed when the negotiation opened still stand
+      const negotiation = negotiationDoc.data();
+      const extensionTerms: TradePreferences['extensionTerms'] =
+        negotiation?.['extensionTerms'] || getExtensionTerms(current, player);
+      const proposal = ContractExtensionEngine.createProposal(
+        current,
+        years,
+        apy,
+        signingBonus,
+        guaranteedAmount
+      );
+      const result = ContractExtensionEngine.evaluateExtension(
+        {
+          ...player,
+          currentTeamId: current.teamId,
+          negotiationHistory: negotiation?.['negotiationHistory'] || [],
+          personality: {
+            ...player.personality,
+            tradePreferences: {
+              ...player.personality.tradePreferences,
+              extensionTerms,
+            },
+          },
+        },
+        current,
+        proposal,
+        {
+          team: toTeamLocation(team),
+          marketConditions: {
+            positionDemand: 0.5,
+            marketTrend: player.personality.marketContext.marketTrend,
+            recentComparables: [],
+            leagueCapSpace: 0,
+            teamCount: 0,
+          },
+          competingOffers: [],
+          currentWeek: 1,
+          seasonStage: 'RegularSeason',
+        },
+        league.currentYear,
+        negotiationRef.id
+      );
+      if (!result.isValid || !result.negotiationEntry) {
+        throw new HttpsError('failed-precondition', result.errors.join(', '));
+      }
+      if (result.contract) {
+        assertCapCompliance(
+          league,
+          current.teamId,
+          ledger,
+          result.ledgerEntries
+        );
+      }
+
+      if (negotiation) {
+        transaction.update(negotiationRef, {
+          negotiationHistory: FieldValue.arrayUnion(result.negotiationEntry),
+          updatedAt: new Date(),
+        });
+      } else {
+        transaction.set(negotiationRef, {
+          id: negotiationRef.id,
+          playerId: current.playerId,
+          teamId: current.teamId,
+          leagueId,
+          contractId,
+          scenario: 'contract_extension',
+          extensionTerms,
+          negotiationHistory: [result.negotiationEntry],
+          createdAt: new Date(),
+        });
+      }
+      if (!result.contract) {
+        return result;
+      }
+
+      const extension: ContractExtension = {
+        id: result.contract.id,
+        leagueId,
+        teamId: current.teamId,
+        playerId: current.playerId,
+        contractId,
+        newContractId: result.contract.id,
+        leagueYear: league.currentYear,
+        years: proposal.years,
+        totalValue: result.offer.totalValue,
+        guaranteedAmount: result.offer.guaranteedAmount,
+        signedAt: new Date(),
+      };
+      transaction.set(db.collection('contracts').doc(result.contract.id), {
+        ...result.contract,
+        leagueId,
+      });
+      transaction.set(db.collection('extensions').doc(extension.id), extension);
+      result.ledgerEntries.forEach((entry) => {
+        transaction.set(db.collection('capLedger').doc(entry.id), entry);
+      });
+      transaction.update(teamRef, {
+        capSpace: calculateLedgerCapSpace(league, [
+          ...ledger,
+          ...result.ledgerEntries,
+        ]),
+        updatedAt: new Date(),
+      });
+
+      return result;
+    });
+
+    return result;
+  } catch (error) {
+    console.error('Error submitting extension offer:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to submit extension offer');
+  }
+});
+
+// ===== HELPER FUNCTIONS =====
+
+/**
+ * Load the league of a contract being extended, checking the caller owns the
+ * team and the league phase allows extensions
+ */
+async function getExtensionLeague(
+  contractId: string,
+  userId: string
+): Promise<{ leagueId: string; league: League }> {
+  const contractDoc = await db.collection('contracts').doc(contractId).get();
+  if (!contractDoc.exists) {
+    throw new HttpsError('not-found', 'Contract not found');
+  }
+  const { team } = await getTeamOrThrow(contractDoc.data()?.['teamId']);
+  if (team.ownerUserId !== userId) {
+    throw new HttpsError(
+      'permission-denied',
+      'Only the team owner can extend contracts'
+    );
+  }
+
+  const leagueDoc = await db.collection('leagues').doc(team.leagueId).get();
+  const league = leagueDoc.data() as League;
+  assertPhaseAllows(league, 'extension');
+
+  return { leagueId: team.leagueId, league };
+}
+
+/**
+ * Load the player being extended from the league's player pool. This may
+ * give him a personality, so it comes after the transaction's other reads.
+ */
+async function getExtensionPlayer(
+  leagueId: string,
+  contract: Contract,
+  leagueYear: number,
+  transaction: Transaction
+): Promise<EnhancedPlayer> {
+  const players = await getLeaguePlayers(
+    leagueId,
+    [contract.playerId],
+    leagueYear,
+    transaction
+  );
+  const player = players.get(contract.playerId);
+  if (!player) {
+    throw new HttpsError('not-found', 'Player not found in league');
+  }
+  return player;
+}
+
+/**
+ * Terms a player demanded when waiving his no-trade clause stand; otherwise
+ * his personality sets them
+ */
+function getExtensionTerms(
+  contract: Contract,
+  player: EnhancedPlayer
+): TradePreferences['extensionTerms'] {
+  return contract.extensionDemand?.teamId === contract.teamId
+    ? { ...contract.extensionDemand.extensionTerms }
+    : player.personality.tradePreferences.extensionTerms;
+}
+
+function getNegotiationRef(contractId: string) {
+  return db.collection('contract-negotiations').doc(`${contractId}_extension`);
+}
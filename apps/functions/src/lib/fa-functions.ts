@@ -4,7 +4,22 @@ import {
   onDocumentUpdated,
 } from 'firebase-functions/v2/firestore';
 import { admin } from './utils/admin';
-import { FAWeekManager, OpenFAManager } from './domain';
+import {
+  CapComplianceChecker,
+  CapLedgerService,
+  ContractValidator,
+  FAWeekManager,
+  LeaguePhaseMachine,
+  OpenFAManager,
+} from './domain';
+import {
+  checkCapCompliance,
+  getTeamCapHolds,
+  getTeamContracts,
+  getTeamLedger,
+  toContract,
+} from './utils/cap';
+import type { League } from './types';
 
 const { db } = admin();
 
@@ -87,8 +102,42 @@ async function processPlayerBidsWithDomainLogic(
       return bValue - aValue;
     });
 
-    const bestBid = sortedBids[0];
-    const otherBids = sortedBids.slice(1);
+    // Bids that would put the bidding team over the cap cannot be accepted
+    const leagueDoc = await db
+      .collection('leagues')
+      .doc(sortedBids[0]['leagueId'])
+      .get();
+    const league = leagueDoc.data() as League;
+    const overCapBids = [];
+    let bestBid;
+    for (const bid of sortedBids) {
+      const shortfalls = await getBidCapShortfalls(league, playerId, bid);
+      if (!shortfalls) {
+        bestBid = bid;
+        break;
+      }
+      overCapBids.push({ bid, shortfalls });
+    }
+
+    for (const { bid, shortfalls } of overCapBids) {
+      await db
+        .collection('faBids')
+        .doc(bid['id'])
+        .update({
+          status: 'rejected',
+          evaluatedAt: new Date(),
+          feedback: `This offer would put the team over the cap in ${shortfalls}.`,
+        });
+    }
+
+    if (!bestBid) {
+      return {
+        playerId,
+        acceptedBidId: null,
+        rejectedBids: overCapBids.length,
+      };
+    }
+    const otherBids = sortedBids.slice(overCapBids.length + 1);
 
     // Accept best bid
     await db.collection('faBids').doc(bestBid['id']).update({
@@ -120,7 +169,7 @@ async function processPlayerBidsWithDomainLogic(
     return {
       playerId,
       acceptedBidId: bestBid['id'],
-      rejectedBids: otherBids.length,
+      rejectedBids: otherBids.length + overCapBids.length,
     };
   } catch (error) {
     console.error('Error processing player bids:', error);
@@ -128,6 +177,37 @@ async function processPlayerBidsWithDomainLogic(
   }
 }
 
+/**
+ * Years and amounts a bid would put the bidding team over the cap, or
+ * undefined when the team can afford it
+ */
+async function getBidCapShortfalls(
+  league: League,
+  playerId: string,
+  bid: FirebaseFirestore.DocumentData
+): Promise<string | undefined> {
+  const contract = toContract(bid['id'], {
+    playerId,
+    teamId: bid['teamId'],
+    contract: bid['offer'],
+  });
+  const [ledger, contracts] = await Promise.all([
+    getTeamLedger(bid['teamId']),
+    getTeamContracts(bid['teamId']),
+  ]);
+  const result = checkCapCompliance(
+    league,
+    bid['teamId'],
+    ledger,
+    CapLedgerService.createContractEntries(contract),
+    await getTeamCapHolds(bid['teamId'], [...contracts, contract])
+  );
+
+  return result.isCompliant
+    ? undefined
+    : CapComplianceChecker.describeShortfalls(result);
+}
+
 // ===== FIRESTORE TRIGGERS FOR REAL-TIME UPDATES =====
 
 /**
@@ -141,6 +221,11 @@ export const onFABidCreated = onDocumentCreated(
       `New FA bid created: ${bid?.['id']} for player ${bid?.['playerId']}`
     );
 
+    // Bids are written by clients, so the contract rails are enforced here
+    if (bid && (await rejectInvalidBid(event.params.bidId, bid))) {
+      return;
+    }
+
     // Update player status to 'bidding'
     if (bid?.['playerId']) {
       try {
@@ -164,6 +249,16 @@ export const onFABidUpdated = onDocumentUpdated(
     const before = event.data?.before.data();
     const after = event.data?.after.data();
 
+    if (
+      before &&
+      after &&
+      after['status'] === 'pending' &&
+      JSON.stringify(before['offer']) !== JSON.stringify(after['offer']) &&
+      (await rejectInvalidBid(event.params.bidId, after))
+    ) {
+      return;
+    }
+
     if (before && after && before['status'] !== after['status']) {
       console.log(
         `FA bid ${after['id']} status changed from ${before['status']} to ${after['status']}`
@@ -214,3 +309,38 @@ export const onFAWeekCreated = onDocumentCreated(
     // e.g., notify teams, set up timers, etc.
   }
 );
+
+/**
+ * Reject a bid placed outside free agency or whose offer breaks the league's
+ * contract rails
+ */
+async function rejectInvalidBid(
+  bidId: string,
+  bid: FirebaseFirestore.DocumentData
+): Promise<boolean> {
+  const leagueDoc = await db.collection('leagues').doc(bid['leagueId']).get();
+  const league = leagueDoc.data() as League | undefined;
+  const errors = LeaguePhaseMachine.isActionAllowed(
+    league?.phase,
+    'freeAgencyBid'
+  )
+    ? ContractValidator.validateOffer(
+        bid['offer'],
+        ContractValidator.getRails(league?.rules?.contracts?.rails),
+        bid['position']
+      ).map((error) => error.message)
+    : ['Free agency is not open'];
+  if (errors.length === 0) {
+    return false;
+  }
+
+  await db
+    .collection('faBids')
+    .doc(bidId)
+    .update({
+      status: 'rejected',
+      feedback: errors.join(', '),
+      evaluatedAt: new Date(),
+    });
+  return true;
+}
@@ -4,7 +4,20 @@ import {
   onDocumentUpdated,
 } from 'firebase-functions/v2/firestore';
 import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { Timestamp } from 'firebase-admin/firestore';
 import { admin } from './utils/admin';
+import { findTeam, getTeamOrThrow } from './utils/teams';
+import {
+  DEFAULT_CAP_GROWTH,
+  assertCapCompliance,
+  calculateLedgerCapSpace,
+  getSalaryCap,
+  getTeamCapHolds,
+  getTeamContracts,
+  getTeamLedger,
+} from './utils/cap';
+import { CapLedgerService, CapMath, RosterValidator } from './domain';
+import type { Contract, League, RosterStatus } from './types';
 
 const { db } = admin();
 
@@ -94,38 +107,136 @@ export const getTeam = onCall(async (request) => {
 
 export const getTeamCapSheet = onCall(async (request) => {
   try {
-    const { teamId, year } = request.data;
+    const { teamId, year, years = 5 } = request.data;
 
-    if (!teamId || !year) {
-      throw new HttpsError('invalid-argument', 'Team ID and year are required');
+    if (!teamId) {
+      throw new HttpsError('invalid-argument', 'Team ID is required');
     }
 
-    // Get team contracts for the year
-    const contractsSnapshot = await db
-      .collection('contracts')
-      .where('teamId', '==', teamId)
-      .where('startYear', '<=', year)
-      .where('endYear', '>=', year)
-      .get();
-
-    const contracts = contractsSnapshot.docs.map((doc) => doc.data());
+    const { team } = await getTeamOrThrow(teamId);
+    const leagueDoc = await db.collection('leagues').doc(team.leagueId).get();
+    const league = leagueDoc.data() as League;
+    const startYear = year || league.currentYear;
+
+    const [allContracts, ledgerEntries] = await Promise.all([
+      getTeamContracts(teamId),
+      getTeamLedger(teamId),
+    ]);
+    const contracts = allContracts.filter(
+      (contract) =>
+        contract.status !== 'released' && contract.endYear >= startYear
+    );
+    const capHolds = await getTeamCapHolds(teamId, allContracts);
 
     // Calculate cap hits
-    const capHits = contracts.map((contract) => ({
-      contractId: contract['id'],
-      playerId: contract['playerId'],
-      capHit: calculateCapHit(contract, year),
-    }));
+    const capHits = contracts
+      .filter((contract) => contract.startYear <= startYear)
+      .map((contract) => ({
+        contractId: contract.id,
+        playerId: contract.playerId,
+        capHit: calculateCapHit(contract, startYear),
+      }));
+
+    // Multi-year breakdown using the league's projected cap growth
+    const projection = CapMath.buildCapProjection(
+      contracts,
+      ledgerEntries,
+      capHolds,
+      startYear,
+      getSalaryCap(league),
+      league.rules?.cap?.projectedCapGrowth ?? DEFAULT_CAP_GROWTH,
+      years,
+      league.rules?.cap?.capCarryover
+    );
 
     return {
       capHits,
       totalCapHit: capHits.reduce((sum, hit) => sum + hit.capHit, 0),
+      projection,
+      contracts: contracts.map((contract) => ({
+        contractId: contract.id,
+        playerId: contract.playerId,
+        capHits: CapMath.calculateCapHitsByYear(contract, startYear),
+      })),
     };
   } catch (error) {
+    console.error('Error getting team cap sheet:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
     throw new HttpsError('internal', 'Failed to get team cap sheet');
   }
 });
 
+/**
+ * Move a player between the lineup, bench, IR and taxi squad. A traded
+ * player can't be put in the lineup before he reports.
+ */
+export const updateRosterStatus = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { teamId, playerId, status } = request.data;
+    const statuses: RosterStatus[] = ['active', 'bench', 'ir', 'taxi'];
+
+    if (!teamId || !playerId || !statuses.includes(status)) {
+      throw new HttpsError(
+        'invalid-argument',
+        'Team ID, player ID and a valid roster status are required'
+      );
+    }
+
+    await db.runTransaction(async (transaction) => {
+      const { ref: teamRef, team } = await getTeamOrThrow(teamId, transaction);
+      if (team.ownerUserId !== request.auth?.uid) {
+        throw new HttpsError(
+          'permission-denied',
+          'Only the team owner can set the lineup'
+        );
+      }
+
+      const roster = team.roster || [];
+      const slot = roster.find(
+        (rosterSlot) => String(rosterSlot.playerId) === String(playerId)
+      );
+      if (!slot) {
+        throw new HttpsError('not-found', 'Player is not on the roster');
+      }
+
+      const reportsOn =
+        slot.reportsOn instanceof Timestamp
+          ? slot.reportsOn.toDate()
+          : slot.reportsOn;
+      if (
+        status === 'active' &&
+        !RosterValidator.isAvailableForLineup({ ...slot, reportsOn })
+      ) {
+        throw new HttpsError(
+          'failed-precondition',
+          `Player reports on ${reportsOn?.toLocaleDateString()} and cannot be activated before then`
+        );
+      }
+
+      transaction.update(teamRef, {
+        roster: roster.map((rosterSlot) =>
+          rosterSlot === slot ? { ...rosterSlot, status } : rosterSlot
+        ),
+        updatedAt: new Date(),
+      });
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating roster status:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to update roster status');
+  }
+});
+
 // Contract Management Functions
 export const createContract = onCall(async (request) => {
   try {
@@ -147,7 +258,7 @@ export const createContract = onCall(async (request) => {
     }
 
     const contractRef = db.collection('contracts').doc();
-    const contract = {
+    const contract: Contract = {
       id: contractRef.id,
       playerId,
       teamId,
@@ -160,23 +271,53 @@ export const createContract = onCall(async (request) => {
       createdAt: new Date(),
     };
 
-    await contractRef.set(contract);
-
-    // Update team cap space
-    const teamRef = db.collection('teams').doc(teamId);
-    const teamDoc = await teamRef.get();
-    const team = teamDoc.data();
+    const batch = db.batch();
+    batch.set(contractRef, contract);
+
+    // Record the contract in the cap ledger and refresh cached cap space,
+    // rejecting contracts that would put the team over the cap
+    const teamRecord = await findTeam(teamId);
+
+    if (teamRecord) {
+      const leagueDoc = await db
+        .collection('leagues')
+        .doc(teamRecord.team.leagueId)
+        .get();
+      const league = leagueDoc.data() as League;
+      const [ledger, contracts] = await Promise.all([
+        getTeamLedger(teamId),
+        getTeamContracts(teamId),
+      ]);
+      const ledgerEntries = CapLedgerService.createContractEntries(contract);
+
+      // Signing the player releases any cap hold on their rights
+      assertCapCompliance(
+        league,
+        teamId,
+        ledger,
+        ledgerEntries,
+        await getTeamCapHolds(teamId, [...contracts, contract])
+      );
 
-    if (team) {
-      const capHit = calculateCapHit(contract, startYear);
-      await teamRef.update({
-        capSpace: team['capSpace'] - capHit,
+      ledgerEntries.forEach((entry) => {
+        batch.set(db.collection('capLedger').doc(entry.id), entry);
+      });
+      batch.update(teamRecord.ref, {
+        capSpace: calculateLedgerCapSpace(league, [
+          ...ledger,
+          ...ledgerEntries,
+        ]),
         updatedAt: new Date(),
       });
     }
+    await batch.commit();
 
     return { success: true, contractId: contractRef.id };
   } catch (error) {
+    console.error('Error creating contract:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
     throw new HttpsError('internal', 'Failed to create contract');
   }
 });
@@ -235,18 +376,7 @@ export const processWeeklyScoring = onSchedule('0 6 * * 2', async (event) => {
 
 // Helper Functions
 function calculateCapHit(contract: any, year: number): number {
-  if (year < contract.startYear || year > contract.endYear) {
-    return 0;
-  }
-
-  const baseSalary = contract.baseSalary[year] || 0;
-  const proratedBonus =
-    contract.signingBonus > 0
-      ? contract.signingBonus /
-        Math.min(contract.endYear - contract.startYear + 1, 5)
-      : 0;
-
-  return baseSalary + proratedBonus;
+  return CapMath.calculateCapHit(contract as Contract, year);
 }
 
 async function processLeagueScoring(leagueId: string) {
@@ -0,0 +1,398 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { admin } from './utils/admin';
+import { assertPhaseAllows, getTeamOrThrow } from './utils/teams';
+import {
+  assertCapCompliance,
+  calculateLedgerCapSpace,
+  classifyOfferIncentives,
+  getTeamCapHolds,
+  getTeamContracts,
+  getTeamLedger,
+  toContract,
+} from './utils/cap';
+import {
+  CapLedgerService,
+  FranchiseTagCalculator,
+  RestrictedFreeAgencyCalculator,
+} from './domain';
+import type { FABid, League, OfferSheet, QualifyingOffer } from './types';
+
+const { db } = admin();
+
+// ===== RESTRICTED FREE AGENCY FUNCTIONS =====
+
+/**
+ * Tender a qualifying offer to a restricted free agent. The player stays on
+ * the roster on a one-year tender while other teams may sign them to an
+ * offer sheet.
+ */
+export const tenderQualifyingOffer = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { teamId, playerId } = request.data;
+
+    if (!teamId || !playerId) {
+      throw new HttpsError('invalid-argument', 'Missing required fields');
+    }
+
+    const { team } = await getTeamOrThrow(teamId);
+    if (team.ownerUserId !== request.auth.uid) {
+      throw new HttpsError(
+        'permission-denied',
+        'Only the team owner can tender qualifying offers'
+      );
+    }
+
+    const leagueDoc = await db.collection('leagues').doc(team.leagueId).get();
+    const league = leagueDoc.data() as League;
+    assertPhaseAllows(league, 'qualifyingOffer');
+    const rules = RestrictedFreeAgencyCalculator.getRules(
+      league.rules?.contracts?.restrictedFreeAgency
+    );
+
+    const playerDoc = await db.collection('players').doc(playerId).get();
+    const yearsExp = playerDoc.data()?.['yearsExp'];
+    if (typeof yearsExp !== 'number') {
+      throw new HttpsError(
+        'failed-precondition',
+        'Player experience is not available'
+      );
+    }
+
+    const offer = await db.runTransaction(async (transaction) => {
+      const { ref: teamRef, team: currentTeam } = await getTeamOrThrow(
+        teamId,
+        transaction
+      );
+      const offersSnapshot = await transaction.get(
+        db
+          .collection('qualifyingOffers')
+          .where('leagueId', '==', team.leagueId)
+          .where('year', '==', league.currentYear)
+      );
+      const playerContractsSnapshot = await transaction.get(
+        db.collection('contracts').where('playerId', '==', playerId)
+      );
+      const ledger = await getTeamLedger(teamId, transaction);
+
+      const playerContracts = playerContractsSnapshot.docs.map((contractDoc) =>
+        toContract(contractDoc.id, contractDoc.data())
+      );
+      const offerAmount =
+        RestrictedFreeAgencyCalculator.calculateQualifyingOffer(
+          playerContracts,
+          teamId,
+          league.currentYear,
+          rules
+        );
+
+      const errors = RestrictedFreeAgencyCalculator.validateQualifyingOffer(
+        teamId,
+        playerId,
+        yearsExp,
+        league.currentYear,
+        offersSnapshot.docs.map(
+          (offerDoc) => offerDoc.data() as QualifyingOffer
+        ),
+        playerContracts,
+        offerAmount,
+        calculateLedgerCapSpace(league, ledger),
+        rules
+      );
+      if (errors.length > 0) {
+        throw new HttpsError('failed-precondition', errors.join(', '));
+      }
+
+      const slot = (currentTeam.roster || []).find(
+        (rosterSlot) => rosterSlot.playerId === playerId
+      );
+      if (!slot) {
+        throw new HttpsError('not-found', 'Player is not on the team roster');
+      }
+
+      const offerRef = db.collection('qualifyingOffers').doc();
+      const qualifyingOffer: QualifyingOffer = {
+        id: offerRef.id,
+        playerId,
+        teamId,
+        leagueId: team.leagueId,
+        position: slot.position || playerDoc.data()?.['position'],
+        year: league.currentYear,
+        offerAmount,
+        contractId: `${offerRef.id}_tender`,
+        // Offer sheets can be signed until the end of the tendered season
+        expiresAt: new Date(league.currentYear, 11, 31, 23, 59, 59),
+        status: 'pending',
+        createdAt: new Date(),
+      };
+      const contract =
+        RestrictedFreeAgencyCalculator.createTenderContract(qualifyingOffer);
+      const newEntries = CapLedgerService.createContractEntries(contract);
+
+      transaction.set(offerRef, qualifyingOffer);
+      transaction.set(db.collection('contracts').doc(contract.id), {
+        ...contract,
+        leagueId: team.leagueId,
+      });
+      newEntries.forEach((entry) => {
+        transaction.set(db.collection('capLedger').doc(entry.id), entry);
+      });
+      transaction.update(teamRef, {
+        roster: (currentTeam.roster || []).map((rosterSlot) =>
+          rosterSlot.playerId === playerId
+            ? { ...rosterSlot, contractId: contract.id }
+            : rosterSlot
+        ),
+        capSpace: calculateLedgerCapSpace(league, [...ledger, ...newEntries]),
+        updatedAt: new Date(),
+      });
+
+      return qualifyingOffer;
+    });
+
+    return { success: true, offer };
+  } catch (error) {
+    console.error('Error tendering qualifying offer:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to tender qualifying offer');
+  }
+});
+
+/**
+ * Match or decline an offer sheet on a restricted free agent. Matching signs
+ * the offer sheet with the original team; declining sends the player to the
+ * bidding team. Either way the qualifying offer tender is withdrawn and the
+ * signing is added to the player's contract history.
+ */
+export const respondToOfferSheet = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { offerSheetId, match } = request.data;
+
+    if (!offerSheetId || typeof match !== 'boolean') {
+      throw new HttpsError('invalid-argument', 'Missing required fields');
+    }
+
+    const sheetRef = db.collection('offerSheets').doc(offerSheetId);
+
+    const result = await db.runTransaction(async (transaction) => {
+      const sheetDoc = await transaction.get(sheetRef);
+      if (!sheetDoc.exists) {
+        throw new HttpsError('not-found', 'Offer sheet not found');
+      }
+      const sheet = sheetDoc.data() as OfferSheet;
+      if (sheet.status !== 'pending') {
+        throw new HttpsError(
+          'failed-precondition',
+          'Offer sheet has already been resolved'
+        );
+      }
+      if (match && toDate(sheet.expiresAt) < new Date()) {
+        throw new HttpsError(
+          'failed-precondition',
+          'The matching window has expired'
+        );
+      }
+
+      const offerRef = db
+        .collection('qualifyingOffers')
+        .doc(sheet.qualifyingOfferId);
+      const offerDoc = await transaction.get(offerRef);
+      const qualifyingOffer = offerDoc.data() as QualifyingOffer;
+      const tenderRef = db
+        .collection('contracts')
+        .doc(qualifyingOffer.contractId);
+      const tenderDoc = await transaction.get(tenderRef);
+
+      const original = await getTeamOrThrow(sheet.originalTeamId, transaction);
+      if (original.team.ownerUserId !== request.auth?.uid) {
+        throw new HttpsError(
+          'permission-denied',
+          'Only the tendering team can respond to this offer sheet'
+        );
+      }
+      const bidding = await getTeamOrThrow(sheet.biddingTeamId, transaction);
+
+      const leagueDoc = await transaction.get(
+        db.collection('leagues').doc(sheet.leagueId)
+      );
+      const league = leagueDoc.data() as League;
+      const [originalLedger, biddingLedger] = await Promise.all([
+        getTeamLedger(original.team.id, transaction),
+        getTeamLedger(bidding.team.id, transaction),
+      ]);
+      const offer = await classifyOfferIncentives(
+        sheet.offer,
+        sheet.playerId,
+        transaction
+      );
+
+      // Withdraw the tender; it is replaced by the offer sheet contract
+      const voidEntries = tenderDoc.exists
+        ? FranchiseTagCalculator.createTenderVoidEntries(
+            toContract(tenderDoc.id, tenderDoc.data()),
+            'Qualifying offer withdrawn'
+          )
+        : [];
+      if (tenderDoc.exists) {
+        transaction.update(tenderRef, {
+          status: 'expired',
+          updatedAt: new Date(),
+        });
+      }
+
+      // Sign the offer sheet with whichever team ends up with the player
+      const signing = match ? original : bidding;
+      const contractRef = db.collection('contracts').doc();
+      const contractDoc = {
+        id: contractRef.id,
+        leagueId: sheet.leagueId,
+        teamId: signing.team.id,
+        playerId: sheet.playerId,
+        originalBidId: sheet.bidId,
+        contract: offer,
+        status: 'active',
+        signedAt: new Date(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      const contract = toContract(contractRef.id, contractDoc);
+      const contractEntries = CapLedgerService.createContractEntries(contract);
+
+      // The signing team must stay under the cap in every contract year
+      assertCapCompliance(
+        league,
+        signing.team.id,
+        match ? originalLedger : biddingLedger,
+        match ? [...voidEntries, ...contractEntries] : contractEntries,
+        await getTeamCapHolds(signing.team.id, [
+          ...(await getTeamContracts(signing.team.id)),
+          contract,
+        ])
+      );
+
+      transaction.set(contractRef, contractDoc);
+      [...voidEntries, ...contractEntries].forEach((entry) => {
+        transaction.set(db.collection('capLedger').doc(entry.id), entry);
+      });
+
+      transaction.set(
+        db
+          .collection('playerContractHistory')
+          .doc(`${sheet.leagueId}_${sheet.playerId}`),
+        {
+          leagueId: sheet.leagueId,
+          playerId: sheet.playerId,
+          contractHistory: FieldValue.arrayUnion({
+            contractId: contractRef.id,
+            teamId: signing.team.id,
+            startYear: contract.startYear,
+            endYear: contract.endYear,
+            totalValue: sheet.offer.totalValue,
+            guaranteedAmount:
+              sheet.offer.signingBonus +
+              sheet.offer.guarantees.reduce(
+                (total, guarantee) => total + guarantee.amount,
+                0
+              ),
+            wasOverpaid: false,
+            wasUnderpaid: false,
+            negotiationStyle: match ? 'offer_sheet_matched' : 'offer_sheet',
+            outcome: 'accepted',
+          }),
+          updatedAt: new Date(),
+        },
+        { merge: true }
+      );
+
+      transaction.update(sheetRef, {
+        status: match ? 'matched' : 'declined',
+        resolvedAt: new Date(),
+      });
+      transaction.update(offerRef, {
+        status: match ? 'matched' : 'declined',
+        resolvedAt: new Date(),
+      });
+      transaction.update(db.collection('faBids').doc(sheet.bidId), {
+        status: match ? 'rejected' : 'accepted',
+        feedback: match
+          ? 'Offer sheet matched by the original team'
+          : 'Original team declined to match',
+        evaluatedAt: new Date(),
+      } as Partial<FABid>);
+
+      const originalRoster = original.team.roster || [];
+      if (match) {
+        transaction.update(original.ref, {
+          roster: originalRoster.map((slot) =>
+            slot.playerId === sheet.playerId
+              ? { ...slot, contractId: contractRef.id }
+              : slot
+          ),
+          capSpace: calculateLedgerCapSpace(league, [
+            ...originalLedger,
+            ...voidEntries,
+            ...contractEntries,
+          ]),
+          updatedAt: new Date(),
+        });
+      } else {
+        const slot = originalRoster.find(
+          (rosterSlot) => rosterSlot.playerId === sheet.playerId
+        );
+
+        transaction.update(original.ref, {
+          roster: originalRoster.filter(
+            (rosterSlot) => rosterSlot.playerId !== sheet.playerId
+          ),
+          capSpace: calculateLedgerCapSpace(league, [
+            ...originalLedger,
+            ...voidEntries,
+          ]),
+          updatedAt: new Date(),
+        });
+        transaction.update(bidding.ref, {
+          roster: [
+            ...(bidding.team.roster || []),
+            {
+              ...slot,
+              playerId: sheet.playerId,
+              teamId: bidding.team.id,
+              contractId: contractRef.id,
+              signedAt: new Date(),
+              status: 'active',
+            },
+          ],
+          capSpace: calculateLedgerCapSpace(league, [
+            ...biddingLedger,
+            ...contractEntries,
+          ]),
+          updatedAt: new Date(),
+        });
+      }
+
+      return { contractId: contractRef.id, teamId: signing.team.id };
+    });
+
+    return { success: true, ...result };
+  } catch (error) {
+    console.error('Error responding to offer sheet:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to respond to offer sheet');
+  }
+});
+
+function toDate(value: Timestamp | Date): Date {
+  return value instanceof Timestamp ? value.toDate() : value;
+}
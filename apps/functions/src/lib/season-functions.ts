@@ -0,0 +1,861 @@
+import { onCall, onRequest, HttpsError } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import type { WriteBatch } from 'firebase-admin/firestore';
+import { admin, commitInBatches } from './utils/admin';
+import {
+  assertCommissioner,
+  assertPhaseAllows,
+  getLeagueTeams,
+  toCalendarEvents,
+} from './utils/teams';
+import {
+  buildOptionDecision,
+  calculateLedgerCapSpace,
+  getCarryoverEntry,
+  getLeagueContracts,
+  getTeamLedger,
+  getTeamMinimumSpendStatus,
+  toContract,
+} from './utils/cap';
+import {
+  ContractOptionCalculator,
+  DraftPickInventory,
+  LeagueCalendarPlanner,
+  LeaguePhaseMachine,
+  MinimumSpendCalculator,
+  SeasonRolloverCalculator,
+} from './domain';
+import { LeaguePhase } from './types';
+import type {
+  FAWeek,
+  League,
+  LeagueCalendar,
+  LeagueCalendarEvent,
+  LeagueCalendarEventType,
+  PhaseTransitionContext,
+  Pick,
+  Player,
+  SeasonRollover,
+} from './types';
+
+const { db } = admin();
+
+const CALENDAR_EVENT_TYPES: LeagueCalendarEventType[] = [
+  'draft',
+  'faWeek',
+  'tradeDeadline',
+  'rosterCutdown',
+  'playoffs',
+];
+
+// Calendar milestone as sent by the commissioner's calendar editor
+interface CalendarEventInput {
+  type: LeagueCalendarEventType;
+  startsAt: string;
+  weekNumber?: number;
+}
+
+// ===== SEASON FUNCTIONS =====
+
+/**
+ * Move a league to its next phase once the phase's preconditions are met
+ */
+export const advanceLeaguePhase = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { leagueId, phase } = request.data;
+
+    if (!leagueId) {
+      throw new HttpsError('invalid-argument', 'League ID is required');
+    }
+
+    await assertCommissioner(leagueId, request.auth.uid);
+
+    const leagueDoc = await db.collection('leagues').doc(leagueId).get();
+    if (!leagueDoc.exists) {
+      throw new HttpsError('not-found', 'League not found');
+    }
+    const league = leagueDoc.data() as League;
+
+    const to: LeaguePhase | undefined =
+      phase || LeaguePhaseMachine.getNextPhase(league.phase);
+    if (!to) {
+      throw new HttpsError(
+        'failed-precondition',
+        'Roll the season over to start the next offseason'
+      );
+    }
+
+    const errors = LeaguePhaseMachine.validateTransition(
+      league.phase,
+      to,
+      await getPhaseTransitionContext(leagueId, league)
+    );
+    if (errors.length > 0) {
+      throw new HttpsError('failed-precondition', errors.join(', '), {
+        errors,
+      });
+    }
+
+    await leagueDoc.ref.update({
+      phase: to,
+      status: LeaguePhaseMachine.getLeagueStatus(to),
+      updatedAt: new Date(),
+    });
+
+    return {
+      success: true,
+      from: LeaguePhaseMachine.normalizePhase(league.phase),
+      to,
+    };
+  } catch (error) {
+    console.error('Error advancing league phase:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to advance league phase');
+  }
+});
+
+/**
+ * Stage the rollover into the next league year for commissioner review.
+ * Nothing changes until the rollover is confirmed.
+ */
+export const previewSeasonRollover = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { leagueId } = request.data;
+
+    if (!leagueId) {
+      throw new HttpsError('invalid-argument', 'League ID is required');
+    }
+
+    await assertCommissioner(leagueId, request.auth.uid);
+
+    const leagueDoc = await db.collection('leagues').doc(leagueId).get();
+    if (!leagueDoc.exists) {
+      throw new HttpsError('not-found', 'League not found');
+    }
+
+    const league = leagueDoc.data() as League;
+    assertPhaseAllows(league, 'seasonRollover');
+
+    const { rollover } = await planSeasonRollover(leagueId, league);
+    await db.collection('seasonRollovers').doc(rollover.id).set(rollover);
+
+    return { rollover };
+  } catch (error) {
+    console.error('Error previewing season rollover:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to preview season rollover');
+  }
+});
+
+/**
+ * Apply a previewed rollover: resolve undecided options, expire contracts into
+ * the free-agent pool, age players, credit cap carryover, penalize teams
+ * under the minimum spend, carry pick ownership into the next draft, reset
+ * free agency and advance the league year. The league year advances last, so a failed rollover can be re-run.
+ */
+export const confirmSeasonRollover = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { leagueId } = request.data;
+
+    if (!leagueId) {
+      throw new HttpsError('invalid-argument', 'League ID is required');
+    }
+
+    await assertCommissioner(leagueId, request.auth.uid);
+
+    const leagueDoc = await db.collection('leagues').doc(leagueId).get();
+    if (!leagueDoc.exists) {
+      throw new HttpsError('not-found', 'League not found');
+    }
+    const league = leagueDoc.data() as League;
+    assertPhaseAllows(league, 'seasonRollover');
+
+    const rolloverRef = db
+      .collection('seasonRollovers')
+      .doc(`${leagueId}_${league.currentYear}`);
+    const rolloverDoc = await rolloverRef.get();
+    if (rolloverDoc.data()?.['status'] !== 'pending') {
+      throw new HttpsError(
+        'failed-precondition',
+        'Preview the season rollover before confirming it'
+      );
+    }
+
+    // Re-plan so anything signed since the preview is included
+    const plan = await planSeasonRollover(leagueId, league);
+    const { rollover } = plan;
+    const nextLeague = { ...league, currentYear: rollover.toYear };
+    const writes: ((batch: WriteBatch) => void)[] = [];
+
+    plan.optionDecisions.forEach(({ ref, decision }) => {
+      writes.push((batch) => batch.set(ref, decision.update, { merge: true }));
+      if (decision.optionContract) {
+        const optionContract = decision.optionContract;
+        writes.push((batch) =>
+          batch.set(db.collection('contracts').doc(optionContract.id), {
+            ...optionContract,
+            leagueId,
+          })
+        );
+      }
+      decision.entries.forEach((entry) => {
+        writes.push((batch) =>
+          batch.set(db.collection('capLedger').doc(entry.id), entry)
+        );
+      });
+    });
+
+    rollover.expiringContracts.forEach((expiring) => {
+      writes.push((batch) =>
+        batch.update(db.collection('contracts').doc(expiring.contractId), {
+          status: 'expired',
+          updatedAt: new Date(),
+        })
+      );
+      const playerRef = plan.playerRefs.get(expiring.playerId);
+      if (playerRef) {
+        writes.push((batch) =>
+          batch.update(playerRef, {
+            status: 'available',
+            updatedAt: new Date(),
+          })
+        );
+      }
+    });
+
+    [...plan.carryoverEntries, ...plan.penaltyEntries].forEach((entry) => {
+      writes.push((batch) =>
+        batch.set(db.collection('capLedger').doc(entry.id), entry)
+      );
+    });
+    plan.pickForfeitures.forEach((forfeiture) => {
+      writes.push((batch) =>
+        batch.set(
+          db.collection('pickForfeitures').doc(forfeiture.id),
+          forfeiture
+        )
+      );
+    });
+
+    plan.teams.forEach(({ ref, team }) => {
+      const expiredPlayerIds = rollover.expiringContracts
+        .filter((expiring) => expiring.teamId === team.id)
+        .map((expiring) => expiring.playerId);
+      const ledger = [
+        ...(plan.ledgers[team.id] || []),
+        ...plan.optionDecisions
+          .flatMap(({ decision }) => decision.entries)
+          .filter((entry) => entry.teamId === team.id),
+        ...[...plan.carryoverEntries, ...plan.penaltyEntries].filter(
+          (entry) => entry.teamId === team.id
+        ),
+      ];
+
+      writes.push((batch) =>
+        batch.update(ref, {
+          roster: (team.roster || []).filter(
+            (slot) => !expiredPlayerIds.includes(slot.playerId)
+          ),
+          capSpace: calculateLedgerCapSpace(nextLeague, ledger),
+          updatedAt: new Date(),
+        })
+      );
+    });
+
+    plan.picks.forEach((pick) => {
+      writes.push((batch) =>
+        batch.set(db.collection('futurePicks').doc(pick.id), pick)
+      );
+    });
+
+    plan.faWeekRefs.forEach((ref) => {
+      writes.push((batch) => batch.delete(ref));
+    });
+    plan.openBidRefs.forEach((ref) => {
+      writes.push((batch) =>
+        batch.update(ref, {
+          status: 'rejected',
+          evaluatedAt: new Date(),
+          feedback: 'Free agency closed for the season.',
+        })
+      );
+    });
+
+    plan.progressions.forEach((progression) => {
+      const playerRef = plan.playerRefs.get(progression.playerId);
+      if (!playerRef) {
+        return;
+      }
+      writes.push((batch) =>
+        batch.update(playerRef, {
+          age: progression.age,
+          yearsExp: progression.yearsExp,
+          overall: progression.overall,
+          devGrade: progression.devGrade,
+          lastAgedYear: rollover.toYear,
+          updatedAt: new Date(),
+        })
+      );
+    });
+
+    await commitInBatches(writes);
+
+    const confirmed: SeasonRollover = {
+      ...rollover,
+      status: 'completed',
+      confirmedAt: new Date(),
+      confirmedBy: request.auth.uid,
+    };
+    const batch = db.batch();
+    batch.set(rolloverRef, confirmed);
+    batch.update(leagueDoc.ref, {
+      currentYear: rollover.toYear,
+      phase: 'offseason',
+      status: 'active',
+      updatedAt: new Date(),
+    });
+    await batch.commit();
+
+    return { rollover: confirmed };
+  } catch (error) {
+    console.error('Error confirming season rollover:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to confirm season rollover');
+  }
+});
+
+/**
+ * Replace the league calendar for the current league year. Milestones
+ * that keep their date keep their fired state; rescheduled ones fire again.
+ */
+export const updateLeagueCalendar = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { leagueId, events } = request.data;
+
+    if (!leagueId || !Array.isArray(events)) {
+      throw new HttpsError(
+        'invalid-argument',
+        'League ID and calendar events are required'
+      );
+    }
+    if (
+      events.some(
+        (event: CalendarEventInput) =>
+          !CALENDAR_EVENT_TYPES.includes(event?.type)
+      )
+    ) {
+      throw new HttpsError('invalid-argument', 'Unknown calendar event type');
+    }
+
+    await assertCommissioner(leagueId, request.auth.uid);
+
+    const leagueDoc = await db.collection('leagues').doc(leagueId).get();
+    if (!leagueDoc.exists) {
+      throw new HttpsError('not-found', 'League not found');
+    }
+    const league = leagueDoc.data() as League;
+
+    const scheduled: LeagueCalendarEvent[] = events.map(
+      (event: CalendarEventInput) => ({
+        id: LeagueCalendarPlanner.getEventId(event.type, event.weekNumber),
+        type: event.type,
+        startsAt: new Date(event.startsAt),
+        ...(event.type === 'faWeek' && { weekNumber: event.weekNumber }),
+      })
+    );
+
+    const errors = LeagueCalendarPlanner.validateEvents(scheduled);
+    if (errors.length > 0) {
+      throw new HttpsError('invalid-argument', errors.join(', '), { errors });
+    }
+
+    const previous =
+      league.calendar?.year === league.currentYear
+        ? toCalendarEvents(league.calendar.events)
+        : [];
+    const calendar: LeagueCalendar = {
+      year: league.currentYear,
+      events: scheduled.map((event) => {
+        const existing = previous.find(
+          (previousEvent) =>
+            previousEvent.id === event.id &&
+            previousEvent.startsAt.getTime() === event.startsAt.getTime()
+        );
+        return existing?.firedAt
+          ? { ...event, firedAt: existing.firedAt, outcome: existing.outcome }
+          : event;
+      }),
+      updatedAt: new Date(),
+    };
+
+    await leagueDoc.ref.update({ calendar, updatedAt: new Date() });
+
+    return { success: true, calendar };
+  } catch (error) {
+    console.error('Error updating league calendar:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to update league calendar');
+  }
+});
+
+/**
+ * Act on calendar milestones whose time has arrived. Phase milestones step
+ * the league forward one phase at a time and stop at the first transition
+ * whose preconditions are not met; the outcome is recorded on the event.
+ */
+export const processLeagueCalendars = onSchedule(
+  'every 15 minutes',
+  async () => {
+    try {
+      const leaguesSnapshot = await db.collection('leagues').get();
+      const now = new Date();
+
+      for (const leagueDoc of leaguesSnapshot.docs) {
+        const league = leagueDoc.data() as League;
+        if (league.calendar?.year !== league.currentYear) {
+          continue;
+        }
+
+        const events = toCalendarEvents(league.calendar.events);
+        const due = LeagueCalendarPlanner.getDueEvents(events, now);
+        if (due.length === 0) {
+          continue;
+        }
+
+        let phase = league.phase;
+        for (const calendarEvent of due) {
+          const result = await fireCalendarEvent(
+            leagueDoc.id,
+            { ...league, phase },
+            calendarEvent,
+            events
+          );
+          phase = result.phase;
+          calendarEvent.firedAt = now;
+          calendarEvent.outcome = result.outcome;
+        }
+
+        await leagueDoc.ref.update({
+          'calendar.events': events,
+          updatedAt: now,
+        });
+        console.log(
+          `Fired ${due.length} calendar events in league ${leagueDoc.id}`
+        );
+      }
+    } catch (error) {
+      console.error('Error processing league calendars:', error);
+    }
+  }
+);
+
+/**
+ * Serve a league's calendar as an iCalendar feed owners can subscribe to
+ */
+export const leagueCalendarFeed = onRequest(async (request, response) => {
+  try {
+    const leagueId = request.query['leagueId'];
+    if (typeof leagueId !== 'string' || !leagueId) {
+      response.status(400).send('League ID is required');
+      return;
+    }
+
+    const leagueDoc = await db.collection('leagues').doc(leagueId).get();
+    if (!leagueDoc.exists) {
+      response.status(404).send('League not found');
+      return;
+    }
+    const league = leagueDoc.data() as League;
+
+    response
+      .set('Content-Type', 'text/calendar; charset=utf-8')
+      .set('Content-Disposition', `inline; filename="${leagueId}.ics"`)
+      .send(
+        LeagueCalendarPlanner.toICalendar(
+          leagueId,
+          league.name,
+          toCalendarEvents(league.calendar?.events),
+          new Date()
+        )
+      );
+  } catch (error) {
+    console.error('Error serving league calendar:', error);
+    response.status(500).send('Failed to load league calendar');
+  }
+});
+
+/**
+ * Gather the league state checked before a phase transition
+ */
+async function getPhaseTransitionContext(
+  leagueId: string,
+  league: League
+): Promise<PhaseTransitionContext> {
+  const teams = await getLeagueTeams(leagueId);
+  const [
+    draftStateDoc,
+    rightsSnapshot,
+    openBidsSnapshot,
+    offerSheetsSnapshot,
+    tagMatchesSnapshot,
+    contracts,
+    ledgers,
+  ] = await Promise.all([
+    db.collection('draft-states').doc(leagueId).get(),
+    db.collection('player-rights').where('leagueId', '==', leagueId).get(),
+    db
+      .collection('faBids')
+      .where('leagueId', '==', leagueId)
+      .where('status', 'in', ['pending', 'shortlisted', 'considering'])
+      .get(),
+    db
+      .collection('offerSheets')
+      .where('leagueId', '==', leagueId)
+      .where('status', '==', 'pending')
+      .get(),
+    db
+      .collection('transitionTagMatches')
+      .where('leagueId', '==', leagueId)
+      .where('status', '==', 'pending')
+      .get(),
+    getLeagueContracts(teams),
+    Promise.all(teams.map(({ team }) => getTeamLedger(team.id))),
+  ]);
+
+  const now = new Date();
+  const unresolvedRights = rightsSnapshot.docs
+    .map((rightsDoc) => rightsDoc.data())
+    .filter(
+      (rights) =>
+        rights['rightsExpireAt']?.toDate?.() > now &&
+        !contracts.some(
+          (contract) =>
+            contract.playerId === rights['playerId'] &&
+            contract.teamId === rights['rightsTeamId']
+        )
+    ).length;
+
+  return {
+    teamCount: teams.length,
+    draftComplete: !!draftStateDoc.data()?.['isComplete'],
+    unresolvedRights,
+    openBids: openBidsSnapshot.size,
+    pendingMatches: offerSheetsSnapshot.size + tagMatchesSnapshot.size,
+    teamsOverCap: ledgers.filter(
+      (ledger) => calculateLedgerCapSpace(league, ledger) < 0
+    ).length,
+  };
+}
+
+/**
+ * Carry out a due calendar milestone and describe what happened
+ */
+async function fireCalendarEvent(
+  leagueId: string,
+  league: League,
+  event: LeagueCalendarEvent,
+  events: LeagueCalendarEvent[]
+): Promise<{ phase: LeaguePhase; outcome: string }> {
+  let phase = LeaguePhaseMachine.normalizePhase(league.phase);
+
+  const target = LeagueCalendarPlanner.getTargetPhase(event.type);
+  if (!target) {
+    // Trades check the deadline when they are proposed and accepted
+    return { phase, outcome: 'Trades are closed until the offseason' };
+  }
+
+  for (const next of LeagueCalendarPlanner.getPhasePath(phase, target)) {
+    const errors = LeaguePhaseMachine.validateTransition(
+      phase,
+      next,
+      await getPhaseTransitionContext(leagueId, { ...league, phase })
+    );
+    if (errors.length > 0) {
+      return {
+        phase,
+        outcome: `League stayed in ${phase}: ${errors.join(', ')}`,
+      };
+    }
+
+    await db
+      .collection('leagues')
+      .doc(leagueId)
+      .update({
+        phase: next,
+        status: LeaguePhaseMachine.getLeagueStatus(next),
+        updatedAt: new Date(),
+      });
+    phase = next;
+  }
+
+  if (event.type === 'faWeek' && phase === LeaguePhase['free-agency']) {
+    await openFAWeek(leagueId, event, events);
+    return { phase, outcome: `FA Week ${event.weekNumber} opened` };
+  }
+
+  return { phase, outcome: `League moved to ${phase}` };
+}
+
+/**
+ * Open the FA week a calendar milestone schedules. It runs until the next
+ * scheduled FA week, or for a week when it is the last one.
+ */
+async function openFAWeek(
+  leagueId: string,
+  event: LeagueCalendarEvent,
+  events: LeagueCalendarEvent[]
+): Promise<void> {
+  const weekNumber = event.weekNumber ?? 1;
+  const faWeekRef = db
+    .collection('faWeeks')
+    .doc(`${leagueId}_week_${weekNumber}`);
+  if ((await faWeekRef.get()).exists) {
+    return;
+  }
+
+  const nextWeek = events.find(
+    (other) => other.type === 'faWeek' && other.weekNumber === weekNumber + 1
+  );
+  const faWeek: FAWeek = {
+    id: faWeekRef.id,
+    leagueId,
+    weekNumber,
+    phase: weekNumber <= 4 ? 'FA_WEEK' : 'OPEN_FA',
+    startDate: event.startsAt,
+    endDate:
+      nextWeek?.startsAt ??
+      new Date(event.startsAt.getTime() + 7 * 24 * 60 * 60 * 1000),
+    status: 'active',
+    readyTeams: [],
+    evaluationResults: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  await faWeekRef.set(faWeek);
+}
+
+/**
+ * Work out everything a rollover changes from the league's current state
+ */
+async function planSeasonRollover(leagueId: string, league: League) {
+  const fromYear = league.currentYear;
+  const toYear = fromYear + 1;
+  const teams = await getLeagueTeams(leagueId);
+
+  const snapshots = await Promise.all(
+    teams.map(({ team }) =>
+      db.collection('contracts').where('teamId', '==', team.id).get()
+    )
+  );
+  const contractDocs = snapshots
+    .flatMap((snapshot) => snapshot.docs)
+    .map((contractDoc) => ({
+      ref: contractDoc.ref,
+      isOffer: contractDoc.data()['startYear'] === undefined,
+      contract: toContract(contractDoc.id, contractDoc.data()),
+    }))
+    .filter(({ contract }) => Number.isFinite(contract.startYear));
+
+  // Undecided options on expiring deals resolve as they would after their
+  // deadline: team options are declined and players take a raise
+  const optionDecisions = contractDocs
+    .filter(
+      ({ contract }) =>
+        contract.status !== 'released' &&
+        contract.endYear === fromYear &&
+        ContractOptionCalculator.getPendingOption(contract)
+    )
+    .map(({ ref, isOffer, contract }) => {
+      const option = ContractOptionCalculator.getPendingOption(contract);
+      const exercise =
+        option?.holder === 'player' &&
+        ContractOptionCalculator.shouldPlayerExercise(contract, option);
+
+      return {
+        ref,
+        holder: option?.holder || 'team',
+        decision: buildOptionDecision(contract, isOffer, exercise),
+      };
+    });
+
+  const expiring = SeasonRolloverCalculator.getExpiringContracts(
+    [
+      ...contractDocs.map(({ contract }) => contract),
+      ...optionDecisions.flatMap(({ decision }) =>
+        decision.optionContract ? [decision.optionContract] : []
+      ),
+    ],
+    fromYear
+  );
+
+  const ledgerEntries = await Promise.all(
+    teams.map(({ team }) => getTeamLedger(team.id))
+  );
+  const ledgers = Object.fromEntries(
+    teams.map(({ team }, index) => [team.id, ledgerEntries[index]])
+  );
+  const carryoverEntries = league.rules?.cap?.capCarryover
+    ? teams.flatMap(({ team }) => {
+        const entry = getCarryoverEntry(league, team.id, ledgers[team.id]);
+        return entry ? [entry] : [];
+      })
+    : [];
+  const spendStatuses = await Promise.all(
+    teams.map(({ team }) => getTeamMinimumSpendStatus(league, team.id))
+  );
+
+  // Teams under the floor are penalized before the league year advances
+  const belowFloor = spendStatuses.filter((status) => !status.isCompliant);
+  const penalty = league.rules?.cap?.minimumSpendPenalty || {
+    type: 'cap_charge',
+  };
+  const penaltyEntries =
+    penalty.type === 'cap_charge'
+      ? belowFloor.map((status) =>
+          MinimumSpendCalculator.createCapPenaltyEntry(status)
+        )
+      : [];
+  const pickForfeitures =
+    penalty.type === 'forfeit_pick'
+      ? belowFloor.map((status) =>
+          MinimumSpendCalculator.createPickForfeiture(
+            leagueId,
+            status,
+            penalty.pickRound
+          )
+        )
+      : [];
+
+  // The new year's draft has not started, so its picks stay in the
+  // inventory alongside the three drafts after it
+  const picksSnapshot = await db
+    .collection('futurePicks')
+    .where('leagueId', '==', leagueId)
+    .where('year', '>=', toYear)
+    .get();
+  const picks = DraftPickInventory.buildInventory(
+    picksSnapshot.docs.map((pickDoc) => pickDoc.data() as Pick),
+    leagueId,
+    teams.map(({ team }) => team.id),
+    DraftPickInventory.getDraftYears(toYear, true),
+    league.rules?.draft?.rounds || 0
+  );
+
+  // Each league keeps its own player pool, so players age and enter free
+  // agency without touching other leagues. A player is aged once per league
+  // year so a re-run rollover does not age him twice.
+  const playersSnapshot = await db
+    .collection('leagues')
+    .doc(leagueId)
+    .collection('players')
+    .get();
+  const leaguePlayers = playersSnapshot.docs.map((playerDoc) => ({
+    ref: playerDoc.ref,
+    player: {
+      ...playerDoc.data(),
+      id: playerDoc.data()['playerId'] || playerDoc.id,
+    } as Player,
+  }));
+  const playerRefs = new Map(
+    leaguePlayers.map(({ ref, player }) => [player.id, ref])
+  );
+  const progressions = leaguePlayers
+    .map(({ player }) => player)
+    .filter(
+      (player) =>
+        typeof player.age === 'number' &&
+        typeof player.overall === 'number' &&
+        (player.lastAgedYear || 0) < toYear
+    )
+    .map((player) => SeasonRolloverCalculator.progressPlayer(player));
+  const rosteredPlayerIds = new Set(
+    teams.flatMap(({ team }) =>
+      (team.roster || []).map((slot) => slot.playerId)
+    )
+  );
+
+  const [faWeeksSnapshot, openBidsSnapshot] = await Promise.all([
+    db.collection('faWeeks').where('leagueId', '==', leagueId).get(),
+    db
+      .collection('faBids')
+      .where('leagueId', '==', leagueId)
+      .where('status', 'in', ['pending', 'shortlisted', 'considering'])
+      .get(),
+  ]);
+
+  const rollover: SeasonRollover = {
+    id: `${leagueId}_${fromYear}`,
+    leagueId,
+    fromYear,
+    toYear,
+    status: 'pending',
+    expiringContracts: expiring.map((contract) => ({
+      contractId: contract.id,
+      playerId: contract.playerId,
+      teamId: contract.teamId,
+      endYear: contract.endYear,
+    })),
+    optionDecisions: optionDecisions.map(({ holder, decision }) => ({
+      contractId: decision.contract.id,
+      teamId: decision.contract.teamId,
+      holder,
+      exercised: !!decision.optionContract,
+    })),
+    carryover: carryoverEntries.map((entry) => ({
+      teamId: entry.teamId,
+      amount: entry.capIn,
+    })),
+    belowMinimumSpendTeamIds: belowFloor.map((status) => status.teamId),
+    progressions: progressions.filter((progression) =>
+      rosteredPlayerIds.has(progression.playerId)
+    ),
+    playersAged: progressions.length,
+    draftPicks: picks.filter((pick) => pick.year === toYear).length,
+    tradedPicks: picks.filter(
+      (pick) =>
+        pick.year === toYear && pick.currentTeamId !== pick.originalTeamId
+    ).length,
+    faWeeksReset: faWeeksSnapshot.size,
+    openBidsClosed: openBidsSnapshot.size,
+    createdAt: new Date(),
+  };
+
+  return {
+    rollover,
+    teams,
+    ledgers,
+    optionDecisions,
+    carryoverEntries,
+    penaltyEntries,
+    pickForfeitures,
+    picks,
+    progressions,
+    playerRefs,
+    faWeekRefs: faWeeksSnapshot.docs.map((faWeekDoc) => faWeekDoc.ref),
+    openBidRefs: openBidsSnapshot.docs.map((bidDoc) => bidDoc.ref),
+  };
+}
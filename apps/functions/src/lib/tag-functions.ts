@@ -0,0 +1,408 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { Timestamp } from 'firebase-admin/firestore';
+import { admin } from './utils/admin';
+import {
+  assertPhaseAllows,
+  getLeagueTeams,
+  getPlayerPositions,
+  getTeamOrThrow,
+} from './utils/teams';
+import {
+  assertCapCompliance,
+  calculateLedgerCapSpace,
+  classifyOfferIncentives,
+  getLeagueContracts,
+  getTeamCapHolds,
+  getTeamContracts,
+  getTeamLedger,
+  toContract,
+} from './utils/cap';
+import { CapLedgerService, FranchiseTagCalculator } from './domain';
+import type { FABid, FranchiseTag, League, TransitionTagMatch } from './types';
+
+const { db } = admin();
+
+// ===== FRANCHISE & TRANSITION TAG FUNCTIONS =====
+
+/**
+ * Get franchise and transition tag values for every position in a league
+ */
+export const getFranchiseTagValues = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { leagueId } = request.data;
+
+    if (!leagueId) {
+      throw new HttpsError('invalid-argument', 'League ID is required');
+    }
+
+    const leagueDoc = await db.collection('leagues').doc(leagueId).get();
+    if (!leagueDoc.exists) {
+      throw new HttpsError('not-found', 'League not found');
+    }
+    const league = leagueDoc.data() as League;
+    const rules = FranchiseTagCalculator.getRules(
+      league.rules?.contracts?.franchiseTag
+    );
+
+    const teams = await getLeagueTeams(leagueId);
+    const [contracts, positions] = await Promise.all([
+      getLeagueContracts(teams),
+      getPlayerPositions(teams),
+    ]);
+
+    return {
+      leagueYear: league.currentYear,
+      rules,
+      windowOpen: FranchiseTagCalculator.isWithinTagWindow(new Date(), rules),
+      values: FranchiseTagCalculator.calculateTagValues(
+        contracts,
+        positions,
+        league.currentYear,
+        rules
+      ),
+    };
+  } catch (error) {
+    console.error('Error getting franchise tag values:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to get franchise tag values');
+  }
+});
+
+/**
+ * Apply a franchise or transition tag, signing the player to a one-year
+ * fully guaranteed tender
+ */
+export const applyFranchiseTag = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { teamId, playerId, tagType } = request.data;
+
+    if (!teamId || !playerId) {
+      throw new HttpsError('invalid-argument', 'Missing required fields');
+    }
+    if (tagType !== 'franchise' && tagType !== 'transition') {
+      throw new HttpsError('invalid-argument', 'Invalid tag type');
+    }
+
+    const { team } = await getTeamOrThrow(teamId);
+    if (team.ownerUserId !== request.auth.uid) {
+      throw new HttpsError(
+        'permission-denied',
+        'Only the team owner can tag players'
+      );
+    }
+
+    const leagueDoc = await db.collection('leagues').doc(team.leagueId).get();
+    const league = leagueDoc.data() as League;
+    assertPhaseAllows(league, 'franchiseTag');
+    const rules = FranchiseTagCalculator.getRules(
+      league.rules?.contracts?.franchiseTag
+    );
+
+    // Tag values come from league-wide salaries, read before the transaction
+    const teams = await getLeagueTeams(team.leagueId);
+    const [contracts, positions] = await Promise.all([
+      getLeagueContracts(teams),
+      getPlayerPositions(teams),
+    ]);
+    const position = positions[playerId];
+    if (!position) {
+      throw new HttpsError('not-found', 'Player is not on a league roster');
+    }
+    const tagValue = FranchiseTagCalculator.calculateTagValue(
+      contracts,
+      positions,
+      position,
+      league.currentYear,
+      tagType === 'franchise'
+        ? rules.franchiseTopSalaries
+        : rules.transitionTopSalaries
+    );
+
+    const tag = await db.runTransaction(async (transaction) => {
+      const { ref: teamRef, team: currentTeam } = await getTeamOrThrow(
+        teamId,
+        transaction
+      );
+      const tagsSnapshot = await transaction.get(
+        db
+          .collection('franchiseTags')
+          .where('leagueId', '==', team.leagueId)
+          .where('year', '==', league.currentYear)
+      );
+      const playerContractsSnapshot = await transaction.get(
+        db.collection('contracts').where('playerId', '==', playerId)
+      );
+      const ledger = await getTeamLedger(teamId, transaction);
+
+      const errors = FranchiseTagCalculator.validateTag(
+        teamId,
+        playerId,
+        league.currentYear,
+        tagsSnapshot.docs.map((tagDoc) => tagDoc.data() as FranchiseTag),
+        playerContractsSnapshot.docs.map((contractDoc) =>
+          toContract(contractDoc.id, contractDoc.data())
+        ),
+        tagValue,
+        calculateLedgerCapSpace(league, ledger),
+        new Date(),
+        rules
+      );
+      if (errors.length > 0) {
+        throw new HttpsError('failed-precondition', errors.join(', '));
+      }
+
+      const tagRef = db.collection('franchiseTags').doc();
+      const franchiseTag: FranchiseTag = {
+        id: tagRef.id,
+        playerId,
+        teamId,
+        leagueId: team.leagueId,
+        tagType,
+        position,
+        contractValue: tagValue,
+        contractId: `${tagRef.id}_tender`,
+        year: league.currentYear,
+        status: 'active',
+        createdAt: new Date(),
+      };
+      const contract = FranchiseTagCalculator.createTagContract(franchiseTag);
+      const newEntries = CapLedgerService.createContractEntries(contract);
+
+      transaction.set(tagRef, franchiseTag);
+      transaction.set(db.collection('contracts').doc(contract.id), {
+        ...contract,
+        leagueId: team.leagueId,
+      });
+      newEntries.forEach((entry) => {
+        transaction.set(db.collection('capLedger').doc(entry.id), entry);
+      });
+      transaction.update(teamRef, {
+        roster: (currentTeam.roster || []).map((slot) =>
+          slot.playerId === playerId
+            ? { ...slot, contractId: contract.id }
+            : slot
+        ),
+        capSpace: calculateLedgerCapSpace(league, [...ledger, ...newEntries]),
+        updatedAt: new Date(),
+      });
+
+      return franchiseTag;
+    });
+
+    return { success: true, tag };
+  } catch (error) {
+    console.error('Error applying franchise tag:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to apply franchise tag');
+  }
+});
+
+/**
+ * Match or decline an FA offer on a transition-tagged player. Matching signs
+ * the offer with the tagging team; declining sends the player to the bidding
+ * team. Either way the tag tender is withdrawn.
+ */
+export const respondToTransitionTag = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { matchId, match } = request.data;
+
+    if (!matchId || typeof match !== 'boolean') {
+      throw new HttpsError('invalid-argument', 'Missing required fields');
+    }
+
+    const matchRef = db.collection('transitionTagMatches').doc(matchId);
+
+    const result = await db.runTransaction(async (transaction) => {
+      const matchDoc = await transaction.get(matchRef);
+      if (!matchDoc.exists) {
+        throw new HttpsError('not-found', 'Transition tag offer not found');
+      }
+      const tagMatch = matchDoc.data() as TransitionTagMatch;
+      if (tagMatch.status !== 'pending') {
+        throw new HttpsError(
+          'failed-precondition',
+          'Transition tag offer has already been resolved'
+        );
+      }
+      if (match && toDate(tagMatch.expiresAt) < new Date()) {
+        throw new HttpsError(
+          'failed-precondition',
+          'The matching window has expired'
+        );
+      }
+
+      const tagRef = db.collection('franchiseTags').doc(tagMatch.tagId);
+      const tagDoc = await transaction.get(tagRef);
+      const tag = tagDoc.data() as FranchiseTag;
+      const tenderRef = db.collection('contracts').doc(tag.contractId);
+      const tenderDoc = await transaction.get(tenderRef);
+
+      const original = await getTeamOrThrow(
+        tagMatch.originalTeamId,
+        transaction
+      );
+      if (original.team.ownerUserId !== request.auth?.uid) {
+        throw new HttpsError(
+          'permission-denied',
+          'Only the tagging team can respond to this offer'
+        );
+      }
+      const bidding = await getTeamOrThrow(tagMatch.biddingTeamId, transaction);
+
+      const leagueDoc = await transaction.get(
+        db.collection('leagues').doc(tagMatch.leagueId)
+      );
+      const league = leagueDoc.data() as League;
+      const [originalLedger, biddingLedger] = await Promise.all([
+        getTeamLedger(original.team.id, transaction),
+        getTeamLedger(bidding.team.id, transaction),
+      ]);
+      const offer = await classifyOfferIncentives(
+        tagMatch.offer,
+        tagMatch.playerId,
+        transaction
+      );
+
+      // Withdraw the tender without dead money
+      const voidEntries = tenderDoc.exists
+        ? FranchiseTagCalculator.createTenderVoidEntries(
+            toContract(tenderDoc.id, tenderDoc.data())
+          )
+        : [];
+      if (tenderDoc.exists) {
+        transaction.update(tenderRef, {
+          status: 'expired',
+          updatedAt: new Date(),
+        });
+      }
+
+      // Sign the offer with whichever team ends up with the player
+      const signing = match ? original : bidding;
+      const contractRef = db.collection('contracts').doc();
+      const contractDoc = {
+        id: contractRef.id,
+        leagueId: tagMatch.leagueId,
+        teamId: signing.team.id,
+        playerId: tagMatch.playerId,
+        originalBidId: tagMatch.bidId,
+        contract: offer,
+        status: 'active',
+        signedAt: new Date(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      const contract = toContract(contractRef.id, contractDoc);
+      const contractEntries = CapLedgerService.createContractEntries(contract);
+
+      // The signing team must stay under the cap in every contract year
+      assertCapCompliance(
+        league,
+        signing.team.id,
+        match ? originalLedger : biddingLedger,
+        match ? [...voidEntries, ...contractEntries] : contractEntries,
+        await getTeamCapHolds(signing.team.id, [
+          ...(await getTeamContracts(signing.team.id)),
+          contract,
+        ])
+      );
+
+      transaction.set(contractRef, contractDoc);
+      [...voidEntries, ...contractEntries].forEach((entry) => {
+        transaction.set(db.collection('capLedger').doc(entry.id), entry);
+      });
+
+      transaction.update(matchRef, {
+        status: match ? 'matched' : 'declined',
+        resolvedAt: new Date(),
+      });
+      transaction.update(tagRef, { status: match ? 'matched' : 'declined' });
+      transaction.update(db.collection('faBids').doc(tagMatch.bidId), {
+        status: match ? 'rejected' : 'accepted',
+        feedback: match
+          ? 'Offer matched by the tagging team'
+          : 'Tagging team declined to match',
+        evaluatedAt: new Date(),
+      } as Partial<FABid>);
+
+      const originalRoster = original.team.roster || [];
+      if (match) {
+        transaction.update(original.ref, {
+          roster: originalRoster.map((slot) =>
+            slot.playerId === tagMatch.playerId
+              ? { ...slot, contractId: contractRef.id }
+              : slot
+          ),
+          capSpace: calculateLedgerCapSpace(league, [
+            ...originalLedger,
+            ...voidEntries,
+            ...contractEntries,
+          ]),
+          updatedAt: new Date(),
+        });
+      } else {
+        const slot = originalRoster.find(
+          (rosterSlot) => rosterSlot.playerId === tagMatch.playerId
+        );
+
+        transaction.update(original.ref, {
+          roster: originalRoster.filter(
+            (rosterSlot) => rosterSlot.playerId !== tagMatch.playerId
+          ),
+          capSpace: calculateLedgerCapSpace(league, [
+            ...originalLedger,
+            ...voidEntries,
+          ]),
+          updatedAt: new Date(),
+        });
+        transaction.update(bidding.ref, {
+          roster: [
+            ...(bidding.team.roster || []),
+            {
+              ...slot,
+              playerId: tagMatch.playerId,
+              teamId: bidding.team.id,
+              contractId: contractRef.id,
+              signedAt: new Date(),
+              status: 'active',
+            },
+          ],
+          capSpace: calculateLedgerCapSpace(league, [
+            ...biddingLedger,
+            ...contractEntries,
+          ]),
+          updatedAt: new Date(),
+        });
+      }
+
+      return { contractId: contractRef.id, teamId: signing.team.id };
+    });
+
+    return { success: true, ...result };
+  } catch (error) {
+    console.error('Error responding to transition tag offer:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to respond to transition tag');
+  }
+});
+
+function toDate(value: Timestamp | Date): Date {
+  return value instanceof Timestamp ? value.toDate() : value;
+}
@@ -0,0 +1,48 @@
+import { TradeConsent } from './types';
+import { EnhancedPlayer, TeamLocation } from './personalities/enhanced-player';
+import { PersonalityEngine } from './personalities/personality-engine';
+
+/**
+ * How a traded player responds to his destination. A player with a no-trade
+ * clause declines teams he would not accept and may waive the clause only in
+ * exchange for an extension; a player without one has to report, but takes
+ * his reporting delay when he is unhappy with the move. Whether he wants an
+ * extension is settled once per league year.
+ */
+export class TradeConsentEvaluator {
+  static evaluate(
+    player: EnhancedPlayer,
+    destination: TeamLocation,
+    noTradeClause: boolean,
+    leagueYear: number
+  ): TradeConsent {
+    const response = {
+      playerId: player.id,
+      toTeamId: destination.teamId,
+      reportingDelayDays: 0,
+    };
+    const accepts = PersonalityEngine.wouldAcceptTrade(player, destination);
+
+    if (noTradeClause && !accepts) {
+      return { ...response, decision: 'decline' };
+    }
+    if (
+      noTradeClause &&
+      PersonalityEngine.wouldRequireExtensionOnTrade(player, leagueYear)
+    ) {
+      return {
+        ...response,
+        decision: 'extension',
+        extensionTerms: { ...PersonalityEngine.getExtensionTerms(player) },
+      };
+    }
+
+    return {
+      ...response,
+      decision: 'consent',
+      reportingDelayDays: accepts
+        ? 0
+        : PersonalityEngine.getReportingDelayIfUnhappy(player),
+    };
+  }
+}
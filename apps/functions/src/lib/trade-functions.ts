@@ -0,0 +1,1606 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { Timestamp } from 'firebase-admin/firestore';
+import type {
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  Transaction,
+} from 'firebase-admin/firestore';
+import { admin } from './utils/admin';
+import {
+  assertCommissioner,
+  assertPhaseAllows,
+  getLeagueTeams,
+  getTeamOrThrow,
+  TeamRecord,
+} from './utils/teams';
+import {
+  assertCapCompliance,
+  calculateLedgerCapSpace,
+  DEFAULT_CAP_GROWTH,
+  getDeadMoneyRules,
+  getSalaryCap,
+  getTeamLedger,
+  toContract,
+} from './utils/cap';
+import { getLeaguePlayers, toTeamLocation } from './utils/players';
+import { CapLedgerService, TradeReviewPolicy, TradeValidator } from './domain';
+import { TradeConsentEvaluator } from './trade-consent';
+import { ContractExtensionEngine } from './contract-extension';
+import type {
+  ContractOffer,
+  EnhancedPlayer,
+} from './personalities/enhanced-player';
+import type {
+  CapLedger,
+  Contract,
+  ContractExtension,
+  DraftPick,
+  League,
+  LeagueActivity,
+  Pick,
+  RosterSlot,
+  Trade,
+  TradeAsset,
+  TradeConsent,
+  TradePayload,
+} from './types';
+
+const { db } = admin();
+
+// ===== TRADE FUNCTIONS =====
+
+/**
+ * Preview how a trade changes each team's cap for the current and later
+ * league years, before it is proposed. Also lists traded players with a
+ * no-trade clause, who must agree to their destination, and how each traded
+ * player responds to his destination.
+ */
+export const previewTrade = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { leagueId, proposerTeamId, assets } = request.data;
+
+    const teamIds = toTeamIds(proposerTeamId, request.data.teamIds);
+    const payload = toTradePayload(assets, teamIds);
+    const records = await getTradeTeams(leagueId, teamIds, request.auth.uid);
+
+    const league = await getLeague(leagueId);
+    const [resolved, ledgers] = await Promise.all([
+      Promise.all(
+        records.map((record) =>
+          resolveTradeAssets(
+            record,
+            TradeValidator.getSentAssets(payload, record.team.id)
+          )
+        )
+      ),
+      Promise.all(teamIds.map((teamId) => getTeamLedger(teamId))),
+    ]);
+    assertCapAssets(payload, resolved, league.currentYear);
+    const players = await getLeaguePlayers(
+      leagueId,
+      getTradedPlayerIds(payload),
+      league.currentYear
+    );
+    const consents = getTradeConsents(
+      players,
+      payload,
+      resolved,
+      records,
+      league.currentYear
+    );
+
+    const capImpacts = TradeValidator.calculateTradeCapImpact(
+      { payload },
+      getResolvedContracts(resolved),
+      league.currentYear,
+      getDeadMoneyRules(league)
+    );
+
+    return {
+      capImpacts,
+      noTradeClausePlayerIds: getResolvedContracts(resolved)
+        .filter((contract) => contract.noTradeClause)
+        .map((contract) => contract.playerId),
+      consents,
+      capPositions: teamIds.flatMap((teamId, index) =>
+        TradeValidator.getCapPositions(
+          teamId,
+          ledgers[index],
+          capImpacts,
+          league.currentYear,
+          getSalaryCap(league),
+          league.rules?.cap?.projectedCapGrowth ?? DEFAULT_CAP_GROWTH
+        )
+      ),
+    };
+  } catch (error) {
+    console.error('Error previewing trade:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to preview trade');
+  }
+});
+
+/**
+ * Propose a trade to one or more other teams in the league. Each asset names
+ * the team sending it and the team receiving it.
+ */
+export const proposeTrade = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { leagueId, proposerTeamId, assets, message } = request.data;
+
+    const teamIds = toTeamIds(proposerTeamId, request.data.teamIds);
+    const payload = toTradePayload(assets, teamIds);
+    const records = await getTradeTeams(leagueId, teamIds, request.auth.uid);
+
+    const league = await getLeague(leagueId);
+    assertPhaseAllows(league, 'trade');
+    const resolved = await Promise.all(
+      records.map((record) =>
+        resolveTradeAssets(
+          record,
+          TradeValidator.getSentAssets(payload, record.team.id)
+        )
+      )
+    );
+    assertCapAssets(payload, resolved, league.currentYear);
+    const players = await getLeaguePlayers(
+      leagueId,
+      getTradedPlayerIds(payload),
+      league.currentYear
+    );
+    const consents = getTradeConsents(
+      players,
+      payload,
+      resolved,
+      records,
+      league.currentYear
+    );
+    assertConsents(payload, consents, resolved);
+
+    const tradeRef = db.collection('trades').doc();
+    const trade: Trade = {
+      id: tradeRef.id,
+      leagueId,
+      proposerTeamId,
+      teamIds,
+      acceptedTeamIds: [proposerTeamId],
+      status: 'proposed',
+      payload,
+      capImpacts: TradeValidator.calculateTradeCapImpact(
+        { payload },
+        getResolvedContracts(resolved),
+        league.currentYear,
+        getDeadMoneyRules(league)
+      ),
+      ...(consents.length > 0 && { consents }),
+      ...(message && { message }),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    await tradeRef.set(trade);
+
+    return { success: true, trade };
+  } catch (error) {
+    console.error('Error proposing trade:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to propose trade');
+  }
+});
+
+/**
+ * Counter a trade proposal. The original proposal is marked countered and a
+ * new proposal between the same teams comes from the countering team.
+ */
+export const counterTrade = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { tradeId, teamId, assets, message } = request.data;
+
+    if (!tradeId || !teamId) {
+      throw new HttpsError(
+        'invalid-argument',
+        'Trade ID and team ID are required'
+      );
+    }
+
+    const tradeRef = db.collection('trades').doc(tradeId);
+
+    const counter = await db.runTransaction(async (transaction) => {
+      const original = await getOpenTrade(tradeRef, transaction);
+      if (teamId === original.proposerTeamId) {
+        throw new HttpsError(
+          'failed-precondition',
+          'A team cannot counter its own trade'
+        );
+      }
+      await getParticipant(original, teamId, request.auth?.uid, transaction);
+
+      // The countering team becomes the proposer of the new trade
+      const teamIds = toTeamIds(teamId, original.teamIds);
+      const payload = toTradePayload(assets, teamIds);
+      const records = await Promise.all(
+        teamIds.map((participantId) =>
+          getTeamOrThrow(participantId, transaction)
+        )
+      );
+
+      const league = await getLeague(original.leagueId, transaction);
+      assertPhaseAllows(league, 'trade');
+      const resolved = await Promise.all(
+        records.map((record) =>
+          resolveTradeAssets(
+            record,
+            TradeValidator.getSentAssets(payload, record.team.id),
+            transaction
+          )
+        )
+      );
+      assertCapAssets(payload, resolved, league.currentYear);
+      const players = await getLeaguePlayers(
+        original.leagueId,
+        getTradedPlayerIds(payload),
+        league.currentYear,
+        transaction
+      );
+      const consents = getTradeConsents(
+        players,
+        payload,
+        resolved,
+        records,
+        league.currentYear,
+        original.consents
+      );
+      assertConsents(payload, consents, resolved);
+
+      const counterRef = db.collection('trades').doc();
+      const counter: Trade = {
+        id: counterRef.id,
+        leagueId: original.leagueId,
+        proposerTeamId: teamId,
+        teamIds,
+        acceptedTeamIds: [teamId],
+        status: 'proposed',
+        payload,
+        capImpacts: TradeValidator.calculateTradeCapImpact(
+          { payload },
+          getResolvedContracts(resolved),
+          league.currentYear,
+          getDeadMoneyRules(league)
+        ),
+        ...(consents.length > 0 && { consents }),
+        ...(message && { message }),
+        counterOfTradeId: original.id,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      transaction.update(tradeRef, {
+        status: 'countered',
+        respondedAt: new Date(),
+        updatedAt: new Date(),
+      });
+      transaction.set(counterRef, counter);
+      return counter;
+    });
+
+    return { success: true, trade: counter };
+  } catch (error) {
+    console.error('Error countering trade:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to counter trade');
+  }
+});
+
+/**
+ * Record a participating team's acceptance. Once every team has accepted,
+ * the trade goes to review when the league reviews trades; otherwise every
+ * asset moves between the teams in one transaction.
+ */
+export const acceptTrade = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { tradeId, teamId } = request.data;
+
+    if (!tradeId || !teamId) {
+      throw new HttpsError(
+        'invalid-argument',
+        'Trade ID and team ID are required'
+      );
+    }
+
+    const tradeRef = db.collection('trades').doc(tradeId);
+
+    const trade = await db.runTransaction(async (transaction) => {
+      const trade = await getOpenTrade(tradeRef, transaction);
+      if (trade.acceptedTeamIds.includes(teamId)) {
+        throw new HttpsError(
+          'failed-precondition',
+          'Team has already accepted this trade'
+        );
+      }
+      await getParticipant(trade, teamId, request.auth?.uid, transaction);
+
+      const league = await getLeague(trade.leagueId, transaction);
+      assertPhaseAllows(league, 'trade');
+
+      const acceptedTeamIds = [...trade.acceptedTeamIds, teamId];
+      if (trade.teamIds.some((id) => !acceptedTeamIds.includes(id))) {
+        const pending: Trade = {
+          ...trade,
+          acceptedTeamIds,
+          updatedAt: new Date(),
+        };
+        transaction.update(tradeRef, {
+          acceptedTeamIds,
+          updatedAt: pending.updatedAt,
+        });
+        return pending;
+      }
+
+      // Every team has accepted: the trade either goes to review or executes
+      const records = await Promise.all(
+        trade.teamIds.map((participantId) =>
+          getTeamOrThrow(participantId, transaction)
+        )
+      );
+      const review = TradeReviewPolicy.startReview(
+        league.rules?.trades,
+        trade.teamIds,
+        league.rules?.trades?.review === 'leagueVote'
+          ? (await getLeagueTeams(trade.leagueId)).map(({ team }) => team.id)
+          : [],
+        new Date()
+      );
+
+      if (!review) {
+        const accepted = await executeTrade(
+          transaction,
+          { ...trade, acceptedTeamIds },
+          league,
+          records
+        );
+        recordTradeActivity(
+          transaction,
+          accepted,
+          `${joinTeamNames(records)} completed a trade`
+        );
+        return accepted;
+      }
+
+      const inReview: Trade = {
+        ...trade,
+        acceptedTeamIds,
+        status: 'review',
+        review,
+        respondedAt: new Date(),
+        updatedAt: new Date(),
+      };
+      transaction.set(tradeRef, inReview);
+      recordTradeActivity(
+        transaction,
+        inReview,
+        `${joinTeamNames(records)} agreed to a trade pending ${
+          review.mode === 'commissioner'
+            ? 'commissioner approval'
+            : 'a league veto vote'
+        }`
+      );
+
+      return inReview;
+    });
+
+    return { success: true, trade };
+  } catch (error) {
+    console.error('Error accepting trade:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to accept trade');
+  }
+});
+
+/**
+ * Reject a trade on behalf of one of the teams it was proposed to
+ */
+export const rejectTrade = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { tradeId, teamId } = request.data;
+
+    if (!tradeId || !teamId) {
+      throw new HttpsError(
+        'invalid-argument',
+        'Trade ID and team ID are required'
+      );
+    }
+
+    const tradeRef = db.collection('trades').doc(tradeId);
+
+    await db.runTransaction(async (transaction) => {
+      const trade = await getOpenTrade(tradeRef, transaction);
+      if (teamId === trade.proposerTeamId) {
+        throw new HttpsError(
+          'failed-precondition',
+          'The proposing team cancels its trade instead of rejecting it'
+        );
+      }
+      await getParticipant(trade, teamId, request.auth?.uid, transaction);
+
+      transaction.update(tradeRef, {
+        status: 'rejected',
+        respondedAt: new Date(),
+        updatedAt: new Date(),
+      });
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error rejecting trade:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to reject trade');
+  }
+});
+
+/**
+ * Withdraw a trade the caller's team proposed
+ */
+export const cancelTrade = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { tradeId } = request.data;
+
+    if (!tradeId) {
+      throw new HttpsError('invalid-argument', 'Trade ID is required');
+    }
+
+    const tradeRef = db.collection('trades').doc(tradeId);
+
+    await db.runTransaction(async (transaction) => {
+      const trade = await getOpenTrade(tradeRef, transaction);
+      assertTeamOwner(
+        await getTeamOrThrow(trade.proposerTeamId, transaction),
+        request.auth?.uid
+      );
+
+      transaction.update(tradeRef, {
+        status: 'cancelled',
+        updatedAt: new Date(),
+      });
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error cancelling trade:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to cancel trade');
+  }
+});
+
+/**
+ * Approve or veto a trade awaiting commissioner review
+ */
+export const reviewTrade = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { tradeId, approve } = request.data;
+
+    if (!tradeId || typeof approve !== 'boolean') {
+      throw new HttpsError(
+        'invalid-argument',
+        'Trade ID and decision are required'
+      );
+    }
+
+    const tradeRef = db.collection('trades').doc(tradeId);
+    const { leagueId } = await getOpenTrade(tradeRef, undefined, 'review');
+    await assertCommissioner(leagueId, request.auth.uid, 'canApproveTrades');
+
+    const trade = await db.runTransaction(async (transaction) => {
+      const trade = await getOpenTrade(tradeRef, transaction, 'review');
+      if (trade.review?.mode !== 'commissioner') {
+        throw new HttpsError(
+          'failed-precondition',
+          'This trade is being decided by a league vote'
+        );
+      }
+
+      const league = await getLeague(trade.leagueId, transaction);
+      const records = await Promise.all(
+        trade.teamIds.map((teamId) => getTeamOrThrow(teamId, transaction))
+      );
+      const review = {
+        ...trade.review,
+        decidedBy: request.auth?.uid,
+        decidedAt: new Date(),
+      };
+
+      if (approve) {
+        const accepted = await executeTrade(
+          transaction,
+          { ...trade, review },
+          league,
+          records
+        );
+        recordTradeActivity(
+          transaction,
+          accepted,
+          `The commissioner approved the trade between ${joinTeamNames(
+            records
+          )}`
+        );
+        return accepted;
+      }
+
+      const vetoed: Trade = {
+        ...trade,
+        status: 'vetoed',
+        review,
+        updatedAt: new Date(),
+      };
+      transaction.set(tradeRef, vetoed);
+      recordTradeActivity(
+        transaction,
+        vetoed,
+        `The commissioner vetoed the trade between ${joinTeamNames(records)}`
+      );
+      return vetoed;
+    });
+
+    return { success: true, trade };
+  } catch (error) {
+    console.error('Error reviewing trade:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to review trade');
+  }
+});
+
+/**
+ * Veto a trade under league vote on behalf of a team outside the trade. The
+ * trade is overturned as soon as enough teams veto.
+ */
+export const vetoTrade = onCall(async (request) => {
+  try {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Sign in required');
+    }
+
+    const { tradeId, teamId } = request.data;
+
+    if (!tradeId || !teamId) {
+      throw new HttpsError(
+        'invalid-argument',
+        'Trade ID and team ID are required'
+      );
+    }
+
+    const tradeRef = db.collection('trades').doc(tradeId);
+
+    const trade = await db.runTransaction(async (transaction) => {
+      const trade = await getOpenTrade(tradeRef, transaction, 'review');
+      if (!trade.review) {
+        throw new HttpsError('failed-precondition', 'Trade is not in review');
+      }
+      assertTeamOwner(
+        await getTeamOrThrow(teamId, transaction),
+        request.auth?.uid
+      );
+
+      const errors = TradeReviewPolicy.validateVeto(
+        trade.review,
+        teamId,
+        new Date()
+      );
+      if (errors.length > 0) {
+        throw new HttpsError('failed-precondition', errors.join(', '));
+      }
+
+      const review = {
+        ...trade.review,
+        vetoTeamIds: [...trade.review.vetoTeamIds, teamId],
+      };
+      if (!TradeReviewPolicy.isVetoed(review)) {
+        transaction.update(tradeRef, { review, updatedAt: new Date() });
+        return { ...trade, review, updatedAt: new Date() };
+      }
+
+      const records = await Promise.all(
+        trade.teamIds.map((participantId) =>
+          getTeamOrThrow(participantId, transaction)
+        )
+      );
+      const vetoed: Trade = {
+        ...trade,
+        status: 'vetoed',
+        review: { ...review, decidedAt: new Date() },
+        updatedAt: new Date(),
+      };
+      transaction.set(tradeRef, vetoed);
+      recordTradeActivity(
+        transaction,
+        vetoed,
+        `The league vetoed the trade between ${joinTeamNames(records)}`
+      );
+      return vetoed;
+    });
+
+    return { success: true, trade };
+  } catch (error) {
+    console.error('Error vetoing trade:', error);
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    throw new HttpsError('internal', 'Failed to veto trade');
+  }
+});
+
+/**
+ * Process trades whose league veto window has closed without enough vetoes.
+ * A trade that can no longer execute (an asset has since moved, or a team
+ * would break the cap) is cancelled and the reason posted to the league.
+ */
+export const processTradeReviews = onSchedule('every 15 minutes', async () => {
+  try {
+    const reviewSnapshot = await db
+      .collection('trades')
+      .where('status', '==', 'review')
+      .get();
+    const now = new Date();
+
+    for (const tradeDoc of reviewSnapshot.docs) {
+      const { review } = toTrade(tradeDoc.data());
+      if (
+        review?.mode !== 'leagueVote' ||
+        !TradeReviewPolicy.isVoteClosed(review, now)
+      ) {
+        continue;
+      }
+
+      try {
+        await db.runTransaction(async (transaction) => {
+          const trade = await getOpenTrade(tradeDoc.ref, transaction, 'review');
+          if (!trade.review) {
+            return;
+          }
+          const league = await getLeague(trade.leagueId, transaction);
+          const records = await Promise.all(
+            trade.teamIds.map((teamId) => getTeamOrThrow(teamId, transaction))
+          );
+
+          // Execution checks every asset and cap position before writing,
+          // so a trade that fails them can be cancelled in this transaction
+          try {
+            const accepted = await executeTrade(
+              transaction,
+              { ...trade, review: { ...trade.review, decidedAt: now } },
+              league,
+              records
+            );
+            recordTradeActivity(
+              transaction,
+              accepted,
+              `${joinTeamNames(records)} completed a trade after the veto vote`
+            );
+          } catch (error) {
+            if (!(error instanceof HttpsError)) {
+              throw error;
+            }
+            transaction.update(tradeDoc.ref, {
+              status: 'cancelled',
+              updatedAt: new Date(),
+            });
+            recordTradeActivity(
+              transaction,
+              trade,
+              `The trade between ${joinTeamNames(
+                records
+              )} could not be completed: ${error.message}`
+            );
+          }
+        });
+      } catch (error) {
+        console.error(`Error processing trade ${tradeDoc.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('Error processing trade reviews:', error);
+  }
+});
+
+/**
+ * Roster slots, contracts and picks a team sends, each with the team
+ * receiving it
+ */
+interface ResolvedTradeAssets {
+  slots: { slot: RosterSlot; toTeamId: string }[];
+  contracts: { ref: DocumentReference; contract: Contract; toTeamId: string }[];
+  picks: { ref: DocumentReference; pick: Pick; toTeamId: string }[];
+}
+
+/**
+ * A team's side of a trade being executed
+ */
+interface TradeParticipant {
+  record: TeamRecord;
+  assets: ResolvedTradeAssets;
+  ledger: CapLedger[];
+}
+
+/**
+ * Participating team IDs with the proposing team first
+ */
+function toTeamIds(proposerTeamId: string, teamIds: string[] = []): string[] {
+  if (!proposerTeamId) {
+    throw new HttpsError('invalid-argument', 'Proposing team ID is required');
+  }
+  return [
+    proposerTeamId,
+    ...(teamIds || []).filter((teamId) => teamId !== proposerTeamId),
+  ];
+}
+
+/**
+ * Validate the asset list sent by the client
+ */
+function toTradePayload(
+  assets: TradeAsset[] = [],
+  teamIds: string[]
+): TradePayload {
+  const payload: TradePayload = {
+    assets: (assets || []).map(
+      ({ type, id, fromTeamId, toTeamId, value, year, playerId }) =>
+        type === 'cap'
+          ? {
+              type,
+              id: TradeValidator.getCapAssetId({ fromTeamId, year, playerId }),
+              fromTeamId,
+              toTeamId,
+              value: Number(value) || 0,
+              ...(playerId ? { playerId } : { year: Number(year) || 0 }),
+            }
+          : { type, id, fromTeamId, toTeamId }
+    ),
+  };
+
+  const errors = TradeValidator.validateTrade(payload, teamIds);
+  if (errors.length > 0) {
+    throw new HttpsError('invalid-argument', errors.join(', '));
+  }
+  if (
+    payload.assets.some(
+      (asset) =>
+        asset.type !== 'player' && asset.type !== 'pick' && asset.type !== 'cap'
+    )
+  ) {
+    throw new HttpsError(
+      'invalid-argument',
+      'Only players, draft picks and cap space can be traded'
+    );
+  }
+
+  return payload;
+}
+
+/**
+ * How each traded player responds to his destination, judged from the
+ * personality on his league player record and where the team plays. A
+ * player keeps the extension decision he already gave for a destination when
+ * a trade is countered or executed; whether he accepts the team and how late
+ * he reports are judged again.
+ */
+function getTradeConsents(
+  players: Map<string, EnhancedPlayer>,
+  payload: TradePayload,
+  resolved: ResolvedTradeAssets[],
+  records: TeamRecord[],
+  leagueYear: number,
+  recorded: TradeConsent[] = []
+): TradeConsent[] {
+  const contracts = getResolvedContracts(resolved);
+
+  return payload.assets
+    .filter((asset) => asset.type === 'player')
+    .flatMap((asset) => {
+      const player = players.get(asset.id);
+      const destination = records.find(
+        ({ team }) => team.id === asset.toTeamId
+      );
+      if (!player || !destination) return [];
+
+      const consent = TradeConsentEvaluator.evaluate(
+        player,
+        toTeamLocation(destination.team),
+        contracts.some(
+          (contract) => contract.playerId === asset.id && contract.noTradeClause
+        ),
+        leagueYear
+      );
+      const previous = TradeValidator.getConsent(
+        recorded,
+        asset.id,
+        asset.toTeamId
+      );
+      if (!previous || consent.decision === 'decline') {
+        return [consent];
+      }
+
+      return [
+        {
+          playerId: consent.playerId,
+          toTeamId: consent.toTeamId,
+          decision: previous.decision === 'extension' ? 'extension' : 'consent',
+          reportingDelayDays: consent.reportingDelayDays,
+          ...(previous.decision === 'extension' &&
+            previous.extensionTerms && {
+              extensionTerms: previous.extensionTerms,
+            }),
+        },
+      ];
+    });
+}
+
+/**
+ * Players traded in a trade, whose consent is evaluated
+ */
+function getTradedPlayerIds(payload: TradePayload): string[] {
+  return payload.assets
+    .filter((asset) => asset.type === 'player')
+    .map((asset) => asset.id);
+}
+
+/**
+ * Extensions players demanded for waiving a no-trade clause. An extension
+ * already moving with the player must meet his terms; a player without one
+ * is extended by his new team at his terms as the trade goes through.
+ */
+function getDemandedExtensions(
+  moving: { contract: Contract; toTeamId: string }[],
+  consents: TradeConsent[],
+  players: Map<string, EnhancedPlayer>,
+  records: TeamRecord[]
+): { contractId: string; contract: Contract; offer: ContractOffer }[] {
+  return consents
+    .filter((consent) => consent.decision === 'extension')
+    .flatMap((consent) => {
+      const player = players.get(consent.playerId);
+      const destination = records.find(
+        ({ team }) => team.id === consent.toTeamId
+      );
+      const contracts = moving
+        .filter(
+          ({ contract, toTeamId }) =>
+            contract.playerId === consent.playerId &&
+            toTeamId === consent.toTeamId
+        )
+        .map(({ contract }) => contract);
+      const current = contracts.find((contract) => !contract.extendsContractId);
+      if (!player || !destination || !current) return [];
+
+      const { tradePreferences } = player.personality;
+      const demands = ContractExtensionEngine.getExtensionDemands({
+        ...player,
+        personality: {
+          ...player.personality,
+          tradePreferences: {
+            ...tradePreferences,
+            extensionTerms:
+              consent.extensionTerms || tradePreferences.extensionTerms,
+          },
+        },
+      });
+      const location = toTeamLocation(destination.team);
+
+      const existing = contracts.find(
+        (contract) => contract.extendsContractId === current.id
+      );
+      if (existing) {
+        const unmet = ContractExtensionEngine.checkExtensionTerms(
+          ContractExtensionEngine.buildOffer(
+            {
+              years: existing.endYear - existing.startYear + 1,
+              baseSalary: existing.baseSalary,
+              signingBonus: existing.signingBonus,
+              guarantees: existing.guarantees,
+              options: existing.options,
+            },
+            player,
+            location
+          ),
+          demands
+        );
+        if (unmet.length > 0) {
+          throw new HttpsError(
+            'failed-precondition',
+            `Player ${
+              consent.playerId
+            } will not waive his no-trade clause for his current extension: ${unmet.join(
+              ', '
+            )}`
+          );
+        }
+        return [];
+      }
+
+      const proposal = ContractExtensionEngine.createProposal(
+        current,
+        demands.minYears,
+        demands.minApy,
+        0,
+        Math.ceil(demands.minApy * demands.minYears * demands.minGuaranteedPct)
+      );
+      return [
+        {
+          contractId: current.id,
+          contract: ContractExtensionEngine.createExtensionContract(
+            { ...current, teamId: consent.toTeamId },
+            proposal,
+            `${current.id}_ext_${current.endYear + 1}`
+          ),
+          offer: ContractExtensionEngine.buildOffer(proposal, player, location),
+        },
+      ];
+    });
+}
+
+/**
+ * Reject a trade a player with a no-trade clause has not agreed to
+ */
+function assertConsents(
+  payload: TradePayload,
+  consents: TradeConsent[],
+  resolved: ResolvedTradeAssets[]
+): void {
+  const errors = TradeValidator.validateConsents(
+    payload,
+    consents,
+    getResolvedContracts(resolved)
+  );
+  if (errors.length > 0) {
+    throw new HttpsError('failed-precondition', errors.join(', '));
+  }
+}
+
+/**
+ * Reject cap space sent for a past year or salary retained on a player
+ * without a contract
+ */
+function assertCapAssets(
+  payload: TradePayload,
+  resolved: ResolvedTradeAssets[],
+  currentYear: number
+): void {
+  const errors = TradeValidator.validateCapAssets(
+    payload,
+    getResolvedContracts(resolved),
+    currentYear
+  );
+  if (errors.length > 0) {
+    throw new HttpsError('failed-precondition', errors.join(', '));
+  }
+}
+
+/**
+ * Load every team in a new trade, checking the caller owns the proposing team
+ * (listed first) and every team is in the league
+ */
+async function getTradeTeams(
+  leagueId: string,
+  teamIds: string[],
+  userId: string
+): Promise<TeamRecord[]> {
+  if (!leagueId) {
+    throw new HttpsError('invalid-argument', 'League ID is required');
+  }
+
+  const records = await Promise.all(
+    teamIds.map((teamId) => getTeamOrThrow(teamId))
+  );
+  assertTeamOwner(records[0], userId);
+  if (records.some((record) => record.team.leagueId !== leagueId)) {
+    throw new HttpsError(
+      'invalid-argument',
+      'Every team in the trade must be in the league'
+    );
+  }
+
+  return records;
+}
+
+/**
+ * Load a participating team, checking the caller owns it
+ */
+async function getParticipant(
+  trade: Trade,
+  teamId: string,
+  userId?: string,
+  transaction?: Transaction
+): Promise<TeamRecord> {
+  if (!trade.teamIds.includes(teamId)) {
+    throw new HttpsError('invalid-argument', 'Team is not part of this trade');
+  }
+
+  const record = await getTeamOrThrow(teamId, transaction);
+  assertTeamOwner(record, userId);
+  return record;
+}
+
+function assertTeamOwner(record: TeamRecord, userId?: string): void {
+  if (record.team.ownerUserId !== userId) {
+    throw new HttpsError(
+      'permission-denied',
+      'Only the team owner can manage this trade'
+    );
+  }
+}
+
+async function getLeague(
+  leagueId: string,
+  transaction?: Transaction
+): Promise<League> {
+  const leagueRef = db.collection('leagues').doc(leagueId);
+  const leagueDoc = transaction
+    ? await transaction.get(leagueRef)
+    : await leagueRef.get();
+  if (!leagueDoc.exists) {
+    throw new HttpsError('not-found', 'League not found');
+  }
+  return leagueDoc.data() as League;
+}
+
+/**
+ * Load a trade that is still awaiting a response, or awaiting review
+ */
+async function getOpenTrade(
+  tradeRef: DocumentReference,
+  transaction?: Transaction,
+  status: 'proposed' | 'review' = 'proposed'
+): Promise<Trade> {
+  const tradeDoc = transaction
+    ? await transaction.get(tradeRef)
+    : await tradeRef.get();
+  if (!tradeDoc.exists) {
+    throw new HttpsError('not-found', 'Trade not found');
+  }
+
+  const trade = toTrade(tradeDoc.data());
+  if (trade.status !== status) {
+    throw new HttpsError(
+      'failed-precondition',
+      trade.status === 'review'
+        ? 'Trade is awaiting review'
+        : status === 'review'
+        ? 'Trade is not in review'
+        : `Trade has already been ${trade.status}`
+    );
+  }
+  return trade;
+}
+
+/**
+ * Read a stored trade, converting review timestamps
+ */
+function toTrade(data: DocumentData = {}): Trade {
+  const trade = data as Trade;
+  if (!trade.review) {
+    return trade;
+  }
+
+  const { review } = trade;
+  return {
+    ...trade,
+    review: {
+      ...review,
+      startedAt: toDate(review.startedAt),
+      ...(review.deadline && { deadline: toDate(review.deadline) }),
+      ...(review.decidedAt && { decidedAt: toDate(review.decidedAt) }),
+    },
+  };
+}
+
+function toDate(value: Timestamp | Date): Date {
+  return value instanceof Timestamp ? value.toDate() : value;
+}
+
+/**
+ * Move every asset in a trade every team has accepted. Cap charges for the
+ * rest of each traded contract follow the player; bonus proration and any
+ * retained salary stay behind on the trading team. Players who waived a
+ * no-trade clause for an extension are extended by their new team at their
+ * terms, and unhappy players sit out of the lineup until they report. Other
+ * open trades that include a moved asset are cancelled.
+ */
+async function executeTrade(
+  transaction: Transaction,
+  trade: Trade,
+  league: League,
+  records: TeamRecord[]
+): Promise<Trade> {
+  const participants: TradeParticipant[] = [];
+  for (const record of records) {
+    participants.push({
+      record,
+      assets: await resolveTradeAssets(
+        record,
+        TradeValidator.getSentAssets(trade.payload, record.team.id),
+        transaction
+      ),
+      ledger: await getTeamLedger(record.team.id, transaction),
+    });
+  }
+  const openTradesSnapshot = await transaction.get(
+    db
+      .collection('trades')
+      .where('leagueId', '==', trade.leagueId)
+      .where('status', 'in', ['proposed', 'review'])
+  );
+
+  // A traded pick may be on the clock in the current draft
+  const draftStateRef = db.collection('draft-states').doc(trade.leagueId);
+  const boardPicks = participants
+    .flatMap(({ assets }) => assets.picks)
+    .filter(({ ref }) => ref.parent.id === 'picks');
+  const draftState =
+    boardPicks.length > 0
+      ? (await transaction.get(draftStateRef)).data()
+      : undefined;
+  const players = await getLeaguePlayers(
+    trade.leagueId,
+    getTradedPlayerIds(trade.payload),
+    league.currentYear,
+    transaction
+  );
+  const consents = getTradeConsents(
+    players,
+    trade.payload,
+    participants.map(({ assets }) => assets),
+    records,
+    league.currentYear,
+    trade.consents
+  );
+
+  assertCapAssets(
+    trade.payload,
+    participants.map(({ assets }) => assets),
+    league.currentYear
+  );
+  assertConsents(
+    trade.payload,
+    consents,
+    participants.map(({ assets }) => assets)
+  );
+  const maxPlayers = league.rules?.roster?.maxPlayers;
+  participants.forEach(({ record }) =>
+    assertRosterLimit(
+      record,
+      TradeValidator.getSentAssets(trade.payload, record.team.id),
+      TradeValidator.getReceivedAssets(trade.payload, record.team.id),
+      maxPlayers
+    )
+  );
+
+  const movedEntries = participants.flatMap(({ ledger, assets }) =>
+    getMovingLedgerEntries(ledger, assets.contracts, league.currentYear)
+  );
+  const tradedContracts = getResolvedContracts(
+    participants.map(({ assets }) => assets)
+  );
+  const deadMoneyRules = getDeadMoneyRules(league);
+  const tradeEntries = TradeValidator.createTradeLedgerEntries(
+    trade.id,
+    trade,
+    tradedContracts,
+    league.currentYear,
+    deadMoneyRules
+  );
+  const extensions = getDemandedExtensions(
+    participants.flatMap(({ assets }) => assets.contracts),
+    consents,
+    players,
+    records
+  );
+  const extensionEntries = extensions.flatMap(({ contract }) =>
+    CapLedgerService.createContractEntries(contract)
+  );
+
+  // Check every team's combined result before anything moves
+  const capSpaces = participants.map(({ record, ledger }) => {
+    const kept = ledger.filter(
+      (entry) => !movedEntries.some((moved) => moved.id === entry.id)
+    );
+    const received = [
+      ...movedEntries,
+      ...tradeEntries,
+      ...extensionEntries,
+    ].filter((entry) => entry.teamId === record.team.id);
+    assertCapCompliance(league, record.team.id, kept, received);
+    return calculateLedgerCapSpace(league, [...kept, ...received]);
+  });
+
+  movedEntries.forEach((entry) => {
+    transaction.update(db.collection('capLedger').doc(entry.id), {
+      teamId: entry.teamId,
+    });
+  });
+  [...tradeEntries, ...extensionEntries].forEach((entry) => {
+    transaction.set(db.collection('capLedger').doc(entry.id), entry);
+  });
+  extensions.forEach(({ contractId, contract, offer }) => {
+    const extension: ContractExtension = {
+      id: contract.id,
+      leagueId: trade.leagueId,
+      teamId: contract.teamId,
+      playerId: contract.playerId,
+      contractId,
+      newContractId: contract.id,
+      leagueYear: league.currentYear,
+      years: offer.years,
+      totalValue: offer.totalValue,
+      guaranteedAmount: offer.guaranteedAmount,
+      signedAt: new Date(),
+    };
+    transaction.set(db.collection('contracts').doc(contract.id), {
+      ...contract,
+      leagueId: trade.leagueId,
+    });
+    transaction.set(db.collection('extensions').doc(extension.id), extension);
+  });
+  participants.forEach(({ assets }) => {
+    assets.contracts.forEach(({ ref, contract, toTeamId }) => {
+      const retention = TradeValidator.getSalaryRetention(
+        trade.payload,
+        trade.id,
+        contract,
+        league.currentYear
+      );
+      const consent = TradeValidator.getConsent(
+        consents,
+        contract.playerId,
+        toTeamId
+      );
+      transaction.update(ref, {
+        teamId: toTeamId,
+        ...(retention && {
+          retentions: [...(contract.retentions || []), retention],
+        }),
+        ...(consent?.decision === 'extension' &&
+          consent.extensionTerms && {
+            extensionDemand: {
+              tradeId: trade.id,
+              teamId: toTeamId,
+              extensionTerms: consent.extensionTerms,
+            },
+          }),
+        updatedAt: new Date(),
+      });
+    });
+    assets.picks.forEach(({ ref, toTeamId }) => {
+      transaction.update(ref, { currentTeamId: toTeamId });
+    });
+  });
+  const onTheClock = boardPicks.find(
+    ({ pick }) =>
+      draftState &&
+      !draftState['isComplete'] &&
+      (pick as DraftPick).pickNumber === draftState['currentPick']
+  );
+  if (onTheClock) {
+    transaction.update(draftStateRef, {
+      currentTeamId: onTheClock.toTeamId,
+      updatedAt: new Date(),
+    });
+  }
+  // Players unhappy with their new team are held out until they report
+  const tradedAt = new Date();
+  participants.forEach(({ record, assets }, index) => {
+    transaction.update(record.ref, {
+      roster: moveRosterSlots(
+        record,
+        assets.slots.map(({ slot }) => slot),
+        participants
+          .flatMap((participant) => participant.assets.slots)
+          .filter(({ toTeamId }) => toTeamId === record.team.id)
+          .map(({ slot, toTeamId }) => {
+            const reportsOn = TradeValidator.getReportingDate(
+              TradeValidator.getConsent(
+                consents,
+                String(slot.playerId),
+                toTeamId
+              ),
+              tradedAt
+            );
+            return reportsOn
+              ? {
+                  ...slot,
+                  status: slot.status === 'active' ? 'bench' : slot.status,
+                  reportsOn,
+                }
+              : slot;
+          })
+      ),
+      capSpace: capSpaces[index],
+      updatedAt: new Date(),
+    });
+  });
+
+  openTradesSnapshot.docs
+    .filter((openTradeDoc) => openTradeDoc.id !== trade.id)
+    .filter((openTradeDoc) =>
+      TradeValidator.sharesAssets(
+        trade.payload,
+        (openTradeDoc.data() as Trade).payload
+      )
+    )
+    .forEach((openTradeDoc) => {
+      transaction.update(openTradeDoc.ref, {
+        status: 'cancelled',
+        updatedAt: new Date(),
+      });
+    });
+
+  const accepted: Trade = {
+    ...trade,
+    ...(consents.length > 0 && { consents }),
+    capImpacts: TradeValidator.calculateTradeCapImpact(
+      trade,
+      tradedContracts,
+      league.currentYear,
+      deadMoneyRules
+    ),
+    status: 'accepted',
+    respondedAt: trade.respondedAt ?? new Date(),
+    updatedAt: new Date(),
+  };
+  transaction.set(db.collection('trades').doc(trade.id), accepted);
+
+  return accepted;
+}
+
+/**
+ * Post a trade outcome to the league activity log
+ */
+function recordTradeActivity(
+  transaction: Transaction,
+  trade: Trade,
+  message: string
+): void {
+  const activityRef = db.collection('leagueActivity').doc();
+  const activity: LeagueActivity = {
+    id: activityRef.id,
+    leagueId: trade.leagueId,
+    type: 'trade',
+    message,
+    refId: trade.id,
+    createdAt: new Date(),
+  };
+  transaction.set(activityRef, activity);
+}
+
+/**
+ * Team names for activity messages, e.g. "A and B" or "A, B and C"
+ */
+function joinTeamNames(records: TeamRecord[]): string {
+  const names = records.map(({ team }) => team.name);
+  return names.length > 1
+    ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+    : names.join('');
+}
+
+/**
+ * Check a team still holds every asset it is sending and load the roster
+ * slots, contracts and picks that will move. Undrafted picks in the current
+ * draft live in `picks`; picks in later drafts live in `futurePicks`.
+ */
+async function resolveTradeAssets(
+  record: TeamRecord,
+  assets: TradeAsset[],
+  transaction?: Transaction
+): Promise<ResolvedTradeAssets> {
+  const { team } = record;
+  const resolved: ResolvedTradeAssets = { slots: [], contracts: [], picks: [] };
+
+  for (const asset of assets) {
+    const { toTeamId } = asset;
+
+    // Cap space and retained salary are ledger entries, not documents
+    if (asset.type === 'cap') continue;
+
+    if (asset.type === 'player') {
+      const slot = (team.roster || []).find(
+        (rosterSlot) => String(rosterSlot.playerId) === asset.id
+      );
+      if (!slot) {
+        throw new HttpsError(
+          'failed-precondition',
+          `Player ${asset.id} is not on the ${team.name} roster`
+        );
+      }
+
+      const contractsQuery = db
+        .collection('contracts')
+        .where('teamId', '==', team.id)
+        .where('playerId', '==', asset.id);
+      const contractsSnapshot = transaction
+        ? await transaction.get(contractsQuery)
+        : await contractsQuery.get();
+
+      resolved.slots.push({ slot, toTeamId });
+      contractsSnapshot.docs
+        .map((contractDoc) => ({
+          ref: contractDoc.ref,
+          contract: toContract(contractDoc.id, contractDoc.data()),
+          toTeamId,
+        }))
+        .filter(
+          ({ contract }) =>
+            contract.status !== 'released' && contract.status !== 'expired'
+        )
+        .forEach((entry) => resolved.contracts.push(entry));
+      continue;
+    }
+
+    const pickDoc = await findPickDoc(asset.id, transaction);
+    const pick = pickDoc?.data() as Pick | undefined;
+    if (!pickDoc || !pick || pick.currentTeamId !== team.id || pick.playerId) {
+      throw new HttpsError(
+        'failed-precondition',
+        `${team.name} no longer owns pick ${asset.id}`
+      );
+    }
+    if (pickDoc.ref.parent.id === 'picks') {
+      await assertDraftPickTrading(team.leagueId, transaction);
+    }
+    resolved.picks.push({ ref: pickDoc.ref, pick, toTeamId });
+  }
+
+  return resolved;
+}
+
+/**
+ * Load a traded pick from whichever collection it lives in
+ */
+async function findPickDoc(
+  pickId: string,
+  transaction?: Transaction
+): Promise<DocumentSnapshot | undefined> {
+  for (const collection of ['picks', 'futurePicks']) {
+    const pickRef = db.collection(collection).doc(pickId);
+    const pickDoc = transaction
+      ? await transaction.get(pickRef)
+      : await pickRef.get();
+    if (pickDoc.exists) {
+      return pickDoc;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reject trading a pick on the current draft board when the draft's settings
+ * turn pick trading off
+ */
+async function assertDraftPickTrading(
+  leagueId: string,
+  transaction?: Transaction
+): Promise<void> {
+  const draftStateRef = db.collection('draft-states').doc(leagueId);
+  const draftStateDoc = transaction
+    ? await transaction.get(draftStateRef)
+    : await draftStateRef.get();
+  if (draftStateDoc.data()?.['settings']?.['allowPickTrading'] === false) {
+    throw new HttpsError(
+      'failed-precondition',
+      'Pick trading is turned off for this draft'
+    );
+  }
+}
+
+/**
+ * Reject a trade that would leave a team over the roster limit
+ */
+function assertRosterLimit(
+  record: TeamRecord,
+  sent: TradeAsset[],
+  received: TradeAsset[],
+  maxPlayers?: number
+): void {
+  if (
+    maxPlayers &&
+    TradeValidator.getRosterSizeAfterTrade(
+      (record.team.roster || []).length,
+      sent,
+      received
+    ) > maxPlayers
+  ) {
+    throw new HttpsError(
+      'failed-precondition',
+      `${record.team.name} would exceed the ${maxPlayers}-player roster limit`
+    );
+  }
+}
+
+/**
+ * Every contract moving in a trade
+ */
+function getResolvedContracts(resolved: ResolvedTradeAssets[]): Contract[] {
+  return resolved.flatMap(({ contracts }) =>
+    contracts.map(({ contract }) => contract)
+  );
+}
+
+/**
+ * Ledger entries for the current and later years of traded contracts,
+ * reassigned to the team receiving each contract. Credits for salary an
+ * earlier team retained move with the contract; that team keeps the charge.
+ */
+function getMovingLedgerEntries(
+  ledger: CapLedger[],
+  contracts: ResolvedTradeAssets['contracts'],
+  currentYear: number
+): CapLedger[] {
+  return ledger.flatMap((entry) => {
+    const moving = contracts.find(
+      ({ contract }) => contract.id === entry.refId
+    );
+    return moving &&
+      (entry.refType === 'contract' ||
+        entry.refType === 'restructure' ||
+        (entry.refType === 'retention' && entry.capIn > 0)) &&
+      entry.leagueYear >= currentYear
+      ? [{ ...entry, teamId: moving.toTeamId }]
+      : [];
+  });
+}
+
+/**
+ * A team's roster after sending and receiving players
+ */
+function moveRosterSlots(
+  record: TeamRecord,
+  sent: RosterSlot[],
+  received: RosterSlot[]
+): RosterSlot[] {
+  return [
+    ...(record.team.roster || []).filter((slot) => !sent.includes(slot)),
+    ...received.map((slot) => ({
+      ...slot,
+      teamId: record.team.id,
+      activeFrom: new Date(),
+    })),
+  ];
+}
@@ -23,10 +23,59 @@ export interface League {
   joinCode: string;
   rules: LeagueRules;
   draftOrder?: string[]; // team IDs in draft order
+  calendar?: LeagueCalendar;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// League actions that are only allowed in certain phases
+export type LeagueAction =
+  | 'initializeDraft'
+  | 'draftPick'
+  | 'freeAgencyBid'
+  | 'franchiseTag'
+  | 'qualifyingOffer'
+  | 'contractOption'
+  | 'extension'
+  | 'restructure'
+  | 'release'
+  | 'trade'
+  | 'settleIncentives'
+  | 'seasonRollover';
+
+// League state checked before a phase transition
+export interface PhaseTransitionContext {
+  teamCount: number;
+  draftComplete: boolean;
+  unresolvedRights: number; // unsigned draft rights that have not expired
+  openBids: number; // FA bids still awaiting a decision
+  pendingMatches: number; // offer sheets and transition tags awaiting a match decision
+  teamsOverCap: number;
+}
+
+// Dated league milestones the calendar scheduler acts on
+export type LeagueCalendarEventType =
+  | 'draft'
+  | 'faWeek'
+  | 'tradeDeadline'
+  | 'rosterCutdown'
+  | 'playoffs';
+
+export interface LeagueCalendarEvent {
+  id: string;
+  type: LeagueCalendarEventType;
+  startsAt: Date;
+  weekNumber?: number; // FA week the event opens
+  firedAt?: Date; // set once the scheduler has acted on the event
+  outcome?: string; // what the scheduler did, or why it could not
+}
+
+export interface LeagueCalendar {
+  year: number; // league year the dates belong to
+  events: LeagueCalendarEvent[];
+  updatedAt: Date;
+}
+
 export interface LeagueRules {
   scoring: ScoringRules;
   cap: CapRules;
@@ -34,6 +83,7 @@ export interface LeagueRules {
   draft: DraftRules;
   freeAgency: FreeAgencyRules;
   roster: RosterRules;
+  trades?: TradeRules;
 }
 
 export interface ScoringRules {
@@ -54,17 +104,60 @@ export interface CapRules {
   salaryCap: number;
   minimumSpend: number;
   deadMoneyRules: DeadMoneyRules;
+  projectedCapGrowth?: number; // yearly cap growth used for projections (e.g. 0.06)
+  capCarryover?: CapCarryoverRules; // unused cap space rolled into the next league year
+  minimumSpendPenalty?: MinimumSpendPenalty; // applied to teams under the floor at season close
+}
+
+export interface MinimumSpendPenalty {
+  type: 'cap_charge' | 'forfeit_pick'; // charge the shortfall to next year's cap or lose a pick
+  pickRound?: number; // round forfeited in next year's draft (defaults to 1)
+}
+
+export interface CapCarryoverRules {
+  percentage: number; // share of unused cap space carried over (0-1)
+  maxAmount?: number; // cap on the carryover credit per team
 }
 
 export interface DeadMoneyRules {
   preJune1: boolean; // Whether to use pre-June 1 dead money rules
   signingBonusAcceleration: boolean; // Whether signing bonus accelerates on trade/release
+  postJune1Designations?: number; // Releases per season that may split dead money over two years
 }
 
 export interface ContractRules {
   maxYears: number;
   maxSigningBonus: number;
   rookieScale: boolean; // Whether to use rookie scale contracts
+  rookieWageScale?: RookieScaleRules;
+  franchiseTag?: FranchiseTagRules;
+  restrictedFreeAgency?: RestrictedFreeAgencyRules;
+  rails?: ContractRails; // enforced on every new contract when set
+}
+
+export interface FranchiseTagRules {
+  franchiseTopSalaries: number; // franchise tag = average of the top N cap hits at the position
+  transitionTopSalaries: number; // transition tag = average of the top N cap hits at the position
+  windowStart: string; // MM-DD the tag window opens each offseason
+  windowEnd: string; // MM-DD the tag window closes
+  matchWindowHours: number; // hours to match an offer on a transition-tagged player
+}
+
+export interface RookieScaleRules {
+  slotValues: Record<number, number>; // overall pick -> first-year salary; unlisted picks use the generated scale
+  years: number; // rookie contract length
+  annualRaisePct: number; // yearly salary growth over the contract
+  signingBonusPct: number; // share of the contract value paid as a signing bonus
+  optionWindowStart: string; // MM-DD the fifth-year option window opens
+  optionWindowEnd: string; // MM-DD the fifth-year option window closes
+  optionTopSalaries: number; // fifth-year option salary = average of the top N cap hits at the position
+}
+
+export interface RestrictedFreeAgencyRules {
+  maxYearsExp: number; // players with this many accrued seasons or fewer are restricted
+  tenderRaisePct: number; // qualifying offer = final-year cap hit plus this raise
+  minimumTender: number; // floor for any qualifying offer
+  matchWindowHours: number; // hours to match an offer sheet
 }
 
 export interface DraftRules {
@@ -99,6 +192,14 @@ export interface FreeAgencyRules {
   tieBreakers: TieBreaker[];
 }
 
+export interface TradeRules {
+  review: TradeReviewMode; // how trades are reviewed once every team accepts
+  vetoThreshold?: number; // share of non-involved owners whose vetoes overturn a trade (0-1)
+  vetoWindowHours?: number; // hours owners have to veto before the trade processes
+}
+
+export type TradeReviewMode = 'none' | 'commissioner' | 'leagueVote';
+
 export type TieBreaker = 'guarantees' | 'apy' | 'length' | 'random';
 
 export interface Team {
@@ -108,10 +209,24 @@ export interface Team {
   ownerUserId: string;
   capSpace: number;
   roster: RosterSlot[];
+  location?: TeamLocation; // where the team plays, as players weigh it
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface TeamLocation {
+  city: string;
+  state: string;
+  timezone: string;
+  marketSize: 'small' | 'medium' | 'large';
+  climate: 'cold' | 'temperate' | 'warm';
+  stadiumName: string;
+  stadiumCapacity: number;
+  isContender: boolean;
+  isStable: boolean;
+  taxRate: number; // State income tax rate for contract calculations
+}
+
 export interface RosterSlot {
   id: string;
   teamId: string;
@@ -120,6 +235,7 @@ export interface RosterSlot {
   status: RosterStatus;
   activeFrom: Date;
   activeTo?: Date;
+  reportsOn?: Date; // traded player reporting late; unavailable for lineups until then
 }
 
 export type Position = 'QB' | 'RB' | 'WR' | 'TE' | 'K' | 'DEF';
@@ -133,6 +249,7 @@ export interface Player {
   age: number;
   devGrade: 'A' | 'B' | 'C' | 'D';
   overall: number;
+  lastAgedYear?: number; // league year the player was last aged into in his league
   traits: PlayerTraits;
   stats: PlayerStats[];
 }
@@ -163,13 +280,93 @@ export interface Contract {
   signingBonus: number;
   guarantees: Guarantee[];
   noTradeClause: boolean;
+  restructures?: ContractRestructure[]; // base salary converted to bonus
+  status?: ContractStatus;
+  releasedYear?: number; // league year the player was released
+  extendsContractId?: string; // final-year contract this extension follows
+  tagType?: FranchiseTag['tagType']; // one-year tender from a franchise or transition tag
+  rookieContract?: RookieContractDetails; // slotted rookie deal from the draft
+  incentives?: ContractIncentive[]; // stat-threshold bonuses
+  options?: ContractOption[]; // option years after endYear, in order
+  retentions?: SalaryRetention[]; // salary kept by teams that traded the player
+  extensionDemand?: TradeExtensionDemand; // extension the player waived his no-trade clause for
+  createdAt: Date;
+}
+
+export interface SalaryRetention {
+  teamId: string; // team that traded the player and keeps the salary
+  percentage: number; // share of each year's base salary (0-1)
+  fromYear: number; // first league year of the retention
+  tradeId: string;
+}
+
+export interface ContractOption {
+  year: number; // option season; the first option follows endYear
+  holder: 'team' | 'player'; // who decides whether to exercise
+  baseSalary: number;
+  optionBonus: number; // paid on exercise and charged to the option year
+  deadline: string; // MM-DD in the season before the option year
+  status?: 'exercised' | 'declined'; // undecided until set
+}
+
+export interface ContractIncentive {
+  id: string;
+  year: number; // league year the incentive can be earned in
+  stat: string; // PlayerStats rawStats key, e.g. 'receiving_yds' or 'sacks'
+  threshold: number; // season total needed to earn the incentive
+  amount: number;
+  classification?: 'likely' | 'unlikely'; // LTBE/NLTBE from the prior season
+  earned?: boolean; // set once the season is settled
+}
+
+export interface RookieContractDetails {
+  pickNumber: number; // overall pick the contract was slotted at
+  round: number;
+  fifthYearOption?: 'exercised' | 'declined'; // first-rounders only
+}
+
+export type ContractStatus = 'active' | 'released' | 'expired';
+
+export interface ContractRestructure {
+  id: string;
+  year: number; // league year the base salary was converted in
+  amount: number; // base salary converted into prorated signing bonus
+  prorationYears: number; // years the converted bonus is spread across (max 5)
   createdAt: Date;
 }
 
+export interface PlayerRelease {
+  id: string;
+  leagueId: string;
+  teamId: string;
+  playerId: string;
+  contractId: string;
+  leagueYear: number;
+  postJune1Designation: boolean;
+  deadMoneyByYear: Record<number, number>; // year -> dead money charged
+  capSavings: number; // current-year cap freed after dead money
+  releasedAt: Date;
+}
+
+export interface ContractExtension {
+  id: string;
+  leagueId: string;
+  teamId: string;
+  playerId: string;
+  contractId: string; // final-year contract being extended
+  newContractId: string;
+  leagueYear: number; // league year the extension was signed
+  years: number;
+  totalValue: number;
+  guaranteedAmount: number;
+  signedAt: Date;
+}
+
 export interface Guarantee {
   type: 'full' | 'injury-only';
   amount: number;
   year: number;
+  vestsInYear?: number; // league year an injury-only guarantee becomes fully guaranteed
 }
 
 export interface CapLedger {
@@ -179,7 +376,15 @@ export interface CapLedger {
   capIn: number;
   capOut: number;
   reason: string;
-  refType: 'contract' | 'trade' | 'cut' | 'restructure';
+  refType:
+    | 'contract'
+    | 'trade'
+    | 'cut'
+    | 'restructure'
+    | 'carryover'
+    | 'penalty'
+    | 'incentive'
+    | 'retention';
   refId: string;
   createdAt: Date;
 }
@@ -188,23 +393,63 @@ export interface Trade {
   id: string;
   leagueId: string;
   proposerTeamId: string;
-  responderTeamId: string;
+  teamIds: string[]; // every participating team, proposer first
+  acceptedTeamIds: string[]; // participants that have accepted; proposing counts as accepting
   status: TradeStatus;
   payload: TradePayload;
   capImpacts: CapImpact[];
+  message?: string; // note from the proposing team
+  counterOfTradeId?: string; // trade this proposal counters
+  review?: TradeReview; // set once every team accepts in leagues that review trades
+  consents?: TradeConsent[]; // each traded player's response to his destination
+  respondedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface TradeConsent {
+  playerId: string;
+  toTeamId: string;
+  decision: 'consent' | 'extension' | 'decline'; // 'extension': waives a no-trade clause only for an extension
+  reportingDelayDays: number; // days before an unhappy player reports
+  extensionTerms?: ExtensionTerms; // demanded with an 'extension' decision
+}
+
+export interface ExtensionTerms {
+  minYears: number;
+  minGuaranteedPct: number;
+  apyMultiplier: number; // premium over the position's market APY
+}
+
+export interface TradeExtensionDemand {
+  tradeId: string;
+  teamId: string; // acquiring team expected to extend the player
+  extensionTerms: ExtensionTerms;
+}
+
+export interface TradeReview {
+  mode: Exclude<TradeReviewMode, 'none'>;
+  startedAt: Date;
+  deadline?: Date; // league vote closes and the trade processes
+  eligibleTeamIds: string[]; // teams not in the trade that may veto
+  vetoTeamIds: string[]; // teams that have vetoed
+  vetoesNeeded: number; // vetoes that overturn the trade
+  decidedBy?: string; // commissioner who approved or vetoed the trade
+  decidedAt?: Date;
+}
+
 export interface TradePayload {
-  proposerAssets: TradeAsset[];
-  responderAssets: TradeAsset[];
+  assets: TradeAsset[];
 }
 
 export interface TradeAsset {
   type: 'player' | 'pick' | 'cap';
   id: string;
-  value?: number;
+  fromTeamId: string; // team sending the asset
+  toTeamId: string; // team receiving the asset
+  value?: number; // cap: amount of cap space sent, or share of salary retained (0-1)
+  year?: number; // cap space: league year the space is sent for
+  playerId?: string; // salary retention: traded player whose salary the sending team keeps
 }
 
 export interface CapImpact {
@@ -213,7 +458,23 @@ export interface CapImpact {
   impact: number;
 }
 
-export type TradeStatus = 'proposed' | 'accepted' | 'rejected' | 'cancelled';
+export type TradeStatus =
+  | 'proposed'
+  | 'countered'
+  | 'review' // every team accepted; awaiting commissioner approval or league vote
+  | 'accepted'
+  | 'rejected'
+  | 'vetoed'
+  | 'cancelled';
+
+export interface LeagueActivity {
+  id: string;
+  leagueId: string;
+  type: 'trade';
+  message: string;
+  refId: string; // document the activity refers to
+  createdAt: Date;
+}
 
 export interface Pick {
   id: string;
@@ -271,6 +532,52 @@ export interface AuditLog {
   createdAt: Date;
 }
 
+// Season rollover staged for commissioner review before the league year advances
+export interface SeasonRollover {
+  id: string; // `${leagueId}_${fromYear}`
+  leagueId: string;
+  fromYear: number;
+  toYear: number;
+  status: 'pending' | 'completed';
+  expiringContracts: ExpiringContract[]; // players entering the free-agent pool
+  optionDecisions: RolloverOptionDecision[]; // undecided options resolved at rollover
+  carryover: { teamId: string; amount: number }[]; // cap credited to toYear
+  belowMinimumSpendTeamIds: string[]; // teams penalized for missing the minimum spend
+  progressions: PlayerProgression[]; // players rostered in the league
+  playersAged: number;
+  draftPicks: number; // picks in the toYear draft
+  tradedPicks: number; // toYear picks owned by another team
+  faWeeksReset: number;
+  openBidsClosed: number;
+  createdAt: Date;
+  confirmedAt?: Date;
+  confirmedBy?: string;
+}
+
+export interface ExpiringContract {
+  contractId: string;
+  playerId: string;
+  teamId: string;
+  endYear: number;
+}
+
+export interface RolloverOptionDecision {
+  contractId: string;
+  teamId: string;
+  holder: ContractOption['holder'];
+  exercised: boolean;
+}
+
+export interface PlayerProgression {
+  playerId: string;
+  age: number;
+  yearsExp: number;
+  overall: number;
+  devGrade: Player['devGrade'];
+  previousOverall: number;
+  previousDevGrade: Player['devGrade'];
+}
+
 // ===== DRAFT SYSTEM TYPES =====
 
 // Rights Management - Core concept for acquisition system
@@ -296,6 +603,7 @@ export interface DraftState {
   isPaused: boolean;
   isComplete: boolean;
   draftOrder: string[]; // team IDs in draft order
+  forfeitedPicks?: number[]; // overall pick numbers skipped as league penalties
   completedPicks: Pick[];
   settings: DraftSettings;
   createdAt: Date;
@@ -311,6 +619,17 @@ export interface DraftSettings {
   allowChatting: boolean;
 }
 
+// Draft pick lost as a league penalty, skipped when the draft is initialized
+export interface PickForfeiture {
+  id: string;
+  leagueId: string;
+  teamId: string;
+  year: number; // league year of the draft
+  round: number;
+  reason: string;
+  createdAt: Date;
+}
+
 // Enhanced Pick interface for draft tracking
 export interface DraftPick extends Pick {
   pickNumber: number; // overall pick number (1, 2, 3, etc.)
@@ -379,6 +698,8 @@ export interface ContractOffer {
   signingBonus: number;
   guarantees: Guarantee[];
   contractType: ContractType;
+  incentives?: ContractIncentive[]; // classified when the contract is signed
+  options?: ContractOption[]; // team or player option years after the term
   totalValue: number; // calculated total
   apy: number; // average per year
 }
@@ -427,18 +748,19 @@ export interface PlayerNegotiationProfile {
 
 // Contract Rails - Validation rules for contracts
 export interface ContractRails {
-  maxYears: 3;
-  minBase: number; // league minimum salary
+  maxYears: number; // longest contract allowed under the rails
+  minBase: number; // league minimum salary (APY)
   maxSigningBonusPct: number; // max % of total value as signing bonus
   guaranteeRanges: {
+    // share of total value guaranteed (signing bonus + guarantees) by length; 3year covers longer deals
     '1year': { min: number; max: number };
     '2year': { min: number; max: number };
     '3year': { min: number; max: number };
   };
   apyDiscounts: {
-    '3year': number; // discount for 3-year deals vs shorter
+    '3year': number; // minimum salary discount for deals of 3+ years vs shorter
   };
-  positionMultipliers: Record<Position, number>; // position-based value adjustments
+  positionMultipliers: Partial<Record<Position, number>>; // minimum salary multiplier by position, 1 when unset
 }
 
 // Team Control Mechanisms
@@ -447,10 +769,29 @@ export interface QualifyingOffer {
   playerId: string;
   teamId: string;
   leagueId: string;
+  position: Position;
+  year: number; // league year the tender covers
   offerAmount: number; // calculated based on tier/position
+  contractId: string; // one-year tender contract
   expiresAt: Date;
-  status: 'pending' | 'accepted' | 'declined';
+  status: 'pending' | 'accepted' | 'declined' | 'matched'; // matched/declined: original team's response to an offer sheet
+  createdAt: Date;
+  resolvedAt?: Date;
+}
+
+export interface OfferSheet {
+  id: string;
+  leagueId: string;
+  qualifyingOfferId: string;
+  playerId: string;
+  originalTeamId: string;
+  biddingTeamId: string;
+  bidId: string;
+  offer: ContractOffer;
+  status: 'pending' | 'matched' | 'declined';
+  expiresAt: Date; // original team's matching deadline
   createdAt: Date;
+  resolvedAt?: Date;
 }
 
 export interface FranchiseTag {
@@ -459,9 +800,31 @@ export interface FranchiseTag {
   teamId: string;
   leagueId: string;
   tagType: 'franchise' | 'transition';
+  position: Position;
   contractValue: number; // auto-calculated market rate
+  contractId: string; // one-year fully guaranteed tender contract
   year: number;
+  status: FranchiseTagStatus;
+  createdAt: Date;
+}
+
+// active: tender in force; matched/declined: transition offer resolved
+export type FranchiseTagStatus = 'active' | 'matched' | 'declined';
+
+// Matching rights when another team wins a transition-tagged player in FA
+export interface TransitionTagMatch {
+  id: string;
+  leagueId: string;
+  tagId: string;
+  playerId: string;
+  originalTeamId: string;
+  biddingTeamId: string;
+  bidId: string;
+  offer: ContractOffer;
+  status: 'pending' | 'matched' | 'declined';
+  expiresAt: Date;
   createdAt: Date;
+  resolvedAt?: Date;
 }
 
 // Draft Room Chat System
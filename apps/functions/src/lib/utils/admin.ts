@@ -1,6 +1,7 @@
 // apps/functions/src/lib/utils/admin.ts
 import { getApps, initializeApp } from 'firebase-admin/app';
 import { getFirestore } from 'firebase-admin/firestore';
+import type { WriteBatch } from 'firebase-admin/firestore';
 import { getAuth } from 'firebase-admin/auth';
 
 // Lazily initialize Firebase Admin
@@ -18,4 +19,19 @@ export function admin() {
   };
 }
 
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 450;
 
+/**
+ * Commit writes in as many batches as Firestore's write limit requires
+ */
+export async function commitInBatches(
+  writes: ((batch: WriteBatch) => void)[]
+): Promise<void> {
+  const { db } = admin();
+  for (let start = 0; start < writes.length; start += BATCH_SIZE) {
+    const batch = db.batch();
+    writes.slice(start, start + BATCH_SIZE).forEach((write) => write(batch));
+    await batch.commit();
+  }
+}
@@ -0,0 +1,326 @@
+// apps/functions/src/lib/utils/cap.ts
+import type { DocumentData, Transaction } from 'firebase-admin/firestore';
+import { HttpsError } from 'firebase-functions/v2/https';
+import { admin } from './admin';
+import {
+  CapComplianceChecker,
+  CapComplianceResult,
+  CapLedgerService,
+  CapMath,
+  ContractOptionCalculator,
+  IncentiveCalculator,
+  MinimumSpendCalculator,
+  MinimumSpendStatus,
+} from '../domain';
+import type {
+  CapLedger,
+  Contract,
+  ContractOffer,
+  DeadMoneyRules,
+  League,
+} from '../types';
+import type { TeamRecord } from './teams';
+
+const { db } = admin();
+
+/**
+ * Normalize a contract document. FA signings store the accepted offer under
+ * `contract`, so years are derived from its base salary schedule.
+ */
+export function toContract(id: string, data: DocumentData = {}): Contract {
+  if (data['startYear'] !== undefined) {
+    return { ...data, id } as Contract;
+  }
+
+  const offer = data['contract'] || {};
+  const years = Object.keys(offer.baseSalary || {}).map(Number);
+
+  return {
+    id,
+    playerId: data['playerId'],
+    teamId: data['teamId'],
+    startYear: Math.min(...years),
+    endYear: Math.max(...years),
+    baseSalary: offer.baseSalary || {},
+    signingBonus: offer.signingBonus || 0,
+    guarantees: offer.guarantees || [],
+    noTradeClause: false,
+    restructures: data['restructures'] || [],
+    retentions: data['retentions'] || [],
+    extensionDemand: data['extensionDemand'],
+    status: data['status'],
+    releasedYear: data['releasedYear'],
+    incentives: offer.incentives || [],
+    options: offer.options || [],
+    createdAt: data['createdAt'],
+  };
+}
+
+/**
+ * Load all contracts currently held by a team
+ */
+export async function getTeamContracts(teamId: string): Promise<Contract[]> {
+  const snapshot = await db
+    .collection('contracts')
+    .where('teamId', '==', teamId)
+    .get();
+
+  return snapshot.docs
+    .map((contractDoc) => toContract(contractDoc.id, contractDoc.data()))
+    .filter((contract) => Number.isFinite(contract.startYear));
+}
+
+/**
+ * Load every contract held by teams in a league
+ */
+export async function getLeagueContracts(
+  teams: TeamRecord[]
+): Promise<Contract[]> {
+  const contracts = await Promise.all(
+    teams.map(({ team }) => getTeamContracts(team.id))
+  );
+  return contracts.flat();
+}
+
+/**
+ * Load every ledger entry recorded for a team
+ */
+export async function getTeamLedger(
+  teamId: string,
+  transaction?: Transaction
+): Promise<CapLedger[]> {
+  const ledgerQuery = db.collection('capLedger').where('teamId', '==', teamId);
+  const snapshot = transaction
+    ? await transaction.get(ledgerQuery)
+    : await ledgerQuery.get();
+
+  return snapshot.docs.map((entryDoc) => entryDoc.data() as CapLedger);
+}
+
+/**
+ * Classify an offer's first-year incentives as likely or unlikely to be
+ * earned from the player's prior season
+ */
+export async function classifyOfferIncentives(
+  offer: ContractOffer,
+  playerId: string,
+  transaction?: Transaction
+): Promise<ContractOffer> {
+  if (!offer.incentives?.length) {
+    return offer;
+  }
+
+  const playerRef = db.collection('players').doc(playerId);
+  const playerDoc = transaction
+    ? await transaction.get(playerRef)
+    : await playerRef.get();
+  const startYear = Math.min(...Object.keys(offer.baseSalary).map(Number));
+
+  return {
+    ...offer,
+    incentives: IncentiveCalculator.classifyIncentives(
+      offer.incentives,
+      playerDoc.data()?.['stats'] || [],
+      startYear
+    ),
+  };
+}
+
+/**
+ * League salary cap for a given year
+ */
+export function getSalaryCap(league: Pick<League, 'rules'>): number {
+  return league.rules?.cap?.salaryCap || 200000000;
+}
+
+/**
+ * League dead money rules, defaulting to NFL-style acceleration
+ */
+export function getDeadMoneyRules(league: League): DeadMoneyRules {
+  return (
+    league.rules?.cap?.deadMoneyRules || {
+      preJune1: true,
+      signingBonusAcceleration: true,
+    }
+  );
+}
+
+/**
+ * Derive a team's current-year cap space from its ledger
+ */
+export function calculateLedgerCapSpace(
+  league: League,
+  entries: CapLedger[]
+): number {
+  return CapLedgerService.calculateCapSpace(
+    entries,
+    league.currentYear,
+    getSalaryCap(league)
+  );
+}
+
+/**
+ * Ledger credit carrying a team's unused current-year cap space into the next
+ * league year, if the league allows carryover
+ */
+export function getCarryoverEntry(
+  league: League,
+  teamId: string,
+  entries: CapLedger[]
+): CapLedger | undefined {
+  const amount = CapMath.calculateCarryover(
+    calculateLedgerCapSpace(league, entries),
+    league.rules?.cap?.capCarryover
+  );
+
+  return amount > 0
+    ? CapLedgerService.createCarryoverEntry(teamId, league.currentYear, amount)
+    : undefined;
+}
+
+/**
+ * Compare a team's current-year cash spend against the league minimum spend
+ */
+export async function getTeamMinimumSpendStatus(
+  league: League,
+  teamId: string
+): Promise<MinimumSpendStatus> {
+  const [contracts, entries] = await Promise.all([
+    getTeamContracts(teamId),
+    getTeamLedger(teamId),
+  ]);
+
+  return MinimumSpendCalculator.evaluateTeam(
+    teamId,
+    contracts,
+    entries,
+    league.currentYear,
+    league.rules?.cap?.minimumSpend || 0
+  );
+}
+
+/**
+ * Check whether a transaction leaves a team under the cap in every league
+ * year it adds charges to
+ */
+export function checkCapCompliance(
+  league: Pick<League, 'currentYear' | 'rules'>,
+  teamId: string,
+  ledger: CapLedger[],
+  changes: CapLedger[],
+  capHolds = 0,
+  addedCapHolds = 0
+): CapComplianceResult {
+  return CapComplianceChecker.checkTransaction(
+    teamId,
+    ledger,
+    changes,
+    league.currentYear,
+    getSalaryCap(league),
+    league.rules?.cap?.projectedCapGrowth ?? DEFAULT_CAP_GROWTH,
+    capHolds,
+    addedCapHolds
+  );
+}
+
+/**
+ * Reject a transaction that would leave a team over the cap in any league
+ * year it adds charges to. The per-year shortfall is sent as the error
+ * details so the client can explain the rejection.
+ */
+export function assertCapCompliance(
+  league: Pick<League, 'currentYear' | 'rules'>,
+  teamId: string,
+  ledger: CapLedger[],
+  changes: CapLedger[],
+  capHolds = 0,
+  addedCapHolds = 0
+): CapComplianceResult {
+  const result = checkCapCompliance(
+    league,
+    teamId,
+    ledger,
+    changes,
+    capHolds,
+    addedCapHolds
+  );
+
+  if (!result.isCompliant) {
+    throw new HttpsError(
+      'failed-precondition',
+      `Transaction would put the team over the cap in ${CapComplianceChecker.describeShortfalls(
+        result
+      )}`,
+      result
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Contract ledger entries not yet recorded, for contracts signed before the
+ * ledger existed
+ */
+export function getMissingContractEntries(
+  contract: Contract,
+  entries: CapLedger[]
+): CapLedger[] {
+  return CapLedgerService.createContractEntries(contract).filter(
+    (contractEntry) => !entries.some((entry) => entry.id === contractEntry.id)
+  );
+}
+
+/**
+ * Default yearly salary cap growth when a league has not set one
+ */
+export const DEFAULT_CAP_GROWTH = 0.06;
+
+/**
+ * Sum cap holds for player rights a team holds but has not signed yet
+ */
+export async function getTeamCapHolds(
+  teamId: string,
+  contracts: Contract[]
+): Promise<number> {
+  const snapshot = await db
+    .collection('player-rights')
+    .where('rightsTeamId', '==', teamId)
+    .get();
+
+  return snapshot.docs
+    .map((rightsDoc) => rightsDoc.data())
+    .filter(
+      (rights) =>
+        !contracts.some((contract) => contract.playerId === rights['playerId'])
+    )
+    .reduce((total, rights) => total + (rights['capHold'] || 0), 0);
+}
+
+/**
+ * Contract document update and any option-year contract for an option
+ * decision. Free agency contracts keep their terms under `contract`.
+ */
+export function buildOptionDecision(
+  contract: Contract,
+  isOffer: boolean,
+  exercise: boolean
+) {
+  const option = ContractOptionCalculator.getPendingOption(contract);
+  const decided = ContractOptionCalculator.decideOption(contract, exercise);
+  const optionContract =
+    exercise && option
+      ? ContractOptionCalculator.createOptionContract(contract, option)
+      : undefined;
+
+  return {
+    contract: decided,
+    update: isOffer
+      ? { contract: { options: decided.options } }
+      : { options: decided.options },
+    optionContract,
+    entries: optionContract
+      ? CapLedgerService.createContractEntries(optionContract)
+      : [],
+  };
+}
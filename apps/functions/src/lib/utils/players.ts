@@ -0,0 +1,92 @@
+// apps/functions/src/lib/utils/players.ts
+import type { Transaction } from 'firebase-admin/firestore';
+import { admin } from './admin';
+import { EnhancedPlayerFactory } from '../personalities/enhanced-player-factory';
+import type {
+  EnhancedPlayer,
+  TeamLocation,
+} from '../personalities/enhanced-player';
+import type { Player, Team } from '../types';
+
+const { db } = admin();
+
+/**
+ * Load players from the league's player pool with their personalities. A
+ * player who has none yet is given one and keeps it, so asking again can't
+ * change how he responds. Inside a transaction this writes, so it must come
+ * after the transaction's other reads.
+ */
+export async function getLeaguePlayers(
+  leagueId: string,
+  playerIds: string[],
+  leagueYear: number,
+  transaction?: Transaction
+): Promise<Map<string, EnhancedPlayer>> {
+  const playersCollection = db
+    .collection('leagues')
+    .doc(leagueId)
+    .collection('players');
+  const snapshots = await Promise.all(
+    playerIds.map((playerId) => {
+      const playerQuery = playersCollection
+        .where('playerId', '==', playerId)
+        .limit(1);
+      return transaction ? transaction.get(playerQuery) : playerQuery.get();
+    })
+  );
+
+  const players = new Map<string, EnhancedPlayer>();
+  for (const [index, snapshot] of snapshots.entries()) {
+    const playerDoc = snapshot.docs[0];
+    if (!playerDoc) continue;
+
+    const data = playerDoc.data();
+    if (data['personality']?.tradePreferences?.extensionTerms) {
+      players.set(playerIds[index], {
+        ...data,
+        id: playerIds[index],
+        locationPreferences: data['locationPreferences'] || [],
+      } as EnhancedPlayer);
+      continue;
+    }
+
+    // The personality types asset is only served to the web app
+    EnhancedPlayerFactory.initializeDefaults();
+    const player = EnhancedPlayerFactory.createEnhancedPlayer(
+      { ...data, id: playerIds[index] } as Player,
+      leagueYear
+    );
+    const update = {
+      personality: player.personality,
+      locationPreferences: player.locationPreferences,
+      updatedAt: new Date(),
+    };
+    if (transaction) {
+      transaction.update(playerDoc.ref, update);
+    } else {
+      await playerDoc.ref.update(update);
+    }
+    players.set(playerIds[index], player);
+  }
+
+  return players;
+}
+
+/**
+ * A team's location as players weigh it, with neutral defaults for teams
+ * that have not set one
+ */
+export function toTeamLocation(team: Team): TeamLocation {
+  const { location } = team;
+  return {
+    teamId: team.id,
+    city: location?.city || '',
+    state: location?.state || '',
+    timezone: location?.timezone || '',
+    marketSize: location?.marketSize || 'medium',
+    climate: location?.climate || 'temperate',
+    isContender: location?.isContender ?? false,
+    isStable: location?.isStable ?? true,
+    taxRate: location?.taxRate || 0,
+  };
+}
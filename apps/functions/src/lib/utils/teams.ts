@@ -0,0 +1,249 @@
+// apps/functions/src/lib/utils/teams.ts
+import { HttpsError } from 'firebase-functions/v2/https';
+import { Timestamp } from 'firebase-admin/firestore';
+import type { DocumentReference, Transaction } from 'firebase-admin/firestore';
+import { admin } from './admin';
+import { LeagueCalendarPlanner, LeaguePhaseMachine } from '../domain';
+import type {
+  LeagueAction,
+  LeagueCalendarEvent,
+  Position,
+  Team,
+} from '../types';
+
+const { db } = admin();
+
+export interface TeamRecord {
+  ref: DocumentReference;
+  team: Team;
+}
+
+// Calendar event as stored on the league document, dates as Firestore timestamps
+export type StoredCalendarEvent = Omit<
+  LeagueCalendarEvent,
+  'startsAt' | 'firedAt'
+> & {
+  startsAt: Timestamp | Date;
+  firedAt?: Timestamp | Date;
+};
+
+/**
+ * Resolve a team by ID. Teams created through the web app live on the
+ * league member document (`leagues/{leagueId}/members/{userId}`) rather than
+ * in the `teams` collection, so both are checked.
+ */
+export async function findTeam(
+  teamId: string,
+  transaction?: Transaction
+): Promise<TeamRecord | null> {
+  const teamRef = db.collection('teams').doc(teamId);
+  const teamDoc = transaction
+    ? await transaction.get(teamRef)
+    : await teamRef.get();
+
+  if (teamDoc.exists) {
+    return { ref: teamRef, team: { ...teamDoc.data(), id: teamId } as Team };
+  }
+
+  const membersQuery = db
+    .collectionGroup('members')
+    .where('teamId', '==', teamId)
+    .limit(1);
+  const membersSnapshot = transaction
+    ? await transaction.get(membersQuery)
+    : await membersQuery.get();
+
+  if (membersSnapshot.empty) {
+    return null;
+  }
+
+  const memberDoc = membersSnapshot.docs[0];
+  const member = memberDoc.data();
+
+  return {
+    ref: memberDoc.ref,
+    team: {
+      id: teamId,
+      leagueId: member['leagueId'],
+      name: member['teamName'],
+      ownerUserId: member['userId'],
+      capSpace: member['capSpace'] || 0,
+      roster: member['roster'] || [],
+      createdAt: member['joinedAt'],
+      updatedAt: member['updatedAt'],
+    },
+  };
+}
+
+/**
+ * Resolve a team or throw not-found
+ */
+export async function getTeamOrThrow(
+  teamId: string,
+  transaction?: Transaction
+): Promise<TeamRecord> {
+  const record = await findTeam(teamId, transaction);
+  if (!record) {
+    throw new HttpsError('not-found', 'Team not found');
+  }
+  return record;
+}
+
+/**
+ * Get all teams in a league from both the `teams` collection and members
+ */
+export async function getLeagueTeams(leagueId: string): Promise<TeamRecord[]> {
+  const [teamsSnapshot, membersSnapshot] = await Promise.all([
+    db.collection('teams').where('leagueId', '==', leagueId).get(),
+    db.collection('leagues').doc(leagueId).collection('members').get(),
+  ]);
+
+  const teams: TeamRecord[] = teamsSnapshot.docs.map((teamDoc) => ({
+    ref: teamDoc.ref,
+    team: { ...teamDoc.data(), id: teamDoc.id } as Team,
+  }));
+
+  membersSnapshot.docs
+    .filter((memberDoc) => memberDoc.data()['teamId'])
+    .forEach((memberDoc) => {
+      const member = memberDoc.data();
+      if (teams.some(({ team }) => team.id === member['teamId'])) return;
+
+      teams.push({
+        ref: memberDoc.ref,
+        team: {
+          id: member['teamId'],
+          leagueId,
+          name: member['teamName'],
+          ownerUserId: member['userId'],
+          capSpace: member['capSpace'] || 0,
+          roster: member['roster'] || [],
+          createdAt: member['joinedAt'],
+          updatedAt: member['updatedAt'],
+        },
+      });
+    });
+
+  return teams;
+}
+
+/**
+ * Map rostered players to positions, using the roster slot and falling back
+ * to the players collection for slots signed without one
+ */
+export async function getPlayerPositions(
+  teams: TeamRecord[]
+): Promise<Record<string, Position>> {
+  const positions: Record<string, Position> = {};
+  const missing: string[] = [];
+
+  teams.forEach(({ team }) => {
+    (team.roster || []).forEach((slot) => {
+      if (slot.position) {
+        positions[slot.playerId] = slot.position;
+      } else {
+        missing.push(slot.playerId);
+      }
+    });
+  });
+
+  if (missing.length > 0) {
+    const playerDocs = await db.getAll(
+      ...missing.map((playerId) => db.collection('players').doc(playerId))
+    );
+    playerDocs
+      .filter((playerDoc) => playerDoc.exists)
+      .forEach((playerDoc) => {
+        positions[playerDoc.id] = playerDoc.data()?.['position'];
+      });
+  }
+
+  return positions;
+}
+
+/**
+ * Throw unless the user can manage the league (owner or commissioner) or
+ * holds the given member permission
+ */
+export async function assertCommissioner(
+  leagueId: string,
+  userId: string,
+  permission: 'canManageLeague' | 'canApproveTrades' = 'canManageLeague'
+): Promise<void> {
+  const memberDoc = await db
+    .collection('leagues')
+    .doc(leagueId)
+    .collection('members')
+    .doc(userId)
+    .get();
+  const member = memberDoc.data();
+
+  if (
+    !member ||
+    !(
+      member['role'] === 'owner' ||
+      member['role'] === 'commissioner' ||
+      member['permissions']?.[permission]
+    )
+  ) {
+    throw new HttpsError(
+      'permission-denied',
+      'Only the league commissioner can perform this action'
+    );
+  }
+}
+
+/**
+ * Throw unless the league's current phase allows an action. Trades also
+ * close once this season's trade deadline has passed.
+ */
+export function assertPhaseAllows(
+  league: {
+    phase?: string;
+    currentYear?: number;
+    calendar?: { year: number; events: StoredCalendarEvent[] };
+  },
+  action: LeagueAction
+): void {
+  const label = LeaguePhaseMachine.getActionLabel(action);
+
+  if (!LeaguePhaseMachine.isActionAllowed(league.phase, action)) {
+    const phase = LeaguePhaseMachine.normalizePhase(league.phase);
+    throw new HttpsError(
+      'failed-precondition',
+      `${label} is not allowed during the ${phase} phase`
+    );
+  }
+
+  if (
+    action === 'trade' &&
+    league.calendar?.year === league.currentYear &&
+    LeagueCalendarPlanner.hasPassed(
+      toCalendarEvents(league.calendar?.events),
+      'tradeDeadline',
+      new Date()
+    )
+  ) {
+    throw new HttpsError(
+      'failed-precondition',
+      `${label} is closed until the offseason`
+    );
+  }
+}
+
+/**
+ * Read calendar events stored on a league, converting Firestore timestamps
+ */
+export function toCalendarEvents(
+  events: StoredCalendarEvent[] = []
+): LeagueCalendarEvent[] {
+  return events.map(({ startsAt, firedAt, ...event }) => ({
+    ...event,
+    startsAt: toDate(startsAt),
+    ...(firedAt && { firedAt: toDate(firedAt) }),
+  }));
+}
+
+function toDate(value: Timestamp | Date): Date {
+  return value instanceof Timestamp ? value.toDate() : value;
+}
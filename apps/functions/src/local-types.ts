@@ -42,6 +42,7 @@ export interface DraftState {
   isPaused: boolean;
   isComplete: boolean;
   draftOrder: string[];
+  forfeitedPicks?: number[];
   completedPicks: any[];
   settings: DraftSettings;
   createdAt: Date;
@@ -152,6 +153,16 @@ export interface FranchiseTag {
   createdAt: Date;
 }
 
+export interface PickForfeiture {
+  id: string;
+  leagueId: string;
+  teamId: string;
+  year: number;
+  round: number;
+  reason: string;
+  createdAt: Date;
+}
+
 export interface DraftMessage {
   id: string;
   leagueId: string;
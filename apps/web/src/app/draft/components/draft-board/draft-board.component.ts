@@ -170,6 +170,18 @@ export class DraftBoardComponent {
     return picksInRound[position] || null;
   }
 
+  /**
+   * Picks traded away from their draft order slot show the team holding
+   * them, e.g. "Sharks via Bears"
+   */
+  getTradedPickLabel(pick: DraftPick): string | null {
+    return pick.currentTeamId !== pick.originalTeamId
+      ? `${this.getTeamName(pick.currentTeamId)} via ${this.getTeamName(
+          pick.originalTeamId
+        )}`
+      : null;
+  }
+
   getTeamName(teamId: string): string {
     const team = this.teams().find((t) => t.id === teamId);
     return team ? team.name : 'Unknown Team';
@@ -284,6 +284,11 @@ export class DraftComponent implements OnInit, OnDestroy {
       const state = this.draftState();
       if (!state) return;
 
+      if (!this.leagueService.isActionAllowed('draftPick')) {
+        this.error.set('Draft picks are not allowed in this league phase');
+        return;
+      }
+
       // In a real app, you'd get the current user's team ID
       const currentUserTeamId = state.currentTeamId; // Simplified for demo
 
@@ -303,7 +308,10 @@ export class DraftComponent implements OnInit, OnDestroy {
       this.removeFromWatchlist(player.id);
     } catch (error) {
       console.error('Error making draft pick:', error);
-      this.error.set('Failed to make draft pick');
+      // Cap rejections name the years the pick would put the team over
+      this.error.set(
+        error instanceof Error ? error.message : 'Failed to make draft pick'
+      );
     }
   }
 
@@ -33,6 +33,8 @@ import {
   PlayerCardConfig,
 } from '../../../shared/components/player-card';
 import { SportsPlayer } from 'libs/types/src/lib/types';
+import { ContractOffer, Position } from '@fantasy-football-dynasty/types';
+import { ContractValidator } from '@fantasy-football-dynasty/domain';
 
 @Component({
   selector: 'app-fa-week',
@@ -112,6 +114,20 @@ export class FAWeekComponent implements OnInit {
     );
   });
 
+  // League contract rails errors for the bid being built
+  public bidErrors = computed(() =>
+    ContractValidator.validateOffer(
+      this.buildContractOffer(),
+      this.leagueService.selectedLeague()?.rules?.contracts?.rails,
+      this.selectedPlayer()?.Position as Position | undefined
+    )
+  );
+
+  // Bids are only accepted while the league is in free agency
+  public isFreeAgencyOpen = computed(() =>
+    this.leagueService.isActionAllowed('freeAgencyBid')
+  );
+
   // Players table configuration for FA Week
   public playersTableConfig = computed(() => ({
     title: 'Available Players',
@@ -265,21 +281,7 @@ export class FAWeekComponent implements OnInit {
       );
 
       // Create contract offer
-      const contractOffer = {
-        years: this.bidForm().years as 1 | 2 | 3,
-        baseSalary: { [new Date().getFullYear()]: this.bidForm().baseSalary },
-        signingBonus: this.bidForm().signingBonus,
-        guarantees: [],
-        contractType: 'standard' as const,
-        totalValue:
-          this.bidForm().baseSalary * this.bidForm().years +
-          this.bidForm().signingBonus,
-        apy: Math.round(
-          (this.bidForm().baseSalary * this.bidForm().years +
-            this.bidForm().signingBonus) /
-            this.bidForm().years
-        ),
-      };
+      const contractOffer = this.buildContractOffer();
 
       // Check if bid is below minimum and show warning
       const playerMinimum = this.playerMinimum();
@@ -335,6 +337,22 @@ export class FAWeekComponent implements OnInit {
     }
   }
 
+  /**
+   * Contract offer from the bid form
+   */
+  private buildContractOffer(): ContractOffer {
+    const form = this.bidForm();
+    return {
+      years: form.years as 1 | 2 | 3,
+      baseSalary: { [new Date().getFullYear()]: form.baseSalary },
+      signingBonus: form.signingBonus,
+      guarantees: [],
+      contractType: 'standard',
+      totalValue: this.totalBidValue(),
+      apy: this.averageAnnualValue(),
+    };
+  }
+
   /**
    * Format currency utility
    */
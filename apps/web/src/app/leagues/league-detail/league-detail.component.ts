@@ -1,4 +1,4 @@
-import { Component, inject, OnInit } from '@angular/core';
+import { Component, effect, inject, OnInit, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { Router } from '@angular/router';
 import { LeagueHeaderComponent } from '../components/league-header.component';
@@ -7,6 +7,10 @@ import { LeagueSettingsComponent } from '../league-settings';
 import { LeagueMembershipService } from '../../services/league-membership.service';
 import { LeagueService } from '../../services/league.service';
 import { FreeAgencyService } from '../../services/free-agency.service';
+import {
+  CapService,
+  MinimumSpendStatusResponse,
+} from '../../services/cap.service';
 
 @Component({
   selector: 'app-league-detail',
@@ -24,6 +28,7 @@ export class LeagueDetailComponent implements OnInit {
   private readonly leagueMembershipService = inject(LeagueMembershipService);
   private readonly leagueService = inject(LeagueService);
   private readonly freeAgencyService = inject(FreeAgencyService);
+  private readonly capService = inject(CapService);
   private readonly router = inject(Router);
 
   editTeamModalVisible = false;
@@ -53,6 +58,18 @@ export class LeagueDetailComponent implements OnInit {
   readonly totalTeamsCount = this.freeAgencyService.totalTeamsCount;
   readonly isReadyToAdvance = this.freeAgencyService.isReadyToAdvance;
 
+  // Teams under the league minimum spend for the current season
+  readonly minimumSpendStatus = signal<MinimumSpendStatusResponse | null>(null);
+
+  constructor() {
+    effect(() => {
+      const leagueId = this.leagueId();
+      if (leagueId) {
+        this.loadMinimumSpendStatus(leagueId);
+      }
+    });
+  }
+
   ngOnInit(): void {
     // No need to manually load memberships - it's handled automatically by the league service
     // when a league is selected via the effect in the constructor
@@ -87,6 +104,30 @@ export class LeagueDetailComponent implements OnInit {
     }
   }
 
+  /**
+   * Load each team's cash spend against the minimum spend floor
+   */
+  async loadMinimumSpendStatus(leagueId: string): Promise<void> {
+    try {
+      this.minimumSpendStatus.set(
+        await this.capService.getMinimumSpendStatus(leagueId)
+      );
+    } catch (error) {
+      console.error('Error loading minimum spend status:', error);
+      this.minimumSpendStatus.set(null);
+    }
+  }
+
+  /**
+   * Team name for a team ID in the selected league
+   */
+  getTeamName(teamId: string): string {
+    return (
+      this.leagueTeams().find((team) => team.id === teamId)?.name ||
+      'Unknown Team'
+    );
+  }
+
   /**
    * Navigate to the current user's team page
    */
@@ -1,4 +1,11 @@
-import { Component, input, signal, inject, OnInit } from '@angular/core';
+import {
+  Component,
+  computed,
+  input,
+  signal,
+  inject,
+  OnInit,
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
 import {
   ReactiveFormsModule,
@@ -6,6 +13,7 @@ import {
   FormGroup,
   Validators,
 } from '@angular/forms';
+import { FunctionsError } from '@angular/fire/functions';
 import { CardModule } from 'primeng/card';
 import { ButtonModule } from 'primeng/button';
 import { InputTextModule } from 'primeng/inputtext';
@@ -19,7 +27,27 @@ import { ProgressBarModule } from 'primeng/progressbar';
 import { ConfirmDialogModule } from 'primeng/confirmdialog';
 import { ConfirmationService } from 'primeng/api';
 import { LeagueService } from '../../services/league.service';
-import { League } from '@fantasy-football-dynasty/types';
+import {
+  CapService,
+  CapConsistencyResponse,
+  SettleIncentivesResponse,
+} from '../../services/cap.service';
+import { SeasonService } from '../../services/season.service';
+import { DraftService } from '../../services/draft.service';
+import {
+  ContractRails,
+  League,
+  LeagueCalendarEvent,
+  SeasonRollover,
+  TradeReviewMode,
+  TradeRules,
+} from '@fantasy-football-dynasty/types';
+import {
+  ContractValidator,
+  LeagueCalendarPlanner,
+  LeaguePhaseMachine,
+  TradeReviewPolicy,
+} from '@fantasy-football-dynasty/domain';
 import { MessageService } from 'primeng/api';
 
 @Component({
@@ -52,17 +80,70 @@ export class LeagueSettingsComponent implements OnInit {
   isPrivate = signal(false);
   joinCode = signal<string>('');
   isRandomizing = signal(false);
+  isGeneratingPicks = signal(false);
+  isCheckingCap = signal(false);
+  rebuildingTeamId = signal<string | null>(null);
+  capConsistency = signal<CapConsistencyResponse | null>(null);
+  isSettlingIncentives = signal(false);
+  incentiveSettlement = signal<SettleIncentivesResponse | null>(null);
+  // Calendar milestones in season order; blank dates stay unscheduled
+  readonly calendarMilestones = (
+    [
+      { type: 'draft' },
+      { type: 'faWeek', weekNumber: 1 },
+      { type: 'faWeek', weekNumber: 2 },
+      { type: 'faWeek', weekNumber: 3 },
+      { type: 'faWeek', weekNumber: 4 },
+      { type: 'tradeDeadline' },
+      { type: 'rosterCutdown' },
+      { type: 'playoffs' },
+    ] as Pick<LeagueCalendarEvent, 'type' | 'weekNumber'>[]
+  ).map((milestone) => ({
+    ...milestone,
+    id: LeagueCalendarPlanner.getEventId(milestone.type, milestone.weekNumber),
+    title: LeagueCalendarPlanner.getEventTitle(milestone),
+  }));
+  calendarInputs = signal<Record<string, string>>({});
+  calendarErrors = signal<string[]>([]);
+  isSavingCalendar = signal(false);
+  isAdvancingPhase = signal(false);
+  phaseErrors = signal<string[]>([]);
+  readonly currentPhase = computed(() =>
+    LeaguePhaseMachine.normalizePhase(this.league().phase)
+  );
+  readonly nextPhase = computed(() =>
+    LeaguePhaseMachine.getNextPhase(this.league().phase)
+  );
+  readonly canRollOver = computed(() =>
+    LeaguePhaseMachine.isActionAllowed(this.league().phase, 'seasonRollover')
+  );
+  readonly canSettleIncentives = computed(() =>
+    LeaguePhaseMachine.isActionAllowed(this.league().phase, 'settleIncentives')
+  );
+  readonly tradeReviewOptions: { label: string; value: TradeReviewMode }[] = [
+    { label: 'None (process immediately)', value: 'none' },
+    { label: 'Commissioner approval', value: 'commissioner' },
+    { label: 'League veto vote', value: 'leagueVote' },
+  ];
+  isPreviewingRollover = signal(false);
+  isConfirmingRollover = signal(false);
+  seasonRollover = signal<SeasonRollover | null>(null);
 
   // Remove the teams signal since we'll use the cached one from league service
   // teams = signal<any[]>([]);
 
   private readonly leagueService = inject(LeagueService);
+  private readonly capService = inject(CapService);
+  private readonly seasonService = inject(SeasonService);
+  private readonly draftService = inject(DraftService);
   private readonly messageService = inject(MessageService);
   private readonly confirmationService = inject(ConfirmationService);
   private readonly fb = inject(FormBuilder);
 
   // Use cached league teams from the service
   readonly leagueTeams = this.leagueService.leagueTeams;
+  readonly calendarEvents = this.leagueService.calendarEvents;
+  readonly calendarTimezone = this.leagueService.currentUserTimezone;
 
   constructor() {
     this.settingsForm = this.fb.group({
@@ -97,6 +178,66 @@ export class LeagueSettingsComponent implements OnInit {
           [Validators.required, Validators.min(0), Validators.max(8)],
         ],
       }),
+      // Percentages are edited as whole numbers and stored as fractions
+      rails: this.fb.group({
+        enabled: [false],
+        maxYears: [
+          3,
+          [Validators.required, Validators.min(1), Validators.max(7)],
+        ],
+        minBase: [750000, [Validators.required, Validators.min(0)]],
+        maxSigningBonusPct: [
+          50,
+          [Validators.required, Validators.min(0), Validators.max(100)],
+        ],
+        guaranteeRanges: this.fb.group({
+          '1year': this.fb.group({
+            min: [
+              0,
+              [Validators.required, Validators.min(0), Validators.max(100)],
+            ],
+            max: [
+              100,
+              [Validators.required, Validators.min(0), Validators.max(100)],
+            ],
+          }),
+          '2year': this.fb.group({
+            min: [
+              0,
+              [Validators.required, Validators.min(0), Validators.max(100)],
+            ],
+            max: [
+              80,
+              [Validators.required, Validators.min(0), Validators.max(100)],
+            ],
+          }),
+          '3year': this.fb.group({
+            min: [
+              0,
+              [Validators.required, Validators.min(0), Validators.max(100)],
+            ],
+            max: [
+              60,
+              [Validators.required, Validators.min(0), Validators.max(100)],
+            ],
+          }),
+        }),
+        apyDiscount3year: [
+          10,
+          [Validators.required, Validators.min(0), Validators.max(100)],
+        ],
+      }),
+      trades: this.fb.group({
+        review: ['none' as TradeReviewMode, Validators.required],
+        vetoThreshold: [
+          50,
+          [Validators.required, Validators.min(1), Validators.max(100)],
+        ],
+        vetoWindowHours: [
+          48,
+          [Validators.required, Validators.min(1), Validators.max(168)],
+        ],
+      }),
     });
   }
 
@@ -107,10 +248,14 @@ export class LeagueSettingsComponent implements OnInit {
       description: this.league().description,
       isPrivate: this.league().isPrivate,
       roster: this.league().rules.roster,
+      rails: this.toRailsForm(this.league().rules.contracts?.rails),
+      trades: this.toTradeRulesForm(this.league().rules.trades),
     });
 
     this.isPrivate.set(this.league().isPrivate);
     this.joinCode.set(this.league().joinCode);
+    this.loadLeagueCalendar();
+    this.loadSeasonRollover();
 
     // No need to manually load teams - they're loaded automatically when the league is selected
     console.log('League settings component initialized');
@@ -157,6 +302,7 @@ export class LeagueSettingsComponent implements OnInit {
     try {
       this.isSaving.set(true);
       const formData = this.settingsForm.value;
+      const { rails, ...contracts } = this.league().rules.contracts || {};
 
       // Update league settings
       await this.leagueService.updateLeague(this.league().id, {
@@ -166,6 +312,10 @@ export class LeagueSettingsComponent implements OnInit {
         rules: {
           ...this.league().rules,
           roster: formData.roster,
+          contracts: formData.rails.enabled
+            ? { ...contracts, rails: this.fromRailsForm(formData.rails, rails) }
+            : contracts,
+          trades: this.fromTradeRulesForm(formData.trades),
         },
       });
 
@@ -189,6 +339,84 @@ export class LeagueSettingsComponent implements OnInit {
     }
   }
 
+  /**
+   * Contract rails as form values, with percentages as whole numbers
+   */
+  private toRailsForm(rails?: ContractRails) {
+    const values = ContractValidator.getRails(rails);
+    const toPct = (value: number) => Math.round(value * 100);
+    const toRange = (range: { min: number; max: number }) => ({
+      min: toPct(range.min),
+      max: toPct(range.max),
+    });
+
+    return {
+      enabled: !!rails,
+      maxYears: values.maxYears,
+      minBase: values.minBase,
+      maxSigningBonusPct: toPct(values.maxSigningBonusPct),
+      guaranteeRanges: {
+        '1year': toRange(values.guaranteeRanges['1year']),
+        '2year': toRange(values.guaranteeRanges['2year']),
+        '3year': toRange(values.guaranteeRanges['3year']),
+      },
+      apyDiscount3year: toPct(values.apyDiscounts['3year']),
+    };
+  }
+
+  /**
+   * Contract rails from the form. Position multipliers are not edited here,
+   * so existing values are kept.
+   */
+  private fromRailsForm(
+    form: ReturnType<LeagueSettingsComponent['toRailsForm']>,
+    existing?: ContractRails
+  ): ContractRails {
+    const toFraction = (value: number) => value / 100;
+    const toRange = (range: { min: number; max: number }) => ({
+      min: toFraction(range.min),
+      max: toFraction(range.max),
+    });
+
+    return ContractValidator.getRails({
+      ...existing,
+      maxYears: form.maxYears,
+      minBase: form.minBase,
+      maxSigningBonusPct: toFraction(form.maxSigningBonusPct),
+      guaranteeRanges: {
+        '1year': toRange(form.guaranteeRanges['1year']),
+        '2year': toRange(form.guaranteeRanges['2year']),
+        '3year': toRange(form.guaranteeRanges['3year']),
+      },
+      apyDiscounts: { '3year': toFraction(form.apyDiscount3year) },
+    });
+  }
+
+  /**
+   * Trade review rules as form values, with the veto threshold as a whole
+   * number percentage
+   */
+  private toTradeRulesForm(rules?: TradeRules) {
+    const values = TradeReviewPolicy.getRules(rules);
+    return {
+      review: values.review,
+      vetoThreshold: Math.round((values.vetoThreshold ?? 0.5) * 100),
+      vetoWindowHours: values.vetoWindowHours ?? 48,
+    };
+  }
+
+  private fromTradeRulesForm(
+    form: ReturnType<LeagueSettingsComponent['toTradeRulesForm']>
+  ): TradeRules {
+    return form.review === 'leagueVote'
+      ? {
+          review: form.review,
+          vetoThreshold: form.vetoThreshold / 100,
+          vetoWindowHours: form.vetoWindowHours,
+        }
+      : { review: form.review };
+  }
+
   copyJoinCode(): void {
     if (this.joinCode()) {
       navigator.clipboard
@@ -263,6 +491,37 @@ export class LeagueSettingsComponent implements OnInit {
     }
   }
 
+  /**
+   * Give every team its tradable picks in the league's upcoming drafts
+   */
+  async generatePickInventory(): Promise<void> {
+    try {
+      this.isGeneratingPicks.set(true);
+      const { draftYears, created } =
+        await this.draftService.generatePickInventory(this.league().id);
+
+      this.messageService.add({
+        severity: 'success',
+        summary: 'Draft Picks Ready',
+        detail: created
+          ? `Created ${created} picks for the ${draftYears.join(', ')} drafts.`
+          : 'Every team already has its picks for the upcoming drafts.',
+      });
+    } catch (error) {
+      console.error('Error generating pick inventory:', error);
+      this.messageService.add({
+        severity: 'error',
+        summary: 'Picks Not Generated',
+        detail:
+          error instanceof Error
+            ? error.message
+            : 'Failed to generate draft picks. Please try again.',
+      });
+    } finally {
+      this.isGeneratingPicks.set(false);
+    }
+  }
+
   /**
    * Clear draft order
    */
@@ -343,4 +602,370 @@ export class LeagueSettingsComponent implements OnInit {
       });
     }
   }
+
+  /**
+   * Compare every team's stored cap space against the cap ledger
+   */
+  async checkCapConsistency(): Promise<void> {
+    try {
+      this.isCheckingCap.set(true);
+      const result = await this.capService.checkCapConsistency(
+        this.league().id
+      );
+      this.capConsistency.set(result);
+
+      this.messageService.add({
+        severity: result.inconsistentTeamIds.length > 0 ? 'warn' : 'success',
+        summary: 'Cap Check Complete',
+        detail:
+          result.inconsistentTeamIds.length > 0
+            ? `${result.inconsistentTeamIds.length} team(s) disagree with the cap ledger.`
+            : 'All teams match the cap ledger.',
+      });
+    } catch (error) {
+      console.error('Error checking cap consistency:', error);
+      this.messageService.add({
+        severity: 'error',
+        summary: 'Cap Check Failed',
+        detail: 'Failed to check cap consistency. Please try again.',
+      });
+    } finally {
+      this.isCheckingCap.set(false);
+    }
+  }
+
+  /**
+   * Settle this season's contract incentives once scoring is final
+   */
+  async settleIncentives(): Promise<void> {
+    try {
+      this.isSettlingIncentives.set(true);
+      const result = await this.capService.settleIncentives(this.league().id);
+      this.incentiveSettlement.set(result);
+
+      this.messageService.add({
+        severity: 'success',
+        summary: 'Incentives Settled',
+        detail: `Settled incentives on ${result.results.length} contract(s) for ${result.leagueYear}.`,
+      });
+    } catch (error) {
+      console.error('Error settling incentives:', error);
+      this.messageService.add({
+        severity: 'error',
+        summary: 'Settlement Failed',
+        detail: 'Failed to settle incentives. Please try again.',
+      });
+    } finally {
+      this.isSettlingIncentives.set(false);
+    }
+  }
+
+  getCalendarEvent(id: string): LeagueCalendarEvent | undefined {
+    return this.calendarEvents().find((event) => event.id === id);
+  }
+
+  setCalendarInput(id: string, value: string): void {
+    this.calendarInputs.update((inputs) => ({ ...inputs, [id]: value }));
+  }
+
+  /**
+   * Format a milestone in the current user's team timezone
+   */
+  formatCalendarTime(date: Date): string {
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZone: this.calendarTimezone(),
+      timeZoneName: 'short',
+    }).format(date);
+  }
+
+  async saveLeagueCalendar(): Promise<void> {
+    try {
+      this.isSavingCalendar.set(true);
+      this.calendarErrors.set([]);
+
+      const inputs = this.calendarInputs();
+      const events = this.calendarMilestones
+        .filter((milestone) => inputs[milestone.id])
+        .map((milestone) => ({
+          type: milestone.type,
+          weekNumber: milestone.weekNumber,
+          // datetime-local values are read in the browser's timezone
+          startsAt: new Date(inputs[milestone.id]),
+        }));
+
+      await this.seasonService.updateLeagueCalendar(this.league().id, events);
+      await this.leagueService.refresh();
+
+      this.messageService.add({
+        severity: 'success',
+        summary: 'Calendar Saved',
+        detail: `${events.length} milestones scheduled.`,
+      });
+    } catch (error) {
+      console.error('Error saving league calendar:', error);
+      this.calendarErrors.set(this.getErrorList(error));
+      this.messageService.add({
+        severity: 'error',
+        summary: 'Calendar Not Saved',
+        detail:
+          error instanceof Error
+            ? error.message
+            : 'Failed to save the league calendar. Please try again.',
+      });
+    } finally {
+      this.isSavingCalendar.set(false);
+    }
+  }
+
+  downloadLeagueCalendar(): void {
+    const ics = LeagueCalendarPlanner.toICalendar(
+      this.league().id,
+      this.league().name,
+      this.calendarEvents(),
+      new Date()
+    );
+    const url = URL.createObjectURL(
+      new Blob([ics], { type: 'text/calendar;charset=utf-8' })
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${this.league().name}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  copyCalendarFeedUrl(): void {
+    navigator.clipboard
+      .writeText(this.seasonService.getCalendarFeedUrl(this.league().id))
+      .then(() => {
+        this.messageService.add({
+          severity: 'success',
+          summary: 'Link Copied',
+          detail: 'Paste the link into your calendar app to subscribe.',
+        });
+      })
+      .catch(() => {
+        this.messageService.add({
+          severity: 'error',
+          summary: 'Copy Failed',
+          detail: 'Failed to copy the calendar link.',
+        });
+      });
+  }
+
+  private loadLeagueCalendar(): void {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const inputs: Record<string, string> = {};
+    this.calendarEvents().forEach((event) => {
+      const date = event.startsAt;
+      inputs[event.id] = `${date.getFullYear()}-${pad(
+        date.getMonth() + 1
+      )}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(
+        date.getMinutes()
+      )}`;
+    });
+    this.calendarInputs.set(inputs);
+  }
+
+  /**
+   * Confirm moving the league to its next phase
+   */
+  advanceLeaguePhase(): void {
+    const nextPhase = this.nextPhase();
+    if (!nextPhase) return;
+
+    this.confirmationService.confirm({
+      message: `Move the league from ${this.currentPhase()} to ${nextPhase}?`,
+      header: 'Advance League Phase',
+      icon: 'pi pi-exclamation-triangle',
+      accept: () => {
+        this.executeAdvanceLeaguePhase();
+      },
+    });
+  }
+
+  private async executeAdvanceLeaguePhase(): Promise<void> {
+    try {
+      this.isAdvancingPhase.set(true);
+      this.phaseErrors.set([]);
+      const result = await this.seasonService.advanceLeaguePhase(
+        this.league().id
+      );
+      await this.leagueService.refresh();
+
+      this.messageService.add({
+        severity: 'success',
+        summary: 'Phase Advanced',
+        detail: `The league is now in ${result.to}.`,
+      });
+    } catch (error) {
+      console.error('Error advancing league phase:', error);
+      // Unmet preconditions come back as a list to show under the button
+      this.phaseErrors.set(this.getErrorList(error));
+      this.messageService.add({
+        severity: 'error',
+        summary: 'Phase Not Advanced',
+        detail:
+          error instanceof Error
+            ? error.message
+            : 'Failed to advance the league phase. Please try again.',
+      });
+    } finally {
+      this.isAdvancingPhase.set(false);
+    }
+  }
+
+  /**
+   * Validation errors a function returned under `details.errors`
+   */
+  private getErrorList(error: unknown): string[] {
+    if (!(error instanceof FunctionsError)) {
+      return [];
+    }
+    const details = error.details as { errors?: string[] } | undefined;
+    return details?.errors || [];
+  }
+
+  /**
+   * Load a rollover already staged for the current league year
+   */
+  private async loadSeasonRollover(): Promise<void> {
+    const rollover = await this.seasonService.getSeasonRollover(
+      this.league().id,
+      this.league().currentYear
+    );
+    this.seasonRollover.set(rollover?.status === 'pending' ? rollover : null);
+  }
+
+  /**
+   * Stage the rollover into next season for review
+   */
+  async previewSeasonRollover(): Promise<void> {
+    try {
+      this.isPreviewingRollover.set(true);
+      const { rollover } = await this.seasonService.previewSeasonRollover(
+        this.league().id
+      );
+      this.seasonRollover.set(rollover);
+    } catch (error) {
+      console.error('Error previewing season rollover:', error);
+      this.messageService.add({
+        severity: 'error',
+        summary: 'Preview Failed',
+        detail: 'Failed to preview the season rollover. Please try again.',
+      });
+    } finally {
+      this.isPreviewingRollover.set(false);
+    }
+  }
+
+  /**
+   * Confirm the previewed rollover and advance the league year
+   */
+  confirmSeasonRollover(): void {
+    const rollover = this.seasonRollover();
+    if (!rollover) return;
+
+    this.confirmationService.confirm({
+      message: `Advance the league to ${rollover.toYear}? Expiring contracts become free agents and every player ages a season. This cannot be undone.`,
+      header: 'Confirm Season Rollover',
+      icon: 'pi pi-exclamation-triangle',
+      accept: () => {
+        this.executeSeasonRollover();
+      },
+    });
+  }
+
+  private async executeSeasonRollover(): Promise<void> {
+    try {
+      this.isConfirmingRollover.set(true);
+      const { rollover } = await this.seasonService.confirmSeasonRollover(
+        this.league().id
+      );
+      this.seasonRollover.set(rollover);
+      await this.leagueService.refresh();
+
+      this.messageService.add({
+        severity: 'success',
+        summary: 'Season Rolled Over',
+        detail: `The league is now in the ${rollover.toYear} offseason.`,
+      });
+    } catch (error) {
+      console.error('Error confirming season rollover:', error);
+      this.messageService.add({
+        severity: 'error',
+        summary: 'Rollover Failed',
+        detail:
+          error instanceof Error
+            ? error.message
+            : 'Failed to confirm the season rollover. Please try again.',
+      });
+    } finally {
+      this.isConfirmingRollover.set(false);
+    }
+  }
+
+  /**
+   * Expiring contracts in a staged rollover for one team
+   */
+  getExpiringCount(teamId: string): number {
+    return (this.seasonRollover()?.expiringContracts || []).filter(
+      (contract) => contract.teamId === teamId
+    ).length;
+  }
+
+  /**
+   * Rostered players whose rating rises or falls in a staged rollover
+   */
+  getProgressionCount(direction: 'up' | 'down'): number {
+    return (this.seasonRollover()?.progressions || []).filter((progression) =>
+      direction === 'up'
+        ? progression.overall > progression.previousOverall
+        : progression.overall < progression.previousOverall
+    ).length;
+  }
+
+  /**
+   * Net next-year cap adjustment from a team's settled incentives
+   */
+  getIncentiveAdjustment(teamId: string): number {
+    return (this.incentiveSettlement()?.results || [])
+      .filter((result) => result.teamId === teamId)
+      .flatMap((result) => result.settlements)
+      .reduce((total, settlement) => total + settlement.capAdjustment, 0);
+  }
+
+  /**
+   * Rebuild a team's cap from the ledger
+   */
+  async rebuildTeamCap(teamId: string): Promise<void> {
+    try {
+      this.rebuildingTeamId.set(teamId);
+      const result = await this.capService.rebuildTeamCap(teamId);
+
+      this.messageService.add({
+        severity: 'success',
+        summary: 'Cap Rebuilt',
+        detail: `${this.getTeamName(teamId)} cap space is now $${(
+          result.capSpace / 1000000
+        ).toFixed(1)}M.`,
+      });
+
+      await this.checkCapConsistency();
+    } catch (error) {
+      console.error('Error rebuilding team cap:', error);
+      this.messageService.add({
+        severity: 'error',
+        summary: 'Rebuild Failed',
+        detail: 'Failed to rebuild team cap. Please try again.',
+      });
+    } finally {
+      this.rebuildingTeamId.set(null);
+    }
+  }
 }
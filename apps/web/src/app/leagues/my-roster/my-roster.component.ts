@@ -8,12 +8,28 @@ import { TagModule } from 'primeng/tag';
 import { DialogModule } from 'primeng/dialog';
 import { MessageModule } from 'primeng/message';
 import { ProgressSpinnerModule } from 'primeng/progressspinner';
+import { CheckboxModule } from 'primeng/checkbox';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { FormsModule } from '@angular/forms';
+import { Timestamp } from '@angular/fire/firestore';
 
 import {
   Position,
   RosterSlot,
   Contract,
+  DeadMoneyRules,
+  FranchiseTag,
+  OfferSheet,
+  QualifyingOffer,
+  TransitionTagMatch,
 } from '@fantasy-football-dynasty/types';
+import {
+  ContractExtensionResult,
+  ContractOptionCalculator,
+  ContractReleaseResult,
+  GuaranteeVestingEntry,
+  RosterValidator,
+} from '@fantasy-football-dynasty/domain';
 import {
   LeagueMembershipService,
   LeagueMember,
@@ -23,6 +39,14 @@ import { Router } from '@angular/router';
 import { LeagueHeaderComponent } from '../components/league-header.component';
 import { SportsPlayer } from '@fantasy-football-dynasty/types';
 import { SportsDataService } from '../../services/sports-data.service';
+import { CapService } from '../../services/cap.service';
+import { ExtensionService } from '../../services/extension.service';
+import {
+  FranchiseTagValuesResponse,
+  TagService,
+} from '../../services/tag.service';
+import { RfaService } from '../../services/rfa.service';
+import { NumberFormatService } from '../../services/number-format.service';
 
 @Component({
   selector: 'app-my-roster',
@@ -37,6 +61,9 @@ import { SportsDataService } from '../../services/sports-data.service';
     DialogModule,
     MessageModule,
     ProgressSpinnerModule,
+    CheckboxModule,
+    InputNumberModule,
+    FormsModule,
     LeagueHeaderComponent,
   ],
   templateUrl: './my-roster.component.html',
@@ -48,6 +75,11 @@ export class MyRosterComponent implements OnInit {
   private readonly sportsDataService = inject(SportsDataService);
   private readonly leagueService = inject(LeagueService);
   private readonly router = inject(Router);
+  private readonly capService = inject(CapService);
+  private readonly extensionService = inject(ExtensionService);
+  private readonly tagService = inject(TagService);
+  private readonly rfaService = inject(RfaService);
+  private readonly numberFormatService = inject(NumberFormatService);
 
   // Component state
 
@@ -65,6 +97,72 @@ export class MyRosterComponent implements OnInit {
   // PrimeNG compatible properties (not signals)
   public showContractModal = false;
 
+  // Release dialog state
+  public releaseTarget = signal<{
+    playerName: string;
+    contract: Contract;
+    onInjuredReserve: boolean;
+  } | null>(null);
+  public postJune1Designation = signal(false);
+  public designationsUsed = signal(0);
+  public isReleasing = signal(false);
+  public releaseError = signal<string | null>(null);
+
+  // Extension dialog state
+  public extensionTarget = signal<{
+    playerName: string;
+    contract: Contract;
+  } | null>(null);
+  public extensionYears = signal(3);
+  public extensionApy = signal(0);
+  public extensionSigningBonus = signal(0);
+  public extensionGuaranteed = signal(0);
+  public extensionResult = signal<ContractExtensionResult | null>(null);
+  public isExtending = signal(false);
+  public extensionError = signal<string | null>(null);
+
+  // Franchise tag state
+  public leagueTags = signal<FranchiseTag[]>([]);
+  public pendingTagMatches = signal<TransitionTagMatch[]>([]);
+  public tagValues = signal<FranchiseTagValuesResponse | null>(null);
+  public tagTarget = signal<{
+    playerId: string;
+    playerName: string;
+    position: Position;
+  } | null>(null);
+  public tagType = signal<FranchiseTag['tagType']>('franchise');
+  public isTagging = signal(false);
+  public tagError = signal<string | null>(null);
+  public respondingMatchId = signal<string | null>(null);
+
+  // Restricted free agency state
+  public qualifyingOffers = signal<QualifyingOffer[]>([]);
+  public pendingOfferSheets = signal<OfferSheet[]>([]);
+  public tenderTarget = signal<{
+    playerId: string;
+    playerName: string;
+    offerAmount: number;
+  } | null>(null);
+  public isTendering = signal(false);
+  public tenderError = signal<string | null>(null);
+  public respondingSheetId = signal<string | null>(null);
+
+  // Fifth-year option dialog state
+  public optionTarget = signal<{
+    playerName: string;
+    contract: Contract;
+  } | null>(null);
+  public isDecidingOption = signal(false);
+  public optionError = signal<string | null>(null);
+
+  // Team option dialog state
+  public contractOptionTarget = signal<{
+    playerName: string;
+    contract: Contract;
+  } | null>(null);
+  public isDecidingContractOption = signal(false);
+  public contractOptionError = signal<string | null>(null);
+
   // Computed values
   public hasPlayers = computed(
     () => this.sportsDataService.players().length > 0
@@ -90,7 +188,93 @@ export class MyRosterComponent implements OnInit {
 
   // Contract creation properties
   public salaryCap = 200000000; // Default 200M cap
-  public existingContracts: Contract[] = []; // TODO: Load from service
+  public existingContracts = signal<Contract[]>([]);
+
+  public leagueYear = computed(
+    () =>
+      this.leagueService.selectedLeague()?.currentYear ||
+      new Date().getFullYear()
+  );
+
+  public deadMoneyRules = computed(
+    (): DeadMoneyRules =>
+      this.leagueService.selectedLeague()?.rules?.cap?.deadMoneyRules || {
+        preJune1: true,
+        signingBonusAcceleration: true,
+      }
+  );
+
+  public designationsRemaining = computed(() =>
+    Math.max(
+      0,
+      (this.deadMoneyRules().postJune1Designations ?? 2) -
+        this.designationsUsed()
+    )
+  );
+
+  // Live dead money preview for the pending release
+  public releasePreview = computed((): ContractReleaseResult | null => {
+    const target = this.releaseTarget();
+    if (!target) return null;
+
+    return this.capService.previewRelease(
+      target.contract,
+      this.leagueYear(),
+      this.deadMoneyRules(),
+      this.postJune1Designation(),
+      this.designationsUsed(),
+      target.onInjuredReserve
+    );
+  });
+
+  public hasUsedTag = computed(() =>
+    this.leagueTags().some((tag) => tag.teamId === this.myMember()?.teamId)
+  );
+
+  public tagValue = computed(() => {
+    const target = this.tagTarget();
+    const values = this.tagValues()?.values.find(
+      (value) => value.position === target?.position
+    );
+    return values ? values[this.tagType()] : 0;
+  });
+
+  public optionErrors = computed((): string[] => {
+    const target = this.optionTarget();
+    if (!target) return [];
+
+    return this.capService.validateFifthYearOption(
+      target.contract,
+      this.leagueYear(),
+      this.leagueService.selectedLeague()?.rules?.contracts?.rookieWageScale
+    );
+  });
+
+  public contractOptionErrors = computed((): string[] => {
+    const target = this.contractOptionTarget();
+    if (!target) return [];
+
+    return this.capService.validateContractOption(
+      target.contract,
+      this.leagueYear()
+    );
+  });
+
+  public pendingContractOption = computed(() => {
+    const target = this.contractOptionTarget();
+    return target
+      ? ContractOptionCalculator.getPendingOption(target.contract)
+      : undefined;
+  });
+
+  public releaseVestingSchedule = computed((): GuaranteeVestingEntry[] => {
+    const target = this.releaseTarget();
+    if (!target || target.contract.guarantees.length === 0) return [];
+
+    return this.capService
+      .getGuaranteeVestingSchedule(target.contract)
+      .filter((entry) => entry.year >= this.leagueYear());
+  });
 
   async ngOnInit(): Promise<void> {
     try {
@@ -117,6 +301,15 @@ export class MyRosterComponent implements OnInit {
 
       // Load league rules for salary cap
       await this.loadLeagueRules(leagueId);
+
+      // Load contracts for release actions
+      await this.loadContracts();
+
+      // Load tags and transition tag offers awaiting a decision
+      await this.loadTags(leagueId);
+
+      // Load qualifying offers and offer sheets awaiting a decision
+      await this.loadRestrictedFreeAgents(leagueId);
     } catch (error) {
       console.error('Error initializing MyRosterComponent:', error);
       this._error.set(
@@ -152,6 +345,602 @@ export class MyRosterComponent implements OnInit {
     this.myMember.set(myMembership);
   }
 
+  /**
+   * Load the team's active contracts and post-June 1 designation usage
+   */
+  private async loadContracts(): Promise<void> {
+    const teamId = this.myMember()?.teamId;
+    if (!teamId) return;
+
+    try {
+      const [contracts, designationsUsed] = await Promise.all([
+        this.capService.getTeamContracts(teamId),
+        this.capService.getPostJune1DesignationsUsed(teamId, this.leagueYear()),
+      ]);
+      this.existingContracts.set(
+        contracts.filter((contract) => contract.status !== 'released')
+      );
+      this.designationsUsed.set(designationsUsed);
+    } catch (error) {
+      console.error('Error loading contracts:', error);
+    }
+  }
+
+  /**
+   * Load the league's tags for this offseason and offers on our
+   * transition-tagged players
+   */
+  private async loadTags(leagueId: string): Promise<void> {
+    const teamId = this.myMember()?.teamId;
+    if (!teamId) return;
+
+    try {
+      const [tags, matches] = await Promise.all([
+        this.tagService.getLeagueTags(leagueId, this.leagueYear()),
+        this.tagService.getPendingMatches(teamId),
+      ]);
+      this.leagueTags.set(tags);
+      this.pendingTagMatches.set(matches);
+    } catch (error) {
+      console.error('Error loading franchise tags:', error);
+    }
+  }
+
+  /**
+   * Load the league's qualifying offers for this offseason and offer sheets
+   * on our restricted free agents
+   */
+  private async loadRestrictedFreeAgents(leagueId: string): Promise<void> {
+    const teamId = this.myMember()?.teamId;
+    if (!teamId) return;
+
+    try {
+      const [offers, sheets] = await Promise.all([
+        this.rfaService.getQualifyingOffers(leagueId, this.leagueYear()),
+        this.rfaService.getPendingOfferSheets(teamId),
+      ]);
+      this.qualifyingOffers.set(offers);
+      this.pendingOfferSheets.set(sheets);
+    } catch (error) {
+      console.error('Error loading qualifying offers:', error);
+    }
+  }
+
+  /**
+   * Get the contract in effect this league year for a rostered player
+   */
+  getContractForPlayer(playerId: string): Contract | undefined {
+    const contracts = this.existingContracts().filter(
+      (contract) => contract.playerId === playerId
+    );
+    return (
+      contracts.find((contract) => contract.startYear <= this.leagueYear()) ||
+      contracts[0]
+    );
+  }
+
+  /**
+   * Whether a rostered player can be released in the current league phase
+   */
+  canReleasePlayer(playerId: string): boolean {
+    return (
+      !!this.getContractForPlayer(playerId) &&
+      this.leagueService.isActionAllowed('release')
+    );
+  }
+
+  /**
+   * Whether a rostered player is in the final year of an unextended contract
+   */
+  canExtendPlayer(playerId: string): boolean {
+    const contract = this.getContractForPlayer(playerId);
+    return (
+      !!contract &&
+      this.leagueService.isActionAllowed('extension') &&
+      this.extensionService.canExtend(
+        contract,
+        this.existingContracts(),
+        this.leagueYear()
+      )
+    );
+  }
+
+  /**
+   * Open the extension dialog, starting from the player's extension terms
+   */
+  async openExtensionDialog(rosterSlot: {
+    playerId: string;
+    playerName: string;
+  }): Promise<void> {
+    const contract = this.getContractForPlayer(rosterSlot.playerId);
+    if (!contract) return;
+
+    try {
+      const { extensionTerms } = await this.extensionService.openExtension(
+        contract
+      );
+
+      const years = contract.endYear - contract.startYear + 1;
+      const totalSalary = Object.values(contract.baseSalary).reduce(
+        (total, salary) => total + salary,
+        0
+      );
+
+      this.extensionTarget.set({
+        playerName: rosterSlot.playerName,
+        contract,
+      });
+      this.extensionYears.set(extensionTerms.minYears);
+      this.extensionApy.set(
+        Math.round((totalSalary + contract.signingBonus) / years)
+      );
+      this.extensionSigningBonus.set(0);
+      this.extensionGuaranteed.set(0);
+      this.extensionResult.set(null);
+      this.extensionError.set(null);
+    } catch (error) {
+      console.error('Error opening extension dialog:', error);
+    }
+  }
+
+  closeExtensionDialog(): void {
+    this.extensionTarget.set(null);
+  }
+
+  /**
+   * Fill the offer with the player's counter-offer
+   */
+  useCounterOffer(): void {
+    const counter = this.extensionResult()?.decision?.counterOffer;
+    if (!counter) return;
+
+    this.extensionYears.set(counter.years);
+    this.extensionApy.set(counter.apy);
+    this.extensionGuaranteed.set(counter.guaranteedAmount);
+  }
+
+  /**
+   * Offer the extension to the player
+   */
+  async submitExtension(): Promise<void> {
+    const target = this.extensionTarget();
+    if (!target) return;
+
+    try {
+      this.isExtending.set(true);
+      this.extensionError.set(null);
+
+      const result = await this.extensionService.submitExtensionOffer(
+        target.contract,
+        this.extensionYears(),
+        this.extensionApy(),
+        this.extensionSigningBonus(),
+        this.extensionGuaranteed()
+      );
+
+      this.extensionResult.set(result);
+      if (!result.isValid) {
+        this.extensionError.set(result.errors.join(', '));
+      } else if (result.contract) {
+        await this.loadContracts();
+      }
+    } catch (error) {
+      console.error('Error submitting extension:', error);
+      this.extensionError.set(
+        error instanceof Error ? error.message : 'Failed to submit extension'
+      );
+    } finally {
+      this.isExtending.set(false);
+    }
+  }
+
+  /**
+   * Whether the team can still tag a player whose contract has expired
+   */
+  canTagPlayer(playerId: string): boolean {
+    const teamId = this.myMember()?.teamId;
+    return (
+      !!teamId &&
+      !this.hasUsedTag() &&
+      this.leagueService.isActionAllowed('franchiseTag') &&
+      this.tagService.isTagEligible(
+        this.getPlayerContracts(playerId),
+        teamId,
+        this.leagueYear()
+      )
+    );
+  }
+
+  /**
+   * Open the tag dialog with the league's tag values
+   */
+  async openTagDialog(rosterSlot: {
+    playerId: string;
+    playerName: string;
+    position: Position;
+  }): Promise<void> {
+    const leagueId = this.leagueId();
+    if (!leagueId) return;
+
+    this.tagTarget.set({
+      playerId: rosterSlot.playerId,
+      playerName: rosterSlot.playerName,
+      position: rosterSlot.position,
+    });
+    this.tagType.set('franchise');
+    this.tagError.set(null);
+
+    try {
+      this.tagValues.set(await this.tagService.getTagValues(leagueId));
+    } catch (error) {
+      console.error('Error loading tag values:', error);
+      this.tagError.set(
+        error instanceof Error ? error.message : 'Failed to load tag values'
+      );
+    }
+  }
+
+  closeTagDialog(): void {
+    this.tagTarget.set(null);
+  }
+
+  /**
+   * Apply the selected tag to the player
+   */
+  async confirmTag(): Promise<void> {
+    const target = this.tagTarget();
+    const teamId = this.myMember()?.teamId;
+    const leagueId = this.leagueId();
+    if (!target || !teamId || !leagueId) return;
+
+    try {
+      this.isTagging.set(true);
+      this.tagError.set(null);
+
+      await this.tagService.applyTag(teamId, target.playerId, this.tagType());
+
+      this.closeTagDialog();
+      await this.leagueMembershipService.loadUserMemberships();
+      await this.loadMyMembership(leagueId);
+      await this.loadContracts();
+      await this.loadTags(leagueId);
+    } catch (error) {
+      console.error('Error applying tag:', error);
+      this.tagError.set(
+        error instanceof Error ? error.message : 'Failed to apply tag'
+      );
+    } finally {
+      this.isTagging.set(false);
+    }
+  }
+
+  /**
+   * Match or decline an offer sheet on a transition-tagged player
+   */
+  async respondToTagMatch(
+    match: TransitionTagMatch,
+    accept: boolean
+  ): Promise<void> {
+    const leagueId = this.leagueId();
+    if (!leagueId) return;
+
+    try {
+      this.respondingMatchId.set(match.id);
+      await this.tagService.respondToTransitionTag(match.id, accept);
+
+      await this.leagueMembershipService.loadUserMemberships();
+      await this.loadMyMembership(leagueId);
+      await this.loadContracts();
+      await this.loadTags(leagueId);
+    } catch (error) {
+      console.error('Error responding to transition tag offer:', error);
+      this._error.set(
+        error instanceof Error ? error.message : 'Failed to respond to offer'
+      );
+    } finally {
+      this.respondingMatchId.set(null);
+    }
+  }
+
+  /**
+   * Display name for a player in a transition tag offer
+   */
+  getPlayerName(playerId: string): string {
+    const player = this.sportsDataService.getPlayer(Number(playerId));
+    return player
+      ? `${player.FirstName || ''} ${player.LastName || ''}`.trim()
+      : 'Unknown Player';
+  }
+
+  /**
+   * Whether an expired restricted free agent can be tendered a qualifying offer
+   */
+  canTenderPlayer(rosterSlot: { playerId: string; yearsExp: number }): boolean {
+    const teamId = this.myMember()?.teamId;
+    return (
+      !!teamId &&
+      this.leagueService.isActionAllowed('qualifyingOffer') &&
+      !this.qualifyingOffers().some(
+        (offer) => offer.playerId === rosterSlot.playerId
+      ) &&
+      this.rfaService.canTender(
+        this.getPlayerContracts(rosterSlot.playerId),
+        teamId,
+        rosterSlot.yearsExp,
+        this.leagueYear(),
+        this.leagueService.selectedLeague()?.rules?.contracts
+          ?.restrictedFreeAgency
+      )
+    );
+  }
+
+  /**
+   * Open the qualifying offer dialog for a restricted free agent
+   */
+  openTenderDialog(rosterSlot: { playerId: string; playerName: string }): void {
+    const teamId = this.myMember()?.teamId;
+    if (!teamId) return;
+
+    this.tenderTarget.set({
+      playerId: rosterSlot.playerId,
+      playerName: rosterSlot.playerName,
+      offerAmount: this.rfaService.getQualifyingOfferAmount(
+        this.getPlayerContracts(rosterSlot.playerId),
+        teamId,
+        this.leagueYear(),
+        this.leagueService.selectedLeague()?.rules?.contracts
+          ?.restrictedFreeAgency
+      ),
+    });
+    this.tenderError.set(null);
+  }
+
+  closeTenderDialog(): void {
+    this.tenderTarget.set(null);
+  }
+
+  /**
+   * Tender the qualifying offer
+   */
+  async confirmTender(): Promise<void> {
+    const target = this.tenderTarget();
+    const teamId = this.myMember()?.teamId;
+    const leagueId = this.leagueId();
+    if (!target || !teamId || !leagueId) return;
+
+    try {
+      this.isTendering.set(true);
+      this.tenderError.set(null);
+
+      await this.rfaService.tenderQualifyingOffer(teamId, target.playerId);
+
+      this.closeTenderDialog();
+      await this.leagueMembershipService.loadUserMemberships();
+      await this.loadMyMembership(leagueId);
+      await this.loadContracts();
+      await this.loadRestrictedFreeAgents(leagueId);
+    } catch (error) {
+      console.error('Error tendering qualifying offer:', error);
+      this.tenderError.set(
+        error instanceof Error
+          ? error.message
+          : 'Failed to tender qualifying offer'
+      );
+    } finally {
+      this.isTendering.set(false);
+    }
+  }
+
+  /**
+   * Match or decline an offer sheet on a restricted free agent
+   */
+  async respondToOfferSheet(sheet: OfferSheet, match: boolean): Promise<void> {
+    const leagueId = this.leagueId();
+    if (!leagueId) return;
+
+    try {
+      this.respondingSheetId.set(sheet.id);
+      await this.rfaService.respondToOfferSheet(sheet.id, match);
+
+      await this.leagueMembershipService.loadUserMemberships();
+      await this.loadMyMembership(leagueId);
+      await this.loadContracts();
+      await this.loadRestrictedFreeAgents(leagueId);
+    } catch (error) {
+      console.error('Error responding to offer sheet:', error);
+      this._error.set(
+        error instanceof Error
+          ? error.message
+          : 'Failed to respond to offer sheet'
+      );
+    } finally {
+      this.respondingSheetId.set(null);
+    }
+  }
+
+  private getPlayerContracts(playerId: string): Contract[] {
+    return this.existingContracts().filter(
+      (contract) => contract.playerId === playerId
+    );
+  }
+
+  /**
+   * Whether a first-rounder's fifth-year option is up for decision
+   */
+  canDecideOption(playerId: string): boolean {
+    const contract = this.getContractForPlayer(playerId);
+    return (
+      !!contract &&
+      this.leagueService.isActionAllowed('contractOption') &&
+      this.capService.isFifthYearOptionEligible(contract, this.leagueYear())
+    );
+  }
+
+  /**
+   * Open the fifth-year option dialog for a rostered rookie
+   */
+  openOptionDialog(rosterSlot: { playerId: string; playerName: string }): void {
+    const contract = this.getContractForPlayer(rosterSlot.playerId);
+    if (!contract) return;
+
+    this.optionTarget.set({ playerName: rosterSlot.playerName, contract });
+    this.optionError.set(null);
+  }
+
+  closeOptionDialog(): void {
+    this.optionTarget.set(null);
+  }
+
+  /**
+   * Exercise or decline the selected player's fifth-year option
+   */
+  async decideOption(exercise: boolean): Promise<void> {
+    const target = this.optionTarget();
+    const leagueId = this.leagueId();
+    if (!target || !leagueId || this.optionErrors().length > 0) return;
+
+    try {
+      this.isDecidingOption.set(true);
+      this.optionError.set(null);
+
+      await this.capService.decideFifthYearOption(target.contract.id, exercise);
+
+      this.closeOptionDialog();
+      await this.leagueMembershipService.loadUserMemberships();
+      await this.loadMyMembership(leagueId);
+      await this.loadContracts();
+    } catch (error) {
+      console.error('Error deciding fifth-year option:', error);
+      this.optionError.set(
+        error instanceof Error
+          ? error.message
+          : 'Failed to decide fifth-year option'
+      );
+    } finally {
+      this.isDecidingOption.set(false);
+    }
+  }
+
+  /**
+   * Whether a contract's team option is up for decision
+   */
+  canDecideContractOption(playerId: string): boolean {
+    const contract = this.getContractForPlayer(playerId);
+    return (
+      !!contract &&
+      this.leagueService.isActionAllowed('contractOption') &&
+      this.capService.isTeamOptionEligible(contract, this.leagueYear())
+    );
+  }
+
+  /**
+   * Open the team option dialog for a rostered player
+   */
+  openContractOptionDialog(rosterSlot: {
+    playerId: string;
+    playerName: string;
+  }): void {
+    const contract = this.getContractForPlayer(rosterSlot.playerId);
+    if (!contract) return;
+
+    this.contractOptionTarget.set({
+      playerName: rosterSlot.playerName,
+      contract,
+    });
+    this.contractOptionError.set(null);
+  }
+
+  closeContractOptionDialog(): void {
+    this.contractOptionTarget.set(null);
+  }
+
+  /**
+   * Exercise or decline the selected player's team option
+   */
+  async decideContractOption(exercise: boolean): Promise<void> {
+    const target = this.contractOptionTarget();
+    const leagueId = this.leagueId();
+    if (!target || !leagueId || this.contractOptionErrors().length > 0) return;
+
+    try {
+      this.isDecidingContractOption.set(true);
+      this.contractOptionError.set(null);
+
+      await this.capService.decideContractOption(target.contract.id, exercise);
+
+      this.closeContractOptionDialog();
+      await this.leagueMembershipService.loadUserMemberships();
+      await this.loadMyMembership(leagueId);
+      await this.loadContracts();
+    } catch (error) {
+      console.error('Error deciding team option:', error);
+      this.contractOptionError.set(
+        error instanceof Error ? error.message : 'Failed to decide team option'
+      );
+    } finally {
+      this.isDecidingContractOption.set(false);
+    }
+  }
+
+  /**
+   * Open the release dialog for a rostered player
+   */
+  openReleaseDialog(rosterSlot: {
+    playerId: string;
+    playerName: string;
+    status: string;
+  }): void {
+    const contract = this.getContractForPlayer(rosterSlot.playerId);
+    if (!contract) return;
+
+    this.releaseTarget.set({
+      playerName: rosterSlot.playerName,
+      contract,
+      onInjuredReserve: rosterSlot.status === 'ir',
+    });
+    this.postJune1Designation.set(false);
+    this.releaseError.set(null);
+  }
+
+  closeReleaseDialog(): void {
+    this.releaseTarget.set(null);
+  }
+
+  /**
+   * Release the selected player
+   */
+  async confirmRelease(): Promise<void> {
+    const target = this.releaseTarget();
+    const leagueId = this.leagueId();
+    if (!target || !leagueId || !this.releasePreview()?.isValid) return;
+
+    try {
+      this.isReleasing.set(true);
+      this.releaseError.set(null);
+
+      await this.capService.releasePlayer(
+        target.contract.id,
+        this.postJune1Designation()
+      );
+
+      this.closeReleaseDialog();
+      await this.leagueMembershipService.loadUserMemberships();
+      await this.loadMyMembership(leagueId);
+      await this.loadContracts();
+    } catch (error) {
+      console.error('Error releasing player:', error);
+      this.releaseError.set(
+        error instanceof Error ? error.message : 'Failed to release player'
+      );
+    } finally {
+      this.isReleasing.set(false);
+    }
+  }
+
+  formatCurrency(amount: number): string {
+    return this.numberFormatService.formatCurrency(amount);
+  }
+
   /**
    * Load league rules to get salary cap information
    */
@@ -223,6 +1012,20 @@ export class MyRosterComponent implements OnInit {
     }
   }
 
+  /**
+   * Date a traded player reports to the team, while he is still unavailable
+   * for the lineup
+   */
+  getReportsOn(slot: RosterSlot): Date | null {
+    const reportsOn: Timestamp | Date | undefined = slot.reportsOn;
+    const date =
+      reportsOn instanceof Timestamp ? reportsOn.toDate() : reportsOn;
+    return date &&
+      !RosterValidator.isAvailableForLineup({ ...slot, reportsOn: date })
+      ? date
+      : null;
+  }
+
   /**
    * Get status display name
    */
@@ -6,9 +6,21 @@ import { ButtonModule } from 'primeng/button';
 import { TabsModule } from 'primeng/tabs';
 import { ProgressSpinnerModule } from 'primeng/progressspinner';
 import { MessageModule } from 'primeng/message';
+import { DialogModule } from 'primeng/dialog';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { SelectModule } from 'primeng/select';
+import { FormsModule } from '@angular/forms';
+import { Contract } from '@fantasy-football-dynasty/types';
+import {
+  CapMath,
+  CapProjectionYear,
+  ContractRestructureResult,
+} from '@fantasy-football-dynasty/domain';
 
 import { LeagueService } from '../../services/league.service';
 import { SportsDataService } from '../../services/sports-data.service';
+import { CapService } from '../../services/cap.service';
+import { NumberFormatService } from '../../services/number-format.service';
 import {
   PlayersTableComponent,
   PlayersTableConfig,
@@ -25,6 +37,10 @@ import { LeagueHeaderComponent } from '../components/league-header.component';
     TabsModule,
     ProgressSpinnerModule,
     MessageModule,
+    DialogModule,
+    InputNumberModule,
+    SelectModule,
+    FormsModule,
     PlayersTableComponent,
     LeagueHeaderComponent,
   ],
@@ -36,9 +52,20 @@ export class TeamComponent implements OnInit {
   leagueId = signal<string | null>(null);
   teamId = signal<string | null>(null);
   players = signal<any[]>([]);
+  contracts = signal<Contract[]>([]);
+  capProjection = signal<CapProjectionYear[]>([]);
+
+  // Restructure dialog state
+  restructureContract = signal<Contract | null>(null);
+  restructureYear = signal<number | null>(null);
+  restructureAmount = signal<number>(0);
+  isRestructuring = signal(false);
+  restructureError = signal<string | null>(null);
 
   private readonly leagueService = inject(LeagueService);
   private readonly sportsDataService = inject(SportsDataService);
+  private readonly capService = inject(CapService);
+  private readonly numberFormatService = inject(NumberFormatService);
   private readonly router = inject(Router);
   private readonly route = inject(ActivatedRoute);
 
@@ -87,6 +114,74 @@ export class TeamComponent implements OnInit {
     return this.enhanceRosterPlayersWithSportsData(rosterPlayers);
   });
 
+  currentYear = computed(
+    () =>
+      this.leagueService.selectedLeague()?.currentYear ||
+      new Date().getFullYear()
+  );
+
+  // Five-year window shown on the cap sheet
+  capYears = computed(() =>
+    Array.from({ length: 5 }, (_, i) => this.currentYear() + i)
+  );
+
+  // Per-contract cap hits across the cap sheet window
+  capSheetRows = computed(() => {
+    const players = this.players();
+    const years = this.capYears();
+
+    return this.contracts()
+      .filter(
+        (contract) =>
+          contract.status !== 'released' &&
+          contract.endYear >= this.currentYear()
+      )
+      .map((contract) => {
+        const player = players.find(
+          (p) => p.playerId === contract.playerId || p.id === contract.playerId
+        );
+        const capHits = CapMath.calculateCapHitsByYear(contract, years[0]);
+
+        return {
+          contract,
+          playerName: player?.name || contract.playerId,
+          position: player?.position || '',
+          capHits: years.map((year) => capHits[year] || 0),
+          canRestructure: contract.endYear > this.currentYear(),
+        };
+      })
+      .sort((a, b) => b.capHits[0] - a.capHits[0]);
+  });
+
+  committedCapByYear = computed(() =>
+    this.capYears().map((_, i) =>
+      this.capSheetRows().reduce((total, row) => total + row.capHits[i], 0)
+    )
+  );
+
+  restructureYears = computed(() => {
+    const contract = this.restructureContract();
+    if (!contract) return [];
+
+    return Array.from(
+      { length: contract.endYear - this.currentYear() },
+      (_, i) => this.currentYear() + i
+    ).map((year) => ({ label: `${year}`, value: year }));
+  });
+
+  // Live before/after preview of the pending restructure
+  restructurePreview = computed((): ContractRestructureResult | null => {
+    const contract = this.restructureContract();
+    const year = this.restructureYear();
+    if (!contract || !year) return null;
+
+    return this.capService.previewRestructure(
+      contract,
+      year,
+      this.restructureAmount()
+    );
+  });
+
   // Players table configuration
   playersTableConfig = computed(
     (): PlayersTableConfig => ({
@@ -135,6 +230,8 @@ export class TeamComponent implements OnInit {
         const players = await this.leagueService.getLeaguePlayers(leagueId);
         this.players.set(players);
       }
+
+      await this.loadCapData();
     } catch (error) {
       console.error('Error loading team data:', error);
     } finally {
@@ -187,6 +284,68 @@ export class TeamComponent implements OnInit {
     }
   }
 
+  private async loadCapData(): Promise<void> {
+    const teamId = this.teamId();
+    if (!teamId) return;
+
+    try {
+      const [contracts, capSheet] = await Promise.all([
+        this.capService.getTeamContracts(teamId),
+        this.capService.getTeamCapSheet(teamId),
+      ]);
+      this.contracts.set(contracts);
+      this.capProjection.set(capSheet.projection);
+    } catch (error) {
+      console.error('Error loading team cap data:', error);
+    }
+  }
+
+  openRestructureDialog(contract: Contract): void {
+    this.restructureContract.set(contract);
+    this.restructureYear.set(this.currentYear());
+    this.restructureAmount.set(0);
+    this.restructureError.set(null);
+  }
+
+  closeRestructureDialog(): void {
+    this.restructureContract.set(null);
+    this.restructureYear.set(null);
+  }
+
+  async confirmRestructure(): Promise<void> {
+    const contract = this.restructureContract();
+    const year = this.restructureYear();
+    if (!contract || !year || !this.restructurePreview()?.isValid) return;
+
+    try {
+      this.isRestructuring.set(true);
+      this.restructureError.set(null);
+
+      await this.capService.restructureContract(
+        contract.id,
+        year,
+        this.restructureAmount()
+      );
+
+      this.closeRestructureDialog();
+      await this.loadCapData();
+    } catch (error) {
+      console.error('Error restructuring contract:', error);
+      this.restructureError.set(
+        error instanceof Error
+          ? error.message
+          : 'Failed to restructure contract'
+      );
+    } finally {
+      this.isRestructuring.set(false);
+    }
+  }
+
+  formatCurrency(amount: number): string {
+    const formatted = this.numberFormatService.formatCurrency(Math.abs(amount));
+    return amount < 0 ? `-${formatted}` : formatted;
+  }
+
   onEditTeam(): void {
     this.router.navigate(['/leagues', this.leagueId(), 'team', 'edit']);
   }
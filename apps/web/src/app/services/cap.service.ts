@@ -0,0 +1,444 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  doc,
+  DocumentData,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+} from '@angular/fire/firestore';
+import { Functions, httpsCallable } from '@angular/fire/functions';
+import {
+  CapLedger,
+  Contract,
+  ContractIncentive,
+  DeadMoneyRules,
+  PlayerRelease,
+  RookieScaleRules,
+} from '@fantasy-football-dynasty/types';
+import {
+  CapMath,
+  CapHitComparison,
+  CapLedgerService,
+  CapLedgerYearSummary,
+  CapConsistencyResult,
+  CapProjectionYear,
+  ContractOptionCalculator,
+  IncentiveCalculator,
+  IncentiveSettlement,
+  MinimumSpendStatus,
+  RookieScaleCalculator,
+} from '@fantasy-football-dynasty/domain';
+
+export interface RestructureResponse {
+  success: boolean;
+  capImpact: CapHitComparison[];
+}
+
+export interface TeamCapSheetResponse {
+  capHits: { contractId: string; playerId: string; capHit: number }[];
+  totalCapHit: number;
+  projection: CapProjectionYear[];
+  contracts: {
+    contractId: string;
+    playerId: string;
+    capHits: Record<number, number>;
+  }[];
+}
+
+export interface ReleasePlayerResponse {
+  success: boolean;
+  release: PlayerRelease;
+}
+
+export interface RebuildTeamCapResponse {
+  success: boolean;
+  previousCapSpace: number;
+  capSpace: number;
+  ledger: CapLedgerYearSummary[];
+}
+
+export interface FifthYearOptionResponse {
+  success: boolean;
+  contract: Contract; // option-year contract when exercised
+}
+
+export interface ContractOptionResponse {
+  success: boolean;
+  contract: Contract; // option-year contract when exercised
+}
+
+export interface CapConsistencyResponse {
+  leagueYear: number;
+  results: CapConsistencyResult[];
+  inconsistentTeamIds: string[];
+}
+
+export interface MinimumSpendStatusResponse {
+  leagueYear: number;
+  minimumSpend: number;
+  results: MinimumSpendStatus[];
+  belowFloorTeamIds: string[];
+}
+
+export interface SettleIncentivesResponse {
+  leagueYear: number;
+  results: {
+    contractId: string;
+    teamId: string;
+    settlements: IncentiveSettlement[];
+  }[];
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class CapService {
+  private readonly db = inject(Firestore);
+  private readonly functions = inject(Functions);
+
+  /**
+   * Load all contracts for a team
+   */
+  async getTeamContracts(teamId: string): Promise<Contract[]> {
+    try {
+      const contractsQuery = query(
+        collection(this.db, 'contracts'),
+        where('teamId', '==', teamId)
+      );
+      const snapshot = await getDocs(contractsQuery);
+
+      return snapshot.docs
+        .map((contractDoc) =>
+          this.toContract(contractDoc.id, contractDoc.data())
+        )
+        .filter((contract) => Number.isFinite(contract.startYear));
+    } catch (error) {
+      console.error('Error loading team contracts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load all cap ledger entries for a team
+   */
+  async getTeamLedger(teamId: string): Promise<CapLedger[]> {
+    try {
+      const ledgerQuery = query(
+        collection(this.db, 'capLedger'),
+        where('teamId', '==', teamId)
+      );
+      const snapshot = await getDocs(ledgerQuery);
+
+      return snapshot.docs.map((entryDoc) => entryDoc.data() as CapLedger);
+    } catch (error) {
+      console.error('Error loading team cap ledger:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Derive a team's cap space for a league year from its ledger
+   */
+  async getTeamCapSpace(
+    teamId: string,
+    leagueYear: number,
+    salaryCap: number
+  ): Promise<number> {
+    const entries = await this.getTeamLedger(teamId);
+    return CapLedgerService.calculateCapSpace(entries, leagueYear, salaryCap);
+  }
+
+  /**
+   * Record a newly signed contract in the cap ledger
+   */
+  async recordContractSigning(
+    contractId: string,
+    data: DocumentData
+  ): Promise<void> {
+    try {
+      const contract = this.toContract(contractId, data);
+      const batch = writeBatch(this.db);
+
+      CapLedgerService.createContractEntries(contract).forEach((entry) => {
+        batch.set(doc(this.db, 'capLedger', entry.id), entry);
+      });
+
+      await batch.commit();
+    } catch (error) {
+      console.error('Error recording contract in cap ledger:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Classify a new contract's incentives as likely or unlikely to be earned
+   * from the player's prior season
+   */
+  async classifyIncentives(
+    playerId: string,
+    incentives: ContractIncentive[],
+    startYear: number
+  ): Promise<ContractIncentive[]> {
+    try {
+      const playerDoc = await getDoc(doc(this.db, 'players', playerId));
+      const stats = playerDoc.exists() ? playerDoc.data()['stats'] || [] : [];
+
+      return IncentiveCalculator.classifyIncentives(
+        incentives,
+        stats,
+        startYear
+      );
+    } catch (error) {
+      console.error('Error classifying incentives:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Settle the season's incentives once scoring is final
+   */
+  async settleIncentives(leagueId: string): Promise<SettleIncentivesResponse> {
+    return this.callFunction('settleIncentives', { leagueId });
+  }
+
+  /**
+   * Get a team's cap sheet with a five-year projection
+   */
+  async getTeamCapSheet(
+    teamId: string,
+    year?: number
+  ): Promise<TeamCapSheetResponse> {
+    return this.callFunction('getTeamCapSheet', { teamId, year });
+  }
+
+  /**
+   * Count post-June 1 designations a team has used in a league year
+   */
+  async getPostJune1DesignationsUsed(
+    teamId: string,
+    leagueYear: number
+  ): Promise<number> {
+    try {
+      const releasesQuery = query(
+        collection(this.db, 'releases'),
+        where('teamId', '==', teamId),
+        where('leagueYear', '==', leagueYear),
+        where('postJune1Designation', '==', true)
+      );
+      const snapshot = await getDocs(releasesQuery);
+
+      return snapshot.size;
+    } catch (error) {
+      console.error('Error loading post-June 1 designations:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Preview dead money and cap savings for releasing a contract
+   */
+  previewRelease(
+    contract: Contract,
+    releaseYear: number,
+    deadMoneyRules: DeadMoneyRules,
+    postJune1Designation: boolean,
+    designationsUsed: number,
+    onInjuredReserve: boolean
+  ) {
+    return CapMath.releaseContract(
+      contract,
+      releaseYear,
+      deadMoneyRules,
+      postJune1Designation,
+      designationsUsed,
+      onInjuredReserve
+    );
+  }
+
+  /**
+   * Year-by-year schedule of when a contract's guarantees lock in
+   */
+  getGuaranteeVestingSchedule(contract: Contract) {
+    return CapMath.getGuaranteeVestingSchedule(contract);
+  }
+
+  /**
+   * Release a player, charging dead money to the cap ledger
+   */
+  async releasePlayer(
+    contractId: string,
+    postJune1Designation: boolean
+  ): Promise<ReleasePlayerResponse> {
+    return this.callFunction('releasePlayer', {
+      contractId,
+      postJune1Designation,
+    });
+  }
+
+  /**
+   * Rebuild a team's cap ledger from its contracts (commissioner only)
+   */
+  async rebuildTeamCap(teamId: string): Promise<RebuildTeamCapResponse> {
+    return this.callFunction('rebuildTeamCap', { teamId });
+  }
+
+  /**
+   * Flag teams whose stored cap space disagrees with the ledger
+   */
+  async checkCapConsistency(leagueId: string): Promise<CapConsistencyResponse> {
+    return this.callFunction('checkCapConsistency', { leagueId });
+  }
+
+  /**
+   * Current-year cash spend for each team against the league minimum spend
+   */
+  async getMinimumSpendStatus(
+    leagueId: string
+  ): Promise<MinimumSpendStatusResponse> {
+    return this.callFunction('getMinimumSpendStatus', { leagueId });
+  }
+
+  /**
+   * Preview the multi-year cap impact of a restructure without saving it
+   */
+  previewRestructure(contract: Contract, year: number, amount: number) {
+    return CapMath.restructureContract(contract, year, amount);
+  }
+
+  /**
+   * Restructure a contract, converting base salary into prorated bonus
+   */
+  async restructureContract(
+    contractId: string,
+    year: number,
+    amount: number
+  ): Promise<RestructureResponse> {
+    return this.callFunction('restructureContract', {
+      contractId,
+      year,
+      amount,
+    });
+  }
+
+  /**
+   * Whether a first-round rookie contract is in its final year with the
+   * fifth-year option still undecided
+   */
+  isFifthYearOptionEligible(contract: Contract, leagueYear: number): boolean {
+    return (
+      contract.rookieContract?.round === 1 &&
+      !contract.rookieContract.fifthYearOption &&
+      contract.endYear === leagueYear
+    );
+  }
+
+  /**
+   * Reasons the fifth-year option cannot be decided right now
+   */
+  validateFifthYearOption(
+    contract: Contract,
+    leagueYear: number,
+    rules?: RookieScaleRules
+  ): string[] {
+    return RookieScaleCalculator.validateFifthYearOption(
+      contract,
+      leagueYear,
+      new Date(),
+      RookieScaleCalculator.getRules(rules)
+    );
+  }
+
+  /**
+   * Exercise or decline the fifth-year option on a rookie contract
+   */
+  async decideFifthYearOption(
+    contractId: string,
+    exercise: boolean
+  ): Promise<FifthYearOptionResponse> {
+    return this.callFunction('decideFifthYearOption', {
+      contractId,
+      exercise,
+    });
+  }
+
+  /**
+   * Whether a contract's final year has an undecided team option
+   */
+  isTeamOptionEligible(contract: Contract, leagueYear: number): boolean {
+    return (
+      ContractOptionCalculator.getPendingOption(contract)?.holder === 'team' &&
+      contract.endYear === leagueYear
+    );
+  }
+
+  /**
+   * Reasons a team option cannot be decided right now
+   */
+  validateContractOption(contract: Contract, leagueYear: number): string[] {
+    return ContractOptionCalculator.validateOptionDecision(
+      contract,
+      leagueYear,
+      new Date()
+    );
+  }
+
+  /**
+   * Exercise or decline the team option on a contract
+   */
+  async decideContractOption(
+    contractId: string,
+    exercise: boolean
+  ): Promise<ContractOptionResponse> {
+    return this.callFunction('decideContractOption', {
+      contractId,
+      exercise,
+    });
+  }
+
+  /**
+   * Normalize a contract document. FA signings store the accepted offer under
+   * `contract`, so years are derived from its base salary schedule.
+   */
+  private toContract(id: string, data: DocumentData): Contract {
+    if (data['startYear'] !== undefined) {
+      return { ...data, id } as Contract;
+    }
+
+    const offer = data['contract'] || {};
+    const years = Object.keys(offer.baseSalary || {}).map(Number);
+
+    return {
+      id,
+      playerId: data['playerId'],
+      teamId: data['teamId'],
+      startYear: Math.min(...years),
+      endYear: Math.max(...years),
+      baseSalary: offer.baseSalary || {},
+      signingBonus: offer.signingBonus || 0,
+      guarantees: offer.guarantees || [],
+      noTradeClause: false,
+      restructures: data['restructures'] || [],
+      incentives: offer.incentives || [],
+      options: offer.options || [],
+      createdAt: data['createdAt'],
+    };
+  }
+
+  private async callFunction<T>(
+    functionName: string,
+    data: object
+  ): Promise<T> {
+    try {
+      const callable = httpsCallable<object, T>(this.functions, functionName);
+      const result = await callable(data);
+      return result.data;
+    } catch (error) {
+      console.error(`Error calling function ${functionName}:`, error);
+      throw error;
+    }
+  }
+}
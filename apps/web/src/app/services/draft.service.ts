@@ -120,6 +120,20 @@ export class DraftService {
     }
   }
 
+  /**
+   * Create any missing tradable picks for the league's upcoming drafts
+   */
+  async generatePickInventory(
+    leagueId: string
+  ): Promise<{ success: boolean; draftYears: number[]; created: number }> {
+    try {
+      return await this.callFunction('generatePickInventory', { leagueId });
+    } catch (error) {
+      console.error('Error generating pick inventory:', error);
+      throw error;
+    }
+  }
+
   /**
    * Connect to real-time draft updates
    */
@@ -0,0 +1,83 @@
+import { Injectable, inject } from '@angular/core';
+import { Functions, httpsCallable } from '@angular/fire/functions';
+import { Contract } from '@fantasy-football-dynasty/types';
+import {
+  ContractExtensionEngine,
+  ContractExtensionResult,
+  NegotiationHistoryEntry,
+  TradePreferences,
+} from '@fantasy-football-dynasty/domain';
+
+export interface OpenContractExtensionResponse {
+  extensionTerms: TradePreferences['extensionTerms'];
+  negotiationHistory: NegotiationHistoryEntry[];
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ExtensionService {
+  private readonly functions = inject(Functions);
+
+  /**
+   * Whether a contract is in its final year and has not been extended yet
+   */
+  canExtend(
+    contract: Contract,
+    contracts: Contract[],
+    leagueYear: number
+  ): boolean {
+    return (
+      ContractExtensionEngine.isEligible(contract, leagueYear) &&
+      !contracts.some((other) => other.extendsContractId === contract.id)
+    );
+  }
+
+  /**
+   * Open the extension negotiation for a contract. The server sets the
+   * player's extension terms on the first call and they stay fixed for the
+   * whole negotiation.
+   */
+  async openExtension(
+    contract: Contract
+  ): Promise<OpenContractExtensionResponse> {
+    return this.callFunction('openContractExtension', {
+      contractId: contract.id,
+    });
+  }
+
+  /**
+   * Offer an evenly paid extension. The server records the player's response
+   * in the extension negotiation and, if he accepts, signs the extension as
+   * long as the team stays under the cap.
+   */
+  async submitExtensionOffer(
+    contract: Contract,
+    years: number,
+    apy: number,
+    signingBonus: number,
+    guaranteedAmount: number
+  ): Promise<ContractExtensionResult> {
+    return this.callFunction('submitExtensionOffer', {
+      contractId: contract.id,
+      years,
+      apy,
+      signingBonus,
+      guaranteedAmount,
+    });
+  }
+
+  private async callFunction<T>(
+    functionName: string,
+    data: object
+  ): Promise<T> {
+    try {
+      const callable = httpsCallable<object, T>(this.functions, functionName);
+      const result = await callable(data);
+      return result.data;
+    } catch (error) {
+      console.error(`Error calling function ${functionName}:`, error);
+      throw error;
+    }
+  }
+}
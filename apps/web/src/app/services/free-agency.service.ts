@@ -22,15 +22,20 @@ import {
   TeamFAStatus,
   OpenFASigning,
   ContractOffer,
+  ContractRails,
   Player,
   Position,
   MarketContext,
   FAEvaluationResult,
   PlayerDecision,
 } from '@fantasy-football-dynasty/types';
+import { ContractValidator } from '@fantasy-football-dynasty/domain';
 import { SportsDataService } from './sports-data.service';
 import { TeamService } from './team.service';
 import { LeagueService } from './league.service';
+import { CapService } from './cap.service';
+import { TagService } from './tag.service';
+import { RfaService } from './rfa.service';
 import { EnhancedPlayerMinimumService } from './enhanced-player-minimum.service';
 
 export interface FAWeekBid {
@@ -71,6 +76,9 @@ export class FreeAgencyService {
   private readonly sportsDataService = inject(SportsDataService);
   private readonly teamService = inject(TeamService);
   private readonly leagueService = inject(LeagueService);
+  private readonly capService = inject(CapService);
+  private readonly tagService = inject(TagService);
+  private readonly rfaService = inject(RfaService);
   private readonly enhancedPlayerMinimumService = inject(
     EnhancedPlayerMinimumService
   );
@@ -287,6 +295,27 @@ export class FreeAgencyService {
         throw new Error('No active league found');
       }
 
+      // Franchise-tagged players are off the market
+      const tags = await this.tagService.getLeagueTags(
+        currentWeek.leagueId,
+        currentLeague.currentYear
+      );
+      const isFranchiseTagged = tags.some(
+        (tag) =>
+          tag.playerId === playerId.toString() &&
+          tag.tagType === 'franchise' &&
+          tag.status === 'active'
+      );
+      if (isFranchiseTagged) {
+        throw new Error('Franchise-tagged players cannot receive offers');
+      }
+
+      this.assertWithinRails(
+        offer,
+        currentLeague.rules?.contracts?.rails,
+        player.Position as Position
+      );
+
       // Calculate dynamic minimum for informational purposes
       const dynamicMinimum = await this.calculateDynamicPlayerMinimum(
         player,
@@ -352,6 +381,12 @@ export class FreeAgencyService {
         throw new Error('Player not found');
       }
 
+      this.assertWithinRails(
+        offer,
+        currentLeague.rules?.contracts?.rails,
+        player.Position as Position
+      );
+
       // Calculate dynamic minimum for informational purposes
       const dynamicMinimum = await this.calculateDynamicPlayerMinimum(
         player,
@@ -818,6 +853,32 @@ export class FreeAgencyService {
         allRosteredPlayers.map((p) => p.playerId)
       );
 
+      // Transition-tagged and tendered restricted players stay on their
+      // roster but can receive offers
+      const currentLeague = this.leagueService.selectedLeague();
+      const [leagueTags, qualifyingOffers] = currentLeague
+        ? await Promise.all([
+            this.tagService.getLeagueTags(
+              currentLeague.id,
+              currentLeague.currentYear
+            ),
+            this.rfaService.getQualifyingOffers(
+              currentLeague.id,
+              currentLeague.currentYear
+            ),
+          ])
+        : [[], []];
+      const openToOfferIds = new Set([
+        ...leagueTags
+          .filter(
+            (tag) => tag.tagType === 'transition' && tag.status === 'active'
+          )
+          .map((tag) => tag.playerId),
+        ...qualifyingOffers
+          .filter((offer) => offer.status === 'pending')
+          .map((offer) => offer.playerId),
+      ]);
+
       const availablePlayers: FAWeekPlayer[] = allPlayers
         .filter((player) => {
           // Filter out players without valid positions
@@ -834,9 +895,11 @@ export class FreeAgencyService {
             player.LastName.trim() !== '';
 
           // Filter out players already on team rosters
-          const isNotRostered = !allRosteredPlayers.some(
-            (rostered) => rostered.playerId === player.PlayerID.toString()
-          );
+          const isNotRostered =
+            openToOfferIds.has(player.PlayerID.toString()) ||
+            !allRosteredPlayers.some(
+              (rostered) => rostered.playerId === player.PlayerID.toString()
+            );
 
           if (!isNotRostered) {
             console.log(
@@ -2333,6 +2396,12 @@ export class FreeAgencyService {
         apy: 5000000,
       };
 
+      this.assertWithinRails(
+        autoContract,
+        this.leagueService.selectedLeague()?.rules?.contracts?.rails,
+        this.sportsDataService.getPlayerById(playerId)?.Position as Position
+      );
+
       const signing: OpenFASigning = {
         id: `${currentWeek.leagueId}_openfa_${playerId}_${teamId}`,
         leagueId: currentWeek.leagueId,
@@ -2557,17 +2626,66 @@ export class FreeAgencyService {
         return;
       }
 
+      // The tagging team gets to match offers on transition-tagged players
+      const league = this.leagueService.selectedLeague();
+      if (league) {
+        const tags = await this.tagService.getLeagueTags(
+          currentLeague.leagueId,
+          league.currentYear
+        );
+        const transitionTag = tags.find(
+          (tag) =>
+            tag.playerId === playerId &&
+            tag.tagType === 'transition' &&
+            tag.status === 'active' &&
+            tag.teamId !== teamId
+        );
+
+        if (transitionTag) {
+          await this.tagService.createTransitionMatch(
+            transitionTag,
+            bidData,
+            league.rules.contracts.franchiseTag
+          );
+          console.log(
+            `[FA Service] Bid ${bidId} is waiting for ${transitionTag.teamId} to match`
+          );
+          return;
+        }
+
+        // Restricted free agents sign an offer sheet the original team can match
+        const qualifyingOffer = await this.rfaService.getOpenQualifyingOffer(
+          currentLeague.leagueId,
+          league.currentYear,
+          playerId,
+          teamId
+        );
+
+        if (qualifyingOffer) {
+          await this.rfaService.createOfferSheet(
+            qualifyingOffer,
+            bidData,
+            league.rules.contracts.restrictedFreeAgency
+          );
+          console.log(
+            `[FA Service] Bid ${bidId} is an offer sheet awaiting ${qualifyingOffer.teamId}`
+          );
+          return;
+        }
+      }
+
       // Create contract document
       const contractId = `${
         currentLeague.leagueId
       }_contract_${playerId}_${Date.now()}`;
+      const offer = await this.classifyOfferIncentives(playerId, bidData.offer);
       const contract = {
         id: contractId,
         leagueId: currentLeague.leagueId,
         teamId: teamId,
         playerId: playerId,
         originalBidId: bidId,
-        contract: bidData.offer,
+        contract: offer,
         status: 'active',
         signedAt: new Date(),
         createdAt: new Date(),
@@ -2577,6 +2695,7 @@ export class FreeAgencyService {
       // Save contract to contracts collection
       const contractRef = doc(this.firestore, 'contracts', contractId);
       await setDoc(contractRef, contract);
+      await this.capService.recordContractSigning(contractId, contract);
 
       console.log(`[FA Service] Contract created: ${contractId}`);
 
@@ -2588,6 +2707,42 @@ export class FreeAgencyService {
     }
   }
 
+  /**
+   * Reject offers that break the league's contract rails
+   */
+  private assertWithinRails(
+    offer: ContractOffer,
+    rails?: ContractRails,
+    position?: Position
+  ): void {
+    const errors = ContractValidator.validateOffer(offer, rails, position);
+    if (errors.length > 0) {
+      throw new Error(errors.map((error) => error.message).join(', '));
+    }
+  }
+
+  /**
+   * Classify an offer's first-year incentives from the player's prior season
+   * so likely incentives count against the cap
+   */
+  private async classifyOfferIncentives(
+    playerId: string,
+    offer: ContractOffer
+  ): Promise<ContractOffer> {
+    if (!offer.incentives?.length) {
+      return offer;
+    }
+
+    return {
+      ...offer,
+      incentives: await this.capService.classifyIncentives(
+        playerId,
+        offer.incentives,
+        Math.min(...Object.keys(offer.baseSalary).map(Number))
+      ),
+    };
+  }
+
   /**
    * Add a player to the team roster when their bid is accepted
    */
@@ -2675,8 +2830,19 @@ export class FreeAgencyService {
         'players'
       );
 
+      // Cap space is derived from the ledger rather than adjusted in place
+      const league = this.leagueService.selectedLeague();
+      const capSpace = league
+        ? await this.capService.getTeamCapSpace(
+            teamId,
+            league.currentYear,
+            league.rules.cap.salaryCap
+          )
+        : teamMember.capSpace;
+
       await updateDoc(memberRef, {
         roster: newRoster,
+        capSpace,
         updatedAt: new Date(),
       });
 
@@ -2734,7 +2900,7 @@ export class FreeAgencyService {
         teamId: teamId,
         playerId: playerId,
         originalSigningId: signing.id,
-        contract: contract,
+        contract: await this.classifyOfferIncentives(playerId, contract),
         status: 'active',
         signedAt: new Date(),
         createdAt: new Date(),
@@ -2744,6 +2910,7 @@ export class FreeAgencyService {
       // Save contract to contracts collection
       const contractRef = doc(this.firestore, 'contracts', contractId);
       await setDoc(contractRef, contractDoc);
+      await this.capService.recordContractSigning(contractId, contractDoc);
 
       console.log(`[FA Service] Open FA contract created: ${contractId}`);
 
@@ -34,6 +34,9 @@ import {
   ContractRules,
   DraftRules,
   FreeAgencyRules,
+  LeagueAction,
+  LeagueCalendar,
+  LeagueCalendarEvent,
   LeaguePhase,
   EnhancedSportsPlayer,
   TeamLocation,
@@ -43,6 +46,10 @@ import {
   LeagueSetupData,
   PlayerSetupResult,
 } from '../../../../../libs/domain/src/lib/league-setup.service';
+import {
+  LeagueCalendarPlanner,
+  LeaguePhaseMachine,
+} from '../../../../../libs/domain/src/lib/domain';
 import { SportsDataService } from './sports-data.service';
 import { SportsPlayer } from '../../../../../libs/domain/src/lib/league-setup.service';
 
@@ -66,6 +73,7 @@ export interface FirestoreLeague {
   joinCode: string;
   rules: LeagueRules;
   draftOrder?: string[]; // team IDs in draft order
+  calendar?: LeagueCalendar;
   members: string[]; // Array of user IDs who are members
   createdAt: Date;
   updatedAt: Date;
@@ -157,6 +165,28 @@ export class LeagueService {
   public currentUserRole = computed(() => this.currentUserTeam()?.role || null);
   public teamsCount = computed(() => this._leagueTeams().length);
 
+  // Calendar milestones for the selected league's current year
+  public calendarEvents = computed<LeagueCalendarEvent[]>(() => {
+    const league = this.selectedLeague();
+    if (!league?.calendar || league.calendar.year !== league.currentYear) {
+      return [];
+    }
+
+    return league.calendar.events.map((event) => ({
+      ...event,
+      startsAt: this.toDate(event.startsAt),
+      ...(event.firedAt && { firedAt: this.toDate(event.firedAt) }),
+    }));
+  });
+
+  // Calendar times display in the current user's team timezone
+  public currentUserTimezone = computed(() =>
+    LeagueCalendarPlanner.toIanaTimezone(
+      this._leagueTeams().find((team) => team.id === this.currentUserTeamId())
+        ?.location?.timezone
+    )
+  );
+
   // Effect: Automatically load permissions when selected league changes
   constructor() {
     effect(() => {
@@ -195,6 +225,27 @@ export class LeagueService {
     this._selectedLeagueId.set(leagueId);
   }
 
+  /**
+   * Whether the selected league's phase and calendar allow an action
+   */
+  isActionAllowed(action: LeagueAction): boolean {
+    if (
+      !LeaguePhaseMachine.isActionAllowed(this.selectedLeague()?.phase, action)
+    ) {
+      return false;
+    }
+
+    // Trades also close at the trade deadline
+    return !(
+      action === 'trade' &&
+      LeagueCalendarPlanner.hasPassed(
+        this.calendarEvents(),
+        'tradeDeadline',
+        new Date()
+      )
+    );
+  }
+
   /**
    * Generate a unique join code for private leagues
    */
@@ -1325,6 +1376,13 @@ export class LeagueService {
     this.unsubscribeFunctions = [];
   }
 
+  /**
+   * Read a stored date, converting Firestore timestamps
+   */
+  private toDate(value: Timestamp | Date): Date {
+    return value instanceof Timestamp ? value.toDate() : value;
+  }
+
   /**
    * Get teams for a league (now reads from cached signals)
    */
@@ -0,0 +1,263 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  doc,
+  DocumentData,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+} from '@angular/fire/firestore';
+import { Functions, httpsCallable } from '@angular/fire/functions';
+import {
+  Contract,
+  FABid,
+  OfferSheet,
+  QualifyingOffer,
+  RestrictedFreeAgencyRules,
+} from '@fantasy-football-dynasty/types';
+import {
+  ContractHistoryEntry,
+  FranchiseTagCalculator,
+  RestrictedFreeAgencyCalculator,
+} from '@fantasy-football-dynasty/domain';
+
+export interface TenderQualifyingOfferResponse {
+  success: boolean;
+  offer: QualifyingOffer;
+}
+
+export interface RespondToOfferSheetResponse {
+  success: boolean;
+  contractId: string;
+  teamId: string;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class RfaService {
+  private readonly db = inject(Firestore);
+  private readonly functions = inject(Functions);
+
+  /**
+   * Tender a qualifying offer to a restricted free agent
+   */
+  async tenderQualifyingOffer(
+    teamId: string,
+    playerId: string
+  ): Promise<TenderQualifyingOfferResponse> {
+    return this.callFunction('tenderQualifyingOffer', { teamId, playerId });
+  }
+
+  /**
+   * Match or decline an offer sheet on a restricted free agent
+   */
+  async respondToOfferSheet(
+    offerSheetId: string,
+    match: boolean
+  ): Promise<RespondToOfferSheetResponse> {
+    return this.callFunction('respondToOfferSheet', { offerSheetId, match });
+  }
+
+  /**
+   * Load the qualifying offers tendered in a league for a league year
+   */
+  async getQualifyingOffers(
+    leagueId: string,
+    leagueYear: number
+  ): Promise<QualifyingOffer[]> {
+    try {
+      const offersQuery = query(
+        collection(this.db, 'qualifyingOffers'),
+        where('leagueId', '==', leagueId),
+        where('year', '==', leagueYear)
+      );
+      const snapshot = await getDocs(offersQuery);
+
+      return snapshot.docs.map((offerDoc) =>
+        this.toQualifyingOffer(offerDoc.data())
+      );
+    } catch (error) {
+      console.error('Error loading qualifying offers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The outstanding qualifying offer a bidding team can sign an offer sheet
+   * against, if the player is a tendered restricted free agent
+   */
+  async getOpenQualifyingOffer(
+    leagueId: string,
+    leagueYear: number,
+    playerId: string,
+    biddingTeamId: string
+  ): Promise<QualifyingOffer | undefined> {
+    const offers = await this.getQualifyingOffers(leagueId, leagueYear);
+
+    return offers.find(
+      (offer) =>
+        offer.playerId === playerId &&
+        RestrictedFreeAgencyCalculator.canSignOfferSheet(
+          offer,
+          biddingTeamId,
+          new Date()
+        )
+    );
+  }
+
+  /**
+   * Offer sheets on a team's restricted free agents awaiting a match decision
+   */
+  async getPendingOfferSheets(teamId: string): Promise<OfferSheet[]> {
+    try {
+      const sheetsQuery = query(
+        collection(this.db, 'offerSheets'),
+        where('originalTeamId', '==', teamId),
+        where('status', '==', 'pending')
+      );
+      const snapshot = await getDocs(sheetsQuery);
+
+      return snapshot.docs.map((sheetDoc) => sheetDoc.data() as OfferSheet);
+    } catch (error) {
+      console.error('Error loading offer sheets:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Contracts the player has signed as a restricted free agent
+   */
+  async getContractHistory(
+    leagueId: string,
+    playerId: string
+  ): Promise<ContractHistoryEntry[]> {
+    try {
+      const historyDoc = await getDoc(
+        doc(this.db, 'playerContractHistory', `${leagueId}_${playerId}`)
+      );
+
+      return historyDoc.exists()
+        ? historyDoc.data()['contractHistory'] || []
+        : [];
+    } catch (error) {
+      console.error('Error loading contract history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a team can tender a restricted free agent whose contract with
+   * the team has expired
+   */
+  canTender(
+    playerContracts: Contract[],
+    teamId: string,
+    yearsExp: number,
+    leagueYear: number,
+    rules?: RestrictedFreeAgencyRules
+  ): boolean {
+    return (
+      RestrictedFreeAgencyCalculator.isRestrictedFreeAgent(
+        yearsExp,
+        RestrictedFreeAgencyCalculator.getRules(rules)
+      ) &&
+      FranchiseTagCalculator.isEligibleForTag(
+        playerContracts,
+        teamId,
+        leagueYear
+      )
+    );
+  }
+
+  /**
+   * Qualifying offer amount for a player's expired contract
+   */
+  getQualifyingOfferAmount(
+    playerContracts: Contract[],
+    teamId: string,
+    leagueYear: number,
+    rules?: RestrictedFreeAgencyRules
+  ): number {
+    return RestrictedFreeAgencyCalculator.calculateQualifyingOffer(
+      playerContracts,
+      teamId,
+      leagueYear,
+      RestrictedFreeAgencyCalculator.getRules(rules)
+    );
+  }
+
+  /**
+   * Turn an accepted FA bid on a restricted free agent into an offer sheet
+   * the original team can match
+   */
+  async createOfferSheet(
+    qualifyingOffer: QualifyingOffer,
+    bid: FABid,
+    rules?: RestrictedFreeAgencyRules
+  ): Promise<OfferSheet> {
+    try {
+      const createdAt = new Date();
+      const sheet: OfferSheet = {
+        id: `${qualifyingOffer.id}_${bid.id}`,
+        leagueId: qualifyingOffer.leagueId,
+        qualifyingOfferId: qualifyingOffer.id,
+        playerId: qualifyingOffer.playerId,
+        originalTeamId: qualifyingOffer.teamId,
+        biddingTeamId: bid.teamId,
+        bidId: bid.id,
+        offer: bid.offer,
+        status: 'pending',
+        expiresAt: RestrictedFreeAgencyCalculator.getMatchDeadline(
+          createdAt,
+          RestrictedFreeAgencyCalculator.getRules(rules)
+        ),
+        createdAt,
+      };
+
+      await setDoc(doc(this.db, 'offerSheets', sheet.id), sheet);
+      await updateDoc(doc(this.db, 'faBids', bid.id), {
+        status: 'considering',
+        feedback: 'Offer sheet signed, waiting for the original team to match',
+        updatedAt: createdAt,
+      });
+
+      return sheet;
+    } catch (error) {
+      console.error('Error creating offer sheet:', error);
+      throw error;
+    }
+  }
+
+  private toQualifyingOffer(data: DocumentData): QualifyingOffer {
+    const { expiresAt, createdAt } = data as {
+      expiresAt: Timestamp;
+      createdAt: Timestamp;
+    };
+
+    return {
+      ...(data as QualifyingOffer),
+      expiresAt: expiresAt.toDate(),
+      createdAt: createdAt.toDate(),
+    };
+  }
+
+  private async callFunction<T>(
+    functionName: string,
+    data: object
+  ): Promise<T> {
+    try {
+      const callable = httpsCallable<object, T>(this.functions, functionName);
+      const result = await callable(data);
+      return result.data;
+    } catch (error) {
+      console.error(`Error calling function ${functionName}:`, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { Injectable, inject } from '@angular/core';
+import { Firestore, doc, getDoc } from '@angular/fire/firestore';
+import { Functions, httpsCallable } from '@angular/fire/functions';
+import { environment } from '../../environments/environment';
+import {
+  LeagueCalendar,
+  LeagueCalendarEvent,
+  LeaguePhase,
+  SeasonRollover,
+} from '@fantasy-football-dynasty/types';
+
+export interface SeasonRolloverResponse {
+  rollover: SeasonRollover;
+}
+
+export interface UpdateLeagueCalendarResponse {
+  success: boolean;
+  calendar: LeagueCalendar;
+}
+
+export interface AdvanceLeaguePhaseResponse {
+  success: boolean;
+  from: LeaguePhase;
+  to: LeaguePhase;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SeasonService {
+  private readonly db = inject(Firestore);
+  private readonly functions = inject(Functions);
+
+  /**
+   * Move the league to its next phase (commissioner only)
+   */
+  async advanceLeaguePhase(
+    leagueId: string
+  ): Promise<AdvanceLeaguePhaseResponse> {
+    return this.callFunction('advanceLeaguePhase', { leagueId });
+  }
+
+  /**
+   * Replace the league calendar for the current year (commissioner only)
+   */
+  async updateLeagueCalendar(
+    leagueId: string,
+    events: Pick<LeagueCalendarEvent, 'type' | 'startsAt' | 'weekNumber'>[]
+  ): Promise<UpdateLeagueCalendarResponse> {
+    return this.callFunction('updateLeagueCalendar', {
+      leagueId,
+      events: events.map((event) => ({
+        ...event,
+        startsAt: event.startsAt.toISOString(),
+      })),
+    });
+  }
+
+  /**
+   * URL of the league's iCalendar feed for calendar app subscriptions
+   */
+  getCalendarFeedUrl(leagueId: string): string {
+    const { projectId } = environment.firebase;
+    const baseUrl = environment.useEmulators
+      ? `http://${environment.emulators.functions}/${projectId}/us-central1`
+      : `https://us-central1-${projectId}.cloudfunctions.net`;
+    return `${baseUrl}/leagueCalendarFeed?leagueId=${encodeURIComponent(
+      leagueId
+    )}`;
+  }
+
+  /**
+   * Stage the rollover into the next league year for review (commissioner only)
+   */
+  async previewSeasonRollover(
+    leagueId: string
+  ): Promise<SeasonRolloverResponse> {
+    return this.callFunction('previewSeasonRollover', { leagueId });
+  }
+
+  /**
+   * Apply the previewed rollover and advance the league year (commissioner only)
+   */
+  async confirmSeasonRollover(
+    leagueId: string
+  ): Promise<SeasonRolloverResponse> {
+    return this.callFunction('confirmSeasonRollover', { leagueId });
+  }
+
+  /**
+   * Load the rollover staged or completed out of a league year
+   */
+  async getSeasonRollover(
+    leagueId: string,
+    fromYear: number
+  ): Promise<SeasonRollover | null> {
+    try {
+      const rolloverDoc = await getDoc(
+        doc(this.db, 'seasonRollovers', `${leagueId}_${fromYear}`)
+      );
+      return rolloverDoc.exists()
+        ? (rolloverDoc.data() as SeasonRollover)
+        : null;
+    } catch (error) {
+      console.error('Error loading season rollover:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Call a Firebase function
+   */
+  private async callFunction<T>(
+    functionName: string,
+    data: object
+  ): Promise<T> {
+    try {
+      const callable = httpsCallable<object, T>(this.functions, functionName);
+      const result = await callable(data);
+      return result.data;
+    } catch (error) {
+      console.error(`Error calling function ${functionName}:`, error);
+      throw error;
+    }
+  }
+}
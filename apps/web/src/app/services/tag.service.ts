@@ -0,0 +1,195 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  doc,
+  getDocs,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+} from '@angular/fire/firestore';
+import { Functions, httpsCallable } from '@angular/fire/functions';
+import {
+  Contract,
+  FABid,
+  FranchiseTag,
+  FranchiseTagRules,
+  TransitionTagMatch,
+} from '@fantasy-football-dynasty/types';
+import {
+  FranchiseTagCalculator,
+  TagValues,
+} from '@fantasy-football-dynasty/domain';
+
+export interface FranchiseTagValuesResponse {
+  leagueYear: number;
+  rules: FranchiseTagRules;
+  windowOpen: boolean;
+  values: TagValues[];
+}
+
+export interface ApplyFranchiseTagResponse {
+  success: boolean;
+  tag: FranchiseTag;
+}
+
+export interface RespondToTransitionTagResponse {
+  success: boolean;
+  contractId: string;
+  teamId: string;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class TagService {
+  private readonly db = inject(Firestore);
+  private readonly functions = inject(Functions);
+
+  /**
+   * Franchise and transition tag values by position for the league year
+   */
+  async getTagValues(leagueId: string): Promise<FranchiseTagValuesResponse> {
+    return this.callFunction('getFranchiseTagValues', { leagueId });
+  }
+
+  /**
+   * Tag a player whose contract has expired
+   */
+  async applyTag(
+    teamId: string,
+    playerId: string,
+    tagType: FranchiseTag['tagType']
+  ): Promise<ApplyFranchiseTagResponse> {
+    return this.callFunction('applyFranchiseTag', {
+      teamId,
+      playerId,
+      tagType,
+    });
+  }
+
+  /**
+   * Match or decline an FA offer on a transition-tagged player
+   */
+  async respondToTransitionTag(
+    matchId: string,
+    match: boolean
+  ): Promise<RespondToTransitionTagResponse> {
+    return this.callFunction('respondToTransitionTag', { matchId, match });
+  }
+
+  /**
+   * Load the tags applied in a league for a league year
+   */
+  async getLeagueTags(
+    leagueId: string,
+    leagueYear: number
+  ): Promise<FranchiseTag[]> {
+    try {
+      const tagsQuery = query(
+        collection(this.db, 'franchiseTags'),
+        where('leagueId', '==', leagueId),
+        where('year', '==', leagueYear)
+      );
+      const snapshot = await getDocs(tagsQuery);
+
+      return snapshot.docs.map((tagDoc) => tagDoc.data() as FranchiseTag);
+    } catch (error) {
+      console.error('Error loading franchise tags:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Offers on a team's transition-tagged players awaiting a match decision
+   */
+  async getPendingMatches(teamId: string): Promise<TransitionTagMatch[]> {
+    try {
+      const matchesQuery = query(
+        collection(this.db, 'transitionTagMatches'),
+        where('originalTeamId', '==', teamId),
+        where('status', '==', 'pending')
+      );
+      const snapshot = await getDocs(matchesQuery);
+
+      return snapshot.docs.map(
+        (matchDoc) => matchDoc.data() as TransitionTagMatch
+      );
+    } catch (error) {
+      console.error('Error loading transition tag offers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a team can tag a player based on their contracts with the team
+   */
+  isTagEligible(
+    playerContracts: Contract[],
+    teamId: string,
+    leagueYear: number
+  ): boolean {
+    return FranchiseTagCalculator.isEligibleForTag(
+      playerContracts,
+      teamId,
+      leagueYear
+    );
+  }
+
+  /**
+   * Hold an accepted FA bid on a transition-tagged player until the tagging
+   * team decides whether to match it
+   */
+  async createTransitionMatch(
+    tag: FranchiseTag,
+    bid: FABid,
+    rules?: FranchiseTagRules
+  ): Promise<TransitionTagMatch> {
+    try {
+      const createdAt = new Date();
+      const match: TransitionTagMatch = {
+        id: `${tag.id}_${bid.id}`,
+        leagueId: tag.leagueId,
+        tagId: tag.id,
+        playerId: tag.playerId,
+        originalTeamId: tag.teamId,
+        biddingTeamId: bid.teamId,
+        bidId: bid.id,
+        offer: bid.offer,
+        status: 'pending',
+        expiresAt: FranchiseTagCalculator.getMatchDeadline(
+          createdAt,
+          FranchiseTagCalculator.getRules(rules)
+        ),
+        createdAt,
+      };
+
+      await setDoc(doc(this.db, 'transitionTagMatches', match.id), match);
+      await updateDoc(doc(this.db, 'faBids', bid.id), {
+        status: 'considering',
+        feedback: 'Waiting for the tagging team to match this offer',
+        updatedAt: createdAt,
+      });
+
+      return match;
+    } catch (error) {
+      console.error('Error creating transition tag match:', error);
+      throw error;
+    }
+  }
+
+  private async callFunction<T>(
+    functionName: string,
+    data: object
+  ): Promise<T> {
+    try {
+      const callable = httpsCallable<object, T>(this.functions, functionName);
+      const result = await callable(data);
+      return result.data;
+    } catch (error) {
+      console.error(`Error calling function ${functionName}:`, error);
+      throw error;
+    }
+  }
+}
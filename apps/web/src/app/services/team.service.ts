@@ -14,6 +14,7 @@ import {
   QueryDocumentSnapshot,
   Firestore,
 } from '@angular/fire/firestore';
+import { Functions, httpsCallable } from '@angular/fire/functions';
 import { AuthService } from './auth.service';
 import {
   Team,
@@ -47,6 +48,7 @@ export interface RosterStats {
 })
 export class TeamService {
   private readonly db = inject(Firestore);
+  private readonly functions = inject(Functions);
   private readonly authService = inject(AuthService);
 
   private _userTeams = signal<Team[]>([]);
@@ -162,7 +164,7 @@ export class TeamService {
           name: data.name,
           ownerUserId: data.ownerUserId,
           capSpace: data.capSpace,
-          roster: data.roster,
+          roster: this.toRoster(data.roster),
           location: data.location || {
             city: 'New York',
             state: 'NY',
@@ -228,7 +230,7 @@ export class TeamService {
           name: data.name,
           ownerUserId: data.ownerUserId,
           capSpace: data.capSpace,
-          roster: data.roster,
+          roster: this.toRoster(data.roster),
           location: data.location || {
             city: 'New York',
             state: 'NY',
@@ -254,9 +256,13 @@ export class TeamService {
   }
 
   /**
-   * Update team information
+   * Update team information. Cap space is derived from the cap ledger and
+   * cannot be set directly.
    */
-  async updateTeam(teamId: string, updates: Partial<Team>): Promise<void> {
+  async updateTeam(
+    teamId: string,
+    updates: Partial<Omit<Team, 'capSpace'>>
+  ): Promise<void> {
     try {
       const teamRef = doc(this.db, 'teams', teamId);
       await updateDoc(teamRef, {
@@ -366,7 +372,8 @@ export class TeamService {
   }
 
   /**
-   * Update player roster status
+   * Update player roster status. The server refuses to put a traded player
+   * in the lineup before he reports.
    */
   async updatePlayerStatus(
     teamId: string,
@@ -374,15 +381,11 @@ export class TeamService {
     status: 'active' | 'bench' | 'ir' | 'taxi'
   ): Promise<void> {
     try {
-      const team = await this.getTeam(teamId);
-      if (!team) {
-        throw new Error('Team not found');
-      }
-
-      const updatedRoster = team.roster.map((slot) =>
-        slot.playerId === playerId ? { ...slot, status } : slot
-      );
-      await this.updateTeam(teamId, { roster: updatedRoster });
+      const updateRosterStatus = httpsCallable<
+        { teamId: string; playerId: string; status: string },
+        { success: boolean }
+      >(this.functions, 'updateRosterStatus');
+      await updateRosterStatus({ teamId, playerId, status });
     } catch (error) {
       console.error('Error updating player status:', error);
       throw error;
@@ -492,4 +495,16 @@ export class TeamService {
   async refresh(): Promise<void> {
     await this.loadUserTeams();
   }
+
+  private toRoster(roster: RosterSlot[]): RosterSlot[] {
+    return (roster || []).map((slot) =>
+      slot.reportsOn
+        ? { ...slot, reportsOn: this.toDate(slot.reportsOn) }
+        : slot
+    );
+  }
+
+  private toDate(value: Timestamp | Date): Date {
+    return value instanceof Timestamp ? value.toDate() : value;
+  }
 }
@@ -0,0 +1,242 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  DocumentData,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  Timestamp,
+  where,
+} from '@angular/fire/firestore';
+import { Functions, httpsCallable } from '@angular/fire/functions';
+import {
+  CapImpact,
+  LeagueActivity,
+  Pick,
+  Trade,
+  TradeAsset,
+  TradeConsent,
+} from '@fantasy-football-dynasty/types';
+import { TradeCapPosition } from '@fantasy-football-dynasty/domain';
+
+export interface TradeResponse {
+  success: boolean;
+  trade: Trade;
+}
+
+export interface ProposeTradeRequest {
+  leagueId: string;
+  proposerTeamId: string;
+  teamIds: string[]; // every participating team
+  assets: TradeAsset[];
+  message?: string;
+}
+
+export interface TradePreviewResponse {
+  capImpacts: CapImpact[];
+  capPositions: TradeCapPosition[];
+  noTradeClausePlayerIds: string[];
+  consents: TradeConsent[]; // traded players' responses to their destinations
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class TradeService {
+  private readonly db = inject(Firestore);
+  private readonly functions = inject(Functions);
+
+  /**
+   * Preview each team's cap position before and after a trade, and how each
+   * traded player responds to his destination
+   */
+  async previewTrade(
+    request: Omit<ProposeTradeRequest, 'message'>
+  ): Promise<TradePreviewResponse> {
+    return this.callFunction('previewTrade', request);
+  }
+
+  /**
+   * Propose a trade to one or more other teams
+   */
+  async proposeTrade(request: ProposeTradeRequest): Promise<TradeResponse> {
+    return this.callFunction('proposeTrade', request);
+  }
+
+  /**
+   * Counter a trade proposed to our team. The counter goes to the same teams
+   * with our team as its proposer.
+   */
+  async counterTrade(
+    tradeId: string,
+    teamId: string,
+    assets: TradeAsset[],
+    message?: string
+  ): Promise<TradeResponse> {
+    return this.callFunction('counterTrade', {
+      tradeId,
+      teamId,
+      assets,
+      message,
+    });
+  }
+
+  /**
+   * Accept a trade for our team. Assets move once every team has accepted.
+   */
+  async acceptTrade(tradeId: string, teamId: string): Promise<TradeResponse> {
+    return this.callFunction('acceptTrade', { tradeId, teamId });
+  }
+
+  /**
+   * Reject a trade proposed to our team
+   */
+  async rejectTrade(
+    tradeId: string,
+    teamId: string
+  ): Promise<{ success: boolean }> {
+    return this.callFunction('rejectTrade', { tradeId, teamId });
+  }
+
+  /**
+   * Withdraw a trade our team proposed
+   */
+  async cancelTrade(tradeId: string): Promise<{ success: boolean }> {
+    return this.callFunction('cancelTrade', { tradeId });
+  }
+
+  /**
+   * Approve or veto a trade awaiting commissioner review
+   */
+  async reviewTrade(tradeId: string, approve: boolean): Promise<TradeResponse> {
+    return this.callFunction('reviewTrade', { tradeId, approve });
+  }
+
+  /**
+   * Veto a trade under league vote on behalf of our team
+   */
+  async vetoTrade(tradeId: string, teamId: string): Promise<TradeResponse> {
+    return this.callFunction('vetoTrade', { tradeId, teamId });
+  }
+
+  /**
+   * Load every trade in a league, newest first
+   */
+  async getLeagueTrades(leagueId: string): Promise<Trade[]> {
+    try {
+      const snapshot = await getDocs(
+        query(collection(this.db, 'trades'), where('leagueId', '==', leagueId))
+      );
+
+      return snapshot.docs
+        .map((tradeDoc) => this.toTrade(tradeDoc.data()))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      console.error('Error loading trades:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Load the league's most recent activity, newest first
+   */
+  async getLeagueActivity(
+    leagueId: string,
+    count = 20
+  ): Promise<LeagueActivity[]> {
+    try {
+      const snapshot = await getDocs(
+        query(
+          collection(this.db, 'leagueActivity'),
+          where('leagueId', '==', leagueId),
+          orderBy('createdAt', 'desc'),
+          limit(count)
+        )
+      );
+
+      return snapshot.docs.map((activityDoc) => {
+        const data = activityDoc.data();
+        return {
+          ...data,
+          createdAt: data['createdAt']?.toDate
+            ? data['createdAt'].toDate()
+            : new Date(data['createdAt']),
+        } as LeagueActivity;
+      });
+    } catch (error) {
+      console.error('Error loading league activity:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Load the league's undrafted picks: the current draft's picks and picks
+   * in later drafts
+   */
+  async getTradablePicks(leagueId: string): Promise<Pick[]> {
+    try {
+      const [picksSnapshot, futurePicksSnapshot] = await Promise.all([
+        getDocs(
+          query(collection(this.db, 'picks'), where('leagueId', '==', leagueId))
+        ),
+        getDocs(
+          query(
+            collection(this.db, 'futurePicks'),
+            where('leagueId', '==', leagueId)
+          )
+        ),
+      ]);
+
+      return [...picksSnapshot.docs, ...futurePicksSnapshot.docs]
+        .map((pickDoc) => pickDoc.data() as Pick)
+        .filter((pick) => !pick.playerId)
+        .sort((a, b) => a.year - b.year || a.round - b.round);
+    } catch (error) {
+      console.error('Error loading tradable picks:', error);
+      return [];
+    }
+  }
+
+  private toTrade(data: DocumentData): Trade {
+    const trade = data as Trade;
+
+    return {
+      ...trade,
+      ...(trade.review && {
+        review: {
+          ...trade.review,
+          startedAt: this.toDate(trade.review.startedAt),
+          deadline: trade.review.deadline && this.toDate(trade.review.deadline),
+          decidedAt:
+            trade.review.decidedAt && this.toDate(trade.review.decidedAt),
+        },
+      }),
+      respondedAt: trade.respondedAt && this.toDate(trade.respondedAt),
+      createdAt: this.toDate(trade.createdAt),
+      updatedAt: this.toDate(trade.updatedAt),
+    };
+  }
+
+  private toDate(value: Timestamp | Date): Date {
+    return value instanceof Timestamp ? value.toDate() : value;
+  }
+
+  /**
+   * Call a Firebase function
+   */
+  private async callFunction<T>(
+    functionName: string,
+    data: object
+  ): Promise<T> {
+    try {
+      const callable = httpsCallable<object, T>(this.functions, functionName);
+      const result = await callable(data);
+      return result.data;
+    } catch (error) {
+      console.error(`Error calling function ${functionName}:`, error);
+      throw error;
+    }
+  }
+}
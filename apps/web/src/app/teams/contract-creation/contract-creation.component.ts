@@ -11,6 +11,7 @@ import { TeamService } from '../../services/team.service';
 import {
   ContractMinimumCalculator,
   CapMath,
+  ContractValidationError,
   ContractValidator,
   PlayerRatingCalculator,
   NegotiationEngine,
@@ -21,6 +22,7 @@ import { ThemeService } from '../../services/theme.service';
 import { NegotiationService } from '../../services/negotiation.service';
 import { NumberFormatService } from '../../services/number-format.service';
 import { SportsDataService } from '../../services/sports-data.service';
+import { LeagueService } from '../../services/league.service';
 
 export interface ContractFormData {
   years: number;
@@ -33,6 +35,7 @@ export interface ContractFormData {
 export interface ContractValidation {
   isValid: boolean;
   errors: string[];
+  fieldErrors: ContractValidationError[]; // contract and rails errors by form field
   warnings: string[];
   minimumRequired: number;
   capImpact: {
@@ -59,6 +62,7 @@ export class ContractCreationComponent {
   @Input() existingContracts: Contract[] = []; // For cap calculations
 
   private readonly sportsDataService = inject(SportsDataService);
+  private readonly leagueService = inject(LeagueService);
   private readonly teamService = inject(TeamService);
   private readonly themeService = inject(ThemeService);
   private readonly negotiationService = inject(NegotiationService);
@@ -229,14 +233,16 @@ export class ContractCreationComponent {
       noTradeClause: this.contractData.noTradeClause,
     };
 
-    // Basic contract validation
-    const contractErrors = ContractValidator.validateContract(
-      contract as Contract
+    // Basic contract validation, plus the league's contract rails
+    const player = this.getPlayerData();
+    const fieldErrors = ContractValidator.validateContract(
+      contract as Contract,
+      this.leagueService.selectedLeague()?.rules?.contracts?.rails,
+      player?.Position as Position | undefined
     );
-    errors.push(...contractErrors);
+    errors.push(...fieldErrors.map((error) => error.message));
 
     // Minimum contract validation
-    const player = this.getPlayerData();
     if (player) {
       // Determine if player is a rookie (0 years experience)
       const isRookie = player.Experience === 0;
@@ -290,6 +296,7 @@ export class ContractCreationComponent {
     return {
       isValid: errors.length === 0,
       errors,
+      fieldErrors,
       warnings,
       minimumRequired: player
         ? ContractMinimumCalculator.validateContractMinimum(
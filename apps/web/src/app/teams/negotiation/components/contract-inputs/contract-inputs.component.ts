@@ -17,6 +17,7 @@ import { SelectModule } from 'primeng/select';
 import { InputTextModule } from 'primeng/inputtext';
 import { LeagueService } from '../../../../services/league.service';
 import { Guarantee } from '@fantasy-football-dynasty/types';
+import { ContractValidationError } from '@fantasy-football-dynasty/domain';
 
 @Component({
   selector: 'app-contract-inputs',
@@ -40,6 +41,7 @@ export class ContractInputsComponent implements OnDestroy, OnInit {
   signingBonus = input.required<number>();
   guarantees = input<Guarantee[]>([]);
   mode = input<'total' | 'yearly'>('yearly');
+  errors = input<ContractValidationError[]>([]);
 
   // Outputs for parent component updates
   @Output() yearsChange = new EventEmitter<number>();
@@ -57,7 +59,11 @@ export class ContractInputsComponent implements OnDestroy, OnInit {
   yearsOptions = computed(() => {
     try {
       const league = this.leagueService.selectedLeague();
-      const maxYears = league?.rules?.contracts?.maxYears || 7;
+      const contractRules = league?.rules?.contracts;
+      const maxYears = Math.min(
+        contractRules?.maxYears || 7,
+        contractRules?.rails?.maxYears || 7
+      );
 
       const options = [];
       for (let i = 1; i <= maxYears; i++) {
@@ -79,6 +85,15 @@ export class ContractInputsComponent implements OnDestroy, OnInit {
     }
   });
 
+  /**
+   * Validation messages to show under a form field
+   */
+  getFieldErrors(field: ContractValidationError['field']): string[] {
+    return this.errors()
+      .filter((error) => error.field === field)
+      .map((error) => error.message);
+  }
+
   // Public getters
   public get currentYears() {
     return this._years();
@@ -18,6 +18,7 @@ import { SportsDataService } from '../../services/sports-data.service';
 import {
   ContractMinimumCalculator,
   CapMath,
+  ContractValidationError,
   ContractValidator,
   PlayerRatingCalculator,
   NegotiationEngine,
@@ -44,6 +45,7 @@ import {
 export interface ContractValidation {
   isValid: boolean;
   errors: string[];
+  fieldErrors: ContractValidationError[]; // contract and rails errors by form field
   warnings: string[];
   minimumRequired: number;
   capImpact: {
@@ -279,14 +281,16 @@ export class NegotiationComponent implements OnInit {
       noTradeClause: false,
     };
 
-    // Basic contract validation
-    const contractErrors = ContractValidator.validateContract(
-      contract as Contract
+    // Basic contract validation, plus the league's contract rails
+    const player = this.getPlayerData();
+    const fieldErrors = ContractValidator.validateContract(
+      contract as Contract,
+      this.leagueService.selectedLeague()?.rules?.contracts?.rails,
+      player?.Position as Position | undefined
     );
-    errors.push(...contractErrors);
+    errors.push(...fieldErrors.map((error) => error.message));
 
     // Minimum contract validation
-    const player = this.getPlayerData();
     if (player) {
       const isRookie = player.Experience === 0;
       const draftRound = isRookie ? 3 : undefined;
@@ -336,6 +340,7 @@ export class NegotiationComponent implements OnInit {
     return {
       isValid: errors.length === 0,
       errors,
+      fieldErrors,
       warnings,
       minimumRequired: player
         ? ContractMinimumCalculator.validateContractMinimum(
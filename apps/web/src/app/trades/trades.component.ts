@@ -1,13 +1,685 @@
-import { Component } from '@angular/core';
+import {
+  Component,
+  computed,
+  effect,
+  inject,
+  OnInit,
+  signal,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ButtonModule } from 'primeng/button';
+import { CardModule } from 'primeng/card';
+import { InputNumberModule } from 'primeng/inputnumber';
+import { InputTextModule } from 'primeng/inputtext';
+import { MessageModule } from 'primeng/message';
+import { MultiSelectModule } from 'primeng/multiselect';
+import { SelectModule } from 'primeng/select';
+import { TagModule } from 'primeng/tag';
+import { ToastModule } from 'primeng/toast';
+import { MessageService } from 'primeng/api';
+import {
+  LeagueActivity,
+  Pick,
+  Trade,
+  TradeAsset,
+  TradeConsent,
+} from '@fantasy-football-dynasty/types';
+import { LeagueService } from '../services/league.service';
+import { LeagueMembershipService } from '../services/league-membership.service';
+import { SportsDataService } from '../services/sports-data.service';
+import { NumberFormatService } from '../services/number-format.service';
+import { TradePreviewResponse, TradeService } from '../services/trade.service';
 
 @Component({
   selector: 'app-trades',
   standalone: true,
-  imports: [],
+  imports: [
+    CommonModule,
+    FormsModule,
+    ButtonModule,
+    CardModule,
+    InputNumberModule,
+    InputTextModule,
+    MessageModule,
+    MultiSelectModule,
+    SelectModule,
+    TagModule,
+    ToastModule,
+  ],
+  providers: [MessageService],
   templateUrl: './trades.component.html',
   styleUrls: ['./trades.component.scss'],
 })
-export class TradesComponent {
-  // TODO: Implement trade functionality
-}
+export class TradesComponent implements OnInit {
+  private readonly leagueService = inject(LeagueService);
+  private readonly leagueMembershipService = inject(LeagueMembershipService);
+  private readonly sportsDataService = inject(SportsDataService);
+  private readonly tradeService = inject(TradeService);
+  private readonly messageService = inject(MessageService);
+  private readonly numberFormatService = inject(NumberFormatService);
+
+  readonly leagueId = this.leagueService.selectedLeagueId;
+  readonly myTeamId = this.leagueService.currentUserTeamId;
+  readonly teams = this.leagueService.leagueTeams;
+  readonly canApproveTrades = this.leagueMembershipService.canApproveTrades;
+
+  trades = signal<Trade[]>([]);
+  activity = signal<LeagueActivity[]>([]);
+  picks = signal<Pick[]>([]);
+  isLoading = signal(false);
+  isSubmitting = signal(false);
+
+  // Trade builder state
+  partnerTeamIds = signal<string[]>([]);
+  selectedAssets = signal<TradeAsset[]>([]);
+  message = signal('');
+  counteringTrade = signal<Trade | null>(null);
+  capPreview = signal<TradePreviewResponse | null>(null);
+  playerConsents = signal<TradeConsent[]>([]);
+  isPreviewing = signal(false);
+  previewError = signal<string | null>(null);
+
+  readonly canTrade = computed(() =>
+    this.leagueService.isActionAllowed('trade')
+  );
+  readonly partnerOptions = computed(() =>
+    this.teams()
+      .filter((team) => team.id !== this.myTeamId())
+      .map((team) => ({ label: team.name, value: team.id }))
+  );
+  readonly participantIds = computed(() => {
+    const myTeamId = this.myTeamId();
+    return myTeamId ? [myTeamId, ...this.partnerTeamIds()] : [];
+  });
+  readonly isMultiTeam = computed(() => this.participantIds().length > 2);
+  readonly leagueYear = computed(
+    () =>
+      this.leagueService.selectedLeague()?.currentYear ??
+      new Date().getFullYear()
+  );
+  // Cap space can be sent for this league year and the next three
+  readonly capSpaceYears = computed(() => {
+    const year = this.leagueYear();
+    return [year, year + 1, year + 2, year + 3];
+  });
+  // Players whose response is worth calling out before the trade is sent
+  readonly notableConsents = computed(() =>
+    this.playerConsents().filter(
+      (consent) =>
+        consent.decision !== 'consent' || consent.reportingDelayDays > 0
+    )
+  );
+  readonly isBlockedByPlayer = computed(() =>
+    this.playerConsents().some((consent) => consent.decision === 'decline')
+  );
+  readonly builderTeams = computed(() =>
+    this.participantIds().map((teamId) => ({
+      teamId,
+      ...this.getTeamAssets(teamId),
+    }))
+  );
+  readonly incomingTrades = computed(() =>
+    this.trades().filter(
+      (trade) =>
+        trade.status === 'proposed' &&
+        trade.teamIds.includes(this.myTeamId() || '') &&
+        !trade.acceptedTeamIds.includes(this.myTeamId() || '')
+    )
+  );
+  readonly pendingTrades = computed(() =>
+    this.trades().filter(
+      (trade) =>
+        trade.status === 'proposed' &&
+        trade.acceptedTeamIds.includes(this.myTeamId() || '')
+    )
+  );
+  readonly reviewTrades = computed(() =>
+    this.trades().filter((trade) => trade.status === 'review')
+  );
+  readonly tradeHistory = computed(() =>
+    this.trades().filter(
+      (trade) => trade.status !== 'proposed' && trade.status !== 'review'
+    )
+  );
+  readonly previewTeams = computed(() => {
+    const positions = this.capPreview()?.capPositions || [];
+    return this.participantIds().map((teamId) => ({
+      teamId,
+      positions: positions.filter((position) => position.teamId === teamId),
+    }));
+  });
+
+  // Invalidated whenever the builder changes so a trade can't be sent
+  // without its cap preview
+  private previewRequestId = 0;
+
+  constructor() {
+    effect(() => {
+      this.loadCapPreview(
+        this.leagueId(),
+        this.participantIds(),
+        this.selectedAssets()
+      );
+    });
+  }
+
+  ngOnInit(): void {
+    this.loadTrades();
+  }
+
+  async loadTrades(): Promise<void> {
+    const leagueId = this.leagueId();
+    if (!leagueId) return;
+
+    try {
+      this.isLoading.set(true);
+      const [trades, picks, activity] = await Promise.all([
+        this.tradeService.getLeagueTrades(leagueId),
+        this.tradeService.getTradablePicks(leagueId),
+        this.tradeService.getLeagueActivity(leagueId),
+      ]);
+      this.trades.set(trades);
+      this.picks.set(picks);
+      this.activity.set(activity);
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  /**
+   * Change the other teams in the trade, dropping assets that no longer move
+   * between participants
+   */
+  selectPartners(teamIds: string[]): void {
+    this.partnerTeamIds.set(teamIds || []);
+    const participantIds = this.participantIds();
+    this.selectedAssets.update((assets) =>
+      assets
+        .filter((asset) => participantIds.includes(asset.fromTeamId))
+        .map((asset) =>
+          participantIds.includes(asset.toTeamId)
+            ? asset
+            : { ...asset, toTeamId: this.getDefaultDestination(asset) }
+        )
+    );
+  }
+
+  toggleAsset(asset: TradeAsset): void {
+    this.selectedAssets.update((current) =>
+      this.isSelected(asset)
+        ? current.filter(
+            (selected) =>
+              (selected.type !== asset.type || selected.id !== asset.id) &&
+              selected.playerId !== asset.id
+          )
+        : [
+            ...current,
+            { ...asset, toTeamId: this.getDefaultDestination(asset) },
+          ]
+    );
+  }
+
+  isSelected(asset: TradeAsset): boolean {
+    return !!this.getSelected(asset);
+  }
+
+  getSelected(asset: TradeAsset): TradeAsset | undefined {
+    return this.selectedAssets().find(
+      (selected) => selected.type === asset.type && selected.id === asset.id
+    );
+  }
+
+  /**
+   * Route a selected asset to a different team in a three-plus team trade.
+   * Salary retained on a player goes wherever the player goes.
+   */
+  setDestination(asset: TradeAsset, toTeamId: string): void {
+    this.selectedAssets.update((current) =>
+      current.map((selected) =>
+        (selected.type === asset.type && selected.id === asset.id) ||
+        (asset.type === 'player' && selected.playerId === asset.id)
+          ? { ...selected, toTeamId }
+          : selected
+      )
+    );
+  }
+
+  getCapSpaceAsset(teamId: string, year: number): TradeAsset | undefined {
+    return this.selectedAssets().find(
+      (asset) =>
+        asset.type === 'cap' &&
+        !asset.playerId &&
+        asset.fromTeamId === teamId &&
+        asset.year === year
+    );
+  }
+
+  /**
+   * Send cap space from a team for one league year; clearing the amount
+   * removes it from the trade
+   */
+  setCapSpace(teamId: string, year: number, amount: number | null): void {
+    const existing = this.getCapSpaceAsset(teamId, year);
+    const others = this.selectedAssets().filter((asset) => asset !== existing);
+    if (!amount || amount <= 0) {
+      this.selectedAssets.set(others);
+      return;
+    }
+
+    const asset: TradeAsset = {
+      type: 'cap',
+      id: `space_${teamId}_${year}`,
+      fromTeamId: teamId,
+      toTeamId: '',
+      year,
+      value: amount,
+    };
+    this.selectedAssets.set([
+      ...others,
+      {
+        ...asset,
+        toTeamId: existing?.toTeamId || this.getDefaultDestination(asset),
+      },
+    ]);
+  }
+
+  /**
+   * Percentage of a traded player's salary the sending team keeps
+   */
+  getRetainedPercent(player: TradeAsset): number | null {
+    const retention = this.selectedAssets().find(
+      (asset) => asset.type === 'cap' && asset.playerId === player.id
+    );
+    return retention ? Math.round((retention.value || 0) * 100) : null;
+  }
+
+  setRetention(player: TradeAsset, percent: number | null): void {
+    const selected = this.getSelected(player);
+    const others = this.selectedAssets().filter(
+      (asset) => asset.type !== 'cap' || asset.playerId !== player.id
+    );
+    if (!selected || !percent || percent <= 0) {
+      this.selectedAssets.set(others);
+      return;
+    }
+
+    this.selectedAssets.set([
+      ...others,
+      {
+        type: 'cap',
+        id: `retain_${player.id}`,
+        fromTeamId: selected.fromTeamId,
+        toTeamId: selected.toTeamId,
+        playerId: player.id,
+        value: percent / 100,
+      },
+    ]);
+  }
+
+  getDestinationOptions(
+    fromTeamId: string
+  ): { label: string; value: string }[] {
+    return this.participantIds()
+      .filter((teamId) => teamId !== fromTeamId)
+      .map((teamId) => ({ label: this.getTeamName(teamId), value: teamId }));
+  }
+
+  /**
+   * Load a trade proposed to us into the builder as a counter offer
+   */
+  startCounter(trade: Trade): void {
+    this.counteringTrade.set(trade);
+    this.partnerTeamIds.set(
+      trade.teamIds.filter((teamId) => teamId !== this.myTeamId())
+    );
+    this.selectedAssets.set(trade.payload.assets);
+    this.message.set('');
+  }
+
+  /**
+   * Load every participating team's cap position before and after the trade
+   * being built, and how each traded player responds to his destination
+   */
+  async loadCapPreview(
+    leagueId: string | null,
+    teamIds: string[],
+    assets: TradeAsset[]
+  ): Promise<void> {
+    const requestId = ++this.previewRequestId;
+    this.capPreview.set(null);
+    this.playerConsents.set([]);
+    this.previewError.set(null);
+    if (!leagueId || teamIds.length < 2 || assets.length === 0) {
+      this.isPreviewing.set(false);
+      return;
+    }
 
+    try {
+      this.isPreviewing.set(true);
+      const preview = await this.tradeService.previewTrade({
+        leagueId,
+        proposerTeamId: teamIds[0],
+        teamIds,
+        assets,
+      });
+      if (requestId === this.previewRequestId) {
+        this.capPreview.set(preview);
+        this.playerConsents.set(preview.consents || []);
+      }
+    } catch (error) {
+      if (requestId === this.previewRequestId) {
+        this.previewError.set(
+          error instanceof Error
+            ? error.message
+            : 'Failed to load the cap preview.'
+        );
+      }
+    } finally {
+      if (requestId === this.previewRequestId) {
+        this.isPreviewing.set(false);
+      }
+    }
+  }
+
+  resetBuilder(): void {
+    this.counteringTrade.set(null);
+    this.partnerTeamIds.set([]);
+    this.selectedAssets.set([]);
+    this.message.set('');
+  }
+
+  async submitTrade(): Promise<void> {
+    const leagueId = this.leagueId();
+    const myTeamId = this.myTeamId();
+    const teamIds = this.participantIds();
+    if (!leagueId || !myTeamId || teamIds.length < 2) return;
+
+    try {
+      this.isSubmitting.set(true);
+      const countering = this.counteringTrade();
+      if (countering) {
+        await this.tradeService.counterTrade(
+          countering.id,
+          myTeamId,
+          this.selectedAssets(),
+          this.message() || undefined
+        );
+      } else {
+        await this.tradeService.proposeTrade({
+          leagueId,
+          proposerTeamId: myTeamId,
+          teamIds,
+          assets: this.selectedAssets(),
+          message: this.message() || undefined,
+        });
+      }
+
+      this.messageService.add({
+        severity: 'success',
+        summary: countering ? 'Counter Sent' : 'Trade Proposed',
+        detail: `Your offer was sent to ${this.partnerTeamIds()
+          .map((teamId) => this.getTeamName(teamId))
+          .join(', ')}.`,
+      });
+      this.resetBuilder();
+      await this.loadTrades();
+    } catch (error) {
+      console.error('Error submitting trade:', error);
+      this.messageService.add({
+        severity: 'error',
+        summary: 'Trade Not Sent',
+        detail:
+          error instanceof Error
+            ? error.message
+            : 'Failed to send the trade. Please try again.',
+      });
+    } finally {
+      this.isSubmitting.set(false);
+    }
+  }
+
+  async respondToTrade(
+    trade: Trade,
+    response: 'accept' | 'reject' | 'cancel'
+  ): Promise<void> {
+    const myTeamId = this.myTeamId();
+    if (!myTeamId) return;
+
+    try {
+      this.isSubmitting.set(true);
+      let detail: string;
+      if (response === 'accept') {
+        const { trade: updated } = await this.tradeService.acceptTrade(
+          trade.id,
+          myTeamId
+        );
+        if (updated.status === 'accepted') {
+          // Rosters and cap space changed for every team
+          await this.leagueService.refresh();
+          detail = 'Trade accepted.';
+        } else if (updated.status === 'review') {
+          detail = 'Every team has accepted. The trade is now under review.';
+        } else {
+          detail = 'Trade accepted. Waiting on the other teams.';
+        }
+      } else if (response === 'reject') {
+        await this.tradeService.rejectTrade(trade.id, myTeamId);
+        detail = 'Trade rejected.';
+      } else {
+        await this.tradeService.cancelTrade(trade.id);
+        detail = 'Trade cancelled.';
+      }
+
+      this.messageService.add({
+        severity: 'success',
+        summary: 'Trade Updated',
+        detail,
+      });
+      await this.loadTrades();
+    } catch (error) {
+      console.error('Error responding to trade:', error);
+      this.messageService.add({
+        severity: 'error',
+        summary: 'Trade Not Updated',
+        detail:
+          error instanceof Error
+            ? error.message
+            : 'Failed to update the trade. Please try again.',
+      });
+    } finally {
+      this.isSubmitting.set(false);
+    }
+  }
+
+  /**
+   * Approve or veto a trade under review. The commissioner decides trades
+   * under commissioner review; owners outside the trade vote on the rest.
+   */
+  async reviewTrade(trade: Trade, approve: boolean): Promise<void> {
+    const myTeamId = this.myTeamId();
+
+    try {
+      this.isSubmitting.set(true);
+      let detail: string;
+      if (trade.review?.mode === 'commissioner') {
+        await this.tradeService.reviewTrade(trade.id, approve);
+        if (approve) {
+          await this.leagueService.refresh();
+        }
+        detail = approve ? 'Trade approved.' : 'Trade vetoed.';
+      } else {
+        if (!myTeamId) return;
+        const { trade: updated } = await this.tradeService.vetoTrade(
+          trade.id,
+          myTeamId
+        );
+        detail =
+          updated.status === 'vetoed'
+            ? 'Your veto overturned the trade.'
+            : 'Your veto was recorded.';
+      }
+
+      this.messageService.add({
+        severity: 'success',
+        summary: 'Trade Reviewed',
+        detail,
+      });
+      await this.loadTrades();
+    } catch (error) {
+      console.error('Error reviewing trade:', error);
+      this.messageService.add({
+        severity: 'error',
+        summary: 'Review Not Recorded',
+        detail:
+          error instanceof Error
+            ? error.message
+            : 'Failed to review the trade. Please try again.',
+      });
+    } finally {
+      this.isSubmitting.set(false);
+    }
+  }
+
+  /**
+   * Whether our team can still veto a trade under league vote
+   */
+  canVeto(trade: Trade): boolean {
+    const review = trade.review;
+    const myTeamId = this.myTeamId() || '';
+    return (
+      review?.mode === 'leagueVote' &&
+      review.eligibleTeamIds.includes(myTeamId) &&
+      !review.vetoTeamIds.includes(myTeamId) &&
+      (!review.deadline || review.deadline.getTime() > Date.now())
+    );
+  }
+
+  getTeamName(teamId: string | null): string {
+    return (
+      this.teams().find((team) => team.id === teamId)?.name || 'Unknown Team'
+    );
+  }
+
+  getAssetLabel(asset: TradeAsset): string {
+    if (asset.type === 'cap') {
+      return asset.playerId
+        ? `Retain ${Math.round(
+            (asset.value || 0) * 100
+          )}% of ${this.getAssetLabel({
+            ...asset,
+            type: 'player',
+            id: asset.playerId,
+          })}'s salary`
+        : `${this.formatCurrency(asset.value || 0)} cap space (${asset.year})`;
+    }
+
+    if (asset.type === 'player') {
+      const player = this.sportsDataService.getPlayer(Number(asset.id));
+      return player
+        ? `${player.FirstName || ''} ${player.LastName || ''}`.trim()
+        : `Player ${asset.id}`;
+    }
+
+    const pick = this.picks().find((candidate) => candidate.id === asset.id);
+    if (!pick) return 'Draft pick';
+    const via =
+      pick.originalTeamId !== pick.currentTeamId
+        ? ` (via ${this.getTeamName(pick.originalTeamId)})`
+        : '';
+    return `${pick.year} Round ${pick.round}${via}`;
+  }
+
+  /**
+   * Describe a traded player's response to his destination
+   */
+  getConsentLabel(consent: TradeConsent): string {
+    const name = this.getAssetLabel({
+      type: 'player',
+      id: consent.playerId,
+      fromTeamId: '',
+      toTeamId: consent.toTeamId,
+    });
+    const team = this.getTeamName(consent.toTeamId);
+
+    switch (consent.decision) {
+      case 'decline':
+        return `${name} won't waive his no-trade clause for ${team}`;
+      case 'extension':
+        return consent.extensionTerms
+          ? `${name} waives his no-trade clause only if ${team} extends him for ${
+              consent.extensionTerms.minYears
+            } years, ${Math.round(
+              consent.extensionTerms.minGuaranteedPct * 100
+            )}% guaranteed`
+          : `${name} waives his no-trade clause only if ${team} extends him`;
+      default:
+        return consent.reportingDelayDays > 0
+          ? `${name} will report to ${team} ${consent.reportingDelayDays} day${
+              consent.reportingDelayDays === 1 ? '' : 's'
+            } late`
+          : `${name} agrees to join ${team}`;
+    }
+  }
+
+  /**
+   * Assets a team sends in a trade
+   */
+  getSentAssets(trade: Trade, teamId: string): TradeAsset[] {
+    return trade.payload.assets.filter((asset) => asset.fromTeamId === teamId);
+  }
+
+  formatCurrency(amount: number): string {
+    const formatted = this.numberFormatService.formatCurrency(Math.abs(amount));
+    return amount < 0 ? `-${formatted}` : formatted;
+  }
+
+  getStatusSeverity(trade: Trade): 'success' | 'danger' | 'info' | 'warn' {
+    switch (trade.status) {
+      case 'accepted':
+        return 'success';
+      case 'rejected':
+      case 'vetoed':
+        return 'danger';
+      case 'countered':
+      case 'review':
+        return 'warn';
+      default:
+        return 'info';
+    }
+  }
+
+  /**
+   * Default receiving team for a newly selected asset: our assets go to the
+   * first partner, partner assets come to us
+   */
+  private getDefaultDestination(asset: TradeAsset): string {
+    const myTeamId = this.myTeamId() || '';
+    return asset.fromTeamId === myTeamId
+      ? this.partnerTeamIds()[0] || ''
+      : myTeamId;
+  }
+
+  private getTeamAssets(teamId: string): {
+    players: TradeAsset[];
+    picks: TradeAsset[];
+  } {
+    const team = this.teams().find((candidate) => candidate.id === teamId);
+    return {
+      players: (team?.roster || []).map((slot) => ({
+        type: 'player' as const,
+        id: String(slot.playerId),
+        fromTeamId: teamId,
+        toTeamId: '',
+      })),
+      picks: this.picks()
+        .filter((pick) => pick.currentTeamId === teamId)
+        .map((pick) => ({
+          type: 'pick' as const,
+          id: pick.id,
+          fromTeamId: teamId,
+          toTeamId: '',
+        })),
+    };
+  }
+}
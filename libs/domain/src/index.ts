@@ -1,4 +1,6 @@
 export * from './lib/domain';
 export * from './lib/personalities';
+export * from './lib/contract-extension';
+export * from './lib/trade-consent';
 export * from './lib/league-setup.service';
 export * from './lib/player-rating.service';
@@ -0,0 +1,104 @@
+import { CapComplianceChecker } from './domain';
+import { CapLedger } from '@fantasy-football-dynasty/types';
+
+describe('CapComplianceChecker', () => {
+  const createMockEntry = (overrides: Partial<CapLedger> = {}): CapLedger => ({
+    id: 'entry-1',
+    teamId: 'team-1',
+    leagueYear: 2026,
+    capIn: 0,
+    capOut: 0,
+    reason: 'Contract',
+    refType: 'contract',
+    refId: 'contract-1',
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  const ledger = [
+    createMockEntry({ capOut: 180000000 }),
+    createMockEntry({ leagueYear: 2027, capOut: 190000000 }),
+  ];
+
+  it('should report the shortfall for each year the transaction adds charges to', () => {
+    const result = CapComplianceChecker.checkTransaction(
+      'team-1',
+      ledger,
+      [
+        createMockEntry({ capOut: 15000000 }),
+        createMockEntry({ leagueYear: 2027, capOut: 15000000 }),
+      ],
+      2026,
+      200000000,
+      0.05
+    );
+
+    expect(result.isCompliant).toBe(true);
+    expect(result.years).toEqual([
+      {
+        year: 2026,
+        salaryCap: 200000000,
+        capCharge: 195000000,
+        shortfall: 0,
+      },
+      {
+        year: 2027,
+        salaryCap: 210000000,
+        capCharge: 205000000,
+        shortfall: 0,
+      },
+    ]);
+
+    const overCap = CapComplianceChecker.checkTransaction(
+      'team-1',
+      ledger,
+      [createMockEntry({ leagueYear: 2027, capOut: 25000000 })],
+      2026,
+      200000000,
+      0.05
+    );
+
+    expect(overCap.isCompliant).toBe(false);
+    expect(CapComplianceChecker.describeShortfalls(overCap)).toBe(
+      '2027 by $5,000,000'
+    );
+  });
+
+  it('should count cap holds against the current league year', () => {
+    const result = CapComplianceChecker.checkTransaction(
+      'team-1',
+      ledger,
+      [],
+      2026,
+      200000000,
+      0.05,
+      15000000,
+      10000000
+    );
+
+    expect(result.years).toEqual([
+      {
+        year: 2026,
+        salaryCap: 200000000,
+        capCharge: 205000000,
+        shortfall: 5000000,
+      },
+    ]);
+  });
+
+  it('should not check years the transaction only frees cap space in', () => {
+    const result = CapComplianceChecker.checkTransaction(
+      'team-1',
+      [createMockEntry({ capOut: 250000000 })],
+      [
+        createMockEntry({ capIn: 20000000, refType: 'cut' }),
+        createMockEntry({ leagueYear: 2025, capOut: 5000000 }),
+      ],
+      2026,
+      200000000,
+      0.05
+    );
+
+    expect(result).toEqual({ teamId: 'team-1', isCompliant: true, years: [] });
+  });
+});
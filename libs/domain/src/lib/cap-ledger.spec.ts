@@ -0,0 +1,160 @@
+import { CapLedgerService, CapMath } from './domain';
+import { CapLedger, Contract, Team } from '@fantasy-football-dynasty/types';
+
+describe('CapLedgerService', () => {
+  const salaryCap = 200000000;
+
+  const createMockContract = (overrides: Partial<Contract> = {}): Contract => ({
+    id: 'contract-1',
+    playerId: 'player-1',
+    teamId: 'team-1',
+    startYear: 2025,
+    endYear: 2027,
+    baseSalary: { 2025: 10000000, 2026: 12000000, 2027: 14000000 },
+    signingBonus: 6000000,
+    guarantees: [],
+    noTradeClause: false,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  const createMockTeam = (capSpace: number): Team => ({
+    id: 'team-1',
+    leagueId: 'league-1',
+    name: 'Test Team',
+    ownerUserId: 'user-1',
+    capSpace,
+    roster: [],
+    location: {
+      city: 'New York',
+      state: 'NY',
+      timezone: 'EST',
+      marketSize: 'large',
+      climate: 'cold',
+      stadiumName: 'Test Stadium',
+      stadiumCapacity: 80000,
+      isContender: false,
+      isStable: true,
+      taxRate: 0.0685,
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const createPenaltyEntry = (
+    leagueYear: number,
+    capOut: number
+  ): CapLedger => ({
+    id: `penalty-${leagueYear}`,
+    teamId: 'team-1',
+    leagueYear,
+    capIn: 0,
+    capOut,
+    reason: 'Penalty',
+    refType: 'cut',
+    refId: 'penalty',
+    createdAt: new Date(),
+  });
+
+  describe('createContractEntries', () => {
+    it('should charge each contract year its cap hit', () => {
+      const entries = CapLedgerService.createContractEntries(
+        createMockContract()
+      );
+
+      expect(entries.map((entry) => entry.capOut)).toEqual([
+        12000000, 14000000, 16000000,
+      ]);
+      expect(entries.every((entry) => entry.refType === 'contract')).toBe(true);
+    });
+
+    it('should record restructured contracts as originally signed', () => {
+      const { contract, ledgerEntries } = CapMath.restructureContract(
+        createMockContract(),
+        2025,
+        6000000
+      );
+      const entries = [
+        ...CapLedgerService.createContractEntries(contract),
+        ...ledgerEntries,
+      ];
+
+      expect(CapLedgerService.calculateNetCapCharge(entries, 2025)).toBe(
+        CapMath.calculateCapHit(contract, 2025)
+      );
+      expect(CapLedgerService.calculateNetCapCharge(entries, 2027)).toBe(
+        CapMath.calculateCapHit(contract, 2027)
+      );
+    });
+  });
+
+  describe('calculateCapSpace', () => {
+    it('should derive cap space from the ledger for a league year', () => {
+      const entries = [
+        ...CapLedgerService.createContractEntries(createMockContract()),
+        createPenaltyEntry(2025, 3000000),
+      ];
+
+      expect(CapLedgerService.calculateCapSpace(entries, 2025, salaryCap)).toBe(
+        salaryCap - 15000000
+      );
+      expect(CapLedgerService.calculateCapSpace(entries, 2028, salaryCap)).toBe(
+        salaryCap
+      );
+    });
+  });
+
+  describe('rebuildTeamLedger', () => {
+    it('should regenerate contract entries and keep other entries', () => {
+      const contract = createMockContract();
+      const staleEntry: CapLedger = {
+        ...CapLedgerService.createContractEntries(contract)[0],
+        capOut: 1,
+      };
+      const penalty = createPenaltyEntry(2025, 3000000);
+
+      const rebuilt = CapLedgerService.rebuildTeamLedger(
+        'team-1',
+        [contract],
+        [staleEntry, penalty]
+      );
+
+      expect(rebuilt).toHaveLength(4);
+      expect(rebuilt).toContain(penalty);
+      expect(CapLedgerService.calculateNetCapCharge(rebuilt, 2025)).toBe(
+        15000000
+      );
+    });
+  });
+
+  describe('checkConsistency', () => {
+    const entries = CapLedgerService.createContractEntries(
+      createMockContract()
+    );
+
+    it('should pass teams whose stored cap matches the ledger', () => {
+      const result = CapLedgerService.checkConsistency(
+        createMockTeam(salaryCap - 12000000),
+        entries,
+        2025,
+        salaryCap
+      );
+
+      expect(result.isConsistent).toBe(true);
+      expect(result.difference).toBe(0);
+    });
+
+    it('should flag teams whose stored cap has drifted', () => {
+      const result = CapLedgerService.checkConsistency(
+        createMockTeam(salaryCap),
+        entries,
+        2025,
+        salaryCap
+      );
+
+      expect(result.isConsistent).toBe(false);
+      expect(result.difference).toBe(12000000);
+      expect(result.ledgerCapSpace).toBe(salaryCap - 12000000);
+    });
+  });
+});
@@ -0,0 +1,413 @@
+import { CapMath } from './domain';
+import {
+  CapLedger,
+  Contract,
+  DeadMoneyRules,
+  Team,
+} from '@fantasy-football-dynasty/types';
+
+describe('CapMath', () => {
+  const createMockContract = (overrides: Partial<Contract> = {}): Contract => ({
+    id: 'contract-1',
+    playerId: 'player-1',
+    teamId: 'team-1',
+    startYear: 2025,
+    endYear: 2028,
+    baseSalary: {
+      2025: 10000000,
+      2026: 12000000,
+      2027: 14000000,
+      2028: 16000000,
+    },
+    signingBonus: 8000000,
+    guarantees: [],
+    noTradeClause: false,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  describe('calculateProratedBonus', () => {
+    it('should spread the signing bonus across the contract years', () => {
+      const contract = createMockContract();
+
+      expect(CapMath.calculateProratedBonus(contract, 2025)).toBe(2000000);
+      expect(CapMath.calculateProratedBonus(contract, 2028)).toBe(2000000);
+    });
+
+    it('should cap signing bonus proration at 5 years', () => {
+      const contract = createMockContract({
+        endYear: 2031,
+        signingBonus: 10000000,
+      });
+
+      expect(CapMath.calculateProratedBonus(contract, 2029)).toBe(2000000);
+      expect(CapMath.calculateProratedBonus(contract, 2030)).toBe(0);
+    });
+  });
+
+  describe('restructureContract', () => {
+    it('should convert base salary into bonus prorated over remaining years', () => {
+      const contract = createMockContract();
+
+      const result = CapMath.restructureContract(contract, 2026, 9000000);
+
+      expect(result.isValid).toBe(true);
+      expect(result.contract.baseSalary[2026]).toBe(3000000);
+      expect(result.restructure?.prorationYears).toBe(3);
+      expect(CapMath.calculateCapHit(result.contract, 2025)).toBe(12000000);
+      expect(CapMath.calculateCapHit(result.contract, 2026)).toBe(8000000);
+      expect(CapMath.calculateCapHit(result.contract, 2027)).toBe(19000000);
+      expect(CapMath.calculateCapHit(result.contract, 2028)).toBe(21000000);
+    });
+
+    it('should report the before and after cap impact by year', () => {
+      const contract = createMockContract();
+
+      const result = CapMath.restructureContract(contract, 2026, 9000000);
+
+      expect(result.capImpact).toEqual([
+        { year: 2026, before: 14000000, after: 8000000, difference: -6000000 },
+        { year: 2027, before: 16000000, after: 19000000, difference: 3000000 },
+        { year: 2028, before: 18000000, after: 21000000, difference: 3000000 },
+      ]);
+    });
+
+    it('should write a ledger entry for each proration year', () => {
+      const contract = createMockContract();
+
+      const result = CapMath.restructureContract(contract, 2026, 9000000);
+
+      expect(result.ledgerEntries).toHaveLength(3);
+      expect(result.ledgerEntries[0]).toMatchObject({
+        teamId: 'team-1',
+        leagueYear: 2026,
+        capIn: 9000000,
+        capOut: 3000000,
+        refType: 'restructure',
+        refId: 'contract-1',
+      });
+      expect(result.ledgerEntries[2]).toMatchObject({
+        leagueYear: 2028,
+        capIn: 0,
+        capOut: 3000000,
+      });
+    });
+
+    it('should limit restructure proration to 5 years', () => {
+      const contract = createMockContract({
+        endYear: 2032,
+        baseSalary: { 2025: 20000000, 2026: 20000000 },
+      });
+
+      const result = CapMath.restructureContract(contract, 2025, 10000000);
+
+      expect(result.restructure?.prorationYears).toBe(5);
+      expect(CapMath.calculateRestructureProration(result.contract, 2029)).toBe(
+        2000000
+      );
+      expect(CapMath.calculateRestructureProration(result.contract, 2030)).toBe(
+        0
+      );
+    });
+
+    it('should reject amounts above the base salary', () => {
+      const contract = createMockContract();
+
+      const result = CapMath.restructureContract(contract, 2025, 11000000);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.length).toBeGreaterThan(0);
+      expect(result.contract).toBe(contract);
+      expect(result.ledgerEntries).toHaveLength(0);
+    });
+
+    it('should reject restructures in the final contract year', () => {
+      const contract = createMockContract();
+
+      const errors = CapMath.validateRestructure(contract, 2028, 1000000);
+
+      expect(errors).toContain('Cannot restructure in the final contract year');
+    });
+
+    it('should include unamortized restructure bonus in dead money', () => {
+      const contract = createMockContract();
+      const { contract: restructured } = CapMath.restructureContract(
+        contract,
+        2026,
+        9000000
+      );
+
+      expect(CapMath.calculateRemainingBonus(restructured, 2026)).toBe(
+        CapMath.calculateRemainingBonus(contract, 2026) + 6000000
+      );
+    });
+  });
+
+  describe('releaseContract', () => {
+    const deadMoneyRules: DeadMoneyRules = {
+      preJune1: true,
+      signingBonusAcceleration: true,
+      postJune1Designations: 2,
+    };
+
+    it('should accelerate all remaining bonus before June 1', () => {
+      const result = CapMath.releaseContract(
+        createMockContract(),
+        2026,
+        deadMoneyRules
+      );
+
+      expect(result.isValid).toBe(true);
+      expect(result.deadMoneyByYear).toEqual({ 2026: 6000000 });
+      expect(result.capSavings).toBe(14000000 - 6000000);
+      expect(result.contract.status).toBe('released');
+    });
+
+    it('should split dead money over two years with a post-June 1 designation', () => {
+      const result = CapMath.releaseContract(
+        createMockContract(),
+        2026,
+        deadMoneyRules,
+        true,
+        1
+      );
+
+      expect(result.deadMoneyByYear).toEqual({ 2026: 2000000, 2027: 4000000 });
+      expect(result.capSavings).toBe(12000000);
+    });
+
+    it('should reject post-June 1 designations beyond the season limit', () => {
+      const result = CapMath.releaseContract(
+        createMockContract(),
+        2026,
+        deadMoneyRules,
+        true,
+        2
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.ledgerEntries).toHaveLength(0);
+    });
+
+    it('should credit remaining cap hits and charge dead money in the ledger', () => {
+      const contract = createMockContract();
+      const result = CapMath.releaseContract(contract, 2026, deadMoneyRules);
+
+      const net = (year: number) =>
+        result.ledgerEntries
+          .filter((entry) => entry.leagueYear === year)
+          .reduce((total, entry) => total + entry.capOut - entry.capIn, 0);
+
+      expect(net(2026)).toBe(6000000 - CapMath.calculateCapHit(contract, 2026));
+      expect(net(2028)).toBe(-CapMath.calculateCapHit(contract, 2028));
+      expect(
+        result.ledgerEntries.every((entry) => entry.refType === 'cut')
+      ).toBe(true);
+    });
+
+    it('should keep the original proration schedule without acceleration', () => {
+      const deadMoney = CapMath.calculateReleaseDeadMoney(
+        createMockContract(),
+        2026,
+        { ...deadMoneyRules, signingBonusAcceleration: false }
+      );
+
+      expect(deadMoney).toEqual({
+        2026: 2000000,
+        2027: 2000000,
+        2028: 2000000,
+      });
+    });
+  });
+
+  describe('guarantees', () => {
+    const deadMoneyRules: DeadMoneyRules = {
+      preJune1: true,
+      signingBonusAcceleration: true,
+    };
+    const guaranteedContract = () =>
+      createMockContract({
+        signingBonus: 0,
+        guarantees: [
+          { type: 'full', amount: 10000000, year: 2025 },
+          { type: 'full', amount: 6000000, year: 2026 },
+          {
+            type: 'injury-only',
+            amount: 8000000,
+            year: 2027,
+            vestsInYear: 2027,
+          },
+        ],
+      });
+
+    it('should only count injury-only guarantees for players on IR', () => {
+      const contract = guaranteedContract();
+
+      expect(CapMath.calculateUnpaidGuarantees(contract, 2026)).toEqual({
+        2026: 6000000,
+      });
+      expect(CapMath.calculateUnpaidGuarantees(contract, 2026, true)).toEqual({
+        2026: 6000000,
+        2027: 8000000,
+      });
+    });
+
+    it('should treat vested injury guarantees as fully guaranteed', () => {
+      expect(CapMath.calculateGuaranteedMoney(guaranteedContract(), 2027)).toBe(
+        24000000
+      );
+      expect(CapMath.calculateGuaranteedMoney(guaranteedContract(), 2026)).toBe(
+        16000000
+      );
+    });
+
+    it('should add unpaid guarantees to release dead money', () => {
+      const contract = guaranteedContract();
+
+      expect(
+        CapMath.calculateReleaseDeadMoney(contract, 2026, deadMoneyRules)
+      ).toEqual({ 2026: 6000000 });
+      expect(
+        CapMath.calculateReleaseDeadMoney(
+          contract,
+          2026,
+          deadMoneyRules,
+          true,
+          true
+        )
+      ).toEqual({ 2026: 6000000, 2027: 8000000 });
+    });
+
+    it('should show when guaranteed money locks in', () => {
+      const schedule = CapMath.getGuaranteeVestingSchedule(
+        guaranteedContract()
+      );
+
+      expect(schedule.map((entry) => entry.lockedIfReleased)).toEqual([
+        16000000, 6000000, 8000000, 0,
+      ]);
+      expect(schedule[2]).toMatchObject({
+        year: 2027,
+        injuryGuaranteed: 8000000,
+        vestingAmount: 8000000,
+      });
+      expect(schedule[1].lockedIfReleasedOnIR).toBe(14000000);
+    });
+  });
+
+  describe('salary retention', () => {
+    it('should keep retained salary off the acquiring team from the trade year', () => {
+      const contract = createMockContract({
+        teamId: 'team-2',
+        retentions: [
+          { teamId: 'team-1', percentage: 0.25, fromYear: 2026, tradeId: 't1' },
+        ],
+      });
+
+      expect(CapMath.calculateCapHit(contract, 2025)).toBe(12000000);
+      expect(CapMath.calculateCapHit(contract, 2026)).toBe(11000000);
+      expect(CapMath.calculateRetainedSalary(contract, 2027, 'team-1')).toBe(
+        3500000
+      );
+      expect(CapMath.calculateRetainedSalary(contract, 2027, 'team-2')).toBe(0);
+      expect(
+        CapMath.calculateTeamCapHit({ id: 'team-1' } as Team, [contract], 2028)
+      ).toBe(4000000);
+    });
+  });
+
+  describe('buildCapProjection', () => {
+    const deadMoneyEntry: CapLedger = {
+      id: 'cut-1',
+      teamId: 'team-1',
+      leagueYear: 2026,
+      capIn: 0,
+      capOut: 5000000,
+      reason: 'Dead money',
+      refType: 'cut',
+      refId: 'contract-2',
+      createdAt: new Date(),
+    };
+
+    it('should break down each of the next five years', () => {
+      const projection = CapMath.buildCapProjection(
+        [createMockContract()],
+        [deadMoneyEntry],
+        1000000,
+        2025,
+        200000000,
+        0.05
+      );
+
+      expect(projection).toHaveLength(5);
+      expect(projection[0]).toMatchObject({
+        year: 2025,
+        salaryCap: 200000000,
+        committedSalary: 10000000,
+        proratedBonus: 2000000,
+        deadMoney: 0,
+        capHolds: 1000000,
+        totalCapHit: 13000000,
+        capSpace: 187000000,
+      });
+      expect(projection[1]).toMatchObject({
+        year: 2026,
+        salaryCap: 210000000,
+        deadMoney: 5000000,
+        capHolds: 0,
+        totalCapHit: 19000000,
+      });
+      expect(projection[4]).toMatchObject({
+        year: 2029,
+        committedSalary: 0,
+        contractCount: 0,
+      });
+    });
+
+    it('should grow the salary cap by the projected growth rate', () => {
+      expect(CapMath.projectSalaryCap(200000000, 0.06, 2)).toBe(224720000);
+    });
+
+    it('should project carryover until it is recorded in the ledger', () => {
+      const carryoverEntry: CapLedger = {
+        id: 'team-1_carryover_2026',
+        teamId: 'team-1',
+        leagueYear: 2026,
+        capIn: 4000000,
+        capOut: 0,
+        reason: 'Unused cap space carried over from 2025',
+        refType: 'carryover',
+        refId: 'team-1_2025',
+        createdAt: new Date(),
+      };
+      const projection = CapMath.buildCapProjection(
+        [createMockContract()],
+        [carryoverEntry],
+        0,
+        2025,
+        200000000,
+        0,
+        3,
+        { percentage: 0.5, maxAmount: 10000000 }
+      );
+
+      expect(projection[0].carryover).toBe(0);
+      expect(projection[1]).toMatchObject({
+        carryover: 4000000,
+        capSpace: 190000000,
+      });
+      expect(projection[2].carryover).toBe(10000000);
+    });
+  });
+
+  describe('calculateCarryover', () => {
+    it('should carry over a share of unused cap space up to the maximum', () => {
+      const rules = { percentage: 0.5, maxAmount: 10000000 };
+
+      expect(CapMath.calculateCarryover(8000000, rules)).toBe(4000000);
+      expect(CapMath.calculateCarryover(50000000, rules)).toBe(10000000);
+      expect(CapMath.calculateCarryover(-2000000, rules)).toBe(0);
+      expect(CapMath.calculateCarryover(8000000)).toBe(0);
+    });
+  });
+});
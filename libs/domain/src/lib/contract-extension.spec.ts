@@ -0,0 +1,273 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { ContractExtensionEngine } from './contract-extension';
+import { CapLedgerService } from './domain';
+import { EnhancedPlayerFactory } from './personalities';
+import {
+  ContractEvaluationContext,
+  EnhancedPlayer,
+} from './personalities/enhanced-player';
+import { Contract, Player } from '@fantasy-football-dynasty/types';
+
+describe('ContractExtensionEngine', () => {
+  const mockPlayer: Player = {
+    id: 'player-1',
+    name: 'Test Player',
+    nflTeam: 'DAL',
+    position: 'WR',
+    age: 26,
+    devGrade: 'B',
+    overall: 80,
+    yearsExp: 4,
+    traits: {
+      speed: 80,
+      strength: 60,
+      agility: 80,
+      awareness: 70,
+      injury: 20,
+      schemeFit: [],
+    },
+    stats: [],
+  };
+
+  const context: Omit<ContractEvaluationContext, 'offer'> = {
+    team: {
+      teamId: 'team-1',
+      city: 'Denver',
+      state: 'CO',
+      timezone: 'MST',
+      marketSize: 'medium',
+      climate: 'cold',
+      isContender: true,
+      isStable: true,
+      taxRate: 0.044,
+    },
+    marketConditions: {
+      positionDemand: 0.5,
+      marketTrend: 'stable',
+      recentComparables: [],
+      leagueCapSpace: 1000000000,
+      teamCount: 12,
+    },
+    competingOffers: [],
+    currentWeek: 1,
+    seasonStage: 'RegularSeason',
+  };
+
+  const createMockContract = (overrides: Partial<Contract> = {}): Contract => ({
+    id: 'contract-1',
+    playerId: 'player-1',
+    teamId: 'team-1',
+    startYear: 2023,
+    endYear: 2025,
+    baseSalary: { 2023: 5000000, 2024: 6000000, 2025: 7000000 },
+    signingBonus: 3000000,
+    guarantees: [],
+    noTradeClause: false,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  // Money-only player with fixed extension terms so decisions are deterministic
+  let player: EnhancedPlayer;
+
+  beforeAll(async () => {
+    await EnhancedPlayerFactory.initialize();
+    const enhanced = EnhancedPlayerFactory.createEnhancedPlayer(
+      mockPlayer,
+      2025
+    );
+
+    player = {
+      ...enhanced,
+      personality: {
+        ...enhanced.personality,
+        weights: {
+          moneyPriority: 1,
+          winningPriority: 0,
+          locationPriority: 0,
+          guaranteePriority: 0,
+          lengthPriority: 0,
+        },
+        behaviors: { ...enhanced.personality.behaviors, holdoutThreshold: 0 },
+        hiddenSliders: {
+          ego: 0.5,
+          injuryAnxiety: 0.5,
+          agentQuality: 0.5,
+          schemeFit: 0.5,
+          rolePromise: 0.5,
+          taxSensitivity: 0,
+          endorsementValue: 0,
+        },
+        tradePreferences: {
+          ...enhanced.personality.tradePreferences,
+          extensionTerms: {
+            minYears: 3,
+            minGuaranteedPct: 0.5,
+            apyMultiplier: 1.1,
+          },
+        },
+        marketContext: {
+          ...enhanced.personality.marketContext,
+          apyPercentiles: {
+            p25: 6000000,
+            p50: 10000000,
+            p75: 14000000,
+            p90: 18000000,
+          },
+          supplyPressure: 0.5,
+          marketTrend: 'stable',
+        },
+      },
+    };
+  });
+
+  it('should only extend contracts in their final year', () => {
+    const contract = createMockContract();
+    const proposal = ContractExtensionEngine.createProposal(
+      contract,
+      3,
+      12000000,
+      6000000,
+      18000000
+    );
+
+    expect(ContractExtensionEngine.isEligible(contract, 2025)).toBe(true);
+    expect(
+      ContractExtensionEngine.validateProposal(contract, 2024, proposal)
+    ).toContain('Only contracts in their final year can be extended');
+  });
+
+  it('should extend early when the player demanded it to waive his no-trade clause', () => {
+    const extensionDemand = {
+      tradeId: 'trade-1',
+      teamId: 'team-1',
+      extensionTerms: { minYears: 3, minGuaranteedPct: 0.5, apyMultiplier: 1 },
+    };
+
+    expect(
+      ContractExtensionEngine.isEligible(
+        createMockContract({ extensionDemand }),
+        2024
+      )
+    ).toBe(true);
+    expect(
+      ContractExtensionEngine.isEligible(
+        createMockContract({
+          extensionDemand: { ...extensionDemand, teamId: 'team-2' },
+        }),
+        2024
+      )
+    ).toBe(false);
+  });
+
+  it('should build a proposal starting the season after the contract ends', () => {
+    const proposal = ContractExtensionEngine.createProposal(
+      createMockContract(),
+      3,
+      12000000,
+      6000000,
+      18000000
+    );
+
+    expect(proposal.baseSalary).toEqual({
+      2026: 10000000,
+      2027: 10000000,
+      2028: 10000000,
+    });
+    expect(proposal.guarantees).toEqual([
+      { type: 'full', amount: 10000000, year: 2026 },
+      { type: 'full', amount: 2000000, year: 2027 },
+    ]);
+  });
+
+  it('should list extension terms the offer falls short of', () => {
+    const demands = ContractExtensionEngine.getExtensionDemands(player);
+    const proposal = ContractExtensionEngine.createProposal(
+      createMockContract(),
+      2,
+      9000000,
+      0,
+      0
+    );
+    const offer = ContractExtensionEngine.buildOffer(
+      proposal,
+      player,
+      context.team
+    );
+
+    expect(demands.minApy).toBe(11000000);
+    expect(ContractExtensionEngine.checkExtensionTerms(offer, demands)).toEqual(
+      [
+        'Wants at least 3 years',
+        'Wants at least 50% guaranteed',
+        'Wants at least 11000000 per year',
+      ]
+    );
+  });
+
+  it('should counter at the extension terms instead of accepting less', () => {
+    const contract = createMockContract();
+    const proposal = ContractExtensionEngine.createProposal(
+      contract,
+      2,
+      20000000,
+      0,
+      0
+    );
+
+    const result = ContractExtensionEngine.evaluateExtension(
+      player,
+      contract,
+      proposal,
+      context,
+      2025,
+      'negotiation-1'
+    );
+
+    expect(result.decision?.decision).toBe('counter');
+    expect(result.decision?.counterOffer?.years).toBe(3);
+    expect(result.contract).toBeUndefined();
+    expect(result.negotiationEntry).toMatchObject({
+      scenario: 'contract_extension',
+      wasAccepted: false,
+      counterOffers: 1,
+    });
+  });
+
+  it('should create a contract starting next season when accepted', () => {
+    const contract = createMockContract();
+    const proposal = ContractExtensionEngine.createProposal(
+      contract,
+      3,
+      12000000,
+      6000000,
+      18000000
+    );
+
+    const result = ContractExtensionEngine.evaluateExtension(
+      player,
+      contract,
+      proposal,
+      context,
+      2025,
+      'negotiation-1'
+    );
+
+    expect(result.decision?.decision).toBe('accept');
+    expect(result.contract).toMatchObject({
+      startYear: 2026,
+      endYear: 2028,
+      extendsContractId: 'contract-1',
+    });
+    expect(result.negotiationEntry).toMatchObject({
+      scenario: 'contract_extension',
+      outcome: 'accepted',
+    });
+    expect(
+      CapLedgerService.calculateNetCapCharge(result.ledgerEntries, 2025)
+    ).toBe(0);
+    expect(
+      CapLedgerService.calculateNetCapCharge(result.ledgerEntries, 2026)
+    ).toBe(12000000);
+  });
+});
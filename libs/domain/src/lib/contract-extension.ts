@@ -0,0 +1,372 @@
+import {
+  CapLedger,
+  Contract,
+  ContractOption,
+  Guarantee,
+} from '@fantasy-football-dynasty/types';
+import { CapLedgerService } from './domain';
+import {
+  ContractEvaluationContext,
+  ContractOffer,
+  EnhancedPlayer,
+  EnhancedPlayerUtils,
+  NegotiationHistoryEntry,
+  PlayerDecision,
+  TeamLocation,
+} from './personalities/enhanced-player';
+import { PersonalityEngine } from './personalities/personality-engine';
+
+export interface ContractExtensionProposal {
+  years: number;
+  baseSalary: Record<number, number>; // year -> salary, starting after the current deal
+  signingBonus: number;
+  guarantees: Guarantee[];
+  options?: ContractOption[]; // option years after the extension's final year
+}
+
+export interface ExtensionDemands {
+  minYears: number;
+  minGuaranteedPct: number;
+  minApy: number; // position market APY scaled by the player's extension premium
+}
+
+export interface ContractExtensionResult {
+  isValid: boolean;
+  errors: string[];
+  offer: ContractOffer;
+  decision?: PlayerDecision;
+  unmetTerms: string[]; // extension terms the offer falls short of
+  negotiationEntry?: NegotiationHistoryEntry;
+  contract?: Contract; // set only when the player accepts
+  ledgerEntries: CapLedger[];
+}
+
+/**
+ * Contract extensions for rostered players entering the final year of their
+ * deal. Players weigh the offer through the personality engine and will not
+ * sign below their extension terms; an accepted extension becomes a new
+ * contract that starts the season after the current one ends.
+ */
+export class ContractExtensionEngine {
+  /**
+   * A contract can be extended during its final league year, or as soon as
+   * the player is traded to a team he demanded an extension from
+   */
+  static isEligible(contract: Contract, leagueYear: number): boolean {
+    return (
+      (contract.status ?? 'active') === 'active' &&
+      (contract.endYear === leagueYear ||
+        contract.extensionDemand?.teamId === contract.teamId)
+    );
+  }
+
+  /**
+   * Build an evenly paid proposal with front-loaded salary guarantees
+   */
+  static createProposal(
+    contract: Contract,
+    years: number,
+    apy: number,
+    signingBonus: number,
+    guaranteedAmount: number
+  ): ContractExtensionProposal {
+    const startYear = contract.endYear + 1;
+    const salary = Math.max(0, Math.round(apy - signingBonus / years));
+    const baseSalary: Record<number, number> = {};
+    const guarantees: Guarantee[] = [];
+    let remainingGuarantee = Math.max(0, guaranteedAmount - signingBonus);
+
+    for (let year = startYear; year < startYear + years; year++) {
+      baseSalary[year] = salary;
+
+      const amount = Math.min(salary, remainingGuarantee);
+      if (amount > 0) {
+        guarantees.push({ type: 'full', amount, year });
+        remainingGuarantee -= amount;
+      }
+    }
+
+    return { years, baseSalary, signingBonus, guarantees };
+  }
+
+  /**
+   * Validate an extension proposal against the contract being extended
+   */
+  static validateProposal(
+    contract: Contract,
+    leagueYear: number,
+    proposal: ContractExtensionProposal,
+    maxYears = 5
+  ): string[] {
+    const errors: string[] = [];
+    const startYear = contract.endYear + 1;
+    const endYear = startYear + proposal.years - 1;
+
+    if (!this.isEligible(contract, leagueYear)) {
+      errors.push('Only contracts in their final year can be extended');
+    }
+
+    if (proposal.years < 1 || proposal.years > maxYears) {
+      errors.push(`Extension must be between 1 and ${maxYears} years`);
+    }
+
+    if (proposal.signingBonus < 0) {
+      errors.push('Signing bonus cannot be negative');
+    }
+
+    for (let year = startYear; year <= endYear; year++) {
+      const salary = proposal.baseSalary[year];
+      if (salary === undefined || salary < 0) {
+        errors.push(`Base salary required for ${year}`);
+      }
+    }
+
+    proposal.guarantees.forEach((guarantee) => {
+      if (guarantee.year < startYear || guarantee.year > endYear) {
+        errors.push(
+          `Guarantee year ${guarantee.year} is outside the extension`
+        );
+      } else if (
+        guarantee.amount > (proposal.baseSalary[guarantee.year] || 0)
+      ) {
+        errors.push(`Guarantee for ${guarantee.year} exceeds base salary`);
+      }
+    });
+
+    (proposal.options || []).forEach((option, index) => {
+      if (option.year !== endYear + index + 1) {
+        errors.push(`Option years must directly follow ${endYear}`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Express a proposal as the offer the personality engine evaluates
+   */
+  static buildOffer(
+    proposal: ContractExtensionProposal,
+    player: EnhancedPlayer,
+    team: TeamLocation
+  ): ContractOffer {
+    const totalSalary = Object.values(proposal.baseSalary).reduce(
+      (total, salary) => total + salary,
+      0
+    );
+    const totalValue = totalSalary + proposal.signingBonus;
+    const guaranteedAmount =
+      proposal.signingBonus +
+      proposal.guarantees.reduce(
+        (total, guarantee) => total + guarantee.amount,
+        0
+      );
+
+    return {
+      years: proposal.years,
+      totalValue,
+      apy: proposal.years > 0 ? Math.round(totalValue / proposal.years) : 0,
+      guaranteedAmount,
+      signingBonus: proposal.signingBonus,
+      performanceIncentives: [],
+      teamOptionYears: (proposal.options || []).filter(
+        (option) => option.holder === 'team'
+      ).length,
+      playerOptionYears: (proposal.options || []).filter(
+        (option) => option.holder === 'player'
+      ).length,
+      teamQuality: team.isContender ? 0.9 : team.isStable ? 0.6 : 0.3,
+      locationMatch: EnhancedPlayerUtils.calculateLocationMatch(player, team),
+    };
+  }
+
+  /**
+   * The minimum terms a player will extend for
+   */
+  static getExtensionDemands(player: EnhancedPlayer): ExtensionDemands {
+    const { extensionTerms } = player.personality.tradePreferences;
+    const marketApy = player.personality.marketContext.apyPercentiles.p50;
+
+    return {
+      minYears: extensionTerms.minYears,
+      minGuaranteedPct: extensionTerms.minGuaranteedPct,
+      minApy: Math.round(marketApy * extensionTerms.apyMultiplier),
+    };
+  }
+
+  /**
+   * List the extension terms an offer falls short of
+   */
+  static checkExtensionTerms(
+    offer: ContractOffer,
+    demands: ExtensionDemands
+  ): string[] {
+    const unmet: string[] = [];
+    const guaranteedPct =
+      offer.totalValue > 0 ? offer.guaranteedAmount / offer.totalValue : 0;
+
+    if (offer.years < demands.minYears) {
+      unmet.push(`Wants at least ${demands.minYears} years`);
+    }
+    if (guaranteedPct < demands.minGuaranteedPct) {
+      unmet.push(
+        `Wants at least ${Math.round(
+          demands.minGuaranteedPct * 100
+        )}% guaranteed`
+      );
+    }
+    if (offer.apy < demands.minApy) {
+      unmet.push(`Wants at least ${demands.minApy} per year`);
+    }
+
+    return unmet;
+  }
+
+  /**
+   * Build the new contract that starts the season after the current one ends
+   */
+  static createExtensionContract(
+    contract: Contract,
+    proposal: ContractExtensionProposal,
+    contractId: string
+  ): Contract {
+    const startYear = contract.endYear + 1;
+
+    return {
+      id: contractId,
+      playerId: contract.playerId,
+      teamId: contract.teamId,
+      startYear,
+      endYear: startYear + proposal.years - 1,
+      baseSalary: { ...proposal.baseSalary },
+      signingBonus: proposal.signingBonus,
+      guarantees: proposal.guarantees.map((guarantee) => ({ ...guarantee })),
+      noTradeClause: contract.noTradeClause,
+      options: (proposal.options || []).map((option) => ({ ...option })),
+      restructures: [],
+      status: 'active',
+      extendsContractId: contract.id,
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * Evaluate an extension offer with the 'contract_extension' scenario and,
+   * if accepted, create the new contract and its cap ledger entries
+   */
+  static evaluateExtension(
+    player: EnhancedPlayer,
+    contract: Contract,
+    proposal: ContractExtensionProposal,
+    context: Omit<ContractEvaluationContext, 'offer'>,
+    leagueYear: number,
+    negotiationId: string
+  ): ContractExtensionResult {
+    const offer = this.buildOffer(proposal, player, context.team);
+    const errors = this.validateProposal(contract, leagueYear, proposal);
+
+    if (errors.length > 0) {
+      return {
+        isValid: false,
+        errors,
+        offer,
+        unmetTerms: [],
+        ledgerEntries: [],
+      };
+    }
+
+    const demands = this.getExtensionDemands(player);
+    const unmetTerms = this.checkExtensionTerms(offer, demands);
+    const decision = this.applyExtensionTerms(
+      PersonalityEngine.evaluateContractOffer(player, { ...context, offer }),
+      demands,
+      unmetTerms
+    );
+    const accepted = decision.decision === 'accept';
+
+    const negotiationEntry: NegotiationHistoryEntry = {
+      negotiationId,
+      teamId: contract.teamId,
+      year: leagueYear,
+      scenario: 'contract_extension',
+      initialOffer: offer.apy,
+      finalOffer: decision.counterOffer?.apy ?? offer.apy,
+      wasAccepted: accepted,
+      holdoutDuration: decision.holdoutDuration,
+      counterOffers: decision.counterOffer ? 1 : 0,
+      outcome: accepted
+        ? 'accepted'
+        : decision.decision === 'holdout'
+        ? 'held_out'
+        : 'rejected',
+    };
+
+    if (!accepted) {
+      return {
+        isValid: true,
+        errors: [],
+        offer,
+        decision,
+        unmetTerms,
+        negotiationEntry,
+        ledgerEntries: [],
+      };
+    }
+
+    const extension = this.createExtensionContract(
+      contract,
+      proposal,
+      `${contract.id}_ext_${contract.endYear + 1}`
+    );
+
+    return {
+      isValid: true,
+      errors: [],
+      offer,
+      decision,
+      unmetTerms,
+      negotiationEntry,
+      contract: extension,
+      ledgerEntries: CapLedgerService.createContractEntries(extension),
+    };
+  }
+
+  /**
+   * Players counter at their extension terms instead of accepting less
+   */
+  private static applyExtensionTerms(
+    decision: PlayerDecision,
+    demands: ExtensionDemands,
+    unmetTerms: string[]
+  ): PlayerDecision {
+    if (
+      unmetTerms.length === 0 ||
+      decision.decision === 'reject' ||
+      decision.decision === 'holdout'
+    ) {
+      return decision;
+    }
+
+    const base = decision.counterOffer ?? decision.offer;
+    const years = Math.max(base.years, demands.minYears);
+    const apy = Math.max(base.apy, demands.minApy);
+    const totalValue = apy * years;
+
+    return {
+      ...decision,
+      decision: 'counter',
+      reasoning: `Extension terms not met: ${unmetTerms.join(', ')}`,
+      counterOffer: {
+        ...base,
+        years,
+        apy,
+        totalValue,
+        guaranteedAmount: Math.max(
+          base.guaranteedAmount,
+          Math.round(totalValue * demands.minGuaranteedPct)
+        ),
+      },
+      personalityFactors: [...decision.personalityFactors, 'extension_terms'],
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import { CapMath, ContractOptionCalculator } from './domain';
+import { Contract, ContractOption } from '@fantasy-football-dynasty/types';
+
+describe('ContractOptionCalculator', () => {
+  const teamOption: ContractOption = {
+    year: 2028,
+    holder: 'team',
+    baseSalary: 12000000,
+    optionBonus: 2000000,
+    deadline: '03-15',
+  };
+
+  const createMockContract = (overrides: Partial<Contract> = {}): Contract => ({
+    id: 'contract-1',
+    playerId: 'player-1',
+    teamId: 'team-1',
+    startYear: 2026,
+    endYear: 2027,
+    baseSalary: { 2026: 10000000, 2027: 10000000 },
+    signingBonus: 4000000,
+    guarantees: [],
+    noTradeClause: false,
+    options: [teamOption],
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  it('should only allow the team to decide before the deadline in the final year', () => {
+    const contract = createMockContract();
+
+    expect(
+      ContractOptionCalculator.validateOptionDecision(
+        contract,
+        2027,
+        new Date(2027, 2, 1)
+      )
+    ).toEqual([]);
+    expect(
+      ContractOptionCalculator.validateOptionDecision(
+        contract,
+        2027,
+        new Date(2027, 3, 1)
+      )
+    ).toEqual(['The option deadline (03-15) has passed']);
+    expect(
+      ContractOptionCalculator.validateOptionDecision(
+        createMockContract({ options: [{ ...teamOption, holder: 'player' }] }),
+        2026,
+        new Date(2027, 2, 1)
+      )
+    ).toEqual([
+      'Only the player can decide a player option',
+      'Options can only be decided in the final contract year',
+    ]);
+  });
+
+  it('should sign an exercised option as a one-year contract', () => {
+    const contract = ContractOptionCalculator.decideOption(
+      createMockContract(),
+      true
+    );
+    const optionContract = ContractOptionCalculator.createOptionContract(
+      contract,
+      teamOption
+    );
+
+    expect(contract.options?.[0].status).toBe('exercised');
+    expect(ContractOptionCalculator.getPendingOption(contract)).toBeUndefined();
+    expect(optionContract).toMatchObject({
+      id: 'contract-1_option_2028',
+      startYear: 2028,
+      endYear: 2028,
+      extendsContractId: 'contract-1',
+    });
+    expect(CapMath.calculateCapHit(optionContract, 2028)).toBe(
+      CapMath.calculateOptionCapHit(teamOption)
+    );
+  });
+
+  it('should have players exercise options that pay at least their average salary', () => {
+    const contract = createMockContract();
+
+    expect(
+      ContractOptionCalculator.shouldPlayerExercise(contract, {
+        ...teamOption,
+        holder: 'player',
+      })
+    ).toBe(true);
+    expect(
+      ContractOptionCalculator.shouldPlayerExercise(contract, {
+        ...teamOption,
+        holder: 'player',
+        baseSalary: 8000000,
+      })
+    ).toBe(false);
+  });
+});
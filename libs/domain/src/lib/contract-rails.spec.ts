@@ -0,0 +1,93 @@
+import { ContractValidator } from './domain';
+import { Contract, ContractOffer } from '@fantasy-football-dynasty/types';
+
+describe('ContractValidator', () => {
+  const rails = ContractValidator.getRails({
+    minBase: 1000000,
+    positionMultipliers: { QB: 2 },
+  });
+
+  const createMockContract = (overrides: Partial<Contract> = {}): Contract => ({
+    id: 'contract-1',
+    playerId: 'player-1',
+    teamId: 'team-1',
+    startYear: 2026,
+    endYear: 2027,
+    baseSalary: { 2026: 4000000, 2027: 4000000 },
+    signingBonus: 2000000,
+    guarantees: [],
+    noTradeClause: false,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  const createMockOffer = (
+    overrides: Partial<ContractOffer> = {}
+  ): ContractOffer => ({
+    years: 3,
+    baseSalary: { 2026: 1000000 },
+    signingBonus: 0,
+    guarantees: [],
+    contractType: 'standard',
+    totalValue: 3000000,
+    apy: 1000000,
+    ...overrides,
+  });
+
+  it('should only enforce rails when the league sets them', () => {
+    const contract = createMockContract({
+      endYear: 2030,
+      baseSalary: {
+        2026: 100000,
+        2027: 100000,
+        2028: 100000,
+        2029: 100000,
+        2030: 100000,
+      },
+      signingBonus: 0,
+    });
+
+    expect(ContractValidator.validateContract(contract)).toEqual([]);
+    expect(
+      ContractValidator.validateContract(contract, rails).map(
+        (error) => error.code
+      )
+    ).toEqual(['TERM_TOO_LONG', 'BELOW_MINIMUM_SALARY']);
+  });
+
+  it('should report rail violations against the form field', () => {
+    const errors = ContractValidator.validateContract(
+      createMockContract({
+        signingBonus: 10000000,
+        guarantees: [{ type: 'full', amount: 5000000, year: 2026 }],
+      }),
+      rails
+    );
+
+    expect(errors).toEqual([
+      {
+        code: 'SIGNING_BONUS_TOO_HIGH',
+        field: 'signingBonus',
+        message: 'Signing bonus cannot exceed 50% of total value',
+      },
+      {
+        code: 'GUARANTEES_TOO_HIGH',
+        field: 'guarantees',
+        message: 'No more than 80% of a 2-year contract can be guaranteed',
+      },
+    ]);
+  });
+
+  it('should discount the minimum salary on longer deals and scale it by position', () => {
+    expect(ContractValidator.getMinimumApy(2, rails)).toBe(1000000);
+    expect(ContractValidator.getMinimumApy(3, rails)).toBe(900000);
+    expect(ContractValidator.getMinimumApy(3, rails, 'QB')).toBe(1800000);
+
+    expect(ContractValidator.validateOffer(createMockOffer(), rails)).toEqual(
+      []
+    );
+    expect(
+      ContractValidator.validateOffer(createMockOffer(), rails, 'QB')
+    ).toMatchObject([{ code: 'BELOW_MINIMUM_SALARY', field: 'baseSalary' }]);
+  });
+});
@@ -1,8 +1,38 @@
 import {
   Contract,
+  ContractIncentive,
+  ContractOption,
+  ContractRails,
+  ContractRestructure,
   Guarantee,
+  CapCarryoverRules,
+  CapImpact,
   CapLedger,
+  DeadMoneyRules,
+  FranchiseTag,
+  FranchiseTagRules,
+  League,
+  LeagueAction,
+  LeagueCalendarEvent,
+  LeagueCalendarEventType,
+  LeaguePhase,
+  Pick as LeaguePick,
+  PickForfeiture,
+  PlayerProgression,
+  PhaseTransitionContext,
+  PlayerStats,
+  QualifyingOffer,
+  RestrictedFreeAgencyRules,
+  RookieScaleRules,
+  RosterSlot,
   Team,
+  SalaryRetention,
+  Trade,
+  TradeAsset,
+  TradeConsent,
+  TradePayload,
+  TradeReview,
+  TradeRules,
   Player,
   Position,
   FAWeek,
@@ -24,22 +54,91 @@ export class CapMath {
       return 0;
     }
 
-    const baseSalary = contract.baseSalary[year] || 0;
+    const baseSalary =
+      (contract.baseSalary[year] || 0) -
+      this.calculateRetainedSalary(contract, year);
     const proratedBonus = this.calculateProratedBonus(contract, year);
+    const likelyIncentives = this.calculateLikelyIncentives(contract, year);
+
+    return baseSalary + proratedBonus + likelyIncentives;
+  }
+
+  /**
+   * Base salary kept by teams that traded a player while retaining part of
+   * his salary. Pass a team to count only that team's retention.
+   */
+  static calculateRetainedSalary(
+    contract: Contract,
+    year: number,
+    teamId?: string
+  ): number {
+    const share = (contract.retentions || [])
+      .filter(
+        (retention) =>
+          year >= retention.fromYear && (!teamId || retention.teamId === teamId)
+      )
+      .reduce((total, retention) => total + retention.percentage, 0);
+
+    return Math.round((contract.baseSalary[year] || 0) * Math.min(1, share));
+  }
+
+  /**
+   * Cap hit of an exercised option year: the option salary plus the option
+   * bonus, which is paid and charged in that season
+   */
+  static calculateOptionCapHit(option: ContractOption): number {
+    return option.baseSalary + option.optionBonus;
+  }
 
-    return baseSalary + proratedBonus;
+  /**
+   * Incentives likely to be earned (LTBE) count against the cap in their year
+   */
+  static calculateLikelyIncentives(contract: Contract, year: number): number {
+    return (contract.incentives || [])
+      .filter(
+        (incentive) =>
+          incentive.year === year && incentive.classification === 'likely'
+      )
+      .reduce((total, incentive) => total + incentive.amount, 0);
   }
 
   /**
    * Calculate prorated signing bonus for a specific year
    */
   static calculateProratedBonus(contract: Contract, year: number): number {
-    if (contract.signingBonus === 0) return 0;
-
     const contractLength = contract.endYear - contract.startYear + 1;
     const maxProrationYears = Math.min(contractLength, 5); // NFL rule: max 5 years
 
-    return contract.signingBonus / maxProrationYears;
+    const signingBonusProration =
+      contract.signingBonus > 0 &&
+      year >= contract.startYear &&
+      year < contract.startYear + maxProrationYears
+        ? contract.signingBonus / maxProrationYears
+        : 0;
+
+    return (
+      signingBonusProration + this.calculateRestructureProration(contract, year)
+    );
+  }
+
+  /**
+   * Calculate the proration from restructured base salary for a specific year
+   */
+  static calculateRestructureProration(
+    contract: Contract,
+    year: number
+  ): number {
+    return (contract.restructures || [])
+      .filter(
+        (restructure) =>
+          year >= restructure.year &&
+          year < restructure.year + restructure.prorationYears
+      )
+      .reduce(
+        (total, restructure) =>
+          total + restructure.amount / restructure.prorationYears,
+        0
+      );
   }
 
   /**
@@ -77,13 +176,30 @@ export class CapMath {
     contract: Contract,
     throughYear: number
   ): number {
-    if (contract.signingBonus === 0) return 0;
-
     const totalProration = this.calculateTotalProration(contract);
     const yearsElapsed = Math.max(0, throughYear - contract.startYear + 1);
     const prorationPaid = totalProration * yearsElapsed;
+    const remainingSigningBonus = Math.max(
+      0,
+      contract.signingBonus - prorationPaid
+    );
+
+    // Restructured bonus amortizes on its own schedule from the restructure year
+    const remainingRestructureBonus = (contract.restructures || []).reduce(
+      (total, restructure) => {
+        const restructureYearsElapsed = Math.min(
+          restructure.prorationYears,
+          Math.max(0, throughYear - restructure.year + 1)
+        );
+        const paid =
+          (restructure.amount / restructure.prorationYears) *
+          restructureYearsElapsed;
+        return total + Math.max(0, restructure.amount - paid);
+      },
+      0
+    );
 
-    return Math.max(0, contract.signingBonus - prorationPaid);
+    return remainingSigningBonus + remainingRestructureBonus;
   }
 
   /**
@@ -101,12 +217,82 @@ export class CapMath {
   /**
    * Calculate guaranteed money for a contract
    */
-  static calculateGuaranteedMoney(contract: Contract, year: number): number {
+  static calculateGuaranteedMoney(
+    contract: Contract,
+    year: number,
+    onInjuredReserve = false
+  ): number {
     return contract.guarantees
       .filter((g) => g.year <= year)
+      .filter((g) => onInjuredReserve || this.isGuaranteeLocked(g, year))
       .reduce((total, guarantee) => total + guarantee.amount, 0);
   }
 
+  /**
+   * Whether a guarantee is owed regardless of injury as of a league year.
+   * Injury-only guarantees lock in once they vest.
+   */
+  static isGuaranteeLocked(guarantee: Guarantee, asOfYear: number): boolean {
+    return (
+      guarantee.type === 'full' ||
+      (guarantee.vestsInYear !== undefined && asOfYear >= guarantee.vestsInYear)
+    );
+  }
+
+  /**
+   * Unpaid guarantees owed if the contract ends in releaseYear, by year.
+   * Injury-only guarantees count only when vested or the player is on IR.
+   */
+  static calculateUnpaidGuarantees(
+    contract: Contract,
+    releaseYear: number,
+    onInjuredReserve = false
+  ): Record<number, number> {
+    return contract.guarantees
+      .filter((g) => g.year >= releaseYear)
+      .filter((g) => onInjuredReserve || this.isGuaranteeLocked(g, releaseYear))
+      .reduce((byYear, guarantee) => {
+        byYear[guarantee.year] =
+          (byYear[guarantee.year] || 0) + guarantee.amount;
+        return byYear;
+      }, {} as Record<number, number>);
+  }
+
+  /**
+   * Year-by-year view of when guaranteed money locks in, and the guaranteed
+   * dead money owed if the player is released in each year
+   */
+  static getGuaranteeVestingSchedule(
+    contract: Contract
+  ): GuaranteeVestingEntry[] {
+    const schedule: GuaranteeVestingEntry[] = [];
+
+    for (let year = contract.startYear; year <= contract.endYear; year++) {
+      const yearGuarantees = contract.guarantees.filter((g) => g.year === year);
+      const sumUnpaid = (onInjuredReserve: boolean) =>
+        Object.values(
+          this.calculateUnpaidGuarantees(contract, year, onInjuredReserve)
+        ).reduce((total, amount) => total + amount, 0);
+
+      schedule.push({
+        year,
+        fullyGuaranteed: yearGuarantees
+          .filter((g) => g.type === 'full')
+          .reduce((total, g) => total + g.amount, 0),
+        injuryGuaranteed: yearGuarantees
+          .filter((g) => g.type === 'injury-only')
+          .reduce((total, g) => total + g.amount, 0),
+        vestingAmount: contract.guarantees
+          .filter((g) => g.type === 'injury-only' && g.vestsInYear === year)
+          .reduce((total, g) => total + g.amount, 0),
+        lockedIfReleased: sumUnpaid(false),
+        lockedIfReleasedOnIR: sumUnpaid(true),
+      });
+    }
+
+    return schedule;
+  }
+
   /**
    * Validate if a team can afford a contract
    */
@@ -175,7 +361,8 @@ export class CapMath {
   }
 
   /**
-   * Calculate total cap hit for a team in a specific year
+   * Calculate total cap hit for a team in a specific year, including salary
+   * it retained on players it traded away
    */
   static calculateTeamCapHit(
     team: Team,
@@ -187,9 +374,2325 @@ export class CapMath {
         (contract) => year >= contract.startYear && year <= contract.endYear
       )
       .reduce(
-        (total, contract) => total + this.calculateCapHit(contract, year),
+        (total, contract) =>
+          total +
+          (contract.teamId === team.id
+            ? this.calculateCapHit(contract, year)
+            : 0) +
+          this.calculateRetainedSalary(contract, year, team.id),
+        0
+      );
+  }
+
+  /**
+   * Calculate cap hits for each remaining year of a contract, starting at fromYear
+   */
+  static calculateCapHitsByYear(
+    contract: Contract,
+    fromYear: number = contract.startYear
+  ): Record<number, number> {
+    const capHits: Record<number, number> = {};
+
+    for (
+      let year = Math.max(fromYear, contract.startYear);
+      year <= contract.endYear;
+      year++
+    ) {
+      capHits[year] = this.calculateCapHit(contract, year);
+    }
+
+    return capHits;
+  }
+
+  /**
+   * Validate a restructure request against a contract
+   */
+  static validateRestructure(
+    contract: Contract,
+    year: number,
+    amount: number
+  ): string[] {
+    const errors: string[] = [];
+
+    if (year < contract.startYear || year > contract.endYear) {
+      errors.push(`Year ${year} is outside the contract period`);
+    }
+
+    if (year === contract.endYear) {
+      errors.push('Cannot restructure in the final contract year');
+    }
+
+    if (amount <= 0) {
+      errors.push('Restructure amount must be greater than zero');
+    }
+
+    const baseSalary = contract.baseSalary[year] || 0;
+    if (amount > baseSalary) {
+      errors.push(
+        `Restructure amount cannot exceed the ${year} base salary of $${(
+          baseSalary / 1000000
+        ).toFixed(1)}M`
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * Convert part of a year's base salary into prorated signing bonus.
+   * The converted amount is spread across the remaining contract years
+   * (max 5), freeing current-year cap at the cost of future cap.
+   */
+  static restructureContract(
+    contract: Contract,
+    year: number,
+    amount: number
+  ): ContractRestructureResult {
+    const errors = this.validateRestructure(contract, year, amount);
+    const before = this.calculateCapHitsByYear(contract, year);
+
+    if (errors.length > 0) {
+      return {
+        isValid: false,
+        errors,
+        contract,
+        ledgerEntries: [],
+        capImpact: this.compareCapHits(before, before),
+      };
+    }
+
+    const prorationYears = Math.min(contract.endYear - year + 1, 5);
+    const restructure: ContractRestructure = {
+      id: `${contract.id}_restructure_${year}_${
+        (contract.restructures || []).length + 1
+      }`,
+      year,
+      amount,
+      prorationYears,
+      createdAt: new Date(),
+    };
+
+    const restructuredContract: Contract = {
+      ...contract,
+      baseSalary: {
+        ...contract.baseSalary,
+        [year]: (contract.baseSalary[year] || 0) - amount,
+      },
+      restructures: [...(contract.restructures || []), restructure],
+    };
+
+    const after = this.calculateCapHitsByYear(restructuredContract, year);
+
+    return {
+      isValid: true,
+      errors: [],
+      contract: restructuredContract,
+      restructure,
+      ledgerEntries: this.createRestructureLedgerEntries(
+        restructuredContract,
+        restructure
+      ),
+      capImpact: this.compareCapHits(before, after),
+    };
+  }
+
+  /**
+   * Create the cap ledger entries for a restructure: the converted base salary
+   * comes off the restructure year and the new proration is charged to each
+   * year it covers
+   */
+  static createRestructureLedgerEntries(
+    contract: Contract,
+    restructure: ContractRestructure
+  ): CapLedger[] {
+    const proration = restructure.amount / restructure.prorationYears;
+    const entries: CapLedger[] = [];
+
+    for (let i = 0; i < restructure.prorationYears; i++) {
+      const leagueYear = restructure.year + i;
+      entries.push({
+        id: `${restructure.id}_${leagueYear}`,
+        teamId: contract.teamId,
+        leagueYear,
+        capIn: i === 0 ? restructure.amount : 0,
+        capOut: proration,
+        reason:
+          i === 0
+            ? `Restructure: $${(restructure.amount / 1000000).toFixed(
+                1
+              )}M base salary converted to signing bonus`
+            : `Restructure proration from ${restructure.year}`,
+        refType: 'restructure',
+        refId: contract.id,
+        createdAt: restructure.createdAt,
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Compare two sets of per-year cap hits
+   */
+  static compareCapHits(
+    before: Record<number, number>,
+    after: Record<number, number>
+  ): CapHitComparison[] {
+    const years = Array.from(
+      new Set([...Object.keys(before), ...Object.keys(after)].map(Number))
+    ).sort((a, b) => a - b);
+
+    return years.map((year) => ({
+      year,
+      before: before[year] || 0,
+      after: after[year] || 0,
+      difference: (after[year] || 0) - (before[year] || 0),
+    }));
+  }
+
+  /**
+   * Validate a player release
+   */
+  static validateRelease(
+    contract: Contract,
+    releaseYear: number,
+    postJune1Designation: boolean,
+    designationsUsed: number,
+    deadMoneyRules: DeadMoneyRules
+  ): string[] {
+    const errors: string[] = [];
+
+    if (contract.status === 'released') {
+      errors.push('Contract has already been released');
+    }
+
+    if (releaseYear < contract.startYear || releaseYear > contract.endYear) {
+      errors.push(`Contract is not active in ${releaseYear}`);
+    }
+
+    if (postJune1Designation) {
+      const allowed = deadMoneyRules.postJune1Designations ?? 2;
+
+      if (!deadMoneyRules.preJune1) {
+        errors.push('All releases already use post-June 1 dead money rules');
+      } else if (designationsUsed >= allowed) {
+        errors.push(
+          `No post-June 1 designations remaining (${allowed} per season)`
+        );
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Calculate dead money by year for releasing a contract: remaining bonus
+   * plus unpaid guarantees. Pre-June 1 releases accelerate everything into the
+   * release year; post-June 1 releases (league default or a designation) split
+   * it over two years. Without acceleration each amount stays in its own year.
+   */
+  static calculateReleaseDeadMoney(
+    contract: Contract,
+    releaseYear: number,
+    deadMoneyRules: DeadMoneyRules,
+    postJune1Designation = false,
+    onInjuredReserve = false
+  ): Record<number, number> {
+    const deadMoneyByYear: Record<number, number> = {};
+
+    const unpaidGuarantees = this.calculateUnpaidGuarantees(
+      contract,
+      releaseYear,
+      onInjuredReserve
+    );
+    const addDeadMoney = (year: number, amount: number) => {
+      if (amount > 0) {
+        deadMoneyByYear[year] = (deadMoneyByYear[year] || 0) + amount;
+      }
+    };
+
+    if (!deadMoneyRules.signingBonusAcceleration) {
+      for (let year = releaseYear; year <= contract.endYear; year++) {
+        addDeadMoney(year, this.calculateProratedBonus(contract, year));
+        addDeadMoney(year, unpaidGuarantees[year] || 0);
+      }
+      return deadMoneyByYear;
+    }
+
+    const preJune1 = deadMoneyRules.preJune1 && !postJune1Designation;
+    const deadMoney = this.calculateDeadMoney(contract, releaseYear, preJune1);
+    const currentYearGuarantees = unpaidGuarantees[releaseYear] || 0;
+    const futureGuarantees = Object.entries(unpaidGuarantees)
+      .filter(([year]) => Number(year) > releaseYear)
+      .reduce((total, [, amount]) => total + amount, 0);
+
+    // Guarantees accelerate on the same schedule as remaining bonus
+    addDeadMoney(releaseYear, deadMoney.currentYear + currentYearGuarantees);
+    if (preJune1) {
+      addDeadMoney(releaseYear, futureGuarantees);
+    } else {
+      addDeadMoney(releaseYear + 1, deadMoney.nextYear + futureGuarantees);
+    }
+
+    return deadMoneyByYear;
+  }
+
+  /**
+   * Release a contract: remove its remaining cap hits and charge dead money.
+   * Ledger credits and dead money charges are separate 'cut' entries.
+   */
+  static releaseContract(
+    contract: Contract,
+    releaseYear: number,
+    deadMoneyRules: DeadMoneyRules,
+    postJune1Designation = false,
+    designationsUsed = 0,
+    onInjuredReserve = false
+  ): ContractReleaseResult {
+    const errors = this.validateRelease(
+      contract,
+      releaseYear,
+      postJune1Designation,
+      designationsUsed,
+      deadMoneyRules
+    );
+
+    if (errors.length > 0) {
+      return {
+        isValid: false,
+        errors,
+        contract,
+        deadMoneyByYear: {},
+        capSavings: 0,
+        ledgerEntries: [],
+      };
+    }
+
+    const deadMoneyByYear = this.calculateReleaseDeadMoney(
+      contract,
+      releaseYear,
+      deadMoneyRules,
+      postJune1Designation,
+      onInjuredReserve
+    );
+    const removedCapHits = this.calculateCapHitsByYear(contract, releaseYear);
+    const createdAt = new Date();
+    const ledgerEntries: CapLedger[] = [];
+
+    Object.entries(removedCapHits).forEach(([year, capHit]) => {
+      if (capHit <= 0) return;
+      ledgerEntries.push({
+        id: `${contract.id}_release_${year}`,
+        teamId: contract.teamId,
+        leagueYear: Number(year),
+        capIn: capHit,
+        capOut: 0,
+        reason: 'Player released: contract removed',
+        refType: 'cut',
+        refId: contract.id,
+        createdAt,
+      });
+    });
+
+    Object.entries(deadMoneyByYear).forEach(([year, deadMoney]) => {
+      ledgerEntries.push({
+        id: `${contract.id}_dead_${year}`,
+        teamId: contract.teamId,
+        leagueYear: Number(year),
+        capIn: 0,
+        capOut: deadMoney,
+        reason: postJune1Designation
+          ? 'Dead money (post-June 1 designation)'
+          : 'Dead money',
+        refType: 'cut',
+        refId: contract.id,
+        createdAt,
+      });
+    });
+
+    return {
+      isValid: true,
+      errors: [],
+      contract: {
+        ...contract,
+        status: 'released',
+        releasedYear: releaseYear,
+      },
+      deadMoneyByYear,
+      capSavings:
+        (removedCapHits[releaseYear] || 0) -
+        (deadMoneyByYear[releaseYear] || 0),
+      ledgerEntries,
+    };
+  }
+
+  /**
+   * Project the salary cap a number of years ahead
+   */
+  static projectSalaryCap(
+    currentYearCap: number,
+    projectedCapGrowth: number,
+    yearsAhead: number
+  ): number {
+    return Math.round(
+      currentYearCap * Math.pow(1 + projectedCapGrowth, yearsAhead)
+    );
+  }
+
+  /**
+   * Unused cap space carried into the next league year under the league's
+   * carryover rules
+   */
+  static calculateCarryover(
+    unusedCapSpace: number,
+    rules?: CapCarryoverRules
+  ): number {
+    if (!rules || unusedCapSpace <= 0) {
+      return 0;
+    }
+
+    const carryover = Math.round(
+      unusedCapSpace * Math.min(Math.max(rules.percentage, 0), 1)
+    );
+    return rules.maxAmount !== undefined
+      ? Math.min(carryover, rules.maxAmount)
+      : carryover;
+  }
+
+  /**
+   * Build a multi-year cap projection for a team. Dead money comes from cut
+   * charges in the cap ledger (released contracts should be excluded from
+   * `contracts`); cap holds only apply to the first year. Carryover is taken
+   * from the ledger once recorded, otherwise projected from the previous
+   * year's cap space when the league allows it.
+   */
+  static buildCapProjection(
+    contracts: Contract[],
+    ledgerEntries: CapLedger[],
+    capHolds: number,
+    startYear: number,
+    currentYearCap: number,
+    projectedCapGrowth: number,
+    years = 5,
+    carryoverRules?: CapCarryoverRules
+  ): CapProjectionYear[] {
+    const projection: CapProjectionYear[] = [];
+
+    for (let i = 0; i < years; i++) {
+      const year = startYear + i;
+      const activeContracts = contracts.filter(
+        (contract) => year >= contract.startYear && year <= contract.endYear
+      );
+
+      const committedSalary = activeContracts.reduce(
+        (total, contract) =>
+          total +
+          (contract.baseSalary[year] || 0) -
+          this.calculateRetainedSalary(contract, year),
+        0
+      );
+      const proratedBonus = activeContracts.reduce(
+        (total, contract) =>
+          total + this.calculateProratedBonus(contract, year),
         0
       );
+      const likelyIncentives = activeContracts.reduce(
+        (total, contract) =>
+          total + this.calculateLikelyIncentives(contract, year),
+        0
+      );
+      const deadMoney = ledgerEntries
+        .filter(
+          (entry) =>
+            entry.leagueYear === year &&
+            (entry.refType === 'cut' || entry.refType === 'retention')
+        )
+        .reduce((total, entry) => total + entry.capOut, 0);
+      const yearCapHolds = i === 0 ? capHolds : 0;
+
+      const carryoverEntries = ledgerEntries.filter(
+        (entry) => entry.leagueYear === year && entry.refType === 'carryover'
+      );
+      const carryover =
+        carryoverEntries.length > 0 || i === 0
+          ? carryoverEntries.reduce((total, entry) => total + entry.capIn, 0)
+          : this.calculateCarryover(projection[i - 1].capSpace, carryoverRules);
+
+      const salaryCap = this.projectSalaryCap(
+        currentYearCap,
+        projectedCapGrowth,
+        i
+      );
+      const totalCapHit =
+        committedSalary +
+        proratedBonus +
+        likelyIncentives +
+        deadMoney +
+        yearCapHolds;
+
+      projection.push({
+        year,
+        salaryCap,
+        carryover,
+        committedSalary,
+        proratedBonus,
+        likelyIncentives,
+        deadMoney,
+        capHolds: yearCapHolds,
+        totalCapHit,
+        capSpace: salaryCap + carryover - totalCapHit,
+        contractCount: activeContracts.length,
+      });
+    }
+
+    return projection;
+  }
+}
+
+export interface CapHitComparison {
+  year: number;
+  before: number;
+  after: number;
+  difference: number; // positive = more cap used
+}
+
+export interface CapProjectionYear {
+  year: number;
+  salaryCap: number; // projected using league cap growth
+  carryover: number; // unused cap space rolled over from the previous year
+  committedSalary: number; // base salaries, less salary retained by former teams
+  proratedBonus: number; // signing bonus + restructure proration
+  likelyIncentives: number; // LTBE incentives
+  deadMoney: number; // released contracts and salary retained in trades
+  capHolds: number;
+  totalCapHit: number;
+  capSpace: number;
+  contractCount: number;
+}
+
+export interface GuaranteeVestingEntry {
+  year: number;
+  fullyGuaranteed: number; // this year's salary guaranteed for skill, cap and injury
+  injuryGuaranteed: number; // this year's salary guaranteed for injury only
+  vestingAmount: number; // injury-only guarantees that lock in this year
+  lockedIfReleased: number; // unpaid guarantees owed if released this year
+  lockedIfReleasedOnIR: number; // same, when the player is on IR at release
+}
+
+export interface ContractReleaseResult {
+  isValid: boolean;
+  errors: string[];
+  contract: Contract;
+  deadMoneyByYear: Record<number, number>;
+  capSavings: number; // release-year cap freed after dead money
+  ledgerEntries: CapLedger[];
+}
+
+export interface ContractRestructureResult {
+  isValid: boolean;
+  errors: string[];
+  contract: Contract;
+  restructure?: ContractRestructure;
+  ledgerEntries: CapLedger[];
+  capImpact: CapHitComparison[];
+}
+
+export class CapLedgerService {
+  /**
+   * Recover the contract as originally signed by undoing any restructures
+   */
+  static getOriginalContract(contract: Contract): Contract {
+    const baseSalary = { ...contract.baseSalary };
+
+    (contract.restructures || []).forEach((restructure) => {
+      baseSalary[restructure.year] =
+        (baseSalary[restructure.year] || 0) + restructure.amount;
+    });
+
+    return { ...contract, baseSalary, restructures: [] };
+  }
+
+  /**
+   * Create one ledger entry per contract year for the cap hit as signed.
+   * Later changes (restructures, cuts, trades) are recorded as their own entries.
+   */
+  static createContractEntries(contract: Contract): CapLedger[] {
+    const original = this.getOriginalContract(contract);
+    const entries: CapLedger[] = [];
+
+    for (let year = original.startYear; year <= original.endYear; year++) {
+      entries.push({
+        id: `${contract.id}_contract_${year}`,
+        teamId: contract.teamId,
+        leagueYear: year,
+        capIn: 0,
+        capOut: CapMath.calculateCapHit(original, year),
+        reason: 'Contract signed',
+        refType: 'contract',
+        refId: contract.id,
+        createdAt: contract.createdAt,
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Credit a team's unused cap space from one league year to the next
+   */
+  static createCarryoverEntry(
+    teamId: string,
+    fromYear: number,
+    amount: number
+  ): CapLedger {
+    return {
+      id: `${teamId}_carryover_${fromYear + 1}`,
+      teamId,
+      leagueYear: fromYear + 1,
+      capIn: amount,
+      capOut: 0,
+      reason: `Unused cap space carried over from ${fromYear}`,
+      refType: 'carryover',
+      refId: `${teamId}_${fromYear}`,
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * Net cap charged to a team in a league year (capOut - capIn)
+   */
+  static calculateNetCapCharge(
+    entries: CapLedger[],
+    leagueYear: number
+  ): number {
+    return entries
+      .filter((entry) => entry.leagueYear === leagueYear)
+      .reduce((total, entry) => total + entry.capOut - entry.capIn, 0);
+  }
+
+  /**
+   * Derive a team's cap space for a league year from its ledger
+   */
+  static calculateCapSpace(
+    entries: CapLedger[],
+    leagueYear: number,
+    salaryCap: number
+  ): number {
+    return salaryCap - this.calculateNetCapCharge(entries, leagueYear);
+  }
+
+  /**
+   * Summarize ledger activity per league year
+   */
+  static summarizeByYear(entries: CapLedger[]): CapLedgerYearSummary[] {
+    const byYear = new Map<number, CapLedgerYearSummary>();
+
+    entries.forEach((entry) => {
+      const summary = byYear.get(entry.leagueYear) || {
+        leagueYear: entry.leagueYear,
+        capIn: 0,
+        capOut: 0,
+        netCharge: 0,
+      };
+      summary.capIn += entry.capIn;
+      summary.capOut += entry.capOut;
+      summary.netCharge = summary.capOut - summary.capIn;
+      byYear.set(entry.leagueYear, summary);
+    });
+
+    return Array.from(byYear.values()).sort(
+      (a, b) => a.leagueYear - b.leagueYear
+    );
+  }
+
+  /**
+   * Rebuild a team's ledger from scratch. Contract entries are regenerated from
+   * the team's contracts; all other entries (cuts, trades, restructures,
+   * penalties) are kept as recorded.
+   */
+  static rebuildTeamLedger(
+    teamId: string,
+    contracts: Contract[],
+    existingEntries: CapLedger[]
+  ): CapLedger[] {
+    const preservedEntries = existingEntries.filter(
+      (entry) => entry.teamId === teamId && entry.refType !== 'contract'
+    );
+    const contractEntries = contracts
+      .filter((contract) => contract.teamId === teamId)
+      .flatMap((contract) => this.createContractEntries(contract));
+
+    return [...contractEntries, ...preservedEntries];
+  }
+
+  /**
+   * Compare a team's stored cap space against the ledger
+   */
+  static checkConsistency(
+    team: Team,
+    entries: CapLedger[],
+    leagueYear: number,
+    salaryCap: number,
+    tolerance = 1
+  ): CapConsistencyResult {
+    const ledgerCapSpace = this.calculateCapSpace(
+      entries.filter((entry) => entry.teamId === team.id),
+      leagueYear,
+      salaryCap
+    );
+    const difference = team.capSpace - ledgerCapSpace;
+
+    return {
+      teamId: team.id,
+      leagueYear,
+      storedCapSpace: team.capSpace,
+      ledgerCapSpace,
+      difference,
+      isConsistent: Math.abs(difference) <= tolerance,
+    };
+  }
+}
+
+export interface CapLedgerYearSummary {
+  leagueYear: number;
+  capIn: number;
+  capOut: number;
+  netCharge: number;
+}
+
+export interface CapConsistencyResult {
+  teamId: string;
+  leagueYear: number;
+  storedCapSpace: number;
+  ledgerCapSpace: number;
+  difference: number; // stored - ledger; positive = team thinks it has more space
+  isConsistent: boolean;
+}
+
+export class MinimumSpendCalculator {
+  /**
+   * Cash paid out by a team in a league year: base salaries, signing bonuses
+   * in the year signed and restructure conversions in the year converted.
+   * Released contracts count through their dead money charges instead.
+   */
+  static calculateCashSpend(
+    contracts: Contract[],
+    ledgerEntries: CapLedger[],
+    leagueYear: number
+  ): number {
+    const contractCash = contracts
+      .filter(
+        (contract) =>
+          contract.status !== 'released' &&
+          leagueYear >= contract.startYear &&
+          leagueYear <= contract.endYear
+      )
+      .reduce((total, contract) => {
+        const signingBonus =
+          contract.startYear === leagueYear ? contract.signingBonus : 0;
+        const restructured = (contract.restructures || [])
+          .filter((restructure) => restructure.year === leagueYear)
+          .reduce((sum, restructure) => sum + restructure.amount, 0);
+
+        return (
+          total +
+          (contract.baseSalary[leagueYear] || 0) +
+          signingBonus +
+          restructured
+        );
+      }, 0);
+    const deadMoney = ledgerEntries
+      .filter(
+        (entry) => entry.leagueYear === leagueYear && entry.refType === 'cut'
+      )
+      .reduce((total, entry) => total + entry.capOut, 0);
+
+    return contractCash + deadMoney;
+  }
+
+  /**
+   * Compare a team's cash spend for a league year against the league floor
+   */
+  static evaluateTeam(
+    teamId: string,
+    contracts: Contract[],
+    ledgerEntries: CapLedger[],
+    leagueYear: number,
+    minimumSpend: number
+  ): MinimumSpendStatus {
+    const cashSpend = this.calculateCashSpend(
+      contracts.filter((contract) => contract.teamId === teamId),
+      ledgerEntries.filter((entry) => entry.teamId === teamId),
+      leagueYear
+    );
+    const shortfall = Math.max(0, minimumSpend - cashSpend);
+
+    return {
+      teamId,
+      leagueYear,
+      cashSpend,
+      minimumSpend,
+      shortfall,
+      isCompliant: shortfall === 0,
+    };
+  }
+
+  /**
+   * Charge a team's shortfall against next year's cap
+   */
+  static createCapPenaltyEntry(status: MinimumSpendStatus): CapLedger {
+    return {
+      id: `${status.teamId}_minimum_spend_${status.leagueYear + 1}`,
+      teamId: status.teamId,
+      leagueYear: status.leagueYear + 1,
+      capIn: 0,
+      capOut: status.shortfall,
+      reason: `Minimum spend shortfall from ${status.leagueYear}`,
+      refType: 'penalty',
+      refId: `${status.teamId}_${status.leagueYear}`,
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * Forfeit a team's pick in next year's draft for missing the floor
+   */
+  static createPickForfeiture(
+    leagueId: string,
+    status: MinimumSpendStatus,
+    round = 1
+  ): PickForfeiture {
+    return {
+      id: `${leagueId}_${status.teamId}_${status.leagueYear + 1}_${round}`,
+      leagueId,
+      teamId: status.teamId,
+      year: status.leagueYear + 1,
+      round,
+      reason: `Minimum spend shortfall from ${status.leagueYear}`,
+      createdAt: new Date(),
+    };
+  }
+}
+
+export interface MinimumSpendStatus {
+  teamId: string;
+  leagueYear: number;
+  cashSpend: number;
+  minimumSpend: number;
+  shortfall: number; // 0 when the team is at or above the floor
+  isCompliant: boolean;
+}
+
+export class IncentiveCalculator {
+  /**
+   * A player's season total for a stat across weekly stat lines
+   */
+  static getSeasonTotal(
+    stats: Pick<PlayerStats, 'year' | 'rawStats'>[],
+    stat: string,
+    year: number
+  ): number {
+    return stats
+      .filter((line) => line.year === year)
+      .reduce((total, line) => total + (line.rawStats[stat] || 0), 0);
+  }
+
+  /**
+   * Classify incentives for a league year as likely to be earned when the
+   * player already reached the threshold in the prior season. Incentives for
+   * other years keep their classification.
+   */
+  static classifyIncentives(
+    incentives: ContractIncentive[],
+    stats: Pick<PlayerStats, 'year' | 'rawStats'>[],
+    year: number
+  ): ContractIncentive[] {
+    return incentives.map((incentive) =>
+      incentive.year === year
+        ? {
+            ...incentive,
+            classification:
+              this.getSeasonTotal(stats, incentive.stat, year - 1) >=
+              incentive.threshold
+                ? 'likely'
+                : 'unlikely',
+          }
+        : incentive
+    );
+  }
+
+  /**
+   * Settle a contract's incentives for a completed season. Unearned LTBE
+   * incentives are credited back and earned NLTBE incentives are charged,
+   * both against the next league year.
+   */
+  static settleIncentives(
+    contract: Contract,
+    stats: Pick<PlayerStats, 'year' | 'rawStats'>[],
+    year: number
+  ): IncentiveSettlement[] {
+    return (contract.incentives || [])
+      .filter((incentive) => incentive.year === year)
+      .map((incentive) => {
+        const earned =
+          this.getSeasonTotal(stats, incentive.stat, year) >=
+          incentive.threshold;
+        const likely = incentive.classification === 'likely';
+
+        return {
+          incentiveId: incentive.id,
+          year,
+          amount: incentive.amount,
+          earned,
+          capAdjustment:
+            earned && !likely
+              ? incentive.amount
+              : !earned && likely
+              ? -incentive.amount
+              : 0,
+        };
+      });
+  }
+
+  /**
+   * Next-year ledger adjustments for settled incentives
+   */
+  static createSettlementEntries(
+    contract: Contract,
+    settlements: IncentiveSettlement[]
+  ): CapLedger[] {
+    return settlements
+      .filter((settlement) => settlement.capAdjustment !== 0)
+      .map((settlement) => ({
+        id: `${contract.id}_incentive_${settlement.incentiveId}`,
+        teamId: contract.teamId,
+        leagueYear: settlement.year + 1,
+        capIn: Math.max(0, -settlement.capAdjustment),
+        capOut: Math.max(0, settlement.capAdjustment),
+        reason:
+          settlement.capAdjustment > 0
+            ? `Unlikely incentive earned in ${settlement.year}`
+            : `Likely incentive not earned in ${settlement.year}`,
+        refType: 'incentive' as const,
+        refId: contract.id,
+        createdAt: new Date(),
+      }));
+  }
+}
+
+export interface IncentiveSettlement {
+  incentiveId: string;
+  year: number; // season the incentive was settled for
+  amount: number;
+  earned: boolean;
+  capAdjustment: number; // positive = next-year charge, negative = credit
+}
+
+export class ContractOptionCalculator {
+  /**
+   * The undecided option for the season after a contract's final year
+   */
+  static getPendingOption(contract: Contract): ContractOption | undefined {
+    return (contract.options || []).find(
+      (option) => option.year === contract.endYear + 1 && !option.status
+    );
+  }
+
+  /**
+   * Whether the option's deadline has passed
+   */
+  static isPastDeadline(option: ContractOption, date: Date): boolean {
+    const [month, day] = option.deadline.split('-').map(Number);
+    return date > new Date(option.year - 1, month - 1, day, 23, 59, 59);
+  }
+
+  /**
+   * Check a team's decision on a team option
+   */
+  static validateOptionDecision(
+    contract: Contract,
+    leagueYear: number,
+    date: Date
+  ): string[] {
+    const errors: string[] = [];
+    const option = this.getPendingOption(contract);
+
+    if (!option) {
+      errors.push('Contract has no undecided option year');
+      return errors;
+    }
+    if (option.holder !== 'team') {
+      errors.push('Only the player can decide a player option');
+    }
+    if (leagueYear !== contract.endYear) {
+      errors.push('Options can only be decided in the final contract year');
+    }
+    if (this.isPastDeadline(option, date)) {
+      errors.push(`The option deadline (${option.deadline}) has passed`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Players exercise an option that pays at least their current average
+   * salary; otherwise they test free agency
+   */
+  static shouldPlayerExercise(
+    contract: Contract,
+    option: ContractOption
+  ): boolean {
+    const years = contract.endYear - contract.startYear + 1;
+    const totalSalary = Object.values(contract.baseSalary).reduce(
+      (total, salary) => total + salary,
+      0
+    );
+    const averageSalary = (totalSalary + contract.signingBonus) / years;
+
+    return CapMath.calculateOptionCapHit(option) >= averageSalary;
+  }
+
+  /**
+   * Record the decision on the contract's pending option
+   */
+  static decideOption(contract: Contract, exercise: boolean): Contract {
+    const pending = this.getPendingOption(contract);
+
+    return {
+      ...contract,
+      options: (contract.options || []).map(
+        (option): ContractOption =>
+          option.year === pending?.year
+            ? { ...option, status: exercise ? 'exercised' : 'declined' }
+            : option
+      ),
+    };
+  }
+
+  /**
+   * One-year contract for an exercised option. Later option years carry over
+   * so they can be decided when the option year is the final year.
+   */
+  static createOptionContract(
+    contract: Contract,
+    option: ContractOption
+  ): Contract {
+    return {
+      id: `${contract.id}_option_${option.year}`,
+      playerId: contract.playerId,
+      teamId: contract.teamId,
+      startYear: option.year,
+      endYear: option.year,
+      baseSalary: { [option.year]: option.baseSalary },
+      signingBonus: option.optionBonus,
+      guarantees: [],
+      noTradeClause: contract.noTradeClause,
+      restructures: [],
+      status: 'active',
+      extendsContractId: contract.id,
+      options: (contract.options || []).filter(
+        (laterOption) => laterOption.year > option.year
+      ),
+      createdAt: new Date(),
+    };
+  }
+}
+
+export class CapComplianceChecker {
+  /**
+   * Check that a transaction leaves a team under the cap in every league year
+   * it adds cap charges to. Future caps grow at the league's projected rate
+   * and cap holds count against the current league year only.
+   */
+  static checkTransaction(
+    teamId: string,
+    ledger: CapLedger[],
+    changes: CapLedger[],
+    leagueYear: number,
+    salaryCap: number,
+    projectedCapGrowth: number,
+    capHolds = 0,
+    addedCapHolds = 0
+  ): CapComplianceResult {
+    const affectedYears = [
+      ...new Set(
+        changes
+          .map((entry) => entry.leagueYear)
+          .filter(
+            (year) =>
+              year >= leagueYear &&
+              CapLedgerService.calculateNetCapCharge(changes, year) > 0
+          )
+      ),
+    ];
+    if (addedCapHolds > 0 && !affectedYears.includes(leagueYear)) {
+      affectedYears.push(leagueYear);
+    }
+
+    const entries = [...ledger, ...changes];
+    const years = affectedYears
+      .sort((a, b) => a - b)
+      .map((year) => {
+        const yearCap = CapMath.projectSalaryCap(
+          salaryCap,
+          projectedCapGrowth,
+          year - leagueYear
+        );
+        const capCharge =
+          CapLedgerService.calculateNetCapCharge(entries, year) +
+          (year === leagueYear ? capHolds + addedCapHolds : 0);
+
+        return {
+          year,
+          salaryCap: yearCap,
+          capCharge,
+          shortfall: Math.max(0, capCharge - yearCap),
+        };
+      });
+
+    return {
+      teamId,
+      isCompliant: years.every((year) => year.shortfall === 0),
+      years,
+    };
+  }
+
+  /**
+   * Explain the years a transaction would put a team over the cap
+   */
+  static describeShortfalls(result: CapComplianceResult): string {
+    return result.years
+      .filter((year) => year.shortfall > 0)
+      .map(
+        (year) => `${year.year} by $${year.shortfall.toLocaleString('en-US')}`
+      )
+      .join(', ');
+  }
+}
+
+export interface CapComplianceYear {
+  year: number;
+  salaryCap: number; // projected for future years
+  capCharge: number; // net ledger charge after the transaction, plus cap holds
+  shortfall: number; // amount over the cap, 0 when compliant
+}
+
+export interface CapComplianceResult {
+  teamId: string;
+  isCompliant: boolean;
+  years: CapComplianceYear[]; // league years the transaction adds charges to
+}
+
+export class SeasonRolloverCalculator {
+  /**
+   * Contracts that run out at the end of a league year. Players kept on the
+   * same team by an extension or exercised option do not expire.
+   */
+  static getExpiringContracts(
+    contracts: Contract[],
+    fromYear: number
+  ): Contract[] {
+    const live = contracts.filter(
+      (contract) =>
+        contract.status !== 'released' && contract.status !== 'expired'
+    );
+
+    return live.filter(
+      (contract) =>
+        contract.endYear <= fromYear &&
+        !live.some(
+          (other) =>
+            other.playerId === contract.playerId &&
+            other.teamId === contract.teamId &&
+            other.endYear > fromYear
+        )
+    );
+  }
+
+  /**
+   * Age a player one season. Players improve by their development grade up
+   * to their position's peak age, hold for two seasons, then decline.
+   */
+  static progressPlayer(
+    player: Pick<Player, 'id' | 'position' | 'age' | 'overall' | 'devGrade'> & {
+      yearsExp?: number;
+    }
+  ): PlayerProgression {
+    const age = player.age + 1;
+    const peakAge = this.getPeakAge(player.position);
+    const change =
+      player.position === 'DEF'
+        ? 0
+        : age <= peakAge
+        ? this.getDevelopmentGrowth(player.devGrade)
+        : -Math.min(6, Math.max(0, 2 * (age - peakAge - 2)));
+    const overall = Math.max(40, Math.min(99, player.overall + change));
+
+    return {
+      playerId: player.id,
+      age,
+      yearsExp: (player.yearsExp || 0) + 1,
+      overall,
+      devGrade: this.getDevGrade(overall, age, player.position),
+      previousOverall: player.overall,
+      previousDevGrade: player.devGrade,
+    };
+  }
+
+  /**
+   * Development grade from overall rating. Players past their peak have no
+   * development left.
+   */
+  static getDevGrade(
+    overall: number,
+    age: number,
+    position: Position
+  ): Player['devGrade'] {
+    if (age > this.getPeakAge(position)) return 'D';
+    if (overall >= 90) return 'A';
+    if (overall >= 85) return 'B';
+    if (overall >= 80) return 'C';
+    return 'D';
+  }
+
+  /**
+   * Pick inventory for a draft year. Picks already tracked for the year keep
+   * their current owner; missing picks belong to their original team.
+   */
+  static carryOverPicks(
+    picks: LeaguePick[],
+    leagueId: string,
+    teamIds: string[],
+    draftYear: number,
+    rounds: number
+  ): LeaguePick[] {
+    const inventory: LeaguePick[] = [];
+
+    for (let round = 1; round <= rounds; round++) {
+      teamIds.forEach((teamId) => {
+        const existing = picks.find(
+          (pick) =>
+            pick.year === draftYear &&
+            pick.round === round &&
+            pick.originalTeamId === teamId
+        );
+
+        inventory.push(
+          existing || {
+            id: DraftPickInventory.getPickId(
+              leagueId,
+              draftYear,
+              round,
+              teamId
+            ),
+            leagueId,
+            year: draftYear,
+            round,
+            originalTeamId: teamId,
+            currentTeamId: teamId,
+          }
+        );
+      });
+    }
+
+    return inventory;
+  }
+
+  private static getDevelopmentGrowth(devGrade: Player['devGrade']): number {
+    switch (devGrade) {
+      case 'A':
+        return 4;
+      case 'B':
+        return 3;
+      case 'C':
+        return 2;
+      default:
+        return 1;
+    }
+  }
+
+  private static getPeakAge(position: Position): number {
+    switch (position) {
+      case 'QB':
+        return 30; // QBs play longest
+      case 'RB':
+        return 26; // RBs age quickly
+      case 'K':
+        return 32;
+      default:
+        return 28;
+    }
+  }
+}
+
+export class DraftPickInventory {
+  /**
+   * Draft years a league keeps pick inventories for: the next three drafts
+   * after this league year's, plus this year's draft until it starts
+   */
+  static getDraftYears(
+    currentYear: number,
+    includeCurrent: boolean,
+    futureDrafts = 3
+  ): number[] {
+    const years = Array.from(
+      { length: futureDrafts },
+      (_, index) => currentYear + index + 1
+    );
+    return includeCurrent ? [currentYear, ...years] : years;
+  }
+
+  /**
+   * Pick inventory for every team across several drafts. Picks already
+   * tracked keep their current owner.
+   */
+  static buildInventory(
+    picks: LeaguePick[],
+    leagueId: string,
+    teamIds: string[],
+    draftYears: number[],
+    rounds: number
+  ): LeaguePick[] {
+    return draftYears.flatMap((draftYear) =>
+      SeasonRolloverCalculator.carryOverPicks(
+        picks,
+        leagueId,
+        teamIds,
+        draftYear,
+        rounds
+      )
+    );
+  }
+
+  /**
+   * Pick ID shared by a pick's future inventory entry and its draft board slot
+   */
+  static getPickId(
+    leagueId: string,
+    draftYear: number,
+    round: number,
+    originalTeamId: string
+  ): string {
+    return `${leagueId}_${draftYear}_${round}_${originalTeamId}`;
+  }
+
+  /**
+   * Team holding a team's pick in a draft round, the original team unless
+   * the pick was traded
+   */
+  static getOwner(
+    picks: LeaguePick[],
+    draftYear: number,
+    round: number,
+    originalTeamId: string
+  ): string {
+    return (
+      picks.find(
+        (pick) =>
+          pick.year === draftYear &&
+          pick.round === round &&
+          pick.originalTeamId === originalTeamId
+      )?.currentTeamId || originalTeamId
+    );
+  }
+}
+
+export class LeaguePhaseMachine {
+  /**
+   * Phases in season order. A completed season returns to the offseason
+   * through the season rollover.
+   */
+  static getPhaseOrder(): LeaguePhase[] {
+    return [
+      LeaguePhase.offseason,
+      LeaguePhase.draft,
+      LeaguePhase['free-agency'],
+      LeaguePhase.preseason,
+      LeaguePhase['regular-season'],
+      LeaguePhase.playoffs,
+      LeaguePhase.completed,
+    ];
+  }
+
+  /**
+   * Map legacy phase values onto the state machine
+   */
+  static normalizePhase(phase?: string): LeaguePhase {
+    if (phase === 'drafting' || phase === 'post-draft') {
+      return LeaguePhase.draft;
+    }
+    return (
+      this.getPhaseOrder().find((value) => value === phase) ||
+      LeaguePhase.offseason
+    );
+  }
+
+  /**
+   * The phase a league moves to next, if it can advance
+   */
+  static getNextPhase(phase?: string): LeaguePhase | undefined {
+    const order = this.getPhaseOrder();
+    return order[order.indexOf(this.normalizePhase(phase)) + 1];
+  }
+
+  /**
+   * Validate moving a league to a new phase
+   */
+  static validateTransition(
+    from: string | undefined,
+    to: LeaguePhase,
+    context: PhaseTransitionContext
+  ): string[] {
+    const errors: string[] = [];
+    const current = this.normalizePhase(from);
+
+    if (this.getNextPhase(current) !== to) {
+      errors.push(`Cannot move from ${current} to ${to}`);
+      return errors;
+    }
+
+    switch (to) {
+      case LeaguePhase.draft:
+        if (context.teamCount < 2) {
+          errors.push('Need at least 2 teams to start the draft');
+        }
+        break;
+      case LeaguePhase['free-agency']:
+        if (!context.draftComplete) {
+          errors.push('The draft must be complete before free agency opens');
+        }
+        if (context.unresolvedRights > 0) {
+          errors.push(
+            `${context.unresolvedRights} drafted player(s) still need to be signed or released`
+          );
+        }
+        break;
+      case LeaguePhase.preseason:
+        if (context.openBids > 0) {
+          errors.push(`${context.openBids} free agency bid(s) are still open`);
+        }
+        if (context.pendingMatches > 0) {
+          errors.push(
+            `${context.pendingMatches} offer sheet(s) are awaiting a match decision`
+          );
+        }
+        break;
+      case LeaguePhase['regular-season']:
+        if (context.teamsOverCap > 0) {
+          errors.push(`${context.teamsOverCap} team(s) are over the cap`);
+        }
+        break;
+    }
+
+    return errors;
+  }
+
+  /**
+   * Whether an action can be taken during a phase
+   */
+  static isActionAllowed(
+    phase: string | undefined,
+    action: LeagueAction
+  ): boolean {
+    return this.getAllowedPhases(action).includes(this.normalizePhase(phase));
+  }
+
+  /**
+   * Phases during which an action can be taken
+   */
+  static getAllowedPhases(action: LeagueAction): LeaguePhase[] {
+    switch (action) {
+      case 'initializeDraft':
+        return [LeaguePhase.offseason, LeaguePhase.draft];
+      case 'draftPick':
+        return [LeaguePhase.draft];
+      case 'freeAgencyBid':
+        return [LeaguePhase['free-agency']];
+      case 'franchiseTag':
+      case 'qualifyingOffer':
+        return [LeaguePhase.offseason];
+      case 'contractOption':
+        return [
+          LeaguePhase.offseason,
+          LeaguePhase.draft,
+          LeaguePhase['free-agency'],
+        ];
+      case 'restructure':
+        return [
+          LeaguePhase.offseason,
+          LeaguePhase.draft,
+          LeaguePhase['free-agency'],
+          LeaguePhase.preseason,
+        ];
+      case 'extension':
+      case 'release':
+      case 'trade':
+        return [
+          LeaguePhase.offseason,
+          LeaguePhase.draft,
+          LeaguePhase['free-agency'],
+          LeaguePhase.preseason,
+          LeaguePhase['regular-season'],
+        ];
+      case 'settleIncentives':
+      case 'seasonRollover':
+        return [LeaguePhase.completed];
+    }
+  }
+
+  /**
+   * League status shown alongside a phase
+   */
+  static getLeagueStatus(phase: LeaguePhase): League['status'] {
+    switch (phase) {
+      case LeaguePhase.draft:
+        return 'drafting';
+      case LeaguePhase['free-agency']:
+        return 'free-agency';
+      case LeaguePhase.completed:
+        return 'completed';
+      default:
+        return 'active';
+    }
+  }
+
+  /**
+   * Human-readable name for a gated action
+   */
+  static getActionLabel(action: LeagueAction): string {
+    switch (action) {
+      case 'initializeDraft':
+        return 'Starting the draft';
+      case 'draftPick':
+        return 'Drafting players';
+      case 'freeAgencyBid':
+        return 'Free agency bidding';
+      case 'franchiseTag':
+        return 'Tagging players';
+      case 'qualifyingOffer':
+        return 'Tendering qualifying offers';
+      case 'contractOption':
+        return 'Deciding contract options';
+      case 'extension':
+        return 'Extending contracts';
+      case 'restructure':
+        return 'Restructuring contracts';
+      case 'release':
+        return 'Releasing players';
+      case 'trade':
+        return 'Trading';
+      case 'settleIncentives':
+        return 'Settling incentives';
+      case 'seasonRollover':
+        return 'Rolling over the season';
+    }
+  }
+}
+
+export class LeagueCalendarPlanner {
+  /**
+   * Check that the calendar's milestones are unique and in season order
+   */
+  static validateEvents(events: LeagueCalendarEvent[]): string[] {
+    const errors: string[] = [];
+
+    events.forEach((event) => {
+      if (
+        !(event.startsAt instanceof Date) ||
+        isNaN(event.startsAt.getTime())
+      ) {
+        errors.push(`${this.getEventTitle(event)} needs a valid date`);
+      }
+      if (
+        event.type === 'faWeek' &&
+        (!Number.isInteger(event.weekNumber) || (event.weekNumber ?? 0) < 1)
+      ) {
+        errors.push('FA weeks need a week number of 1 or more');
+      }
+    });
+    if (errors.length > 0) return errors;
+
+    const seen = new Set<string>();
+    events.forEach((event) => {
+      const key = this.getEventId(event.type, event.weekNumber);
+      if (seen.has(key)) {
+        errors.push(`${this.getEventTitle(event)} is scheduled more than once`);
+      }
+      seen.add(key);
+    });
+
+    // Milestones that move the league forward must follow the phase order
+    const sequence = events
+      .filter((event) => event.type !== 'tradeDeadline')
+      .sort(
+        (a, b) =>
+          this.getSequenceRank(a.type) - this.getSequenceRank(b.type) ||
+          (a.weekNumber ?? 0) - (b.weekNumber ?? 0)
+      );
+    sequence.slice(1).forEach((event, index) => {
+      const previous = sequence[index];
+      if (event.startsAt.getTime() <= previous.startsAt.getTime()) {
+        errors.push(
+          `${this.getEventTitle(
+            previous
+          )} must come before ${this.getEventTitle(event)}`
+        );
+      }
+    });
+
+    const tradeDeadline = events.find(
+      (event) => event.type === 'tradeDeadline'
+    );
+    const playoffs = events.find((event) => event.type === 'playoffs');
+    if (
+      tradeDeadline &&
+      playoffs &&
+      tradeDeadline.startsAt.getTime() >= playoffs.startsAt.getTime()
+    ) {
+      errors.push('Trade Deadline must come before Playoffs Begin');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Stable ID for a milestone. Each milestone happens once a season, so the
+   * ID follows from its type (and week for FA weeks).
+   */
+  static getEventId(
+    type: LeagueCalendarEventType,
+    weekNumber?: number
+  ): string {
+    return type === 'faWeek' ? `faWeek_${weekNumber}` : type;
+  }
+
+  /**
+   * Events whose time has arrived and that have not been acted on, oldest first
+   */
+  static getDueEvents(
+    events: LeagueCalendarEvent[],
+    now: Date
+  ): LeagueCalendarEvent[] {
+    return events
+      .filter(
+        (event) => !event.firedAt && event.startsAt.getTime() <= now.getTime()
+      )
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  /**
+   * Phase an event moves the league into, if any
+   */
+  static getTargetPhase(
+    type: LeagueCalendarEventType
+  ): LeaguePhase | undefined {
+    switch (type) {
+      case 'draft':
+        return LeaguePhase.draft;
+      case 'faWeek':
+        return LeaguePhase['free-agency'];
+      case 'rosterCutdown':
+        return LeaguePhase['regular-season'];
+      case 'playoffs':
+        return LeaguePhase.playoffs;
+      case 'tradeDeadline':
+        return undefined;
+    }
+  }
+
+  /**
+   * Phases to step through to reach a target. Empty once the league is
+   * already in or past the target.
+   */
+  static getPhasePath(
+    from: string | undefined,
+    to: LeaguePhase
+  ): LeaguePhase[] {
+    const order = LeaguePhaseMachine.getPhaseOrder();
+    const fromIndex = order.indexOf(LeaguePhaseMachine.normalizePhase(from));
+    const toIndex = order.indexOf(to);
+    return toIndex > fromIndex ? order.slice(fromIndex + 1, toIndex + 1) : [];
+  }
+
+  /**
+   * Whether a deadline of the given type has arrived
+   */
+  static hasPassed(
+    events: LeagueCalendarEvent[],
+    type: LeagueCalendarEventType,
+    now: Date
+  ): boolean {
+    return events.some(
+      (event) =>
+        event.type === type && event.startsAt.getTime() <= now.getTime()
+    );
+  }
+
+  /**
+   * Display title for an event
+   */
+  static getEventTitle(
+    event: Pick<LeagueCalendarEvent, 'type' | 'weekNumber'>
+  ): string {
+    switch (event.type) {
+      case 'draft':
+        return 'Rookie Draft';
+      case 'faWeek':
+        return `FA Week ${event.weekNumber}`;
+      case 'tradeDeadline':
+        return 'Trade Deadline';
+      case 'rosterCutdown':
+        return 'Roster Cutdown';
+      case 'playoffs':
+        return 'Playoffs Begin';
+    }
+  }
+
+  /**
+   * IANA zone for a team location's timezone. Teams store abbreviations
+   * like EST; unknown values fall back to UTC.
+   */
+  static toIanaTimezone(timezone?: string): string {
+    switch (timezone?.toUpperCase()) {
+      case 'EST':
+      case 'EDT':
+      case 'ET':
+        return 'America/New_York';
+      case 'CST':
+      case 'CDT':
+      case 'CT':
+        return 'America/Chicago';
+      case 'MST':
+      case 'MDT':
+      case 'MT':
+        return 'America/Denver';
+      case 'PST':
+      case 'PDT':
+      case 'PT':
+        return 'America/Los_Angeles';
+      default:
+        return timezone?.includes('/') ? timezone : 'UTC';
+    }
+  }
+
+  /**
+   * Render the calendar as an iCalendar (RFC 5545) feed
+   */
+  static toICalendar(
+    leagueId: string,
+    leagueName: string,
+    events: LeagueCalendarEvent[],
+    stamp: Date
+  ): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Fantasy Football Dynasty//League Calendar//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${this.escapeText(leagueName)}`,
+    ];
+
+    [...events]
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())
+      .forEach((event) => {
+        lines.push(
+          'BEGIN:VEVENT',
+          `UID:${event.id}@${leagueId}`,
+          `DTSTAMP:${this.formatICalendarDate(stamp)}`,
+          `DTSTART:${this.formatICalendarDate(event.startsAt)}`,
+          `DTEND:${this.formatICalendarDate(
+            new Date(event.startsAt.getTime() + 60 * 60 * 1000)
+          )}`,
+          `SUMMARY:${this.escapeText(
+            `${leagueName}: ${this.getEventTitle(event)}`
+          )}`,
+          'END:VEVENT'
+        );
+      });
+
+    lines.push('END:VCALENDAR');
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  private static getSequenceRank(type: LeagueCalendarEventType): number {
+    switch (type) {
+      case 'draft':
+        return 0;
+      case 'faWeek':
+        return 1;
+      case 'tradeDeadline':
+      case 'rosterCutdown':
+        return 2;
+      case 'playoffs':
+        return 3;
+    }
+  }
+
+  private static formatICalendarDate(date: Date): string {
+    return date
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace(/\.\d{3}/, '');
+  }
+
+  private static escapeText(text: string): string {
+    return text.replace(/([\\;,])/g, '\\$1').replace(/\n/g, '\\n');
+  }
+}
+
+export class FranchiseTagCalculator {
+  /**
+   * League franchise tag rules with defaults for leagues that predate them
+   */
+  static getRules(rules?: FranchiseTagRules): FranchiseTagRules {
+    return {
+      franchiseTopSalaries: 5,
+      transitionTopSalaries: 10,
+      windowStart: '02-15',
+      windowEnd: '03-05',
+      matchWindowHours: 48,
+      ...rules,
+    };
+  }
+
+  /**
+   * Tag value: average of the top N league cap hits at a position
+   */
+  static calculateTagValue(
+    contracts: Contract[],
+    positionsByPlayerId: Record<string, Position>,
+    position: Position,
+    year: number,
+    topCount: number
+  ): number {
+    const capHits = contracts
+      .filter(
+        (contract) =>
+          contract.status !== 'released' &&
+          positionsByPlayerId[contract.playerId] === position
+      )
+      .map((contract) => CapMath.calculateCapHit(contract, year))
+      .filter((capHit) => capHit > 0)
+      .sort((a, b) => b - a)
+      .slice(0, topCount);
+
+    if (capHits.length === 0) return 0;
+
+    return Math.round(
+      capHits.reduce((total, capHit) => total + capHit, 0) / capHits.length
+    );
+  }
+
+  /**
+   * Franchise and transition tag values for every rostered position
+   */
+  static calculateTagValues(
+    contracts: Contract[],
+    positionsByPlayerId: Record<string, Position>,
+    year: number,
+    rules: FranchiseTagRules
+  ): TagValues[] {
+    const positions = [...new Set(Object.values(positionsByPlayerId))].sort();
+
+    return positions.map((position) => ({
+      position,
+      franchise: this.calculateTagValue(
+        contracts,
+        positionsByPlayerId,
+        position,
+        year,
+        rules.franchiseTopSalaries
+      ),
+      transition: this.calculateTagValue(
+        contracts,
+        positionsByPlayerId,
+        position,
+        year,
+        rules.transitionTopSalaries
+      ),
+    }));
+  }
+
+  /**
+   * Whether a date falls inside the offseason tag window (MM-DD, inclusive)
+   */
+  static isWithinTagWindow(
+    date: Date,
+    rules: Pick<FranchiseTagRules, 'windowStart' | 'windowEnd'>
+  ): boolean {
+    const monthDay = `${String(date.getMonth() + 1).padStart(2, '0')}-${String(
+      date.getDate()
+    ).padStart(2, '0')}`;
+
+    if (rules.windowStart <= rules.windowEnd) {
+      return monthDay >= rules.windowStart && monthDay <= rules.windowEnd;
+    }
+
+    // Window wraps the new year
+    return monthDay >= rules.windowStart || monthDay <= rules.windowEnd;
+  }
+
+  /**
+   * A player can be tagged by the team whose contract with them has expired
+   */
+  static isEligibleForTag(
+    playerContracts: Contract[],
+    teamId: string,
+    leagueYear: number
+  ): boolean {
+    const teamContracts = playerContracts.filter(
+      (contract) => contract.teamId === teamId && contract.status !== 'released'
+    );
+
+    return (
+      teamContracts.some((contract) => contract.endYear < leagueYear) &&
+      !teamContracts.some((contract) => contract.endYear >= leagueYear)
+    );
+  }
+
+  /**
+   * Validate a tag: one per team per offseason, inside the window, for an
+   * expiring player the team can afford
+   */
+  static validateTag(
+    teamId: string,
+    playerId: string,
+    leagueYear: number,
+    leagueTags: FranchiseTag[],
+    playerContracts: Contract[],
+    tagValue: number,
+    capSpace: number,
+    date: Date,
+    rules: FranchiseTagRules
+  ): string[] {
+    const errors: string[] = [];
+    const yearTags = leagueTags.filter((tag) => tag.year === leagueYear);
+
+    if (!this.isWithinTagWindow(date, rules)) {
+      errors.push(
+        `Tags can only be applied between ${rules.windowStart} and ${rules.windowEnd}`
+      );
+    }
+
+    if (yearTags.some((tag) => tag.teamId === teamId)) {
+      errors.push('Team has already used its tag this offseason');
+    }
+
+    if (yearTags.some((tag) => tag.playerId === playerId)) {
+      errors.push('Player has already been tagged this offseason');
+    }
+
+    if (!this.isEligibleForTag(playerContracts, teamId, leagueYear)) {
+      errors.push(
+        'Only players whose contract with the team has expired can be tagged'
+      );
+    }
+
+    if (tagValue <= 0) {
+      errors.push('No tag value available for this position');
+    } else if (tagValue > capSpace) {
+      errors.push('Insufficient cap space for the tag');
+    }
+
+    return errors;
+  }
+
+  /**
+   * One-year, fully guaranteed tender contract for a tag
+   */
+  static createTagContract(tag: FranchiseTag): Contract {
+    return {
+      id: tag.contractId,
+      playerId: tag.playerId,
+      teamId: tag.teamId,
+      startYear: tag.year,
+      endYear: tag.year,
+      baseSalary: { [tag.year]: tag.contractValue },
+      signingBonus: 0,
+      guarantees: [{ type: 'full', amount: tag.contractValue, year: tag.year }],
+      noTradeClause: false,
+      restructures: [],
+      status: 'active',
+      tagType: tag.tagType,
+      createdAt: tag.createdAt,
+    };
+  }
+
+  /**
+   * Credit back a tender's cap charge when the tag is withdrawn after a
+   * transition offer is matched or declined. No dead money applies.
+   */
+  static createTenderVoidEntries(
+    contract: Contract,
+    reason = 'Tag tender withdrawn'
+  ): CapLedger[] {
+    return Object.entries(CapMath.calculateCapHitsByYear(contract)).map(
+      ([year, capHit]) => ({
+        id: `${contract.id}_void_${year}`,
+        teamId: contract.teamId,
+        leagueYear: Number(year),
+        capIn: capHit,
+        capOut: 0,
+        reason,
+        refType: 'cut',
+        refId: contract.id,
+        createdAt: new Date(),
+      })
+    );
+  }
+
+  /**
+   * Deadline for the original team to match a transition tag offer
+   */
+  static getMatchDeadline(from: Date, rules: FranchiseTagRules): Date {
+    return new Date(from.getTime() + rules.matchWindowHours * 60 * 60 * 1000);
+  }
+}
+
+export interface TagValues {
+  position: Position;
+  franchise: number;
+  transition: number;
+}
+
+/**
+ * Restricted free agency: a team can tender a qualifying offer to an
+ * expiring young player, keeping the right to match any offer sheet the
+ * player signs with another team.
+ */
+export class RestrictedFreeAgencyCalculator {
+  /**
+   * League restricted free agency rules with defaults for leagues that
+   * predate them
+   */
+  static getRules(
+    rules?: RestrictedFreeAgencyRules
+  ): RestrictedFreeAgencyRules {
+    return {
+      maxYearsExp: 3,
+      tenderRaisePct: 0.1,
+      minimumTender: 1000000,
+      matchWindowHours: 48,
+      ...rules,
+    };
+  }
+
+  /**
+   * Players with few enough accrued seasons are restricted free agents
+   */
+  static isRestrictedFreeAgent(
+    yearsExp: number,
+    rules: RestrictedFreeAgencyRules
+  ): boolean {
+    return yearsExp <= rules.maxYearsExp;
+  }
+
+  /**
+   * Qualifying offer: the final-year cap hit of the player's expired
+   * contract with the team plus a raise, never below the league minimum
+   */
+  static calculateQualifyingOffer(
+    playerContracts: Contract[],
+    teamId: string,
+    leagueYear: number,
+    rules: RestrictedFreeAgencyRules
+  ): number {
+    const expired = playerContracts
+      .filter(
+        (contract) =>
+          contract.teamId === teamId &&
+          contract.status !== 'released' &&
+          contract.endYear < leagueYear
+      )
+      .sort((a, b) => b.endYear - a.endYear)[0];
+    const finalCapHit = expired
+      ? CapMath.calculateCapHit(expired, expired.endYear)
+      : 0;
+
+    return Math.max(
+      rules.minimumTender,
+      Math.round(finalCapHit * (1 + rules.tenderRaisePct))
+    );
+  }
+
+  /**
+   * Validate a qualifying offer: one per player per offseason, for a
+   * restricted player whose contract with the team has expired
+   */
+  static validateQualifyingOffer(
+    teamId: string,
+    playerId: string,
+    yearsExp: number,
+    leagueYear: number,
+    leagueOffers: QualifyingOffer[],
+    playerContracts: Contract[],
+    offerAmount: number,
+    capSpace: number,
+    rules: RestrictedFreeAgencyRules
+  ): string[] {
+    const errors: string[] = [];
+
+    if (!this.isRestrictedFreeAgent(yearsExp, rules)) {
+      errors.push(
+        `Only players with ${rules.maxYearsExp} or fewer accrued seasons are restricted free agents`
+      );
+    }
+
+    if (
+      leagueOffers.some(
+        (offer) => offer.year === leagueYear && offer.playerId === playerId
+      )
+    ) {
+      errors.push('Player has already been tendered this offseason');
+    }
+
+    if (
+      !FranchiseTagCalculator.isEligibleForTag(
+        playerContracts,
+        teamId,
+        leagueYear
+      )
+    ) {
+      errors.push(
+        'Only players whose contract with the team has expired can be tendered'
+      );
+    }
+
+    if (offerAmount > capSpace) {
+      errors.push('Insufficient cap space for the qualifying offer');
+    }
+
+    return errors;
+  }
+
+  /**
+   * One-year tender contract for a qualifying offer
+   */
+  static createTenderContract(offer: QualifyingOffer): Contract {
+    return {
+      id: offer.contractId,
+      playerId: offer.playerId,
+      teamId: offer.teamId,
+      startYear: offer.year,
+      endYear: offer.year,
+      baseSalary: { [offer.year]: offer.offerAmount },
+      signingBonus: 0,
+      guarantees: [],
+      noTradeClause: false,
+      restructures: [],
+      status: 'active',
+      createdAt: offer.createdAt,
+    };
+  }
+
+  /**
+   * Offer sheets can be signed while the qualifying offer is outstanding
+   */
+  static canSignOfferSheet(
+    offer: QualifyingOffer,
+    biddingTeamId: string,
+    date: Date
+  ): boolean {
+    return (
+      offer.status === 'pending' &&
+      offer.teamId !== biddingTeamId &&
+      date <= offer.expiresAt
+    );
+  }
+
+  /**
+   * Deadline for the original team to match an offer sheet
+   */
+  static getMatchDeadline(from: Date, rules: RestrictedFreeAgencyRules): Date {
+    return new Date(from.getTime() + rules.matchWindowHours * 60 * 60 * 1000);
+  }
+}
+
+/**
+ * Rookie wage scale: drafted rookies sign slotted contracts priced by overall
+ * pick, and first-rounders carry a fifth-year team option.
+ */
+export class RookieScaleCalculator {
+  /**
+   * League rookie scale rules with defaults for leagues that predate them
+   */
+  static getRules(rules?: RookieScaleRules): RookieScaleRules {
+    return {
+      slotValues: {},
+      years: 3,
+      annualRaisePct: 0.05,
+      signingBonusPct: 0.25,
+      optionWindowStart: '03-01',
+      optionWindowEnd: '05-02',
+      optionTopSalaries: 25,
+      ...rules,
+    };
+  }
+
+  /**
+   * Generated first-year salary for a pick: 2.5% of the cap for the first
+   * overall pick, falling 4% per pick to a floor of 0.375% of the cap
+   */
+  static getDefaultSlotValue(pickNumber: number, salaryCap: number): number {
+    const value = salaryCap * 0.025 * Math.pow(0.96, pickNumber - 1);
+    return Math.round(Math.max(salaryCap * 0.00375, value));
+  }
+
+  /**
+   * First-year salary for an overall pick from the league table
+   */
+  static getSlotValue(
+    pickNumber: number,
+    rules: RookieScaleRules,
+    salaryCap: number
+  ): number {
+    return (
+      rules.slotValues[pickNumber] ??
+      this.getDefaultSlotValue(pickNumber, salaryCap)
+    );
+  }
+
+  /**
+   * Slotted rookie contract. The signing bonus is carved out of the base
+   * salaries so each year's cap hit follows the scale.
+   */
+  static createRookieContract(
+    contractId: string,
+    playerId: string,
+    teamId: string,
+    pickNumber: number,
+    teamCount: number,
+    startYear: number,
+    rules: RookieScaleRules,
+    salaryCap: number
+  ): Contract {
+    const slotValue = this.getSlotValue(pickNumber, rules, salaryCap);
+    const salaries = Array.from({ length: rules.years }, (_, index) =>
+      Math.round(slotValue * Math.pow(1 + rules.annualRaisePct, index))
+    );
+    const totalValue = salaries.reduce((total, salary) => total + salary, 0);
+    const signingBonus = Math.round(totalValue * rules.signingBonusPct);
+    const proratedBonus = Math.round(signingBonus / rules.years);
+
+    const baseSalary: Record<number, number> = {};
+    salaries.forEach((salary, index) => {
+      baseSalary[startYear + index] = Math.max(0, salary - proratedBonus);
+    });
+
+    return {
+      id: contractId,
+      playerId,
+      teamId,
+      startYear,
+      endYear: startYear + rules.years - 1,
+      baseSalary,
+      signingBonus,
+      guarantees: [
+        { type: 'full', amount: baseSalary[startYear], year: startYear },
+      ],
+      noTradeClause: false,
+      restructures: [],
+      status: 'active',
+      rookieContract: {
+        pickNumber,
+        round: Math.ceil(pickNumber / teamCount),
+      },
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * Fifth-year option salary: average of the top N league cap hits at the
+   * player's position
+   */
+  static calculateOptionSalary(
+    contracts: Contract[],
+    positionsByPlayerId: Record<string, Position>,
+    position: Position,
+    year: number,
+    rules: RookieScaleRules
+  ): number {
+    return FranchiseTagCalculator.calculateTagValue(
+      contracts,
+      positionsByPlayerId,
+      position,
+      year,
+      rules.optionTopSalaries
+    );
+  }
+
+  /**
+   * Validate a fifth-year option decision: first-round rookie contracts in
+   * their final year, inside the option window
+   */
+  static validateFifthYearOption(
+    contract: Contract,
+    leagueYear: number,
+    date: Date,
+    rules: RookieScaleRules
+  ): string[] {
+    const errors: string[] = [];
+
+    if (contract.rookieContract?.round !== 1) {
+      errors.push('Only first-round rookie contracts have a fifth-year option');
+    } else if (contract.rookieContract.fifthYearOption) {
+      errors.push('The fifth-year option has already been decided');
+    }
+
+    if (
+      (contract.status ?? 'active') !== 'active' ||
+      contract.endYear !== leagueYear
+    ) {
+      errors.push(
+        'The fifth-year option can only be decided in the final year of the rookie contract'
+      );
+    }
+
+    if (
+      !FranchiseTagCalculator.isWithinTagWindow(date, {
+        windowStart: rules.optionWindowStart,
+        windowEnd: rules.optionWindowEnd,
+      })
+    ) {
+      errors.push(
+        `The fifth-year option can only be decided between ${rules.optionWindowStart} and ${rules.optionWindowEnd}`
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * Fully guaranteed one-year contract for the option season. It follows the
+   * rookie contract like an extension, so the rookie deal's bonus proration
+   * is unchanged.
+   */
+  static createOptionContract(
+    contract: Contract,
+    optionSalary: number
+  ): Contract {
+    const optionYear = contract.endYear + 1;
+
+    return {
+      id: `${contract.id}_option_${optionYear}`,
+      playerId: contract.playerId,
+      teamId: contract.teamId,
+      startYear: optionYear,
+      endYear: optionYear,
+      baseSalary: { [optionYear]: optionSalary },
+      signingBonus: 0,
+      guarantees: [{ type: 'full', amount: optionSalary, year: optionYear }],
+      noTradeClause: contract.noTradeClause,
+      restructures: [],
+      status: 'active',
+      extendsContractId: contract.id,
+      rookieContract: contract.rookieContract && {
+        ...contract.rookieContract,
+        fifthYearOption: 'exercised',
+      },
+      createdAt: new Date(),
+    };
   }
 }
 
@@ -378,57 +2881,284 @@ export class ContractMinimumCalculator {
 
 export class ContractValidator {
   /**
-   * Validate a contract structure
+   * League contract rails with defaults for settings left unset
    */
-  static validateContract(contract: Contract): string[] {
-    const errors: string[] = [];
+  static getRails(rails?: Partial<ContractRails>): ContractRails {
+    return {
+      maxYears: 3,
+      minBase: 750000,
+      maxSigningBonusPct: 0.5,
+      guaranteeRanges: {
+        '1year': { min: 0, max: 1 },
+        '2year': { min: 0, max: 0.8 },
+        '3year': { min: 0, max: 0.6 },
+      },
+      apyDiscounts: { '3year': 0.1 },
+      positionMultipliers: {},
+      ...rails,
+    };
+  }
+
+  /**
+   * Validate a contract structure, and the league's contract rails when set
+   */
+  static validateContract(
+    contract: Contract,
+    rails?: ContractRails,
+    position?: Position
+  ): ContractValidationError[] {
+    const errors: ContractValidationError[] = [];
+    const years = contract.endYear - contract.startYear + 1;
 
     if (contract.startYear > contract.endYear) {
-      errors.push('Start year must be before or equal to end year');
+      errors.push({
+        code: 'INVALID_TERM',
+        field: 'years',
+        message: 'Start year must be before or equal to end year',
+      });
     }
 
-    if (contract.endYear - contract.startYear + 1 > 7) {
-      errors.push('Contract cannot exceed 7 years');
+    if (years > 7) {
+      errors.push({
+        code: 'TERM_TOO_LONG',
+        field: 'years',
+        message: 'Contract cannot exceed 7 years',
+      });
     }
 
     if (contract.signingBonus < 0) {
-      errors.push('Signing bonus cannot be negative');
+      errors.push({
+        code: 'NEGATIVE_SIGNING_BONUS',
+        field: 'signingBonus',
+        message: 'Signing bonus cannot be negative',
+      });
     }
 
     // Validate base salary for each year
     for (let year = contract.startYear; year <= contract.endYear; year++) {
       const salary = contract.baseSalary[year];
       if (salary === undefined || salary < 0) {
-        errors.push(`Invalid base salary for year ${year}`);
+        errors.push({
+          code: 'INVALID_BASE_SALARY',
+          field: 'baseSalary',
+          message: `Invalid base salary for year ${year}`,
+        });
       }
     }
 
     // Validate guarantees
     contract.guarantees.forEach((guarantee, index) => {
       if (guarantee.amount < 0) {
-        errors.push(`Guarantee ${index + 1} amount cannot be negative`);
+        errors.push({
+          code: 'INVALID_GUARANTEE',
+          field: 'guarantees',
+          message: `Guarantee ${index + 1} amount cannot be negative`,
+        });
       }
       if (
         guarantee.year < contract.startYear ||
         guarantee.year > contract.endYear
       ) {
-        errors.push(
-          `Guarantee ${index + 1} year must be within contract period`
-        );
+        errors.push({
+          code: 'INVALID_GUARANTEE',
+          field: 'guarantees',
+          message: `Guarantee ${index + 1} year must be within contract period`,
+        });
       }
     });
 
+    if (rails) {
+      const totalSalary = Object.values(contract.baseSalary).reduce(
+        (total, salary) => total + salary,
+        0
+      );
+      errors.push(
+        ...this.validateRails(
+          years,
+          totalSalary + contract.signingBonus,
+          contract.signingBonus,
+          this.getGuaranteedAmount(contract.signingBonus, contract.guarantees),
+          rails,
+          position
+        )
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate a free agency offer against the league's contract rails
+   */
+  static validateOffer(
+    offer: ContractOffer,
+    rails?: ContractRails,
+    position?: Position
+  ): ContractValidationError[] {
+    const errors: ContractValidationError[] = [];
+
+    if (offer.signingBonus < 0) {
+      errors.push({
+        code: 'NEGATIVE_SIGNING_BONUS',
+        field: 'signingBonus',
+        message: 'Signing bonus cannot be negative',
+      });
+    }
+    if (Object.values(offer.baseSalary).some((salary) => salary < 0)) {
+      errors.push({
+        code: 'INVALID_BASE_SALARY',
+        field: 'baseSalary',
+        message: 'Base salary cannot be negative',
+      });
+    }
+    if (offer.guarantees.some((guarantee) => guarantee.amount < 0)) {
+      errors.push({
+        code: 'INVALID_GUARANTEE',
+        field: 'guarantees',
+        message: 'Guarantee amounts cannot be negative',
+      });
+    }
+
+    if (rails) {
+      errors.push(
+        ...this.validateRails(
+          offer.years,
+          offer.totalValue,
+          offer.signingBonus,
+          this.getGuaranteedAmount(offer.signingBonus, offer.guarantees),
+          rails,
+          position
+        )
+      );
+    }
+
     return errors;
   }
 
   /**
-   * Check if a contract is valid for a rookie
+   * Lowest APY the rails allow: the league minimum scaled by position, less
+   * the discount on deals of three or more years
+   */
+  static getMinimumApy(
+    years: number,
+    rails: ContractRails,
+    position?: Position
+  ): number {
+    const multiplier = position ? rails.positionMultipliers[position] ?? 1 : 1;
+    const discount = years >= 3 ? rails.apyDiscounts['3year'] : 0;
+
+    return Math.round(rails.minBase * multiplier * (1 - discount));
+  }
+
+  /**
+   * Check if a contract is a slotted rookie contract from the draft
    */
   static isRookieContract(contract: Contract): boolean {
-    return contract.endYear - contract.startYear + 1 === 4;
+    return !!contract.rookieContract;
+  }
+
+  /**
+   * Signing bonus money is guaranteed at signing
+   */
+  private static getGuaranteedAmount(
+    signingBonus: number,
+    guarantees: Guarantee[]
+  ): number {
+    return guarantees.reduce(
+      (total, guarantee) => total + guarantee.amount,
+      signingBonus
+    );
+  }
+
+  /**
+   * Check contract terms against the league's contract rails
+   */
+  private static validateRails(
+    years: number,
+    totalValue: number,
+    signingBonus: number,
+    guaranteedAmount: number,
+    rails: ContractRails,
+    position?: Position
+  ): ContractValidationError[] {
+    const errors: ContractValidationError[] = [];
+    const formatPct = (value: number) => `${Math.round(value * 100)}%`;
+
+    if (years > rails.maxYears) {
+      errors.push({
+        code: 'TERM_TOO_LONG',
+        field: 'years',
+        message: `League rails limit contracts to ${rails.maxYears} years`,
+      });
+    }
+
+    const minimumApy = this.getMinimumApy(years, rails, position);
+    if (years > 0 && totalValue / years < minimumApy) {
+      errors.push({
+        code: 'BELOW_MINIMUM_SALARY',
+        field: 'baseSalary',
+        message: `Average salary must be at least $${minimumApy.toLocaleString()}`,
+      });
+    }
+
+    if (
+      totalValue > 0 &&
+      signingBonus / totalValue > rails.maxSigningBonusPct
+    ) {
+      errors.push({
+        code: 'SIGNING_BONUS_TOO_HIGH',
+        field: 'signingBonus',
+        message: `Signing bonus cannot exceed ${formatPct(
+          rails.maxSigningBonusPct
+        )} of total value`,
+      });
+    }
+
+    const range =
+      rails.guaranteeRanges[
+        years >= 3 ? '3year' : years === 2 ? '2year' : '1year'
+      ];
+    const guaranteedPct = totalValue > 0 ? guaranteedAmount / totalValue : 0;
+    if (guaranteedPct < range.min) {
+      errors.push({
+        code: 'GUARANTEES_TOO_LOW',
+        field: 'guarantees',
+        message: `At least ${formatPct(
+          range.min
+        )} of a ${years}-year contract must be guaranteed`,
+      });
+    }
+    if (guaranteedPct > range.max) {
+      errors.push({
+        code: 'GUARANTEES_TOO_HIGH',
+        field: 'guarantees',
+        message: `No more than ${formatPct(
+          range.max
+        )} of a ${years}-year contract can be guaranteed`,
+      });
+    }
+
+    return errors;
   }
 }
 
+export type ContractValidationCode =
+  | 'INVALID_TERM'
+  | 'TERM_TOO_LONG'
+  | 'NEGATIVE_SIGNING_BONUS'
+  | 'INVALID_BASE_SALARY'
+  | 'INVALID_GUARANTEE'
+  | 'BELOW_MINIMUM_SALARY'
+  | 'SIGNING_BONUS_TOO_HIGH'
+  | 'GUARANTEES_TOO_LOW'
+  | 'GUARANTEES_TOO_HIGH';
+
+export interface ContractValidationError {
+  code: ContractValidationCode;
+  field: 'years' | 'baseSalary' | 'signingBonus' | 'guarantees'; // form field to show the error on
+  message: string;
+}
+
 export class RosterValidator {
   /**
    * Validate roster composition
@@ -450,35 +3180,628 @@ export class RosterValidator {
   static isValidPosition(position: string): position is Position {
     return ['QB', 'RB', 'WR', 'TE', 'K', 'DEF'].includes(position);
   }
+
+  /**
+   * A traded player can't be put in the lineup before he reports
+   */
+  static isAvailableForLineup(slot: RosterSlot, now = new Date()): boolean {
+    return !slot.reportsOn || slot.reportsOn.getTime() <= now.getTime();
+  }
 }
 
 export class TradeValidator {
   /**
-   * Validate trade structure
+   * Validate trade structure. Every asset moves from one participating team
+   * to another, and every participant sends or receives at least one asset.
    */
-  static validateTrade(trade: any): string[] {
+  static validateTrade(trade: TradePayload, teamIds: string[]): string[] {
     const errors: string[] = [];
 
-    if (!trade.proposerAssets || !trade.responderAssets) {
-      errors.push('Trade must have assets for both teams');
+    if (!trade.assets || trade.assets.length === 0) {
+      errors.push('Trade must include at least one asset');
+      return errors;
+    }
+
+    if (teamIds.length < 2 || new Set(teamIds).size !== teamIds.length) {
+      errors.push('Trade must include at least two different teams');
     }
 
     if (
-      trade.proposerAssets.length === 0 &&
-      trade.responderAssets.length === 0
+      trade.assets.some(
+        (asset) =>
+          !teamIds.includes(asset.fromTeamId) ||
+          !teamIds.includes(asset.toTeamId)
+      )
     ) {
-      errors.push('Trade must include at least one asset');
+      errors.push('Trade assets must move between teams in the trade');
+    }
+
+    if (trade.assets.some((asset) => asset.fromTeamId === asset.toTeamId)) {
+      errors.push('Trade assets must move to a different team');
+    }
+
+    if (
+      teamIds.some(
+        (teamId) =>
+          this.getSentAssets(trade, teamId).length === 0 &&
+          this.getReceivedAssets(trade, teamId).length === 0
+      )
+    ) {
+      errors.push('Every team in a trade must send or receive an asset');
+    }
+
+    const assetKeys = trade.assets.map((asset) => `${asset.type}_${asset.id}`);
+    if (new Set(assetKeys).size !== assetKeys.length) {
+      errors.push('Trade cannot include the same asset twice');
+    }
+
+    trade.assets
+      .filter((asset) => asset.type === 'cap')
+      .forEach((asset) => {
+        const value = asset.value || 0;
+        if (asset.playerId) {
+          if (value <= 0 || value >= 1) {
+            errors.push('Retained salary must be between 0% and 100%');
+          }
+          if (
+            !trade.assets.some(
+              (player) =>
+                player.type === 'player' &&
+                player.id === asset.playerId &&
+                player.fromTeamId === asset.fromTeamId &&
+                player.toTeamId === asset.toTeamId
+            )
+          ) {
+            errors.push(
+              'Salary can only be retained on a player sent to the same team'
+            );
+          }
+        } else if (!asset.year || value <= 0) {
+          errors.push('Cap space sent in a trade needs a year and an amount');
+        }
+      });
+
+    return errors;
+  }
+
+  /**
+   * Check cap assets against the contracts moving in a trade: cap space is
+   * sent for this league year or later, and retained salary belongs to a
+   * contract with years left
+   */
+  static validateCapAssets(
+    trade: TradePayload,
+    contracts: Contract[],
+    currentYear: number
+  ): string[] {
+    const errors: string[] = [];
+    const moves = this.getContractMoves(trade, contracts);
+
+    trade.assets
+      .filter((asset) => asset.type === 'cap')
+      .forEach((asset) => {
+        if (!asset.playerId) {
+          if ((asset.year || 0) < currentYear) {
+            errors.push(`Cap space cannot be sent for ${asset.year}`);
+          }
+          return;
+        }
+
+        if (
+          !moves.some(
+            ({ from, contract }) =>
+              from === asset.fromTeamId &&
+              contract.playerId === asset.playerId &&
+              contract.endYear >= currentYear
+          )
+        ) {
+          errors.push(
+            `Player ${asset.playerId} has no contract to retain salary on`
+          );
+        }
+      });
+
+    return errors;
+  }
+
+  /**
+   * Check traded players' responses to their destinations: every player with
+   * a no-trade clause has to agree to waive it
+   */
+  static validateConsents(
+    trade: TradePayload,
+    consents: TradeConsent[],
+    contracts: Contract[]
+  ): string[] {
+    return this.getContractMoves(trade, contracts)
+      .filter(({ contract }) => contract.noTradeClause)
+      .flatMap(({ to, contract }) => {
+        const consent = this.getConsent(consents, contract.playerId, to);
+        if (!consent) {
+          return [
+            `Player ${contract.playerId} must agree to waive his no-trade clause`,
+          ];
+        }
+        return consent.decision === 'decline'
+          ? [`Player ${contract.playerId} will not waive his no-trade clause`]
+          : [];
+      });
+  }
+
+  /**
+   * A traded player's response to the team he is going to
+   */
+  static getConsent(
+    consents: TradeConsent[],
+    playerId: string,
+    toTeamId: string
+  ): TradeConsent | undefined {
+    return consents.find(
+      (consent) =>
+        consent.playerId === playerId && consent.toTeamId === toTeamId
+    );
+  }
+
+  /**
+   * When a traded player reports to his new team, if he is late
+   */
+  static getReportingDate(
+    consent: TradeConsent | undefined,
+    tradedAt: Date
+  ): Date | undefined {
+    const days = consent?.reportingDelayDays || 0;
+    return days > 0
+      ? new Date(tradedAt.getTime() + days * 24 * 60 * 60 * 1000)
+      : undefined;
+  }
+
+  /**
+   * ID for a cap asset: one lump of cap space per sending team and year, and
+   * one retention per traded player
+   */
+  static getCapAssetId(
+    asset: Pick<TradeAsset, 'fromTeamId' | 'year' | 'playerId'>
+  ): string {
+    return asset.playerId
+      ? `retain_${asset.playerId}`
+      : `space_${asset.fromTeamId}_${asset.year}`;
+  }
+
+  /**
+   * Salary the sending team keeps on a contract it trades, if the trade
+   * retains any
+   */
+  static getSalaryRetention(
+    trade: TradePayload,
+    tradeId: string,
+    contract: Contract,
+    currentYear: number
+  ): SalaryRetention | undefined {
+    const asset = trade.assets.find(
+      (candidate) =>
+        candidate.type === 'cap' &&
+        candidate.playerId === contract.playerId &&
+        candidate.fromTeamId === contract.teamId
+    );
+
+    return asset
+      ? {
+          teamId: asset.fromTeamId,
+          percentage: asset.value || 0,
+          fromYear: Math.max(currentYear, contract.startYear),
+          tradeId,
+        }
+      : undefined;
+  }
+
+  /**
+   * Assets a team sends in a trade
+   */
+  static getSentAssets(trade: TradePayload, teamId: string): TradeAsset[] {
+    return trade.assets.filter((asset) => asset.fromTeamId === teamId);
+  }
+
+  /**
+   * Assets a team receives in a trade
+   */
+  static getReceivedAssets(trade: TradePayload, teamId: string): TradeAsset[] {
+    return trade.assets.filter((asset) => asset.toTeamId === teamId);
+  }
+
+  /**
+   * Roster size a team ends up with after a trade
+   */
+  static getRosterSizeAfterTrade(
+    rosterSize: number,
+    sent: TradeAsset[],
+    received: TradeAsset[]
+  ): number {
+    const countPlayers = (assets: TradeAsset[]) =>
+      assets.filter((asset) => asset.type === 'player').length;
+    return rosterSize - countPlayers(sent) + countPlayers(received);
+  }
+
+  /**
+   * Whether two trades include any of the same players or picks. Cap space
+   * is not a single asset, so it is never shared.
+   */
+  static sharesAssets(trade: TradePayload, other: TradePayload): boolean {
+    const assetKeys = new Set(
+      trade.assets
+        .filter((asset) => asset.type !== 'cap')
+        .map((asset) => `${asset.type}_${asset.id}`)
+    );
+    return other.assets.some((asset) =>
+      assetKeys.has(`${asset.type}_${asset.id}`)
+    );
+  }
+
+  /**
+   * Net cap charge a trade adds for each team and league year (negative
+   * impacts free cap space). Traded contracts' cap hits follow the player;
+   * the trade's ledger entries adjust for bonus proration left behind.
+   */
+  static calculateTradeCapImpact(
+    trade: Pick<Trade, 'payload'>,
+    contracts: Contract[],
+    currentYear: number,
+    deadMoneyRules: DeadMoneyRules
+  ): CapImpact[] {
+    const impacts = new Map<string, CapImpact>();
+    const addImpact = (teamId: string, year: number, amount: number) => {
+      const key = `${teamId}_${year}`;
+      const impact = impacts.get(key) || { teamId, year, impact: 0 };
+      impact.impact += amount;
+      impacts.set(key, impact);
+    };
+
+    this.getContractMoves(trade.payload, contracts).forEach(
+      ({ from, to, contract }) => {
+        for (
+          let year = Math.max(currentYear, contract.startYear);
+          year <= contract.endYear;
+          year++
+        ) {
+          const capHit = CapMath.calculateCapHit(contract, year);
+          addImpact(from, year, -capHit);
+          addImpact(to, year, capHit);
+        }
+      }
+    );
+    this.createTradeLedgerEntries(
+      '',
+      trade,
+      contracts,
+      currentYear,
+      deadMoneyRules
+    ).forEach((entry) =>
+      addImpact(entry.teamId, entry.leagueYear, entry.capOut - entry.capIn)
+    );
+
+    return Array.from(impacts.values())
+      .filter((impact) => impact.impact !== 0)
+      .sort((a, b) => a.year - b.year);
+  }
+
+  /**
+   * A team's cap charge and space before and after a trade for the current
+   * league year and every year the trade changes. Future caps grow at the
+   * league's projected rate.
+   */
+  static getCapPositions(
+    teamId: string,
+    ledger: CapLedger[],
+    capImpacts: CapImpact[],
+    leagueYear: number,
+    salaryCap: number,
+    projectedCapGrowth: number
+  ): TradeCapPosition[] {
+    const teamImpacts = capImpacts.filter(
+      (impact) => impact.teamId === teamId && impact.year >= leagueYear
+    );
+    const years = [
+      ...new Set([leagueYear, ...teamImpacts.map((impact) => impact.year)]),
+    ].sort((a, b) => a - b);
+
+    return years.map((year) => {
+      const yearCap = CapMath.projectSalaryCap(
+        salaryCap,
+        projectedCapGrowth,
+        year - leagueYear
+      );
+      const capChargeBefore = CapLedgerService.calculateNetCapCharge(
+        ledger,
+        year
+      );
+      const capChargeAfter =
+        capChargeBefore +
+        teamImpacts
+          .filter((impact) => impact.year === year)
+          .reduce((total, impact) => total + impact.impact, 0);
+
+      return {
+        teamId,
+        year,
+        salaryCap: yearCap,
+        capChargeBefore,
+        capChargeAfter,
+        capSpaceBefore: yearCap - capChargeBefore,
+        capSpaceAfter: yearCap - capChargeAfter,
+      };
+    });
+  }
+
+  /**
+   * Ledger entries recording a trade on top of the contract entries that move
+   * with each player. The trading team keeps the bonus proration as dead
+   * money, accelerated into the current year when the league accelerates
+   * signing bonuses, and the acquiring team is credited the same proration.
+   * Retained salary and cap space sent in the trade are charged to the
+   * sending team and credited to the receiving team.
+   */
+  static createTradeLedgerEntries(
+    tradeId: string,
+    trade: Pick<Trade, 'payload'>,
+    contracts: Contract[],
+    currentYear: number,
+    deadMoneyRules: DeadMoneyRules
+  ): CapLedger[] {
+    const entries: CapLedger[] = [];
+    const createdAt = new Date();
+
+    this.getContractMoves(trade.payload, contracts).forEach(
+      ({ from, to, contract }) => {
+        const addEntry = (
+          teamId: string,
+          kind: 'dead' | 'credit',
+          leagueYear: number,
+          amount: number
+        ) => {
+          if (amount <= 0) return;
+          entries.push({
+            id: `${tradeId}_${contract.id}_${kind}_${leagueYear}`,
+            teamId,
+            leagueYear,
+            capIn: kind === 'credit' ? amount : 0,
+            capOut: kind === 'dead' ? amount : 0,
+            reason:
+              kind === 'dead'
+                ? 'Dead money (trade)'
+                : 'Bonus proration kept by trading team',
+            refType: 'trade',
+            refId: contract.id,
+            createdAt,
+          });
+        };
+
+        let acceleratedBonus = 0;
+        for (
+          let year = Math.max(currentYear, contract.startYear);
+          year <= contract.endYear;
+          year++
+        ) {
+          const proratedBonus = CapMath.calculateProratedBonus(contract, year);
+          addEntry(to, 'credit', year, proratedBonus);
+          if (deadMoneyRules.signingBonusAcceleration) {
+            acceleratedBonus += proratedBonus;
+          } else {
+            addEntry(from, 'dead', year, proratedBonus);
+          }
+        }
+        addEntry(from, 'dead', currentYear, acceleratedBonus);
+
+        const retention = this.getSalaryRetention(
+          trade.payload,
+          tradeId,
+          contract,
+          currentYear
+        );
+        if (!retention) return;
+
+        const retained = { ...contract, retentions: [retention] };
+        for (let year = retention.fromYear; year <= contract.endYear; year++) {
+          const amount = CapMath.calculateRetainedSalary(retained, year);
+          if (amount <= 0) continue;
+
+          entries.push(
+            {
+              id: `${tradeId}_${contract.id}_retained_${year}`,
+              teamId: from,
+              leagueYear: year,
+              capIn: 0,
+              capOut: amount,
+              reason: 'Salary retained (trade)',
+              refType: 'retention',
+              refId: contract.id,
+              createdAt,
+            },
+            {
+              id: `${tradeId}_${contract.id}_retained-credit_${year}`,
+              teamId: to,
+              leagueYear: year,
+              capIn: amount,
+              capOut: 0,
+              reason: 'Salary retained by trading team',
+              refType: 'retention',
+              refId: contract.id,
+              createdAt,
+            }
+          );
+        }
+      }
+    );
+
+    trade.payload.assets
+      .filter((asset) => asset.type === 'cap' && !asset.playerId && asset.year)
+      .forEach((asset) => {
+        const leagueYear = asset.year as number;
+        const amount = asset.value || 0;
+        entries.push(
+          {
+            id: `${tradeId}_cap_${asset.fromTeamId}_${leagueYear}`,
+            teamId: asset.fromTeamId,
+            leagueYear,
+            capIn: 0,
+            capOut: amount,
+            reason: 'Cap space traded away',
+            refType: 'trade',
+            refId: tradeId,
+            createdAt,
+          },
+          {
+            id: `${tradeId}_cap-credit_${asset.fromTeamId}_${leagueYear}`,
+            teamId: asset.toTeamId,
+            leagueYear,
+            capIn: amount,
+            capOut: 0,
+            reason: 'Cap space received in trade',
+            refType: 'trade',
+            refId: tradeId,
+            createdAt,
+          }
+        );
+      });
+
+    return entries;
+  }
+
+  /**
+   * Active contracts moving with each traded player, from the sending team
+   * to the receiving team
+   */
+  static getContractMoves(
+    trade: TradePayload,
+    contracts: Contract[]
+  ): { from: string; to: string; contract: Contract }[] {
+    return trade.assets
+      .filter((asset) => asset.type === 'player')
+      .flatMap((asset) =>
+        contracts
+          .filter(
+            (contract) =>
+              contract.teamId === asset.fromTeamId &&
+              contract.playerId === asset.id &&
+              contract.status !== 'released' &&
+              contract.status !== 'expired'
+          )
+          .map((contract) => ({
+            from: asset.fromTeamId,
+            to: asset.toTeamId,
+            contract,
+          }))
+      );
+  }
+}
+
+export interface TradeCapPosition {
+  teamId: string;
+  year: number;
+  salaryCap: number; // projected for future years
+  capChargeBefore: number;
+  capChargeAfter: number;
+  capSpaceBefore: number;
+  capSpaceAfter: number; // negative when the trade puts the team over the cap
+}
+
+export class TradeReviewPolicy {
+  /**
+   * League trade review rules with defaults for settings left unset
+   */
+  static getRules(rules?: Partial<TradeRules>): TradeRules {
+    return {
+      review: 'none',
+      vetoThreshold: 0.5,
+      vetoWindowHours: 48,
+      ...rules,
+    };
+  }
+
+  /**
+   * Review a trade enters once every team accepts, or undefined when the
+   * league processes trades right away. Every team outside the trade may
+   * vote in a league veto vote.
+   */
+  static startReview(
+    rules: Partial<TradeRules> | undefined,
+    tradeTeamIds: string[],
+    leagueTeamIds: string[],
+    now: Date
+  ): TradeReview | undefined {
+    const { review, vetoThreshold, vetoWindowHours } = this.getRules(rules);
+
+    if (review === 'none') {
+      return undefined;
+    }
+    if (review === 'commissioner') {
+      return {
+        mode: review,
+        startedAt: now,
+        eligibleTeamIds: [],
+        vetoTeamIds: [],
+        vetoesNeeded: 0,
+      };
+    }
+
+    const eligibleTeamIds = leagueTeamIds.filter(
+      (teamId) => !tradeTeamIds.includes(teamId)
+    );
+    return {
+      mode: review,
+      startedAt: now,
+      deadline: new Date(
+        now.getTime() + (vetoWindowHours ?? 48) * 60 * 60 * 1000
+      ),
+      eligibleTeamIds,
+      vetoTeamIds: [],
+      vetoesNeeded: Math.max(
+        1,
+        Math.ceil(eligibleTeamIds.length * (vetoThreshold ?? 0.5))
+      ),
+    };
+  }
+
+  /**
+   * Reasons a team cannot veto a trade under review
+   */
+  static validateVeto(
+    review: TradeReview,
+    teamId: string,
+    now: Date
+  ): string[] {
+    const errors: string[] = [];
+
+    if (review.mode !== 'leagueVote') {
+      errors.push('This trade is reviewed by the commissioner');
+      return errors;
+    }
+    if (!review.eligibleTeamIds.includes(teamId)) {
+      errors.push('Only teams outside the trade can veto it');
+    }
+    if (review.vetoTeamIds.includes(teamId)) {
+      errors.push('Team has already vetoed this trade');
+    }
+    if (this.isVoteClosed(review, now)) {
+      errors.push('The veto window has closed');
     }
 
     return errors;
   }
 
   /**
-   * Calculate cap impact of a trade
+   * Whether enough teams have vetoed to overturn the trade
+   */
+  static isVetoed(review: TradeReview): boolean {
+    return (
+      review.mode === 'leagueVote' &&
+      review.vetoTeamIds.length >= review.vetoesNeeded
+    );
+  }
+
+  /**
+   * Whether a league vote's veto window has closed
    */
-  static calculateTradeCapImpact(trade: any, contracts: Contract[]): any[] {
-    // Implementation for calculating cap impacts of trades
-    return [];
+  static isVoteClosed(review: TradeReview, now: Date): boolean {
+    return !!review.deadline && now.getTime() >= review.deadline.getTime();
   }
 }
 
@@ -0,0 +1,48 @@
+import { DraftPickInventory } from './domain';
+import { Pick } from '@fantasy-football-dynasty/types';
+
+describe('DraftPickInventory', () => {
+  const traded: Pick = {
+    id: 'league-1_2028_1_team-1',
+    leagueId: 'league-1',
+    year: 2028,
+    round: 1,
+    originalTeamId: 'team-1',
+    currentTeamId: 'team-2',
+  };
+
+  it('covers the next three drafts and this year until its draft starts', () => {
+    expect(DraftPickInventory.getDraftYears(2027, true)).toEqual([
+      2027, 2028, 2029, 2030,
+    ]);
+    expect(DraftPickInventory.getDraftYears(2027, false)).toEqual([
+      2028, 2029, 2030,
+    ]);
+  });
+
+  it('builds every team a pick per round in each draft', () => {
+    const picks = DraftPickInventory.buildInventory(
+      [traded],
+      'league-1',
+      ['team-1', 'team-2'],
+      [2028, 2029, 2030],
+      2
+    );
+
+    expect(picks).toHaveLength(12);
+    expect(picks).toContain(traded);
+    expect(picks.map((pick) => pick.id)).toContain('league-1_2030_2_team-2');
+  });
+
+  it('keeps traded picks with the team that holds them', () => {
+    expect(DraftPickInventory.getOwner([traded], 2028, 1, 'team-1')).toBe(
+      'team-2'
+    );
+    expect(DraftPickInventory.getOwner([traded], 2028, 2, 'team-1')).toBe(
+      'team-1'
+    );
+    expect(DraftPickInventory.getOwner([traded], 2029, 1, 'team-1')).toBe(
+      'team-1'
+    );
+  });
+});
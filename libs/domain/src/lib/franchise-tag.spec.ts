@@ -0,0 +1,145 @@
+import { CapLedgerService, CapMath, FranchiseTagCalculator } from './domain';
+import {
+  Contract,
+  FranchiseTag,
+  Position,
+} from '@fantasy-football-dynasty/types';
+
+describe('FranchiseTagCalculator', () => {
+  const rules = FranchiseTagCalculator.getRules({
+    franchiseTopSalaries: 2,
+    transitionTopSalaries: 3,
+    windowStart: '02-15',
+    windowEnd: '03-05',
+    matchWindowHours: 48,
+  });
+
+  const createMockContract = (overrides: Partial<Contract> = {}): Contract => ({
+    id: 'contract-1',
+    playerId: 'player-1',
+    teamId: 'team-1',
+    startYear: 2025,
+    endYear: 2026,
+    baseSalary: { 2025: 10000000, 2026: 10000000 },
+    signingBonus: 0,
+    guarantees: [],
+    noTradeClause: false,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  const createMockTag = (
+    overrides: Partial<FranchiseTag> = {}
+  ): FranchiseTag => ({
+    id: 'tag-1',
+    playerId: 'player-9',
+    teamId: 'team-1',
+    leagueId: 'league-1',
+    tagType: 'franchise',
+    position: 'WR',
+    contractValue: 20000000,
+    contractId: 'tag-contract-1',
+    year: 2026,
+    status: 'active',
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  const salaries = [30000000, 20000000, 10000000, 4000000];
+  const contracts = salaries.map((salary, index) =>
+    createMockContract({
+      id: `contract-${index}`,
+      playerId: `player-${index}`,
+      baseSalary: { 2025: salary, 2026: salary },
+    })
+  );
+  const positions: Record<string, Position> = {
+    'player-0': 'WR',
+    'player-1': 'WR',
+    'player-2': 'WR',
+    'player-3': 'QB',
+  };
+
+  it('should average the top cap hits at the position', () => {
+    expect(
+      FranchiseTagCalculator.calculateTagValues(
+        contracts,
+        positions,
+        2026,
+        rules
+      )
+    ).toEqual([
+      { position: 'QB', franchise: 4000000, transition: 4000000 },
+      { position: 'WR', franchise: 25000000, transition: 20000000 },
+    ]);
+  });
+
+  it('should only allow tags inside the offseason window', () => {
+    expect(
+      FranchiseTagCalculator.isWithinTagWindow(new Date(2026, 1, 20), rules)
+    ).toBe(true);
+    expect(
+      FranchiseTagCalculator.isWithinTagWindow(new Date(2026, 2, 6), rules)
+    ).toBe(false);
+  });
+
+  it('should allow one tag per team per offseason', () => {
+    const expired = [
+      createMockContract({ playerId: 'player-5', endYear: 2025 }),
+    ];
+
+    const errors = FranchiseTagCalculator.validateTag(
+      'team-1',
+      'player-5',
+      2026,
+      [createMockTag()],
+      expired,
+      20000000,
+      50000000,
+      new Date(2026, 1, 20),
+      rules
+    );
+
+    expect(errors).toEqual(['Team has already used its tag this offseason']);
+  });
+
+  it('should only tag players whose contract has expired', () => {
+    const errors = FranchiseTagCalculator.validateTag(
+      'team-1',
+      'player-1',
+      2026,
+      [],
+      [createMockContract()],
+      20000000,
+      50000000,
+      new Date(2026, 1, 20),
+      rules
+    );
+
+    expect(errors).toContain(
+      'Only players whose contract with the team has expired can be tagged'
+    );
+  });
+
+  it('should create a one-year fully guaranteed tender', () => {
+    const contract = FranchiseTagCalculator.createTagContract(createMockTag());
+
+    expect(contract).toMatchObject({
+      startYear: 2026,
+      endYear: 2026,
+      tagType: 'franchise',
+    });
+    expect(CapMath.calculateCapHit(contract, 2026)).toBe(20000000);
+    expect(CapMath.calculateGuaranteedMoney(contract, 2026)).toBe(20000000);
+  });
+
+  it('should credit the tender back without dead money when withdrawn', () => {
+    const contract = FranchiseTagCalculator.createTagContract(createMockTag());
+    const entries = [
+      ...CapLedgerService.createContractEntries(contract),
+      ...FranchiseTagCalculator.createTenderVoidEntries(contract),
+    ];
+
+    expect(CapLedgerService.calculateNetCapCharge(entries, 2026)).toBe(0);
+  });
+});
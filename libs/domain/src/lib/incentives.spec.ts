@@ -0,0 +1,98 @@
+import { CapMath, IncentiveCalculator } from './domain';
+import { Contract, ContractIncentive } from '@fantasy-football-dynasty/types';
+
+describe('IncentiveCalculator', () => {
+  const stats = [
+    { year: 2025, rawStats: { receiving_yds: 600 } },
+    { year: 2025, rawStats: { receiving_yds: 500 } },
+    { year: 2026, rawStats: { receiving_yds: 700 } },
+  ];
+
+  const yardsIncentive: ContractIncentive = {
+    id: 'yards-1000',
+    year: 2026,
+    stat: 'receiving_yds',
+    threshold: 1000,
+    amount: 2000000,
+  };
+  const sacksIncentive: ContractIncentive = {
+    id: 'sacks-10',
+    year: 2026,
+    stat: 'sacks',
+    threshold: 10,
+    amount: 1000000,
+  };
+
+  const createMockContract = (incentives: ContractIncentive[]): Contract => ({
+    id: 'contract-1',
+    playerId: 'player-1',
+    teamId: 'team-1',
+    startYear: 2026,
+    endYear: 2027,
+    baseSalary: { 2026: 5000000, 2027: 6000000 },
+    signingBonus: 0,
+    guarantees: [],
+    noTradeClause: false,
+    incentives,
+    createdAt: new Date(),
+  });
+
+  it('should classify incentives from the prior season', () => {
+    const incentives = IncentiveCalculator.classifyIncentives(
+      [yardsIncentive, sacksIncentive],
+      stats,
+      2026
+    );
+
+    expect(incentives.map((incentive) => incentive.classification)).toEqual([
+      'likely',
+      'unlikely',
+    ]);
+  });
+
+  it('should count only likely incentives against the cap', () => {
+    const contract = createMockContract(
+      IncentiveCalculator.classifyIncentives(
+        [yardsIncentive, sacksIncentive],
+        stats,
+        2026
+      )
+    );
+
+    expect(CapMath.calculateCapHit(contract, 2026)).toBe(7000000);
+    expect(CapMath.calculateCapHit(contract, 2027)).toBe(6000000);
+  });
+
+  it('should credit unearned likely incentives and charge earned unlikely ones next year', () => {
+    const contract = createMockContract([
+      { ...yardsIncentive, classification: 'likely' },
+      {
+        ...sacksIncentive,
+        stat: 'receiving_yds',
+        threshold: 500,
+        classification: 'unlikely',
+      },
+    ]);
+    const settlements = IncentiveCalculator.settleIncentives(
+      contract,
+      stats,
+      2026
+    );
+    const entries = IncentiveCalculator.createSettlementEntries(
+      contract,
+      settlements
+    );
+
+    expect(settlements.map((settlement) => settlement.capAdjustment)).toEqual([
+      -2000000, 1000000,
+    ]);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      leagueYear: 2027,
+      capIn: 2000000,
+      capOut: 0,
+      refType: 'incentive',
+    });
+    expect(entries[1]).toMatchObject({ capIn: 0, capOut: 1000000 });
+  });
+});
@@ -0,0 +1,107 @@
+import { LeagueCalendarPlanner } from './domain';
+import {
+  LeagueCalendarEvent,
+  LeaguePhase,
+} from '@fantasy-football-dynasty/types';
+
+describe('LeagueCalendarPlanner', () => {
+  const createMockEvent = (
+    overrides: Partial<LeagueCalendarEvent> = {}
+  ): LeagueCalendarEvent => ({
+    id: 'draft',
+    type: 'draft',
+    startsAt: new Date('2026-05-01T00:00:00Z'),
+    ...overrides,
+  });
+
+  const events = [
+    createMockEvent(),
+    createMockEvent({
+      id: 'faWeek_1',
+      type: 'faWeek',
+      weekNumber: 1,
+      startsAt: new Date('2026-06-01T00:00:00Z'),
+    }),
+    createMockEvent({
+      id: 'tradeDeadline',
+      type: 'tradeDeadline',
+      startsAt: new Date('2026-11-01T00:00:00Z'),
+    }),
+    createMockEvent({
+      id: 'playoffs',
+      type: 'playoffs',
+      startsAt: new Date('2026-12-15T00:00:00Z'),
+    }),
+  ];
+
+  it('should require milestones to follow the season order', () => {
+    expect(LeagueCalendarPlanner.validateEvents(events)).toEqual([]);
+    expect(
+      LeagueCalendarPlanner.validateEvents([
+        createMockEvent({ startsAt: new Date('2026-07-01T00:00:00Z') }),
+        events[1],
+        createMockEvent({
+          id: 'tradeDeadline',
+          type: 'tradeDeadline',
+          startsAt: new Date('2026-12-20T00:00:00Z'),
+        }),
+        events[3],
+      ])
+    ).toEqual([
+      'Rookie Draft must come before FA Week 1',
+      'Trade Deadline must come before Playoffs Begin',
+    ]);
+  });
+
+  it('should fire due events in order and step toward their phase', () => {
+    const now = new Date('2026-06-15T00:00:00Z');
+    const due = LeagueCalendarPlanner.getDueEvents(
+      [events[1], { ...events[0], firedAt: now }, events[2]],
+      now
+    );
+
+    expect(due.map((event) => event.id)).toEqual(['faWeek_1']);
+    expect(LeagueCalendarPlanner.getTargetPhase('faWeek')).toBe(
+      LeaguePhase['free-agency']
+    );
+    expect(
+      LeagueCalendarPlanner.getPhasePath(
+        'offseason',
+        LeaguePhase['free-agency']
+      )
+    ).toEqual([LeaguePhase.draft, LeaguePhase['free-agency']]);
+    expect(
+      LeagueCalendarPlanner.getPhasePath('playoffs', LeaguePhase.draft)
+    ).toEqual([]);
+  });
+
+  it('should export the calendar as an iCalendar feed', () => {
+    const ics = LeagueCalendarPlanner.toICalendar(
+      'league-1',
+      'Dynasty, League',
+      [events[0]],
+      new Date('2026-04-01T12:30:00Z')
+    );
+
+    expect(ics.split('\r\n')).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Fantasy Football Dynasty//League Calendar//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Dynasty\\, League',
+      'BEGIN:VEVENT',
+      'UID:draft@league-1',
+      'DTSTAMP:20260401T123000Z',
+      'DTSTART:20260501T000000Z',
+      'DTEND:20260501T010000Z',
+      'SUMMARY:Dynasty\\, League: Rookie Draft',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ]);
+    expect(LeagueCalendarPlanner.toIanaTimezone('PST')).toBe(
+      'America/Los_Angeles'
+    );
+  });
+});
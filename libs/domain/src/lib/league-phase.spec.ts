@@ -0,0 +1,81 @@
+import { LeaguePhaseMachine } from './domain';
+import {
+  LeaguePhase,
+  PhaseTransitionContext,
+} from '@fantasy-football-dynasty/types';
+
+describe('LeaguePhaseMachine', () => {
+  const createMockContext = (
+    overrides: Partial<PhaseTransitionContext> = {}
+  ): PhaseTransitionContext => ({
+    teamCount: 12,
+    draftComplete: true,
+    unresolvedRights: 0,
+    openBids: 0,
+    pendingMatches: 0,
+    teamsOverCap: 0,
+    ...overrides,
+  });
+
+  it('should only allow moving to the next phase', () => {
+    expect(
+      LeaguePhaseMachine.validateTransition(
+        'offseason',
+        LeaguePhase.draft,
+        createMockContext()
+      )
+    ).toEqual([]);
+    expect(
+      LeaguePhaseMachine.validateTransition(
+        'offseason',
+        LeaguePhase['free-agency'],
+        createMockContext()
+      )
+    ).toEqual(['Cannot move from offseason to free-agency']);
+    expect(LeaguePhaseMachine.getNextPhase('completed')).toBeUndefined();
+  });
+
+  it('should block transitions until their preconditions are met', () => {
+    expect(
+      LeaguePhaseMachine.validateTransition(
+        'draft',
+        LeaguePhase['free-agency'],
+        createMockContext({ draftComplete: false, unresolvedRights: 2 })
+      )
+    ).toHaveLength(2);
+    expect(
+      LeaguePhaseMachine.validateTransition(
+        'free-agency',
+        LeaguePhase.preseason,
+        createMockContext({ openBids: 3 })
+      )
+    ).toHaveLength(1);
+    expect(
+      LeaguePhaseMachine.validateTransition(
+        'preseason',
+        LeaguePhase['regular-season'],
+        createMockContext({ teamsOverCap: 1 })
+      )
+    ).toHaveLength(1);
+  });
+
+  it('should gate actions by phase and treat legacy phases as the draft', () => {
+    expect(LeaguePhaseMachine.normalizePhase('post-draft')).toBe('draft');
+    expect(LeaguePhaseMachine.normalizePhase(undefined)).toBe('offseason');
+    expect(LeaguePhaseMachine.isActionAllowed('drafting', 'draftPick')).toBe(
+      true
+    );
+    expect(
+      LeaguePhaseMachine.isActionAllowed('regular-season', 'freeAgencyBid')
+    ).toBe(false);
+    expect(
+      LeaguePhaseMachine.isActionAllowed('completed', 'seasonRollover')
+    ).toBe(true);
+    expect(
+      LeaguePhaseMachine.isActionAllowed('regular-season', 'settleIncentives')
+    ).toBe(false);
+    expect(
+      LeaguePhaseMachine.isActionAllowed('completed', 'settleIncentives')
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,95 @@
+import { MinimumSpendCalculator } from './domain';
+import { CapLedger, Contract } from '@fantasy-football-dynasty/types';
+
+describe('MinimumSpendCalculator', () => {
+  const createMockContract = (overrides: Partial<Contract> = {}): Contract => ({
+    id: 'contract-1',
+    playerId: 'player-1',
+    teamId: 'team-1',
+    startYear: 2025,
+    endYear: 2027,
+    baseSalary: { 2025: 10000000, 2026: 12000000, 2027: 14000000 },
+    signingBonus: 6000000,
+    guarantees: [],
+    noTradeClause: false,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  const deadMoneyEntry: CapLedger = {
+    id: 'contract-2_cut_2026',
+    teamId: 'team-1',
+    leagueYear: 2026,
+    capIn: 0,
+    capOut: 3000000,
+    reason: 'Dead money',
+    refType: 'cut',
+    refId: 'contract-2',
+    createdAt: new Date(),
+  };
+
+  it('should count the signing bonus as cash in the year signed', () => {
+    const contracts = [createMockContract()];
+
+    expect(MinimumSpendCalculator.calculateCashSpend(contracts, [], 2025)).toBe(
+      16000000
+    );
+    expect(MinimumSpendCalculator.calculateCashSpend(contracts, [], 2026)).toBe(
+      12000000
+    );
+  });
+
+  it('should count restructure conversions and dead money instead of released salaries', () => {
+    const contracts = [
+      createMockContract({
+        baseSalary: { 2025: 10000000, 2026: 4000000, 2027: 14000000 },
+        restructures: [
+          {
+            id: 'restructure-1',
+            year: 2026,
+            amount: 8000000,
+            prorationYears: 2,
+            createdAt: new Date(),
+          },
+        ],
+      }),
+      createMockContract({
+        id: 'contract-2',
+        status: 'released',
+        releasedYear: 2026,
+      }),
+    ];
+
+    expect(
+      MinimumSpendCalculator.calculateCashSpend(
+        contracts,
+        [deadMoneyEntry],
+        2026
+      )
+    ).toBe(15000000);
+  });
+
+  it('should flag the shortfall and charge it to next year', () => {
+    const status = MinimumSpendCalculator.evaluateTeam(
+      'team-1',
+      [createMockContract()],
+      [deadMoneyEntry],
+      2026,
+      20000000
+    );
+
+    expect(status).toMatchObject({
+      cashSpend: 15000000,
+      shortfall: 5000000,
+      isCompliant: false,
+    });
+    expect(MinimumSpendCalculator.createCapPenaltyEntry(status)).toMatchObject({
+      leagueYear: 2027,
+      capOut: 5000000,
+      refType: 'penalty',
+    });
+    expect(
+      MinimumSpendCalculator.createPickForfeiture('league-1', status, 2)
+    ).toMatchObject({ teamId: 'team-1', year: 2027, round: 2 });
+  });
+});
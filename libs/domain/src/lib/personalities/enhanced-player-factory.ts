@@ -37,11 +37,19 @@ export class EnhancedPlayerFactory {
       this.locationData = this.getDefaultLocationData();
     } catch (error) {
       console.warn('Could not load personality types, using defaults');
-      this.personalityTypes = this.getDefaultPersonalityTypes();
-      this.locationData = this.getDefaultLocationData();
+      this.initializeDefaults();
     }
   }
 
+  /**
+   * Initialize the factory from the built-in defaults, where the personality
+   * types asset is not served
+   */
+  static initializeDefaults(): void {
+    this.personalityTypes = this.getDefaultPersonalityTypes();
+    this.locationData = this.getDefaultLocationData();
+  }
+
   /**
    * Create an enhanced player from a base player
    */
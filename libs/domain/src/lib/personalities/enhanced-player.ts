@@ -359,6 +359,8 @@ export interface ContractOffer {
   guaranteedAmount: number;
   signingBonus: number;
   performanceIncentives: PerformanceIncentive[];
+  teamOptionYears?: number; // option years the team controls after the term
+  playerOptionYears?: number; // option years the player controls after the term
   teamQuality: number; // 0.0 - 1.0: How good the team is
   locationMatch: number; // 0.0 - 1.0: How well location matches preferences
 }
@@ -532,7 +534,7 @@ export function calculateLocationMatchScore(
   // Check each location preference
   for (const preference of player.locationPreferences) {
     let preferenceScore = 0;
-    let preferenceWeight = preference.weight;
+    const preferenceWeight = preference.weight;
 
     // Handle preference types that don't require specific arrays
     if (preference.type === 'tax_conscious') {
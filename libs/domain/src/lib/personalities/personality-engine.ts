@@ -1,5 +1,6 @@
 import {
   EnhancedPlayer,
+  EnhancedPlayerUtils,
   ContractOffer,
   TeamLocation,
   MarketConditions,
@@ -129,7 +130,14 @@ export class PersonalityEngine {
         weights.locationPriority * locationTerm) /
       totalWeight;
 
-    return Math.max(0.0, Math.min(1.0, baseScore));
+    // Security-minded players who want length resist team-controlled years
+    const teamOptionPenalty =
+      (offer.teamOptionYears || 0) *
+      weights.lengthPriority *
+      (1 - this.getRiskToleranceValue(player)) *
+      0.1;
+
+    return Math.max(0.0, Math.min(1.0, baseScore - teamOptionPenalty));
   }
 
   /**
@@ -156,14 +164,20 @@ export class PersonalityEngine {
   }
 
   /**
-   * Calculate length term: clamp(offered_years / desired_years, 0, 1)
+   * Calculate length term: clamp(offered_years / desired_years, 0, 1).
+   * Player option years count as secured length; team option years only
+   * count as far as the player is willing to gamble on them.
    */
   private static calculateLengthTerm(
     offer: ContractOffer,
     player: EnhancedPlayer
   ): number {
     const desiredYears = this.calculateDesiredYears(player);
-    const ratio = offer.years / desiredYears;
+    const offeredYears =
+      offer.years +
+      (offer.playerOptionYears || 0) +
+      (offer.teamOptionYears || 0) * this.getRiskToleranceValue(player);
+    const ratio = offeredYears / desiredYears;
 
     // Clamp to [0, 1] - prefer shorter deals for most players
     return Math.max(0.0, Math.min(1.0, ratio));
@@ -350,20 +364,44 @@ export class PersonalityEngine {
   }
 
   /**
-   * Check if player would accept a trade to the given team
+   * Check if player would accept a trade to the given team, weighing the
+   * team's competitiveness and location by how much the player cares about
+   * winning and where he plays
    */
-  static wouldAcceptTrade(player: EnhancedPlayer, teamCity: string): boolean {
-    // In fantasy football, trades are league decisions, not player preferences
-    // Players can be traded to any team regardless of their personality
-    return true;
+  static wouldAcceptTrade(
+    player: EnhancedPlayer,
+    team: TeamLocation,
+    minScore = 0.5
+  ): boolean {
+    const { winningPriority, locationPriority } = player.personality.weights;
+    const totalWeight = winningPriority + locationPriority;
+    if (totalWeight === 0) return true;
+
+    const winningTerm = team.isContender ? 0.9 : team.isStable ? 0.6 : 0.3;
+    const locationTerm = EnhancedPlayerUtils.calculateLocationMatch(
+      player,
+      team
+    );
+    const score =
+      (winningPriority * winningTerm + locationPriority * locationTerm) /
+      totalWeight;
+
+    return score >= minScore;
   }
 
   /**
-   * Check if player would require extension on trade
+   * Check if player would require extension on trade. The roll is seeded by
+   * the player and league year, so he answers the same way all season.
    */
-  static wouldRequireExtensionOnTrade(player: EnhancedPlayer): boolean {
+  static wouldRequireExtensionOnTrade(
+    player: EnhancedPlayer,
+    leagueYear: number
+  ): boolean {
     const tradePrefs = player.personality.tradePreferences;
-    return Math.random() < tradePrefs.requiresExtensionProbability;
+    return (
+      this.seededRandom(`${player.id}:${leagueYear}`) <
+      tradePrefs.requiresExtensionProbability
+    );
   }
 
   /**
@@ -517,7 +555,7 @@ export class PersonalityEngine {
     switch (decision.decision) {
       case 'accept':
         return this.generateAcceptanceFeedback(player, context);
-      case 'reject':
+      case 'reject': {
         const rejectTemplate = this.selectRandomTemplate(
           templates.rejectLowOffer
         );
@@ -527,7 +565,8 @@ export class PersonalityEngine {
           context,
           finalScore
         );
-      case 'counter':
+      }
+      case 'counter': {
         const counterTemplate = this.selectRandomTemplate(
           templates.counterOffer
         );
@@ -537,6 +576,7 @@ export class PersonalityEngine {
           context,
           finalScore
         );
+      }
       case 'holdout':
         return this.selectRandomTemplate(templates.holdoutWarning);
       case 'shortlist':
@@ -722,6 +762,21 @@ export class PersonalityEngine {
     return baseAAV;
   }
 
+  private static getRiskToleranceValue(player: EnhancedPlayer): number {
+    switch (player.personality.traits.riskTolerance) {
+      case 'very_low':
+        return 0.1;
+      case 'low':
+        return 0.3;
+      case 'high':
+        return 0.7;
+      case 'very_high':
+        return 0.9;
+      default:
+        return 0.5;
+    }
+  }
+
   private static calculateDesiredYears(player: EnhancedPlayer): number {
     // Younger players prefer longer deals, older players prefer shorter
     if (player.age < 25) return 4;
@@ -752,6 +807,18 @@ export class PersonalityEngine {
     }
   }
 
+  // FNV-1a hash of the seed with a murmur3 finalizer, scaled to [0, 1)
+  private static seededRandom(seed: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+      hash ^= seed.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+    hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+    return ((hash ^ (hash >>> 16)) >>> 0) / 0x100000000;
+  }
+
   private static selectRandomTemplate(templates: string[]): string {
     if (templates.length === 0) return "I'm considering my options.";
     return templates[Math.floor(Math.random() * templates.length)];
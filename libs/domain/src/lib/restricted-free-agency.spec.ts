@@ -0,0 +1,134 @@
+import { CapMath, RestrictedFreeAgencyCalculator } from './domain';
+import { Contract, QualifyingOffer } from '@fantasy-football-dynasty/types';
+
+describe('RestrictedFreeAgencyCalculator', () => {
+  const rules = RestrictedFreeAgencyCalculator.getRules({
+    maxYearsExp: 3,
+    tenderRaisePct: 0.1,
+    minimumTender: 1000000,
+    matchWindowHours: 48,
+  });
+
+  const createMockContract = (overrides: Partial<Contract> = {}): Contract => ({
+    id: 'contract-1',
+    playerId: 'player-1',
+    teamId: 'team-1',
+    startYear: 2023,
+    endYear: 2025,
+    baseSalary: { 2023: 2000000, 2024: 3000000, 2025: 4000000 },
+    signingBonus: 0,
+    guarantees: [],
+    noTradeClause: false,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  const createMockOffer = (
+    overrides: Partial<QualifyingOffer> = {}
+  ): QualifyingOffer => ({
+    id: 'qo-1',
+    playerId: 'player-1',
+    teamId: 'team-1',
+    leagueId: 'league-1',
+    position: 'WR',
+    year: 2026,
+    offerAmount: 4400000,
+    contractId: 'qo-1_tender',
+    expiresAt: new Date(2026, 11, 31),
+    status: 'pending',
+    createdAt: new Date(2026, 2, 1),
+    ...overrides,
+  });
+
+  it('should tender the final-year cap hit plus the raise', () => {
+    expect(
+      RestrictedFreeAgencyCalculator.calculateQualifyingOffer(
+        [createMockContract()],
+        'team-1',
+        2026,
+        rules
+      )
+    ).toBe(4400000);
+  });
+
+  it('should never tender below the league minimum', () => {
+    expect(
+      RestrictedFreeAgencyCalculator.calculateQualifyingOffer(
+        [createMockContract({ baseSalary: { 2025: 500000 } })],
+        'team-1',
+        2026,
+        rules
+      )
+    ).toBe(1000000);
+  });
+
+  it('should only tender restricted players whose contract has expired', () => {
+    const errors = RestrictedFreeAgencyCalculator.validateQualifyingOffer(
+      'team-1',
+      'player-1',
+      5,
+      2025,
+      [],
+      [createMockContract()],
+      4400000,
+      50000000,
+      rules
+    );
+
+    expect(errors).toEqual([
+      'Only players with 3 or fewer accrued seasons are restricted free agents',
+      'Only players whose contract with the team has expired can be tendered',
+    ]);
+  });
+
+  it('should not tender a player twice in one offseason', () => {
+    const errors = RestrictedFreeAgencyCalculator.validateQualifyingOffer(
+      'team-1',
+      'player-1',
+      3,
+      2026,
+      [createMockOffer()],
+      [createMockContract()],
+      4400000,
+      50000000,
+      rules
+    );
+
+    expect(errors).toEqual(['Player has already been tendered this offseason']);
+  });
+
+  it('should create a one-year non-guaranteed tender', () => {
+    const contract = RestrictedFreeAgencyCalculator.createTenderContract(
+      createMockOffer()
+    );
+
+    expect(CapMath.calculateCapHit(contract, 2026)).toBe(4400000);
+    expect(CapMath.calculateGuaranteedMoney(contract, 2026)).toBe(0);
+  });
+
+  it('should only allow offer sheets from other teams while the tender is open', () => {
+    const offer = createMockOffer();
+
+    expect(
+      RestrictedFreeAgencyCalculator.canSignOfferSheet(
+        offer,
+        'team-2',
+        new Date(2026, 3, 1)
+      )
+    ).toBe(true);
+    expect(
+      RestrictedFreeAgencyCalculator.canSignOfferSheet(
+        offer,
+        'team-1',
+        new Date(2026, 3, 1)
+      )
+    ).toBe(false);
+    expect(
+      RestrictedFreeAgencyCalculator.canSignOfferSheet(
+        { ...offer, status: 'matched' },
+        'team-2',
+        new Date(2026, 3, 1)
+      )
+    ).toBe(false);
+  });
+});
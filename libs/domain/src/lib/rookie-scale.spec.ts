@@ -0,0 +1,133 @@
+import { CapMath, RookieScaleCalculator } from './domain';
+import { Contract, Position } from '@fantasy-football-dynasty/types';
+
+describe('RookieScaleCalculator', () => {
+  const salaryCap = 200000000;
+  const rules = RookieScaleCalculator.getRules({
+    slotValues: { 1: 6000000 },
+    years: 3,
+    annualRaisePct: 0.05,
+    signingBonusPct: 0.25,
+    optionWindowStart: '03-01',
+    optionWindowEnd: '05-02',
+    optionTopSalaries: 2,
+  });
+
+  const createRookieContract = (pickNumber = 1): Contract =>
+    RookieScaleCalculator.createRookieContract(
+      'rookie-1',
+      'player-1',
+      'team-1',
+      pickNumber,
+      12,
+      2025,
+      rules,
+      salaryCap
+    );
+
+  it('should use the league table before the generated scale', () => {
+    expect(RookieScaleCalculator.getSlotValue(1, rules, salaryCap)).toBe(
+      6000000
+    );
+    expect(RookieScaleCalculator.getSlotValue(2, rules, salaryCap)).toBe(
+      4800000
+    );
+  });
+
+  it('should pay earlier picks more and never drop below the floor', () => {
+    const values = [1, 12, 48, 200].map((pick) =>
+      RookieScaleCalculator.getDefaultSlotValue(pick, salaryCap)
+    );
+
+    expect(values[0]).toBeGreaterThan(values[1]);
+    expect(values[1]).toBeGreaterThan(values[2]);
+    expect(values[3]).toBe(750000);
+  });
+
+  it('should create a three-year contract slotted by overall pick', () => {
+    const contract = createRookieContract(14);
+
+    expect(contract).toMatchObject({
+      startYear: 2025,
+      endYear: 2027,
+      rookieContract: { pickNumber: 14, round: 2 },
+    });
+    expect(CapMath.calculateCapHit(contract, 2025)).toBeCloseTo(
+      RookieScaleCalculator.getSlotValue(14, rules, salaryCap),
+      -1
+    );
+  });
+
+  it('should only allow the option for first-rounders in their final year', () => {
+    const date = new Date(2027, 3, 1);
+
+    expect(
+      RookieScaleCalculator.validateFifthYearOption(
+        createRookieContract(1),
+        2027,
+        date,
+        rules
+      )
+    ).toEqual([]);
+    expect(
+      RookieScaleCalculator.validateFifthYearOption(
+        createRookieContract(14),
+        2027,
+        date,
+        rules
+      )
+    ).toEqual(['Only first-round rookie contracts have a fifth-year option']);
+    expect(
+      RookieScaleCalculator.validateFifthYearOption(
+        createRookieContract(1),
+        2027,
+        new Date(2027, 6, 1),
+        rules
+      )
+    ).toEqual([
+      'The fifth-year option can only be decided between 03-01 and 05-02',
+    ]);
+  });
+
+  it('should price the option year at the top salaries at the position', () => {
+    const contracts: Contract[] = [30000000, 20000000, 10000000].map(
+      (salary, index) => ({
+        id: `contract-${index}`,
+        playerId: `player-${index + 2}`,
+        teamId: 'team-2',
+        startYear: 2027,
+        endYear: 2027,
+        baseSalary: { 2027: salary },
+        signingBonus: 0,
+        guarantees: [],
+        noTradeClause: false,
+        createdAt: new Date(),
+      })
+    );
+    const positions: Record<string, Position> = {
+      'player-2': 'WR',
+      'player-3': 'WR',
+      'player-4': 'WR',
+    };
+    const optionSalary = RookieScaleCalculator.calculateOptionSalary(
+      contracts,
+      positions,
+      'WR',
+      2027,
+      rules
+    );
+    const option = RookieScaleCalculator.createOptionContract(
+      createRookieContract(1),
+      optionSalary
+    );
+
+    expect(optionSalary).toBe(25000000);
+    expect(option).toMatchObject({
+      startYear: 2028,
+      endYear: 2028,
+      extendsContractId: 'rookie-1',
+      rookieContract: { fifthYearOption: 'exercised' },
+    });
+    expect(CapMath.calculateGuaranteedMoney(option, 2028)).toBe(25000000);
+  });
+});
@@ -0,0 +1,106 @@
+import { SeasonRolloverCalculator } from './domain';
+import { Contract, Pick } from '@fantasy-football-dynasty/types';
+
+describe('SeasonRolloverCalculator', () => {
+  const createMockContract = (overrides: Partial<Contract> = {}): Contract => ({
+    id: 'contract-1',
+    playerId: 'player-1',
+    teamId: 'team-1',
+    startYear: 2025,
+    endYear: 2026,
+    baseSalary: { 2025: 5000000, 2026: 5000000 },
+    signingBonus: 0,
+    guarantees: [],
+    noTradeClause: false,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  it('should expire contracts ending this year unless the player is kept on', () => {
+    const expiring = createMockContract();
+    const extended = createMockContract({
+      id: 'contract-2',
+      playerId: 'player-2',
+    });
+    const extension = createMockContract({
+      id: 'contract-3',
+      playerId: 'player-2',
+      startYear: 2027,
+      endYear: 2029,
+      extendsContractId: 'contract-2',
+    });
+    const released = createMockContract({
+      id: 'contract-4',
+      playerId: 'player-3',
+      status: 'released',
+    });
+
+    expect(
+      SeasonRolloverCalculator.getExpiringContracts(
+        [expiring, extended, extension, released],
+        2026
+      ).map((contract) => contract.id)
+    ).toEqual(['contract-1']);
+  });
+
+  it('should develop young players by grade and decline players past their peak', () => {
+    expect(
+      SeasonRolloverCalculator.progressPlayer({
+        id: 'player-1',
+        position: 'WR',
+        age: 23,
+        overall: 84,
+        devGrade: 'B',
+        yearsExp: 1,
+      })
+    ).toEqual({
+      playerId: 'player-1',
+      age: 24,
+      yearsExp: 2,
+      overall: 87,
+      devGrade: 'B',
+      previousOverall: 84,
+      previousDevGrade: 'B',
+    });
+
+    expect(
+      SeasonRolloverCalculator.progressPlayer({
+        id: 'player-2',
+        position: 'RB',
+        age: 29,
+        overall: 88,
+        devGrade: 'B',
+      })
+    ).toMatchObject({ age: 30, overall: 84, devGrade: 'D' });
+  });
+
+  it('should keep traded picks with their new owner', () => {
+    const traded: Pick = {
+      id: 'league-1_2027_1_team-1',
+      leagueId: 'league-1',
+      year: 2027,
+      round: 1,
+      originalTeamId: 'team-1',
+      currentTeamId: 'team-2',
+    };
+
+    const picks = SeasonRolloverCalculator.carryOverPicks(
+      [traded],
+      'league-1',
+      ['team-1', 'team-2'],
+      2027,
+      2
+    );
+
+    expect(picks).toHaveLength(4);
+    expect(picks[0]).toBe(traded);
+    expect(picks[1]).toEqual({
+      id: 'league-1_2027_1_team-2',
+      leagueId: 'league-1',
+      year: 2027,
+      round: 1,
+      originalTeamId: 'team-2',
+      currentTeamId: 'team-2',
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { TradeConsentEvaluator } from './trade-consent';
+import { EnhancedPlayerFactory } from './personalities';
+import { EnhancedPlayer, TeamLocation } from './personalities/enhanced-player';
+import { Player } from '@fantasy-football-dynasty/types';
+
+describe('TradeConsentEvaluator', () => {
+  const mockPlayer: Player = {
+    id: 'player-1',
+    name: 'Test Player',
+    nflTeam: 'DAL',
+    position: 'WR',
+    age: 29,
+    devGrade: 'B',
+    overall: 82,
+    yearsExp: 7,
+    traits: {
+      speed: 80,
+      strength: 60,
+      agility: 80,
+      awareness: 70,
+      injury: 20,
+      schemeFit: [],
+    },
+    stats: [],
+  };
+
+  const contender: TeamLocation = {
+    teamId: 'team-2',
+    city: 'Miami',
+    state: 'FL',
+    timezone: 'EST',
+    marketSize: 'large',
+    climate: 'warm',
+    isContender: true,
+    isStable: true,
+    taxRate: 0,
+  };
+  const rebuilding: TeamLocation = {
+    ...contender,
+    teamId: 'team-3',
+    isContender: false,
+    isStable: false,
+  };
+
+  // Winning-only player with fixed trade preferences so responses are deterministic
+  let player: EnhancedPlayer;
+  const withExtensionChance = (probability: number): EnhancedPlayer => ({
+    ...player,
+    personality: {
+      ...player.personality,
+      tradePreferences: {
+        ...player.personality.tradePreferences,
+        requiresExtensionProbability: probability,
+      },
+    },
+  });
+
+  beforeAll(async () => {
+    await EnhancedPlayerFactory.initialize();
+    const enhanced = EnhancedPlayerFactory.createEnhancedPlayer(
+      mockPlayer,
+      2025
+    );
+
+    player = {
+      ...enhanced,
+      locationPreferences: [],
+      personality: {
+        ...enhanced.personality,
+        weights: {
+          moneyPriority: 0,
+          winningPriority: 1,
+          locationPriority: 0,
+          guaranteePriority: 0,
+          lengthPriority: 0,
+        },
+        tradePreferences: {
+          requiresExtensionProbability: 0,
+          reportingDelayIfUnhappy: 3,
+          tradeDeadlineBehavior: 'accept_quickly',
+          extensionTerms: {
+            minYears: 3,
+            minGuaranteedPct: 0.7,
+            apyMultiplier: 1.1,
+          },
+        },
+      },
+    };
+  });
+
+  it('should refuse to waive a no-trade clause for a team he would not join', () => {
+    expect(
+      TradeConsentEvaluator.evaluate(player, rebuilding, true, 2025)
+    ).toEqual({
+      playerId: 'player-1',
+      toTeamId: 'team-3',
+      decision: 'decline',
+      reportingDelayDays: 0,
+    });
+    expect(
+      TradeConsentEvaluator.evaluate(player, contender, true, 2025).decision
+    ).toBe('consent');
+  });
+
+  it('should waive a no-trade clause on condition of an extension', () => {
+    expect(
+      TradeConsentEvaluator.evaluate(withExtensionChance(1), contender, true)
+    ).toEqual({
+      playerId: 'player-1',
+      toTeamId: 'team-2',
+      decision: 'extension',
+      reportingDelayDays: 0,
+      extensionTerms: {
+        minYears: 3,
+        minGuaranteedPct: 0.7,
+        apyMultiplier: 1.1,
+      },
+    });
+  });
+
+  it('should give the same extension answer all season', () => {
+    const evenChance = withExtensionChance(0.5);
+    const decisions = [2025, 2026, 2027, 2028, 2029, 2030].map(
+      (leagueYear) =>
+        TradeConsentEvaluator.evaluate(evenChance, contender, true, leagueYear)
+          .decision
+    );
+
+    expect(
+      TradeConsentEvaluator.evaluate(evenChance, contender, true, 2025).decision
+    ).toBe(decisions[0]);
+    expect(decisions.every((decision) => decision === decisions[0])).toBe(
+      false
+    );
+  });
+
+  it('should report late to an unwanted team without a no-trade clause', () => {
+    expect(
+      TradeConsentEvaluator.evaluate(withExtensionChance(1), rebuilding, false)
+    ).toEqual({
+      playerId: 'player-1',
+      toTeamId: 'team-3',
+      decision: 'consent',
+      reportingDelayDays: 3,
+    });
+    expect(
+      TradeConsentEvaluator.evaluate(player, contender, false, 2025)
+        .reportingDelayDays
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,94 @@
+import { TradeReviewPolicy } from './domain';
+
+describe('TradeReviewPolicy', () => {
+  const now = new Date('2026-10-01T12:00:00Z');
+  const tradeTeamIds = ['team-1', 'team-2'];
+  const leagueTeamIds = ['team-1', 'team-2', 'team-3', 'team-4', 'team-5'];
+
+  it('skips review when the league does not review trades', () => {
+    expect(
+      TradeReviewPolicy.startReview(undefined, tradeTeamIds, leagueTeamIds, now)
+    ).toBeUndefined();
+    expect(
+      TradeReviewPolicy.startReview(
+        { review: 'none' },
+        tradeTeamIds,
+        leagueTeamIds,
+        now
+      )
+    ).toBeUndefined();
+  });
+
+  it('starts a commissioner review without a vote', () => {
+    const review = TradeReviewPolicy.startReview(
+      { review: 'commissioner' },
+      tradeTeamIds,
+      leagueTeamIds,
+      now
+    );
+
+    expect(review).toMatchObject({
+      mode: 'commissioner',
+      eligibleTeamIds: [],
+      vetoesNeeded: 0,
+    });
+    expect(review?.deadline).toBeUndefined();
+  });
+
+  it('opens a veto vote for the teams outside the trade', () => {
+    const review = TradeReviewPolicy.startReview(
+      { review: 'leagueVote', vetoThreshold: 0.5, vetoWindowHours: 24 },
+      tradeTeamIds,
+      leagueTeamIds,
+      now
+    );
+
+    expect(review?.eligibleTeamIds).toEqual(['team-3', 'team-4', 'team-5']);
+    expect(review?.vetoesNeeded).toBe(2);
+    expect(review?.deadline).toEqual(new Date('2026-10-02T12:00:00Z'));
+  });
+
+  it('overturns the trade once enough teams veto', () => {
+    const review = TradeReviewPolicy.startReview(
+      { review: 'leagueVote' },
+      tradeTeamIds,
+      leagueTeamIds,
+      now
+    );
+    expect(review).toBeDefined();
+    if (!review) return;
+
+    review.vetoTeamIds.push('team-3');
+    expect(TradeReviewPolicy.isVetoed(review)).toBe(false);
+
+    review.vetoTeamIds.push('team-4');
+    expect(TradeReviewPolicy.isVetoed(review)).toBe(true);
+  });
+
+  it('rejects vetoes from involved teams, repeat votes and late votes', () => {
+    const review = TradeReviewPolicy.startReview(
+      { review: 'leagueVote', vetoWindowHours: 48 },
+      tradeTeamIds,
+      leagueTeamIds,
+      now
+    );
+    expect(review).toBeDefined();
+    if (!review) return;
+
+    review.vetoTeamIds.push('team-3');
+
+    expect(TradeReviewPolicy.validateVeto(review, 'team-4', now)).toEqual([]);
+    expect(TradeReviewPolicy.validateVeto(review, 'team-1', now)).toContain(
+      'Only teams outside the trade can veto it'
+    );
+    expect(TradeReviewPolicy.validateVeto(review, 'team-3', now)).toContain(
+      'Team has already vetoed this trade'
+    );
+
+    const late = new Date('2026-10-03T12:00:00Z');
+    expect(TradeReviewPolicy.isVoteClosed(review, late)).toBe(true);
+    expect(TradeReviewPolicy.validateVeto(review, 'team-4', late)).toContain(
+      'The veto window has closed'
+    );
+  });
+});
@@ -0,0 +1,508 @@
+import { RosterValidator, TradeValidator } from './domain';
+import {
+  CapLedger,
+  Contract,
+  RosterSlot,
+  TradeConsent,
+  TradePayload,
+} from '@fantasy-football-dynasty/types';
+
+describe('TradeValidator', () => {
+  const teamIds = ['team-1', 'team-2'];
+  const payload: TradePayload = {
+    assets: [
+      {
+        type: 'player',
+        id: 'player-1',
+        fromTeamId: 'team-1',
+        toTeamId: 'team-2',
+      },
+      {
+        type: 'pick',
+        id: 'league-1_2027_1_team-1',
+        fromTeamId: 'team-1',
+        toTeamId: 'team-2',
+      },
+      {
+        type: 'player',
+        id: 'player-2',
+        fromTeamId: 'team-2',
+        toTeamId: 'team-1',
+      },
+    ],
+  };
+
+  it('should reject empty trades and repeated assets', () => {
+    expect(TradeValidator.validateTrade(payload, teamIds)).toEqual([]);
+    expect(TradeValidator.validateTrade({ assets: [] }, teamIds)).toEqual([
+      'Trade must include at least one asset',
+    ]);
+    expect(
+      TradeValidator.validateTrade(
+        {
+          assets: [
+            {
+              type: 'player',
+              id: 'player-1',
+              fromTeamId: 'team-1',
+              toTeamId: 'team-2',
+            },
+            {
+              type: 'player',
+              id: 'player-1',
+              fromTeamId: 'team-2',
+              toTeamId: 'team-1',
+            },
+          ],
+        },
+        teamIds
+      )
+    ).toEqual(['Trade cannot include the same asset twice']);
+  });
+
+  it('should require every asset to move between participating teams', () => {
+    expect(
+      TradeValidator.validateTrade(
+        {
+          assets: [
+            {
+              type: 'player',
+              id: 'player-1',
+              fromTeamId: 'team-1',
+              toTeamId: 'team-3',
+            },
+            {
+              type: 'player',
+              id: 'player-2',
+              fromTeamId: 'team-2',
+              toTeamId: 'team-2',
+            },
+          ],
+        },
+        teamIds
+      )
+    ).toEqual([
+      'Trade assets must move between teams in the trade',
+      'Trade assets must move to a different team',
+    ]);
+  });
+
+  it('should require every team in a three-team trade to take part', () => {
+    const threeTeamPayload: TradePayload = {
+      assets: [
+        {
+          type: 'player',
+          id: 'player-1',
+          fromTeamId: 'team-1',
+          toTeamId: 'team-2',
+        },
+        {
+          type: 'pick',
+          id: 'pick-1',
+          fromTeamId: 'team-2',
+          toTeamId: 'team-3',
+        },
+        {
+          type: 'player',
+          id: 'player-3',
+          fromTeamId: 'team-3',
+          toTeamId: 'team-1',
+        },
+      ],
+    };
+
+    expect(
+      TradeValidator.validateTrade(threeTeamPayload, [
+        'team-1',
+        'team-2',
+        'team-3',
+      ])
+    ).toEqual([]);
+    expect(
+      TradeValidator.validateTrade(payload, ['team-1', 'team-2', 'team-3'])
+    ).toEqual(['Every team in a trade must send or receive an asset']);
+    expect(TradeValidator.getSentAssets(threeTeamPayload, 'team-2')).toEqual([
+      threeTeamPayload.assets[1],
+    ]);
+    expect(
+      TradeValidator.getReceivedAssets(threeTeamPayload, 'team-2')
+    ).toEqual([threeTeamPayload.assets[0]]);
+  });
+
+  it('should validate retained salary and cap space', () => {
+    const retention = {
+      type: 'cap' as const,
+      id: 'retain_player-1',
+      fromTeamId: 'team-1',
+      toTeamId: 'team-2',
+      playerId: 'player-1',
+      value: 0.5,
+    };
+
+    expect(
+      TradeValidator.validateTrade(
+        { assets: [...payload.assets, retention] },
+        teamIds
+      )
+    ).toEqual([]);
+    expect(
+      TradeValidator.validateTrade(
+        {
+          assets: [
+            ...payload.assets,
+            {
+              ...retention,
+              value: 1,
+              toTeamId: 'team-1',
+              fromTeamId: 'team-2',
+            },
+          ],
+        },
+        teamIds
+      )
+    ).toEqual([
+      'Retained salary must be between 0% and 100%',
+      'Salary can only be retained on a player sent to the same team',
+    ]);
+    expect(
+      TradeValidator.validateTrade(
+        {
+          assets: [
+            ...payload.assets,
+            {
+              type: 'cap',
+              id: 'space_team-2',
+              fromTeamId: 'team-2',
+              toTeamId: 'team-1',
+              value: 5000000,
+            },
+          ],
+        },
+        teamIds
+      )
+    ).toEqual(['Cap space sent in a trade needs a year and an amount']);
+    expect(
+      TradeValidator.validateCapAssets(
+        { assets: [...payload.assets, retention] },
+        [],
+        2026
+      )
+    ).toEqual(['Player player-1 has no contract to retain salary on']);
+  });
+
+  it('should require traded players with a no-trade clause to consent', () => {
+    const contract: Contract = {
+      id: 'contract-1',
+      playerId: 'player-1',
+      teamId: 'team-1',
+      startYear: 2025,
+      endYear: 2027,
+      baseSalary: { 2025: 5000000, 2026: 5000000, 2027: 5000000 },
+      signingBonus: 0,
+      guarantees: [],
+      noTradeClause: true,
+      createdAt: new Date(),
+    };
+    const consent: TradeConsent = {
+      playerId: 'player-1',
+      toTeamId: 'team-2',
+      decision: 'extension',
+      reportingDelayDays: 0,
+    };
+
+    expect(
+      TradeValidator.validateConsents(payload, [consent], [contract])
+    ).toEqual([]);
+    expect(TradeValidator.validateConsents(payload, [], [contract])).toEqual([
+      'Player player-1 must agree to waive his no-trade clause',
+    ]);
+    expect(
+      TradeValidator.validateConsents(
+        payload,
+        [{ ...consent, decision: 'decline' }],
+        [contract]
+      )
+    ).toEqual(['Player player-1 will not waive his no-trade clause']);
+    expect(
+      TradeValidator.validateConsents(
+        payload,
+        [],
+        [{ ...contract, noTradeClause: false }]
+      )
+    ).toEqual([]);
+  });
+
+  it('should hold a late-reporting player out of the lineup', () => {
+    const tradedAt = new Date('2026-09-01T12:00:00Z');
+    const reportsOn = TradeValidator.getReportingDate(
+      {
+        playerId: 'player-1',
+        toTeamId: 'team-2',
+        decision: 'consent',
+        reportingDelayDays: 2,
+      },
+      tradedAt
+    );
+
+    expect(reportsOn).toEqual(new Date('2026-09-03T12:00:00Z'));
+    expect(TradeValidator.getReportingDate(undefined, tradedAt)).toBe(
+      undefined
+    );
+
+    const slot: RosterSlot = {
+      id: 'slot-1',
+      teamId: 'team-2',
+      playerId: 'player-1',
+      position: 'WR',
+      status: 'bench',
+      activeFrom: tradedAt,
+      reportsOn,
+    };
+    expect(
+      RosterValidator.isAvailableForLineup(
+        slot,
+        new Date('2026-09-02T12:00:00Z')
+      )
+    ).toBe(false);
+    expect(
+      RosterValidator.isAvailableForLineup(
+        slot,
+        new Date('2026-09-03T12:00:00Z')
+      )
+    ).toBe(true);
+  });
+
+  it('should count only players toward roster size', () => {
+    expect(
+      TradeValidator.getRosterSizeAfterTrade(
+        25,
+        TradeValidator.getSentAssets(payload, 'team-1'),
+        TradeValidator.getReceivedAssets(payload, 'team-1')
+      )
+    ).toBe(25);
+    expect(
+      TradeValidator.getRosterSizeAfterTrade(
+        25,
+        [],
+        [
+          {
+            type: 'player',
+            id: 'player-3',
+            fromTeamId: 'team-2',
+            toTeamId: 'team-1',
+          },
+          {
+            type: 'player',
+            id: 'player-4',
+            fromTeamId: 'team-2',
+            toTeamId: 'team-1',
+          },
+        ]
+      )
+    ).toBe(27);
+  });
+
+  it('should detect open trades that share an asset', () => {
+    expect(
+      TradeValidator.sharesAssets(payload, {
+        assets: [
+          {
+            type: 'pick',
+            id: 'league-1_2027_1_team-1',
+            fromTeamId: 'team-1',
+            toTeamId: 'team-3',
+          },
+        ],
+      })
+    ).toBe(true);
+    expect(
+      TradeValidator.sharesAssets(payload, {
+        assets: [
+          {
+            type: 'player',
+            id: 'player-3',
+            fromTeamId: 'team-3',
+            toTeamId: 'team-1',
+          },
+          {
+            type: 'pick',
+            id: 'league-1_2027_2_team-2',
+            fromTeamId: 'team-2',
+            toTeamId: 'team-3',
+          },
+        ],
+      })
+    ).toBe(false);
+  });
+
+  describe('calculateTradeCapImpact', () => {
+    const contract: Contract = {
+      id: 'contract-1',
+      playerId: 'player-1',
+      teamId: 'team-1',
+      startYear: 2025,
+      endYear: 2028,
+      baseSalary: {
+        2025: 10000000,
+        2026: 12000000,
+        2027: 14000000,
+        2028: 16000000,
+      },
+      signingBonus: 8000000,
+      guarantees: [],
+      noTradeClause: false,
+      createdAt: new Date(),
+    };
+    const trade = {
+      payload: {
+        assets: [
+          {
+            type: 'player' as const,
+            id: 'player-1',
+            fromTeamId: 'team-1',
+            toTeamId: 'team-2',
+          },
+          {
+            type: 'pick' as const,
+            id: 'pick-1',
+            fromTeamId: 'team-2',
+            toTeamId: 'team-1',
+          },
+        ],
+      },
+    };
+
+    it('should accelerate the remaining bonus proration onto the trading team', () => {
+      expect(
+        TradeValidator.calculateTradeCapImpact(trade, [contract], 2026, {
+          preJune1: true,
+          signingBonusAcceleration: true,
+        })
+      ).toEqual([
+        { teamId: 'team-1', year: 2026, impact: -8000000 },
+        { teamId: 'team-2', year: 2026, impact: 12000000 },
+        { teamId: 'team-1', year: 2027, impact: -16000000 },
+        { teamId: 'team-2', year: 2027, impact: 14000000 },
+        { teamId: 'team-1', year: 2028, impact: -18000000 },
+        { teamId: 'team-2', year: 2028, impact: 16000000 },
+      ]);
+    });
+
+    it('should leave bonus proration in its own years without acceleration', () => {
+      expect(
+        TradeValidator.calculateTradeCapImpact(trade, [contract], 2026, {
+          preJune1: true,
+          signingBonusAcceleration: false,
+        })
+      ).toEqual([
+        { teamId: 'team-1', year: 2026, impact: -12000000 },
+        { teamId: 'team-2', year: 2026, impact: 12000000 },
+        { teamId: 'team-1', year: 2027, impact: -14000000 },
+        { teamId: 'team-2', year: 2027, impact: 14000000 },
+        { teamId: 'team-1', year: 2028, impact: -16000000 },
+        { teamId: 'team-2', year: 2028, impact: 16000000 },
+      ]);
+    });
+
+    it('should charge retained salary and traded cap space to the sending team', () => {
+      expect(
+        TradeValidator.calculateTradeCapImpact(
+          {
+            payload: {
+              assets: [
+                ...trade.payload.assets,
+                {
+                  type: 'cap',
+                  id: 'retain_player-1',
+                  fromTeamId: 'team-1',
+                  toTeamId: 'team-2',
+                  playerId: 'player-1',
+                  value: 0.25,
+                },
+                {
+                  type: 'cap',
+                  id: 'space_team-2_2027',
+                  fromTeamId: 'team-2',
+                  toTeamId: 'team-1',
+                  year: 2027,
+                  value: 5000000,
+                },
+              ],
+            },
+          },
+          [contract],
+          2026,
+          { preJune1: true, signingBonusAcceleration: false }
+        )
+      ).toEqual([
+        { teamId: 'team-1', year: 2026, impact: -9000000 },
+        { teamId: 'team-2', year: 2026, impact: 9000000 },
+        { teamId: 'team-1', year: 2027, impact: -15500000 },
+        { teamId: 'team-2', year: 2027, impact: 15500000 },
+        { teamId: 'team-1', year: 2028, impact: -12000000 },
+        { teamId: 'team-2', year: 2028, impact: 12000000 },
+      ]);
+    });
+
+    it('should ignore contracts the sending team does not hold', () => {
+      expect(
+        TradeValidator.calculateTradeCapImpact(
+          trade,
+          [{ ...contract, status: 'released' }],
+          2026,
+          { preJune1: true, signingBonusAcceleration: true }
+        )
+      ).toEqual([]);
+    });
+  });
+
+  it('should report cap space before and after a trade for each changed year', () => {
+    const ledger: CapLedger[] = [
+      {
+        id: 'entry-1',
+        teamId: 'team-2',
+        leagueYear: 2026,
+        capIn: 0,
+        capOut: 190000000,
+        reason: 'Contract',
+        refType: 'contract',
+        refId: 'contract-2',
+        createdAt: new Date(),
+      },
+    ];
+
+    expect(
+      TradeValidator.getCapPositions(
+        'team-2',
+        ledger,
+        [
+          { teamId: 'team-1', year: 2026, impact: -8000000 },
+          { teamId: 'team-2', year: 2026, impact: 12000000 },
+          { teamId: 'team-2', year: 2027, impact: 14000000 },
+        ],
+        2026,
+        200000000,
+        0.05
+      )
+    ).toEqual([
+      {
+        teamId: 'team-2',
+        year: 2026,
+        salaryCap: 200000000,
+        capChargeBefore: 190000000,
+        capChargeAfter: 202000000,
+        capSpaceBefore: 10000000,
+        capSpaceAfter: -2000000,
+      },
+      {
+        teamId: 'team-2',
+        year: 2027,
+        salaryCap: 210000000,
+        capChargeBefore: 0,
+        capChargeAfter: 14000000,
+        capSpaceBefore: 210000000,
+        capSpaceAfter: 196000000,
+      },
+    ]);
+  });
+});